@@ -26,8 +26,9 @@ FASTAPI_SRC="$CORE_ROOT/src/kits/fastapi/standard/templates"
 FASTAPI_DEST="$NPM_ROOT/templates/kits/fastapi-standard"
 
 if [ -d "$FASTAPI_SRC" ]; then
-  rm -rf "$FASTAPI_DEST"
   mkdir -p "$FASTAPI_DEST"
+  # Keep the npm-side kit manifest (kit.yaml); everything else mirrors Python Core.
+  find "$FASTAPI_DEST" -mindepth 1 -maxdepth 1 ! -name kit.yaml -exec rm -rf {} +
   cp -r "$FASTAPI_SRC"/* "$FASTAPI_DEST/"
   echo "✅ FastAPI Standard kit synced"
 else
@@ -40,8 +41,9 @@ FASTAPI_DDD_SRC="$CORE_ROOT/src/kits/fastapi/ddd/templates"
 FASTAPI_DDD_DEST="$NPM_ROOT/templates/kits/fastapi-ddd"
 
 if [ -d "$FASTAPI_DDD_SRC" ]; then
-  rm -rf "$FASTAPI_DDD_DEST"
   mkdir -p "$FASTAPI_DDD_DEST"
+  # Keep the npm-side kit manifest (kit.yaml); everything else mirrors Python Core.
+  find "$FASTAPI_DDD_DEST" -mindepth 1 -maxdepth 1 ! -name kit.yaml -exec rm -rf {} +
   cp -r "$FASTAPI_DDD_SRC"/* "$FASTAPI_DDD_DEST/"
   echo "✅ FastAPI DDD kit synced"
 else
@@ -54,8 +56,9 @@ NESTJS_SRC="$CORE_ROOT/src/kits/nestjs/standard/templates"
 NESTJS_DEST="$NPM_ROOT/templates/kits/nestjs-standard"
 
 if [ -d "$NESTJS_SRC" ]; then
-  rm -rf "$NESTJS_DEST"
   mkdir -p "$NESTJS_DEST"
+  # Keep the npm-side kit manifest (kit.yaml); everything else mirrors Python Core.
+  find "$NESTJS_DEST" -mindepth 1 -maxdepth 1 ! -name kit.yaml -exec rm -rf {} +
   cp -r "$NESTJS_SRC"/* "$NESTJS_DEST/"
   echo "✅ NestJS kit synced"
 else
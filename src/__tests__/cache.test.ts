@@ -1,5 +1,25 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { Cache, getCachedOrFetch } from '../utils/cache.js';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  Cache,
+  getCachedOrFetch,
+  loadWorkspaceCacheConfig,
+  parseCacheConfig,
+  parseCacheSize,
+  parseCacheTtl,
+} from '../utils/cache.js';
+
+const loadUserConfigMock = vi.hoisted(() => vi.fn());
+
+vi.mock('../config.js', () => ({
+  loadUserConfig: loadUserConfigMock,
+}));
+
+beforeEach(() => {
+  loadUserConfigMock.mockResolvedValue({});
+});
 
 describe('Cache', () => {
   let cache: Cache;
@@ -165,6 +185,205 @@ describe('Cache', () => {
   });
 });
 
+describe('Cache maintenance', () => {
+  let cache: Cache;
+
+  const entryFiles = async (directory: string): Promise<string[]> =>
+    (await fs.readdir(directory)).filter((file) => !file.startsWith('.'));
+
+  beforeEach(async () => {
+    cache = Cache.getInstance();
+    await cache.clear();
+  });
+
+  afterEach(async () => {
+    await cache.clear();
+  });
+
+  it('reports entries, bytes and hit/miss counters per namespace', async () => {
+    await cache.set('kit-a', { a: 1 }, '1.0', { namespace: 'kits' });
+    await cache.set('plain', { b: 2 });
+
+    await cache.get('kit-a', '1.0', { namespace: 'kits' });
+    await cache.get('missing', '1.0', { namespace: 'kits' });
+
+    const stats = await cache.stats();
+
+    expect(stats.entries).toBe(2);
+    expect(stats.bytes).toBeGreaterThan(0);
+    expect(stats.namespaces.kits).toMatchObject({ entries: 1, hits: 1, misses: 1, expired: 0 });
+    expect(stats.namespaces.default.entries).toBe(1);
+  });
+
+  it('buffers hit/miss counters and leaves the disk alone on memory hits', async () => {
+    await cache.set('kit-a', { a: 1 }, '1.0', { namespace: 'kits' });
+    await cache.get('missing', '1.0', { namespace: 'kits' });
+    const { directory } = await cache.stats();
+    const [entryFile] = await entryFiles(directory);
+    const past = new Date(Date.now() - 60_000);
+    await fs.utimes(path.join(directory, entryFile), past, past);
+    const statsBefore = await fs.readFile(path.join(directory, '.stats.json'), 'utf-8');
+
+    await cache.get('kit-a', '1.0', { namespace: 'kits' });
+    await cache.get('kit-a', '1.0', { namespace: 'kits' });
+    await cache.get('missing', '1.0', { namespace: 'kits' });
+
+    expect((await fs.stat(path.join(directory, entryFile))).mtimeMs).toBeCloseTo(
+      past.getTime(),
+      -1
+    );
+    expect(await fs.readFile(path.join(directory, '.stats.json'), 'utf-8')).toBe(statsBefore);
+    expect((await cache.stats()).namespaces.kits).toMatchObject({ hits: 2, misses: 2 });
+    expect((await fs.readdir(directory)).filter((file) => file.endsWith('.tmp'))).toEqual([]);
+  });
+
+  it('prunes expired, corrupt and old-format entries but keeps fresh ones', async () => {
+    await cache.set('fresh', { ok: true });
+    await cache.set('short-lived', { ok: true }, '1.0', { ttlMs: -1 });
+    const { directory } = await cache.stats();
+    await fs.writeFile(path.join(directory, 'corrupt.json'), '{not json', 'utf-8');
+    await fs.writeFile(
+      path.join(directory, 'legacy.json'),
+      JSON.stringify({ data: 1, timestamp: Date.now(), version: '1.0' }),
+      'utf-8'
+    );
+
+    const result = await cache.prune();
+
+    expect(result.scanned).toBe(4);
+    expect(result.removed).toBe(3);
+    expect(result.reasons).toEqual({ expired: 1, versionMismatch: 1, corrupt: 1 });
+    expect(await entryFiles(directory)).toHaveLength(1);
+    expect(await cache.get('fresh')).toEqual({ ok: true });
+  });
+
+  it('repairs tampered entries only when integrity verification is on', async () => {
+    await cache.set('tampered', { value: 'original' });
+    const { directory } = await cache.stats();
+    const [file] = await entryFiles(directory);
+    const entryPath = path.join(directory, file);
+    const entry = JSON.parse(await fs.readFile(entryPath, 'utf-8'));
+    await fs.writeFile(entryPath, JSON.stringify({ ...entry, data: { value: 'edited' } }), 'utf-8');
+
+    expect(await cache.repair()).toEqual({ scanned: 1, removed: 0, rehashed: 0 });
+    expect(await cache.repair({ verifyIntegrity: true })).toEqual({
+      scanned: 1,
+      removed: 1,
+      rehashed: 0,
+    });
+    expect(await entryFiles(directory)).toHaveLength(0);
+  });
+
+  it('parses cache-config.yml at the top level or under a cache section', () => {
+    expect(parseCacheConfig('strategy: isolated\nprune_on_bootstrap: true\n')).toMatchObject({
+      strategy: 'isolated',
+      prune_on_bootstrap: true,
+      self_heal: true,
+    });
+    expect(
+      parseCacheConfig('cache:\n  verify_integrity: true\n  self_heal: false\n')
+    ).toMatchObject({
+      verify_integrity: true,
+      self_heal: false,
+    });
+    expect(parseCacheConfig(': : not yaml')).toMatchObject({ strategy: 'shared' });
+  });
+});
+
+describe('Cache namespaces and quota', () => {
+  let cache: Cache;
+
+  beforeEach(async () => {
+    cache = Cache.getInstance();
+    await cache.clear();
+  });
+
+  afterEach(async () => {
+    cache.configure({ maxSizeBytes: null, namespaceTtls: {} });
+    await cache.clear();
+  });
+
+  it('applies per-namespace TTLs with configured overrides', async () => {
+    cache.configure({ namespaceTtls: { 'update-checks': 60_000 } });
+    expect(cache.getNamespaceTtl('runtime-warmup')).toBe(7 * 24 * 60 * 60 * 1000);
+    expect(cache.getNamespaceTtl('custom')).toBe(24 * 60 * 60 * 1000);
+
+    const now = Date.now();
+    const dateNowSpy = vi.spyOn(Date, 'now').mockReturnValue(now);
+    await cache.set('latest', '1.2.3', '1.0', { namespace: 'update-checks' });
+    await cache.set('latest', '1.2.3', '1.0', { namespace: 'runtime-warmup' });
+
+    dateNowSpy.mockReturnValue(now + 2 * 60_000);
+    expect(await cache.get('latest', '1.0', { namespace: 'update-checks' })).toBeNull();
+    expect(await cache.get('latest', '1.0', { namespace: 'runtime-warmup' })).toBe('1.2.3');
+    dateNowSpy.mockRestore();
+  });
+
+  it('evicts least recently used entries when the quota is exceeded', async () => {
+    const payload = 'x'.repeat(400);
+    await cache.set('first', payload);
+    await cache.set('second', payload);
+    const { directory, bytes } = await cache.stats();
+
+    // Make "first" the most recently used entry.
+    const past = new Date(Date.now() - 60_000);
+    for (const file of await fs.readdir(directory)) {
+      if (!file.startsWith('.')) await fs.utimes(path.join(directory, file), past, past);
+    }
+    await cache.get('first');
+
+    cache.configure({ maxSizeBytes: bytes });
+    await cache.set('third', payload);
+
+    expect(await cache.get('second')).toBeNull();
+    expect(await cache.get('first')).toBe(payload);
+    expect(await cache.get('third')).toBe(payload);
+    expect((await cache.stats()).bytes).toBeLessThanOrEqual(bytes);
+  });
+
+  it('parses sizes and durations', () => {
+    expect(parseCacheSize('500MB')).toBe(500 * 1024 * 1024);
+    expect(parseCacheSize('2 GiB')).toBe(2 * 1024 ** 3);
+    expect(parseCacheSize(1024)).toBe(1024);
+    expect(parseCacheSize('lots')).toBeNull();
+    expect(parseCacheTtl('30m')).toBe(30 * 60 * 1000);
+    expect(parseCacheTtl('7d')).toBe(7 * 24 * 60 * 60 * 1000);
+    expect(parseCacheTtl(90)).toBe(90_000);
+    expect(parseCacheTtl('soon')).toBeNull();
+  });
+
+  it('layers workspace cache-config.yml over ~/.rapidkitrc.json', async () => {
+    const workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'rapidkit-cache-config-'));
+    try {
+      loadUserConfigMock.mockResolvedValue({
+        cache: {
+          max_size: '1GB',
+          namespaces: { 'modules-catalog': { ttl: '1h' }, 'update-checks': '2h' },
+        },
+      });
+      await fs.mkdir(path.join(workspace, '.rapidkit'));
+      await fs.writeFile(
+        path.join(workspace, '.rapidkit', 'cache-config.yml'),
+        'cache:\n  max_size: 200MB\n  tasks:\n    max_size: 50MB\n  namespaces:\n    modules-catalog:\n      ttl: 10m\n',
+        'utf-8'
+      );
+
+      const cfg = await loadWorkspaceCacheConfig(workspace);
+
+      expect(cfg.max_size_bytes).toBe(200 * 1024 * 1024);
+      expect(cfg.namespace_ttls).toEqual({
+        'modules-catalog': 10 * 60 * 1000,
+        'update-checks': 2 * 60 * 60 * 1000,
+      });
+      expect(cfg.task_max_size_bytes).toBe(50 * 1024 * 1024);
+      expect((await loadWorkspaceCacheConfig(null)).max_size_bytes).toBe(1024 ** 3);
+      expect((await loadWorkspaceCacheConfig(null)).task_max_size_bytes).toBe(1024 ** 3);
+    } finally {
+      await fs.rm(workspace, { recursive: true, force: true });
+    }
+  });
+});
+
 describe('getCachedOrFetch', () => {
   let cache: Cache;
 
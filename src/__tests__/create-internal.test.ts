@@ -6,6 +6,7 @@ import { promises as fsPromises } from 'fs';
 import { createProject } from '../create';
 import { getPythonCommand } from '../utils';
 import { DirectoryExistsError } from '../errors';
+import { defaultWorkspacePolicyYaml } from '../utils/workspace-policy';
 
 vi.mock('fs-extra');
 vi.mock('execa');
@@ -907,7 +908,7 @@ describe('Create Module - Internal Functions', () => {
 
       expect(fsExtra.outputFile).toHaveBeenCalledWith(
         expect.stringMatching(/[\\/]\.rapidkit[\\/]policies\.yml$/),
-        expect.any(String),
+        defaultWorkspacePolicyYaml(),
         'utf-8'
       );
 
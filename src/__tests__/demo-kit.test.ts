@@ -190,6 +190,39 @@ describe('Demo Kit Generator', () => {
       // This test verifies the directory is created successfully
     });
 
+    it('should render every template the kit manifest selects', async () => {
+      const dddPath = path.join(testDir, 'ddd-project');
+      await generateDemoKit(dddPath, {
+        project_name: 'ddd_project',
+        kit_name: 'fastapi.ddd',
+        skipGit: true,
+      });
+      await expect(fs.stat(path.join(dddPath, 'src', 'app', 'main.py'))).resolves.toBeTruthy();
+      expect(await fs.readFile(path.join(dddPath, 'pyproject.toml'), 'utf-8')).toContain(
+        'python = "^3.10"'
+      );
+
+      const nestPath = path.join(testDir, 'nest-project');
+      await generateDemoKit(nestPath, {
+        project_name: 'nest-project',
+        kit_name: 'nestjs.standard',
+        skipGit: true,
+        skipInstall: true,
+      });
+      await expect(fs.stat(path.join(nestPath, '.env.example'))).resolves.toBeTruthy();
+      await expect(fs.stat(path.join(nestPath, 'src', 'auth'))).rejects.toThrow();
+    });
+
+    it('should reject variables outside the kit manifest schema', async () => {
+      await expect(
+        generateDemoKit(path.join(testDir, 'bad-pm'), {
+          project_name: 'bad_pm',
+          kit_name: 'nestjs.standard',
+          package_manager: 'bun',
+        })
+      ).rejects.toThrow('Invalid variables for kit "nestjs.standard"');
+    });
+
     // NOTE: Python Core 0.2.2+ no longer generates .rapidkit folder
     // Projects now use the global RapidKit CLI instead of project-local CLI files
 
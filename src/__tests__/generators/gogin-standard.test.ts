@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { generateGoGinKit } from '../../generators/gogin-standard.js';
+import { generateGoGinKit, renderGoGinFiles } from '../../generators/gogin-standard.js';
+import { snapshotKitFiles } from '../../generators/kit-baseline.js';
 import { promises as fs } from 'fs';
 import path from 'path';
 import os from 'os';
@@ -258,7 +259,7 @@ describe('generateGoGinKit', () => {
         await fs.readFile(path.join(projectPath, '.rapidkit/project.json'), 'utf8')
       );
       expect(projectJson.kit_name).toBe('gogin.standard');
-      expect(projectJson.module_support).toBe(false);
+      expect(projectJson.module_support).toBe(true);
     });
 
     it('should generate Makefile with dev and test targets', async () => {
@@ -430,6 +431,119 @@ describe('generateGoGinKit', () => {
     });
   });
 
+  describe('in-memory render', () => {
+    it('should render exactly the files the generator writes', async () => {
+      const projectPath = path.join(testDir, 'gin-render');
+      const variables = { project_name: 'gin-render', features: { redis: true } };
+      await generateGoGinKit(projectPath, { ...variables, skipGit: true });
+
+      const written = await snapshotKitFiles(projectPath, { includeState: true });
+      const rendered = renderGoGinFiles(variables);
+      const withoutTimestamp = (json: string) => ({ ...JSON.parse(json), created_at: undefined });
+
+      expect(Object.keys(rendered).sort()).toEqual(Object.keys(written).sort());
+      for (const [file, content] of Object.entries(rendered)) {
+        if (file === '.rapidkit/project.json') {
+          expect(withoutTimestamp(content)).toEqual(withoutTimestamp(written[file]));
+        } else {
+          expect(content, file).toBe(written[file]);
+        }
+      }
+    });
+  });
+
+  describe('optional features', () => {
+    const ALL_FEATURES = {
+      postgres: true,
+      redis: true,
+      jwt: true,
+      otel: true,
+      prometheus: true,
+      grpc: true,
+    };
+
+    it('should not generate feature files by default', async () => {
+      const projectPath = path.join(testDir, 'gin-plain');
+      await generateGoGinKit(projectPath, { project_name: 'gin-plain', skipGit: true });
+
+      for (const dir of ['internal/database', 'internal/cache', 'internal/grpcserver']) {
+        await expect(fs.access(path.join(projectPath, dir))).rejects.toThrow();
+      }
+      const compose = await fs.readFile(path.join(projectPath, 'docker-compose.yml'), 'utf-8');
+      expect(compose).not.toContain('postgres');
+      const meta = JSON.parse(
+        await fs.readFile(path.join(projectPath, '.rapidkit', 'project.json'), 'utf-8')
+      );
+      expect(meta.features).toEqual([]);
+    });
+
+    it('should generate code, tests and wiring for every enabled feature', async () => {
+      const projectPath = path.join(testDir, 'gin-features');
+      await generateGoGinKit(projectPath, {
+        project_name: 'gin-features',
+        skipGit: true,
+        features: ALL_FEATURES,
+      });
+      const read = (file: string) => fs.readFile(path.join(projectPath, file), 'utf-8');
+
+      for (const file of [
+        'internal/database/database.go',
+        'internal/database/migrate.go',
+        'internal/database/migrations/0001_init.sql',
+        'internal/database/database_test.go',
+        'internal/cache/cache_test.go',
+        'internal/auth/token_test.go',
+        'internal/middleware/jwt_test.go',
+        'internal/handlers/me.go',
+        'internal/telemetry/telemetry_test.go',
+        'internal/middleware/tracing.go',
+        'internal/middleware/metrics_test.go',
+        'deploy/prometheus.yml',
+        'internal/grpcserver/grpcserver_test.go',
+      ]) {
+        await expect(fs.access(path.join(projectPath, file))).resolves.toBeUndefined();
+      }
+
+      const goMod = await read('go.mod');
+      expect(goMod).toContain('github.com/jackc/pgx/v5');
+      expect(goMod).toContain('github.com/redis/go-redis/v9');
+      expect(goMod).toContain('github.com/golang-jwt/jwt/v5');
+      expect(goMod).toContain('github.com/prometheus/client_golang');
+      expect(goMod).toContain('google.golang.org/grpc');
+
+      const compose = await read('docker-compose.yml');
+      for (const image of [
+        'postgres:16-alpine',
+        'redis:7-alpine',
+        'jaegertracing/all-in-one',
+        'prom/prometheus',
+      ]) {
+        expect(compose).toContain(image);
+      }
+      expect(compose).toContain('50051');
+
+      const env = await read('.env.example');
+      for (const key of [
+        'DATABASE_URL=',
+        'REDIS_URL=',
+        'JWT_SECRET=',
+        'OTEL_SERVICE_NAME=',
+        'GRPC_PORT=',
+      ]) {
+        expect(env).toContain(key);
+      }
+
+      expect(await read('internal/server/server.go')).toContain(
+        'r.GET("/metrics", middleware.MetricsHandler())'
+      );
+      expect(await read('cmd/server/main.go')).toContain('grpcserver.New()');
+      expect(await read('README.md')).toContain('## Features');
+
+      const meta = JSON.parse(await read('.rapidkit/project.json'));
+      expect(meta.features).toEqual(['postgres', 'redis', 'jwt', 'otel', 'prometheus', 'grpc']);
+    });
+  });
+
   describe('project_name handling', () => {
     it('should handle hyphenated project names', async () => {
       const projectPath = path.join(testDir, 'my-gin-service');
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import {
+  loadKitRegistry,
+  renderKitTree,
+  resolveKitVariables,
+  type RegisteredKit,
+} from '../../generators/registry.js';
+import { GO_FEATURES } from '../../generators/go-features.js';
+import { renderDemoKit } from '../../demo-kit.js';
+import { loadTemplateKits } from '../../template-kits.js';
+import {
+  REPRODUCIBLE_ENV,
+  REPRODUCIBLE_SEED_ENV,
+  enableReproducibleMode,
+} from '../../utils/reproducible.js';
+
+/**
+ * Golden snapshots of every bundled kit, rendered in reproducible mode.
+ * Kit changes show up as diffs of `__golden__/*.golden`; after reviewing
+ * them, refresh the files with `npm run test:golden -- -u`.
+ */
+
+// Keep the golden files stable across releases.
+vi.mock('../../update-checker.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../update-checker.js')>()),
+  getVersion: () => '0.0.0-golden',
+}));
+
+const GOLDEN_DIR = path.join(__dirname, '__golden__');
+const ENV_KEYS = [REPRODUCIBLE_ENV, REPRODUCIBLE_SEED_ENV, 'SOURCE_DATE_EPOCH'];
+
+/** All files in one document: a header per file, then its contents. */
+function serializeTree(files: Record<string, string>): string {
+  return Object.keys(files)
+    .sort((a, b) => a.localeCompare(b))
+    .map((file) => {
+      const content = files[file];
+      return content === '' || content.endsWith('\n')
+        ? `==> ${file} <==\n${content}`
+        : `==> ${file} <==\n${content}\n\\ No newline at end of file\n`;
+    })
+    .join('\n');
+}
+
+async function builtinKits(): Promise<RegisteredKit[]> {
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rapidkit-kit-golden-'));
+  try {
+    return (await loadKitRegistry({ cwd: tempDir, sources: [] })).kits;
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+}
+
+async function renderBuiltin(kitName: string, provided: Record<string, unknown>) {
+  const kit = (await builtinKits()).find((k) => k.name === kitName)!;
+  return renderKitTree(kit, resolveKitVariables(kit, provided));
+}
+
+async function renderTemplate(kitName: string, vars?: Record<string, unknown>) {
+  return (await renderDemoKit({ project_name: 'golden-app', kit_name: kitName, vars })).files;
+}
+
+describe('kit golden snapshots', () => {
+  let savedEnv: Record<string, string | undefined>;
+
+  beforeEach(() => {
+    savedEnv = Object.fromEntries(ENV_KEYS.map((key) => [key, process.env[key]]));
+    for (const key of ENV_KEYS) delete process.env[key];
+    enableReproducibleMode();
+  });
+
+  afterEach(() => {
+    for (const key of ENV_KEYS) {
+      if (savedEnv[key] === undefined) delete process.env[key];
+      else process.env[key] = savedEnv[key];
+    }
+  });
+
+  for (const kitName of ['gofiber.standard', 'gogin.standard']) {
+    it(`${kitName} matches its golden snapshot`, async () => {
+      const files = await renderBuiltin(kitName, {
+        project_name: 'golden-app',
+        module_path: 'github.com/acme/golden-app',
+      });
+      await expect(serializeTree(files)).toMatchFileSnapshot(
+        path.join(GOLDEN_DIR, `${kitName}.golden`)
+      );
+    });
+
+    it(`${kitName} with every feature matches its golden snapshot`, async () => {
+      const files = await renderBuiltin(kitName, {
+        project_name: 'golden-app',
+        module_path: 'github.com/acme/golden-app',
+        ...Object.fromEntries(GO_FEATURES.map((feature) => [feature, true])),
+      });
+      await expect(serializeTree(files)).toMatchFileSnapshot(
+        path.join(GOLDEN_DIR, `${kitName}+features.golden`)
+      );
+    });
+  }
+
+  it('nestjs.monorepo matches its golden snapshot', async () => {
+    const files = await renderBuiltin('nestjs.monorepo', { project_name: 'golden-app' });
+    await expect(serializeTree(files)).toMatchFileSnapshot(
+      path.join(GOLDEN_DIR, 'nestjs.monorepo.golden')
+    );
+  });
+
+  it('covers every bundled template kit', async () => {
+    expect((await loadTemplateKits()).map((kit) => kit.name).sort()).toEqual([
+      'fastapi.ddd',
+      'fastapi.standard',
+      'nestjs.standard',
+    ]);
+  });
+
+  for (const kitName of ['fastapi.ddd', 'fastapi.standard', 'nestjs.standard']) {
+    it(`${kitName} matches its golden snapshot`, async () => {
+      await expect(serializeTree(await renderTemplate(kitName))).toMatchFileSnapshot(
+        path.join(GOLDEN_DIR, `${kitName}.golden`)
+      );
+    });
+  }
+
+  it('nestjs.standard with auth matches its golden snapshot', async () => {
+    await expect(
+      serializeTree(await renderTemplate('nestjs.standard', { auth_type: 'jwt' }))
+    ).toMatchFileSnapshot(path.join(GOLDEN_DIR, 'nestjs.standard+auth.golden'));
+  });
+
+  it('renders byte-for-byte identical trees for the same epoch and seed', async () => {
+    process.env.SOURCE_DATE_EPOCH = '1700000000';
+    const first = await renderTemplate('nestjs.standard');
+    const second = await renderTemplate('nestjs.standard');
+    expect(second).toEqual(first);
+
+    const go = await renderBuiltin('gogin.standard', { project_name: 'golden-app' });
+    expect(JSON.parse(go['.rapidkit/project.json']).created_at).toBe('2023-11-14T22:13:20.000Z');
+
+    enableReproducibleMode({ seed: 'another-seed' });
+    const reseeded = await renderTemplate('nestjs.standard');
+    expect(reseeded['.env.example']).not.toBe(first['.env.example']);
+  });
+});
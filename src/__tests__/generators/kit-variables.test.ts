@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import inquirer from 'inquirer';
+import { collectKitVariables, readKitVariableFlags } from '../../generators/kit-variables.js';
+import { KitVariableError } from '../../errors.js';
+import type { KitGenerator } from '../../generators/registry.js';
+
+vi.mock('inquirer');
+
+const KIT: Pick<KitGenerator, 'name' | 'variables'> = {
+  name: 'acme.api',
+  variables: {
+    project_name: { type: 'string', required: true },
+    module_path: { type: 'string' },
+    port: { type: 'number', default: 8080 },
+    database: { type: 'string', enum: ['none', 'postgres'], default: 'none' },
+    include_caching: { type: 'boolean', default: false },
+  },
+};
+
+describe('kit variable input', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rapidkit-kit-vars-'));
+    vi.mocked(inquirer.prompt).mockReset();
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('reads repeated --var flags and --vars-file from argv', () => {
+    expect(
+      readKitVariableFlags([
+        'create',
+        'project',
+        'acme.api',
+        'svc',
+        '--var',
+        'port=9000',
+        '--var=database=postgres',
+        '--vars-file',
+        'vars.yaml',
+      ])
+    ).toEqual({ vars: ['port=9000', 'database=postgres'], varsFile: 'vars.yaml' });
+  });
+
+  it('layers defaults, the vars file and --var flags, then coerces types', async () => {
+    const varsFile = path.join(tempDir, 'vars.yaml');
+    await fs.writeFile(varsFile, 'port: 7000\ninclude_caching: true\ndatabase: none\n', 'utf-8');
+
+    const variables = await collectKitVariables(
+      KIT,
+      { vars: ['database=postgres', 'project_name=ignored'], varsFile },
+      { values: { project_name: 'svc' }, defaults: { module_path: 'svc' } }
+    );
+
+    expect(variables).toEqual({
+      project_name: 'svc',
+      module_path: 'svc',
+      port: 7000,
+      database: 'postgres',
+      include_caching: true,
+    });
+    expect(inquirer.prompt).not.toHaveBeenCalled();
+  });
+
+  it('rejects malformed assignments and values outside the schema', async () => {
+    await expect(
+      collectKitVariables(KIT, { vars: ['port'] }, { values: { project_name: 'svc' } })
+    ).rejects.toThrow(KitVariableError);
+
+    const error = await collectKitVariables(
+      KIT,
+      { vars: ['port=abc', 'database=mysql'] },
+      { values: { project_name: 'svc' } }
+    ).catch((e: KitVariableError) => e);
+    expect(error).toBeInstanceOf(KitVariableError);
+    expect((error as KitVariableError).details).toContain('port: expected a number');
+    expect((error as KitVariableError).details).toContain(
+      'database: must be one of none, postgres'
+    );
+  });
+
+  it('rejects undeclared variables from flags and the vars file', async () => {
+    const varsFile = path.join(tempDir, 'vars.yaml');
+    await fs.writeFile(varsFile, 'port: 7000\nreplicas: 3\n', 'utf-8');
+
+    const error = await collectKitVariables(
+      KIT,
+      { vars: ['databse=postgres'], varsFile },
+      { values: { project_name: 'svc' }, defaults: { module_path: 'svc', engine: 'poetry' } }
+    ).catch((e: KitVariableError) => e);
+    expect(error).toBeInstanceOf(KitVariableError);
+    expect((error as KitVariableError).details).toBe(
+      [
+        '--vars-file replicas: not declared by the kit',
+        '--var databse: not declared by the kit',
+        'Declared variables: project_name, module_path, port, database, include_caching',
+        '',
+        'Fix the values and retry.',
+      ].join('\n')
+    );
+
+    // Values the CLI supplies itself may be internal to the generator.
+    await expect(
+      collectKitVariables(KIT, { vars: [] }, { values: { project_name: 'svc', engine: 'pip' } })
+    ).resolves.toMatchObject({ project_name: 'svc', engine: 'pip' });
+  });
+
+  it('prompts only for declared variables that are still unset', async () => {
+    vi.mocked(inquirer.prompt)
+      .mockResolvedValueOnce({ value: 'github.com/acme/svc' })
+      .mockResolvedValueOnce({ value: 'postgres' })
+      .mockResolvedValueOnce({ value: true });
+
+    const variables = await collectKitVariables(
+      KIT,
+      { vars: ['port=9000'] },
+      { values: { project_name: 'svc' }, defaults: { module_path: 'svc' }, interactive: true }
+    );
+
+    const asked = vi
+      .mocked(inquirer.prompt)
+      .mock.calls.map(([questions]) => (questions as unknown as Array<{ message: string }>)[0]);
+    expect(asked.map((q) => q.message)).toEqual(['module_path:', 'database:', 'include_caching:']);
+    expect(asked[0]).toMatchObject({ type: 'input', default: 'svc' });
+    expect(asked[1]).toMatchObject({ type: 'list', choices: ['none', 'postgres'] });
+    expect(variables).toMatchObject({
+      module_path: 'github.com/acme/svc',
+      port: 9000,
+      database: 'postgres',
+      include_caching: true,
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { execa } from 'execa';
+import {
+  generateNestMonorepoKit,
+  parseNestProjectList,
+  renderNestMonorepoFiles,
+} from '../../generators/nestjs-monorepo.js';
+import { KitVariableError } from '../../errors.js';
+
+vi.mock('execa', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('execa')>();
+  return {
+    ...actual,
+    execa: vi.fn().mockResolvedValue({ stdout: '', stderr: '', exitCode: 0 }),
+  };
+});
+
+vi.mock('ora', () => ({
+  default: vi.fn(() => ({
+    start: vi.fn().mockReturnThis(),
+    succeed: vi.fn().mockReturnThis(),
+    fail: vi.fn().mockReturnThis(),
+    warn: vi.fn().mockReturnThis(),
+    stop: vi.fn().mockReturnThis(),
+    text: '',
+  })),
+}));
+
+describe('nestjs.monorepo generator', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rapidkit-nest-monorepo-'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    vi.mocked(execa).mockClear();
+    delete process.env.RAPIDKIT_DEP_SHARING_MODE;
+    delete process.env.npm_config_cache;
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('lays out apps and libs as Nest CLI monorepo projects', () => {
+    const files = renderNestMonorepoFiles({
+      project_name: 'shop',
+      apps: ['api', 'billing'],
+      libs: ['shared'],
+      lib_prefix: '@shop',
+    });
+
+    const nestCli = JSON.parse(files['nest-cli.json']);
+    expect(nestCli).toMatchObject({ monorepo: true, root: 'apps/api' });
+    expect(nestCli.projects.billing).toMatchObject({ type: 'application', root: 'apps/billing' });
+    expect(nestCli.projects.shared).toMatchObject({ type: 'library', entryFile: 'index' });
+
+    expect(JSON.parse(files['tsconfig.json']).compilerOptions.paths).toEqual({
+      '@shop/shared': ['libs/shared/src'],
+      '@shop/shared/*': ['libs/shared/src/*'],
+    });
+    const pkg = JSON.parse(files['package.json']);
+    expect(pkg.jest.moduleNameMapper).toEqual({
+      '^@shop/shared(|/.*)$': '<rootDir>/libs/shared/src/$1',
+    });
+    expect(pkg.scripts['start:prod']).toBe('node dist/apps/api/main');
+
+    // Each app gets its own default port, in list order.
+    expect(files['apps/api/src/main.ts']).toContain("process.env.PORT ?? '3000'");
+    expect(files['apps/billing/src/main.ts']).toContain("process.env.PORT ?? '3001'");
+    expect(files['libs/shared/src/shared.module.ts']).toContain('export class SharedModule');
+    expect(JSON.parse(files['.rapidkit/project.json'])).toMatchObject({
+      kit_name: 'nestjs.monorepo',
+      runtime: 'node',
+      apps: ['api', 'billing'],
+      libs: ['shared'],
+    });
+  });
+
+  it('omits the libs root from Jest when there are no libraries', () => {
+    const files = renderNestMonorepoFiles({ project_name: 'shop', libs: [] });
+    expect(JSON.parse(files['package.json']).jest.roots).toEqual(['<rootDir>/apps/']);
+    expect(Object.keys(files).some((file) => file.startsWith('libs/'))).toBe(false);
+  });
+
+  it('rejects invalid and duplicate project names', () => {
+    expect(() =>
+      renderNestMonorepoFiles({ project_name: 'shop', apps: ['api'], libs: ['api'] })
+    ).toThrow(KitVariableError);
+    expect(() => renderNestMonorepoFiles({ project_name: 'shop', apps: ['Api'] })).toThrow(
+      KitVariableError
+    );
+    expect(parseNestProjectList(' api, billing ,')).toEqual(['api', 'billing']);
+  });
+
+  it('installs through the runtime adapter with the workspace dependency mode', async () => {
+    process.env.RAPIDKIT_DEP_SHARING_MODE = 'shared-node-deps';
+    const projectPath = path.join(tempDir, 'shop');
+
+    await generateNestMonorepoKit(projectPath, {
+      project_name: 'shop',
+      package_manager: 'pnpm',
+      skipGit: true,
+    });
+
+    expect(execa).toHaveBeenCalledWith(
+      'pnpm',
+      ['install', '--prefer-offline'],
+      expect.objectContaining({ cwd: projectPath })
+    );
+    await expect(fs.access(path.join(projectPath, 'apps/api/src/main.ts'))).resolves.toBe(
+      undefined
+    );
+
+    vi.mocked(execa).mockClear();
+    await generateNestMonorepoKit(path.join(tempDir, 'quiet'), {
+      project_name: 'quiet',
+      skipGit: true,
+      skipInstall: true,
+    });
+    expect(execa).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,223 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import {
+  findKit,
+  generateKitProject,
+  loadKitRegistry,
+  resolveKitVariables,
+} from '../../generators/registry.js';
+import { KitVariableError } from '../../errors.js';
+import { registerRuntimePlugins } from '../../runtime-adapters/plugins.js';
+
+const CHI_MANIFEST = `name: acme.chi
+runtime: go
+description: Go Chi service
+aliases:
+  - chi
+variables:
+  project_name:
+    type: string
+    required: true
+  port:
+    type: number
+    default: 8080
+  database:
+    type: string
+    enum: [none, postgres]
+    default: none
+files:
+  - path: go.mod
+    template: "module {{ module_path or project_name }}\\n"
+  - path: cmd/{{ project_name }}/main.go
+    source: templates/main.go.njk
+`;
+
+describe('kit generator registry', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rapidkit-kit-registry-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  async function writeChiKit(): Promise<string> {
+    const kitDir = path.join(tempDir, 'chi-kit');
+    await fs.mkdir(path.join(kitDir, 'templates'), { recursive: true });
+    await fs.writeFile(path.join(kitDir, 'kit.yaml'), CHI_MANIFEST, 'utf-8');
+    await fs.writeFile(
+      path.join(kitDir, 'templates', 'main.go.njk'),
+      'package main\n// listens on {{ port }}{% if database == "postgres" %} with postgres{% endif %}\n',
+      'utf-8'
+    );
+    return kitDir;
+  }
+
+  it('routes built-in Go kit names and aliases', async () => {
+    const registry = await loadKitRegistry({ sources: [] });
+
+    expect(findKit(registry, 'gofiber.standard')?.name).toBe('gofiber.standard');
+    expect(findKit(registry, 'go')?.name).toBe('gofiber.standard');
+    expect(findKit(registry, 'gofiber.custom')?.name).toBe('gofiber.standard');
+    expect(findKit(registry, 'GIN')?.name).toBe('gogin.standard');
+    expect(findKit(registry, 'fastapi.standard')).toBeNull();
+  });
+
+  it('declares the optional Go features as boolean variables', async () => {
+    const registry = await loadKitRegistry({ sources: [] });
+    const kit = findKit(registry, 'gin')!;
+
+    const resolved = resolveKitVariables(kit, { project_name: 'svc', postgres: 'true' });
+    expect(resolved).toMatchObject({ postgres: true, redis: false, grpc: false });
+  });
+
+  it('renders a declarative kit and writes the project marker', async () => {
+    const kitDir = await writeChiKit();
+    const registry = await loadKitRegistry({ cwd: tempDir, sources: ['./chi-kit'] });
+    const kit = findKit(registry, 'chi');
+    expect(kit).toMatchObject({ name: 'acme.chi', runtime: 'go', root: kitDir });
+
+    const projectPath = path.join(tempDir, 'orders');
+    await generateKitProject(
+      kit!,
+      projectPath,
+      { project_name: 'orders', database: 'postgres' },
+      { skipGit: true }
+    );
+
+    expect(await fs.readFile(path.join(projectPath, 'go.mod'), 'utf-8')).toBe('module orders\n');
+    expect(await fs.readFile(path.join(projectPath, 'cmd', 'orders', 'main.go'), 'utf-8')).toBe(
+      // trimBlocks drops the newline after a block tag, as in the bundled kits
+      'package main\n// listens on 8080 with postgres'
+    );
+    const marker = JSON.parse(
+      await fs.readFile(path.join(projectPath, '.rapidkit', 'project.json'), 'utf-8')
+    );
+    expect(marker).toMatchObject({ kit_name: 'acme.chi', runtime: 'go', project_name: 'orders' });
+  });
+
+  it('loads module kits from packages and lets them override built-ins', async () => {
+    const pkgDir = path.join(tempDir, 'node_modules', '@acme', 'rapidkit-kits');
+    await fs.mkdir(pkgDir, { recursive: true });
+    await fs.writeFile(
+      path.join(pkgDir, 'package.json'),
+      JSON.stringify({ name: '@acme/rapidkit-kits', rapidkit: { kit: './kits.mjs' } }),
+      'utf-8'
+    );
+    await fs.writeFile(
+      path.join(pkgDir, 'kits.mjs'),
+      `import { promises as fs } from 'fs';
+import path from 'path';
+export const kits = [
+  {
+    name: 'gogin.standard',
+    runtime: 'go',
+    async generate(projectPath, variables) {
+      await fs.mkdir(projectPath, { recursive: true });
+      await fs.writeFile(path.join(projectPath, 'NAME'), String(variables.project_name));
+    },
+  },
+];
+`,
+      'utf-8'
+    );
+
+    const registry = await loadKitRegistry({
+      cwd: tempDir,
+      sources: ['@acme/rapidkit-kits', './missing-kit'],
+    });
+
+    const kit = findKit(registry, 'gin');
+    expect(kit?.origin).toBe('@acme/rapidkit-kits');
+    await generateKitProject(kit!, path.join(tempDir, 'svc'), { project_name: 'svc' });
+    expect(await fs.readFile(path.join(tempDir, 'svc', 'NAME'), 'utf-8')).toBe('svc');
+
+    expect(registry.errors).toHaveLength(1);
+    expect(registry.errors[0].source).toBe('./missing-kit');
+  });
+
+  it('reports kits with invalid definitions', async () => {
+    const kitDir = path.join(tempDir, 'bad-kit');
+    await fs.mkdir(kitDir, { recursive: true });
+    await fs.writeFile(
+      path.join(kitDir, 'kit.json'),
+      JSON.stringify({ name: 'bad', runtime: 'rust' })
+    );
+
+    const registry = await loadKitRegistry({ cwd: tempDir, sources: ['./bad-kit'] });
+
+    expect(findKit(registry, 'bad')).toBeNull();
+    expect(registry.errors[0].error).toContain('invalid runtime rust');
+  });
+
+  it('accepts kits for runtimes added by plugins', async () => {
+    const kitDir = path.join(tempDir, 'axum-kit');
+    await fs.mkdir(kitDir, { recursive: true });
+    await fs.writeFile(
+      path.join(kitDir, 'kit.json'),
+      JSON.stringify({ name: 'axum.standard', runtime: 'rust', files: [] })
+    );
+
+    registerRuntimePlugins([
+      { runtime: 'rust', prereq: { command: 'cargo' }, commands: { build: ['cargo', 'build'] } },
+    ]);
+    try {
+      const registry = await loadKitRegistry({ cwd: tempDir, sources: ['./axum-kit'] });
+      expect(registry.errors).toEqual([]);
+      expect(findKit(registry, 'axum.standard')?.runtime).toBe('rust');
+    } finally {
+      registerRuntimePlugins([]);
+    }
+  });
+
+  it('refuses rendered paths that escape the project directory', async () => {
+    await writeChiKit();
+    const registry = await loadKitRegistry({ cwd: tempDir, sources: ['./chi-kit'] });
+    const projectPath = path.join(tempDir, 'orders');
+
+    const generating = generateKitProject(
+      findKit(registry, 'acme.chi')!,
+      projectPath,
+      { project_name: '../../escaped' },
+      { skipGit: true }
+    );
+    await expect(generating).rejects.toBeInstanceOf(KitVariableError);
+    await expect(generating).rejects.toMatchObject({
+      details: expect.stringContaining(
+        'cmd/../../escaped/main.go: resolves outside the project directory'
+      ),
+    });
+    await expect(fs.access(path.join(tempDir, 'escaped'))).rejects.toThrow();
+    await expect(fs.access(path.join(projectPath, 'go.mod'))).rejects.toThrow();
+  });
+
+  it('coerces and validates variables against the kit schema', async () => {
+    await writeChiKit();
+    const registry = await loadKitRegistry({ cwd: tempDir, sources: ['./chi-kit'] });
+    const kit = findKit(registry, 'acme.chi')!;
+
+    expect(resolveKitVariables(kit, { project_name: 'svc', port: '9000', extra: 'x' })).toEqual({
+      project_name: 'svc',
+      port: 9000,
+      database: 'none',
+      extra: 'x',
+    });
+
+    let caught: unknown;
+    try {
+      resolveKitVariables(kit, { port: 'abc', database: 'mysql' });
+    } catch (error) {
+      caught = error;
+    }
+    expect(caught).toBeInstanceOf(KitVariableError);
+    expect((caught as KitVariableError).details).toContain('project_name: required');
+    expect((caught as KitVariableError).details).toContain('port: expected a number');
+    expect((caught as KitVariableError).details).toContain(
+      'database: must be one of none, postgres'
+    );
+  });
+});
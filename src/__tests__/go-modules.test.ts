@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { findKit, generateKitProject, loadKitRegistry } from '../generators/registry.js';
+import { readKitBaseline } from '../generators/kit-baseline.js';
+import { addGoModule, listGoModules, missingGoModuleFiles } from '../go-modules.js';
+import { upgradeKitProject } from '../kit-upgrade.js';
+import { GoModuleError } from '../errors.js';
+
+// Keep git real (merges run through `git merge-file`); skip the Go toolchain.
+vi.mock('execa', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('execa')>();
+  return {
+    ...actual,
+    execa: vi.fn((cmd: string, args: string[], opts: Record<string, unknown>) =>
+      cmd === 'go'
+        ? Promise.resolve({ stdout: 'go version go1.24.0 linux/amd64', stderr: '', exitCode: 0 })
+        : actual.execa(cmd, args, opts)
+    ),
+  };
+});
+
+vi.mock('ora', () => ({
+  default: vi.fn(() => ({
+    start: vi.fn().mockReturnThis(),
+    succeed: vi.fn().mockReturnThis(),
+    fail: vi.fn().mockReturnThis(),
+    warn: vi.fn().mockReturnThis(),
+    stop: vi.fn().mockReturnThis(),
+    text: '',
+  })),
+}));
+
+describe('Go modules', () => {
+  let tempDir: string;
+  let projectPath: string;
+
+  const read = (file: string) => fs.readFile(path.join(projectPath, file), 'utf-8');
+  const readProjectJson = async () => JSON.parse(await read('.rapidkit/project.json'));
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rapidkit-go-modules-'));
+    projectPath = path.join(tempDir, 'orders');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    const registry = await loadKitRegistry({ cwd: tempDir, sources: [] });
+    await generateKitProject(
+      findKit(registry, 'gogin.standard')!,
+      projectPath,
+      { project_name: 'orders', module_path: 'github.com/acme/orders' },
+      { skipGit: true }
+    );
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('lists the Go kit features as modules', () => {
+    expect(listGoModules().map((m) => m.id)).toEqual([
+      'postgres',
+      'redis',
+      'jwt',
+      'otel',
+      'prometheus',
+      'grpc',
+    ]);
+  });
+
+  it('patches the module into the project and keeps local edits', async () => {
+    const readme = `${await read('README.md')}\nOwned by the orders team.\n`;
+    await fs.writeFile(path.join(projectPath, 'README.md'), readme, 'utf-8');
+
+    const preview = await addGoModule(projectPath, 'jwt', { dryRun: true });
+    expect(preview.applied).toBe(false);
+    expect(preview.files).toContainEqual({ path: 'internal/auth/token.go', status: 'added' });
+    expect(preview.files).toContainEqual({ path: 'README.md', status: 'merged' });
+    await expect(fs.access(path.join(projectPath, 'internal/auth'))).rejects.toThrow();
+
+    const result = await addGoModule(projectPath, 'jwt');
+    expect(result).toMatchObject({ applied: true, already_installed: false, conflicts: [] });
+
+    expect(await read('internal/server/server.go')).toContain(
+      'v1.GET("/me", middleware.JWT(cfg.JWTSecret), handlers.Me)'
+    );
+    expect(await read('internal/config/config.go')).toContain('JWTSecret');
+    expect(await read('go.mod')).toContain('github.com/golang-jwt/jwt/v5');
+    expect(await read('.env.example')).toContain('JWT_SECRET=');
+    expect(await read('README.md')).toContain('Owned by the orders team.');
+    expect(await read('README.md')).toContain('## Features');
+
+    expect((await readProjectJson()).modules).toEqual(['jwt']);
+    expect((await readKitBaseline(projectPath))?.variables.jwt).toBe(true);
+
+    // The patched baseline matches the kit, so upgrade-kit has nothing to merge.
+    expect((await upgradeKitProject(projectPath, { dryRun: true })).files).toEqual([]);
+  });
+
+  it('restores missing module files and reports them until then', async () => {
+    await addGoModule(projectPath, 'redis');
+    expect(await missingGoModuleFiles(projectPath, await readProjectJson())).toEqual([]);
+
+    await fs.rm(path.join(projectPath, 'internal/cache'), { recursive: true });
+    expect(await missingGoModuleFiles(projectPath, await readProjectJson())).toEqual([
+      { module: 'redis', file: 'internal/cache/cache.go' },
+      { module: 'redis', file: 'internal/cache/cache_test.go' },
+    ]);
+
+    const again = await addGoModule(projectPath, 'redis');
+    expect(again.already_installed).toBe(true);
+    expect(again.files.map((f) => f.status)).toEqual(['added', 'added']);
+    expect((await readProjectJson()).modules).toEqual(['redis']);
+    expect(await missingGoModuleFiles(projectPath, await readProjectJson())).toEqual([]);
+  });
+
+  it('rejects unknown modules and non-Go projects', async () => {
+    await expect(addGoModule(projectPath, 'mongodb')).rejects.toThrow(GoModuleError);
+
+    const bare = path.join(tempDir, 'bare');
+    await fs.mkdir(path.join(bare, '.rapidkit'), { recursive: true });
+    await fs.writeFile(
+      path.join(bare, '.rapidkit', 'project.json'),
+      JSON.stringify({ runtime: 'python', kit_name: 'fastapi.standard' })
+    );
+    await expect(addGoModule(bare, 'redis')).rejects.toThrow('Not a Go project');
+  });
+});
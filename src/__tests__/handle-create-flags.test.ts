@@ -2,6 +2,7 @@ import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
 import * as index from '../index.js';
 import * as create from '../create.js';
 import * as coreExec from '../core-bridge/pythonRapidkitExec.js';
+import * as registry from '../generators/registry.js';
 import * as fsExtra from 'fs-extra';
 import os from 'os';
 import path from 'path';
@@ -119,4 +120,50 @@ describe('handleCreateOrFallback - wrapper flags handling', () => {
       }
     }
   });
+
+  it('previews a kit with --dry-run without creating the project', async () => {
+    const runSpy = vi.spyOn(coreExec, 'runCoreRapidkit').mockResolvedValue(0 as any);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    const code = await index.handleCreateOrFallback([
+      'create',
+      'project',
+      'gogin.standard',
+      'orders',
+      '--dry-run',
+      '--yes',
+      '--output-json',
+      'manifest.json',
+    ]);
+
+    expect(code).toBe(0);
+    expect(runSpy).not.toHaveBeenCalled();
+    expect(await fsExtra.pathExists(path.join(tmpDir, 'orders'))).toBe(false);
+
+    const manifest = await fsExtra.readJson(path.join(tmpDir, 'manifest.json'));
+    expect(manifest).toMatchObject({
+      command: 'create',
+      action: 'dry-run',
+      kit_name: 'gogin.standard',
+      exists: false,
+    });
+    expect(manifest.files.map((f: { path: string }) => f.path)).toContain('go.mod');
+    expect(manifest.files.every((f: { status: string }) => f.status === 'create')).toBe(true);
+  });
+
+  it('leaves no project directory behind when a kit generator fails', async () => {
+    vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    vi.spyOn(registry, 'generateKitProject').mockImplementation(async (_kit, projectPath) => {
+      await fsExtra.outputFile(path.join(projectPath, 'go.mod'), 'module orders\n');
+      throw new Error('go mod tidy crashed');
+    });
+
+    const args = ['create', 'project', 'gogin.standard', 'orders', '--yes', '--skip-git'];
+    expect(await index.handleCreateOrFallback(args)).toBe(1);
+    expect(await fsExtra.readdir(tmpDir)).toEqual([]);
+
+    vi.mocked(registry.generateKitProject).mockResolvedValue();
+    expect(await index.handleCreateOrFallback(args)).toBe(0);
+    expect(await fsExtra.readdir(tmpDir)).toEqual(['orders']);
+  });
 });
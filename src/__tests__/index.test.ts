@@ -143,6 +143,9 @@ describe('CLI Entry Point', () => {
           npx rapidkit workspace policy show        Show effective workspace policies
           npx rapidkit workspace policy set <k> <v> Update workspace policy values
           npx rapidkit setup python|node|go [--warm-deps]  Set up runtime (+ optional deps warm-up)
+          npx rapidkit toolchain [status|install]   Check/provision pinned toolchains
+          npx rapidkit run test|build|lint --all    Run a task in every project
+          npx rapidkit dev --all                    Start every service together
           npx rapidkit mirror [status|sync|verify|rotate] Registry mirror management
           npx rapidkit cache [status|clear|prune|repair]  Package cache management
 
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { buildKitPreview, formatKitTree, unifiedDiff } from '../kit-preview.js';
+
+describe('kit dry-run preview', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rapidkit-kit-preview-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('writes unified diffs with merged hunks and line numbers', () => {
+    const before = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j', 'k', 'l', 'm', 'n'];
+    const after = [...before];
+    after[1] = 'B';
+    after.splice(12, 1);
+
+    expect(unifiedDiff('x.txt', `${before.join('\n')}\n`, `${after.join('\n')}\n`)).toBe(
+      [
+        '--- a/x.txt',
+        '+++ b/x.txt',
+        '@@ -1,5 +1,5 @@',
+        ' a',
+        '-b',
+        '+B',
+        ' c',
+        ' d',
+        ' e',
+        '@@ -10,5 +10,4 @@',
+        ' j',
+        ' k',
+        ' l',
+        '-m',
+        ' n',
+        '',
+      ].join('\n')
+    );
+    expect(unifiedDiff('new.txt', '', 'one\n')).toBe(
+      '--- a/new.txt\n+++ b/new.txt\n@@ -0,0 +1,1 @@\n+one\n'
+    );
+  });
+
+  it('reports new, changed and unchanged files against an existing directory', async () => {
+    const files = {
+      'README.md': '# svc\n',
+      'cmd/main.go': 'package main\n',
+      'go.mod': 'module svc\n\ngo 1.24\n',
+    };
+
+    const fresh = await buildKitPreview(path.join(tempDir, 'svc'), 'acme.svc', files);
+    expect(fresh.exists).toBe(false);
+    expect(fresh.total_bytes).toBe(6 + 13 + 20);
+    expect(fresh.files.map((f) => f.status)).toEqual(['create', 'create', 'create']);
+
+    const projectPath = path.join(tempDir, 'svc');
+    await fs.mkdir(projectPath);
+    await fs.writeFile(path.join(projectPath, 'README.md'), '# svc\n');
+    await fs.writeFile(path.join(projectPath, 'go.mod'), 'module svc\n\ngo 1.22\n');
+
+    const existing = await buildKitPreview(projectPath, 'acme.svc', files);
+    expect(existing.exists).toBe(true);
+    expect(existing.files).toEqual([
+      { path: 'cmd/main.go', size: 13, status: 'create' },
+      {
+        path: 'go.mod',
+        size: 20,
+        status: 'modify',
+        diff: '--- a/go.mod\n+++ b/go.mod\n@@ -1,3 +1,3 @@\n module svc\n \n-go 1.22\n+go 1.24\n',
+      },
+      { path: 'README.md', size: 6, status: 'unchanged' },
+    ]);
+  });
+
+  it('draws the file tree with directories first', () => {
+    const tree = formatKitTree(
+      'svc',
+      [
+        { path: 'README.md', size: 6, status: 'unchanged' },
+        { path: 'cmd/server/main.go', size: 2048, status: 'create' },
+        { path: 'go.mod', size: 20, status: 'modify' },
+      ],
+      (bytes) => `${bytes} B`
+    );
+    expect(tree).toEqual([
+      'svc/',
+      '├── cmd/',
+      '│   └── server/',
+      '│       └── + main.go (2048 B)',
+      '├── ~ go.mod (20 B)',
+      '└── = README.md (6 B)',
+    ]);
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { findKit, generateKitProject, loadKitRegistry } from '../generators/registry.js';
+import { readKitBaseline } from '../generators/kit-baseline.js';
+import { findKitProjectRoot, upgradeKitProject } from '../kit-upgrade.js';
+import { KitUpgradeError } from '../errors.js';
+import { generateDemoKit } from '../demo-kit.js';
+
+const MANIFEST = `name: acme.svc
+runtime: go
+variables:
+  project_name: { type: string, required: true }
+files:
+  - path: config.yaml
+    source: templates/config.yaml.njk
+  - path: README.md
+    source: templates/README.md.njk
+  - path: main.go
+    source: templates/main.go.njk
+`;
+
+describe('upgrade-kit', () => {
+  let tempDir: string;
+  let kitDir: string;
+  let projectPath: string;
+  let previousKits: string | undefined;
+
+  async function writeTemplate(name: string, content: string): Promise<void> {
+    await fs.writeFile(path.join(kitDir, 'templates', name), content, 'utf-8');
+  }
+
+  const read = (file: string) => fs.readFile(path.join(projectPath, file), 'utf-8');
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rapidkit-kit-upgrade-'));
+    kitDir = path.join(tempDir, 'svc-kit');
+    projectPath = path.join(tempDir, 'orders');
+    previousKits = process.env.RAPIDKIT_KITS;
+    process.env.RAPIDKIT_KITS = kitDir;
+
+    await fs.mkdir(path.join(kitDir, 'templates'), { recursive: true });
+    await fs.writeFile(path.join(kitDir, 'kit.yaml'), MANIFEST, 'utf-8');
+    await writeTemplate(
+      'config.yaml.njk',
+      'name: {{ project_name }}\nport: 8080\nhost: 0.0.0.0\ntls: false\nlog: info\n'
+    );
+    await writeTemplate('README.md.njk', '# {{ project_name }}\n');
+    await writeTemplate('main.go.njk', 'package main\n\nconst timeout = 5\n');
+
+    const registry = await loadKitRegistry({ cwd: tempDir, sources: [kitDir] });
+    await generateKitProject(
+      findKit(registry, 'acme.svc')!,
+      projectPath,
+      { project_name: 'orders' },
+      { skipGit: true }
+    );
+  });
+
+  afterEach(async () => {
+    if (previousKits === undefined) delete process.env.RAPIDKIT_KITS;
+    else process.env.RAPIDKIT_KITS = previousKits;
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('records the baseline and finds the project from a subdirectory', async () => {
+    const baseline = await readKitBaseline(projectPath);
+    expect(baseline).toMatchObject({ kit_name: 'acme.svc', variables: { project_name: 'orders' } });
+    expect(Object.keys(baseline!.files)).toEqual(['config.yaml', 'main.go', 'README.md']);
+
+    await fs.mkdir(path.join(projectPath, 'internal'), { recursive: true });
+    expect(await findKitProjectRoot(path.join(projectPath, 'internal'))).toBe(projectPath);
+  });
+
+  it('merges kit changes with local edits and reports conflicts', async () => {
+    await fs.writeFile(
+      path.join(projectPath, 'config.yaml'),
+      'name: orders\nport: 9090\nhost: 0.0.0.0\ntls: false\nlog: info\n',
+      'utf-8'
+    );
+    await fs.writeFile(
+      path.join(projectPath, 'main.go'),
+      'package main\n\nconst timeout = 30\n',
+      'utf-8'
+    );
+
+    await writeTemplate(
+      'config.yaml.njk',
+      'name: {{ project_name }}\nport: 8080\nhost: 0.0.0.0\ntls: false\nlog: warn\n'
+    );
+    await writeTemplate('README.md.njk', '# {{ project_name }}\n\nGenerated by acme.svc.\n');
+    await writeTemplate('main.go.njk', 'package main\n\nconst timeout = 10\n');
+    await writeTemplate('Makefile.njk', 'run:\n\tgo run .\n');
+    await fs.appendFile(
+      path.join(kitDir, 'kit.yaml'),
+      '  - path: Makefile\n    source: templates/Makefile.njk\n'
+    );
+
+    const preview = await upgradeKitProject(projectPath, { dryRun: true });
+    expect(preview.applied).toBe(false);
+    expect(preview.baseline).toBe('recorded');
+    expect(preview.files).toEqual([
+      { path: 'config.yaml', status: 'merged' },
+      { path: 'main.go', status: 'conflict' },
+      { path: 'Makefile', status: 'added' },
+      { path: 'README.md', status: 'updated' },
+    ]);
+    expect(await read('README.md')).toBe('# orders\n');
+
+    const result = await upgradeKitProject(projectPath);
+    expect(result.applied).toBe(true);
+    expect(result.conflicts).toEqual(['main.go']);
+    expect(await read('config.yaml')).toBe(
+      'name: orders\nport: 9090\nhost: 0.0.0.0\ntls: false\nlog: warn\n'
+    );
+    expect(await read('README.md')).toBe('# orders\n\nGenerated by acme.svc.\n');
+    expect(await read('Makefile')).toBe('run:\n\tgo run .\n');
+    expect(await read('main.go')).toContain(
+      '<<<<<<< project\nconst timeout = 30\n=======\nconst timeout = 10\n>>>>>>> kit\n'
+    );
+
+    // The new render becomes the ancestor: a second upgrade has nothing left to merge.
+    expect((await readKitBaseline(projectPath))?.files['README.md']).toBe(
+      '# orders\n\nGenerated by acme.svc.\n'
+    );
+    await fs.writeFile(path.join(projectPath, 'main.go'), 'package main\n\nconst timeout = 30\n');
+    expect((await upgradeKitProject(projectPath)).files).toEqual([]);
+  });
+
+  it('only merges without a baseline when asked to with --kit', async () => {
+    await fs.rm(path.join(projectPath, '.rapidkit', 'kit-baseline.json'));
+    await fs.writeFile(path.join(projectPath, 'main.go'), 'package main\n\nconst timeout = 30\n');
+    await writeTemplate('main.go.njk', 'package main\n\nconst timeout = 10\n');
+
+    const preview = await upgradeKitProject(projectPath, { kitName: 'acme.svc', dryRun: true });
+    expect(preview.baseline).toBe('none');
+    expect(preview.conflicts).toEqual(['main.go']);
+
+    for (const options of [{ kitName: 'acme.svc' }, { allowNoBaseline: true }]) {
+      await expect(upgradeKitProject(projectPath, options)).rejects.toThrow(KitUpgradeError);
+    }
+    expect(await read('main.go')).toBe('package main\n\nconst timeout = 30\n');
+
+    const result = await upgradeKitProject(projectPath, {
+      kitName: 'acme.svc',
+      allowNoBaseline: true,
+    });
+    expect(result.applied).toBe(true);
+    expect(await read('main.go')).toContain('<<<<<<< project');
+    expect(await readKitBaseline(projectPath)).not.toBeNull();
+  });
+
+  it('re-renders template-kit secrets from the recorded seed', async () => {
+    const nestPath = path.join(tempDir, 'billing');
+    await generateDemoKit(nestPath, {
+      project_name: 'billing',
+      kit_name: 'nestjs.standard',
+      skipGit: true,
+      skipInstall: true,
+    });
+    const env = await fs.readFile(path.join(nestPath, '.env.example'), 'utf-8');
+    expect(env).toMatch(/JWT_SECRET="[A-Za-z0-9]{48}"/);
+    expect((await readKitBaseline(nestPath))?.secret_seed).toMatch(/^[0-9a-f]{64}$/);
+
+    expect((await upgradeKitProject(nestPath, { dryRun: true })).files).toEqual([]);
+  });
+
+  it('refuses kit files that resolve outside the project', async () => {
+    await fs.writeFile(
+      path.join(kitDir, 'kit.yaml'),
+      `${MANIFEST}  - path: ../leak.txt\n    template: "leaked\\n"\n`,
+      'utf-8'
+    );
+
+    await expect(upgradeKitProject(projectPath)).rejects.toThrow(
+      'Refusing to write outside the project directory'
+    );
+    await expect(fs.access(path.join(tempDir, 'leak.txt'))).rejects.toThrow();
+  });
+
+  it('refuses projects that do not name a kit', async () => {
+    const bare = path.join(tempDir, 'bare');
+    await fs.mkdir(bare);
+    await expect(upgradeKitProject(bare)).rejects.toThrow(KitUpgradeError);
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createHash } from 'crypto';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import {
+  addMirrorArtifact,
+  listMirrorArtifacts,
+  removeMirrorArtifact,
+  runMirrorLifecycle,
+} from '../utils/mirror.js';
+
+describe('mirror artifact management', () => {
+  let workspaceRoot: string;
+
+  const readConfig = async () =>
+    JSON.parse(
+      await readFile(path.join(workspaceRoot, '.rapidkit', 'mirror-config.json'), 'utf-8')
+    );
+
+  beforeEach(async () => {
+    workspaceRoot = await mkdtemp(path.join(tmpdir(), 'rapidkit-mirror-artifacts-'));
+    await mkdir(path.join(workspaceRoot, '.rapidkit'), { recursive: true });
+    await mkdir(path.join(workspaceRoot, 'vendor'), { recursive: true });
+    await writeFile(path.join(workspaceRoot, 'vendor', 'tool-1.2.tar.gz'), 'tool', 'utf-8');
+  });
+
+  afterEach(async () => {
+    delete process.env.RAPIDKIT_TRUSTED_SOURCES;
+    await rm(workspaceRoot, { recursive: true, force: true });
+  });
+
+  it('adds a local artifact with a derived id and pinned sha256', async () => {
+    const result = await addMirrorArtifact(workspaceRoot, 'vendor/tool-1.2.tar.gz', {
+      cwd: workspaceRoot,
+      required: true,
+      pin: true,
+    });
+
+    expect(result.ok).toBe(true);
+    const config = await readConfig();
+    expect(config.artifacts).toEqual([
+      {
+        id: 'tool-1.2',
+        source: path.join('vendor', 'tool-1.2.tar.gz'),
+        required: true,
+        sha256: createHash('sha256').update('tool').digest('hex'),
+      },
+    ]);
+    expect(
+      existsSync(path.join(workspaceRoot, '.rapidkit', 'mirror', 'artifacts', 'tool-1.2.tar.gz'))
+    ).toBe(true);
+
+    const duplicate = await addMirrorArtifact(workspaceRoot, 'vendor/tool-1.2.tar.gz', {
+      cwd: workspaceRoot,
+    });
+    expect(duplicate).toMatchObject({ ok: false });
+  });
+
+  it('fetches URLs only from trusted hosts', async () => {
+    const server: Server = createServer((_req, res) => {
+      res.writeHead(200);
+      res.end('remote-bytes');
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const untrusted = await addMirrorArtifact(
+        workspaceRoot,
+        `http://example.invalid:${port}/pkg.whl`
+      );
+      expect(untrusted).toMatchObject({ ok: false });
+      expect(!untrusted.ok && untrusted.error).toContain('Untrusted mirror host: example.invalid');
+
+      const trusted = await addMirrorArtifact(workspaceRoot, `http://127.0.0.1:${port}/pkg.whl`, {
+        id: 'pkg',
+        target: 'wheels/pkg.whl',
+      });
+      expect(trusted.ok && trusted.sha256).toBe(
+        createHash('sha256').update('remote-bytes').digest('hex')
+      );
+      expect((await readConfig()).artifacts[0]).toEqual({
+        id: 'pkg',
+        url: `http://127.0.0.1:${port}/pkg.whl`,
+        target: 'wheels/pkg.whl',
+      });
+    } finally {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  });
+
+  it('lists lock status per artifact and removes entries', async () => {
+    await addMirrorArtifact(workspaceRoot, 'vendor/tool-1.2.tar.gz', {
+      cwd: workspaceRoot,
+      pin: true,
+    });
+
+    let listing = await listMirrorArtifacts(workspaceRoot);
+    expect(listing.ok && listing.artifacts.map((a) => a.status)).toEqual(['unlocked']);
+
+    await runMirrorLifecycle(workspaceRoot, { ciMode: true, offlineMode: false, forceRun: true });
+    listing = await listMirrorArtifacts(workspaceRoot);
+    expect(listing.ok && listing.artifacts.map((a) => a.status)).toEqual(['locked']);
+
+    await writeFile(
+      path.join(workspaceRoot, '.rapidkit', 'mirror', 'artifacts', 'tool-1.2.tar.gz'),
+      'tampered',
+      'utf-8'
+    );
+    listing = await listMirrorArtifacts(workspaceRoot);
+    expect(listing.ok && listing.artifacts.map((a) => a.status)).toEqual(['modified']);
+
+    const removed = await removeMirrorArtifact(workspaceRoot, 'tool-1.2');
+    expect(removed.ok).toBe(true);
+    expect((await readConfig()).artifacts).toEqual([]);
+    expect(await removeMirrorArtifact(workspaceRoot, 'tool-1.2')).toMatchObject({ ok: false });
+  });
+
+  it('keeps targets and ids inside the mirror artifacts directory', async () => {
+    const outside = path.join(workspaceRoot, '.rapidkit', 'mirror-config.json');
+    for (const target of ['../../mirror-config.json', outside, 'nested/../../escape.tar.gz']) {
+      const result = await addMirrorArtifact(workspaceRoot, 'vendor/tool-1.2.tar.gz', {
+        cwd: workspaceRoot,
+        target,
+      });
+      expect(result).toMatchObject({ ok: false });
+      expect(!result.ok && result.error).toContain('inside .rapidkit/mirror/artifacts');
+    }
+    expect(
+      await addMirrorArtifact(workspaceRoot, 'vendor/tool-1.2.tar.gz', {
+        cwd: workspaceRoot,
+        id: '../../../escape',
+      })
+    ).toMatchObject({ ok: false, error: 'Invalid mirror artifact id: ../../../escape' });
+    expect(existsSync(outside)).toBe(false);
+
+    const nested = await addMirrorArtifact(workspaceRoot, 'vendor/tool-1.2.tar.gz', {
+      cwd: workspaceRoot,
+      target: 'tools/tool.tar.gz',
+    });
+    expect(nested.ok).toBe(true);
+
+    // A hand-edited entry pointing outside is neither synced nor deleted.
+    const victim = path.join(workspaceRoot, 'vendor', 'tool-1.2.tar.gz');
+    const config = await readConfig();
+    config.artifacts.push({ id: 'escape', source: 'vendor/tool-1.2.tar.gz', target: victim });
+    await writeFile(
+      path.join(workspaceRoot, '.rapidkit', 'mirror-config.json'),
+      JSON.stringify(config)
+    );
+    const sync = await runMirrorLifecycle(workspaceRoot, {
+      ciMode: true,
+      offlineMode: false,
+      forceRun: true,
+    });
+    expect(sync.checks).toContainEqual(
+      expect.objectContaining({ id: 'mirror.sync.escape', status: 'failed' })
+    );
+    expect(await removeMirrorArtifact(workspaceRoot, 'escape')).toMatchObject({ ok: false });
+    expect(await readFile(victim, 'utf-8')).toBe('tool');
+    expect((await readConfig()).artifacts).toHaveLength(2);
+  });
+});
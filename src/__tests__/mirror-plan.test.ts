@@ -0,0 +1,225 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createHash } from 'crypto';
+import {
+  parsePoetryLock,
+  planMirrorArtifacts,
+  poetryLockRequirements,
+  toMirrorArtifacts,
+} from '../utils/mirror-plan.js';
+import { appendMirrorArtifacts, runMirrorLifecycle } from '../utils/mirror.js';
+
+const POETRY_LOCK = `# This file is automatically @generated by Poetry
+[[package]]
+name = "anyio"
+version = "4.3.0"
+description = "High level compatibility layer"
+optional = false
+python-versions = ">=3.8"
+files = [
+    {file = "anyio-4.3.0-py3-none-any.whl", hash = "sha256:${'a'.repeat(64)}"},
+    {file = "anyio-4.3.0.tar.gz", hash = "sha256:${'b'.repeat(64)}"},
+]
+
+[package.dependencies]
+idna = ">=2.8"
+
+[[package]]
+name = "internal-lib"
+version = "1.0.0"
+files = []
+
+[package.source]
+type = "legacy"
+url = "https://pypi.internal.example/simple"
+reference = "internal"
+
+[metadata]
+lock-version = "2.0"
+`;
+
+const PACKAGE_LOCK = JSON.stringify({
+  lockfileVersion: 3,
+  packages: {
+    '': { name: 'web' },
+    'node_modules/@nestjs/core': {
+      version: '10.3.0',
+      resolved: 'https://registry.npmjs.org/@nestjs/core/-/core-10.3.0.tgz',
+      integrity: 'sha512-core',
+    },
+    'node_modules/local-lib': { version: '0.0.1', resolved: 'file:../local-lib' },
+    'node_modules/shared': { link: true, resolved: 'packages/shared' },
+  },
+});
+
+const PNPM_LOCK = `lockfileVersion: '9.0'
+packages:
+  '@nestjs/core@10.3.0':
+    resolution: {integrity: sha512-core}
+  rxjs@7.8.1(typescript@5.4.0):
+    resolution: {integrity: sha512-rxjs}
+`;
+
+const YARN_LOCK = `# yarn lockfile v1
+
+"rxjs@^7.8.0", rxjs@^7.8.1:
+  version "7.8.1"
+  resolved "https://registry.yarnpkg.com/rxjs/-/rxjs-7.8.1.tgz#6f6f3d99ea8044291efd92e7c7fcf562c4057543"
+  integrity sha512-rxjs
+  dependencies:
+    tslib "^2.1.0"
+`;
+
+const GO_SUM = `github.com/gofiber/fiber/v2 v2.52.0 h1:abc=
+github.com/gofiber/fiber/v2 v2.52.0/go.mod h1:def=
+github.com/BurntSushi/toml v1.3.2 h1:ghi=
+`;
+
+describe('mirror plan from lockfiles', () => {
+  let workspaceRoot: string;
+
+  const writeProject = async (name: string, files: Record<string, string>) => {
+    const projectPath = path.join(workspaceRoot, name);
+    await mkdir(projectPath, { recursive: true });
+    for (const [file, content] of Object.entries(files)) {
+      await writeFile(path.join(projectPath, file), content, 'utf-8');
+    }
+    return projectPath;
+  };
+
+  beforeEach(async () => {
+    workspaceRoot = await mkdtemp(path.join(tmpdir(), 'rapidkit-mirror-plan-'));
+    await mkdir(path.join(workspaceRoot, '.rapidkit'), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(workspaceRoot, { recursive: true, force: true });
+  });
+
+  it('reads packages, files and sources from poetry.lock', () => {
+    const packages = parsePoetryLock(POETRY_LOCK);
+
+    expect(packages.map((pkg) => `${pkg.name}@${pkg.version}`)).toEqual([
+      'anyio@4.3.0',
+      'internal-lib@1.0.0',
+    ]);
+    expect(packages[0].files).toHaveLength(2);
+    expect(packages[1].source).toEqual({
+      type: 'legacy',
+      url: 'https://pypi.internal.example/simple',
+    });
+  });
+
+  it('turns poetry.lock index packages into pinned pip requirements', () => {
+    const lock = `${POETRY_LOCK}
+[[package]]
+name = "colorama"
+version = "0.4.6"
+markers = "sys_platform == \\"win32\\""
+files = []
+`;
+
+    expect(poetryLockRequirements(lock)).toEqual([
+      'anyio==4.3.0',
+      'colorama==0.4.6 ; sys_platform == "win32"',
+    ]);
+  });
+
+  it('proposes deduplicated artifacts with URLs and lockfile hashes', async () => {
+    const api = await writeProject('api', { 'poetry.lock': POETRY_LOCK });
+    const web = await writeProject('web', {
+      'package-lock.json': PACKAGE_LOCK,
+      'pnpm-lock.yaml': PNPM_LOCK,
+    });
+    const admin = await writeProject('admin', { 'yarn.lock': YARN_LOCK });
+    const svc = await writeProject('svc', { 'go.sum': GO_SUM });
+
+    const plan = await planMirrorArtifacts(workspaceRoot, [api, web, admin, svc]);
+    const byId = Object.fromEntries(plan.artifacts.map((artifact) => [artifact.id, artifact]));
+
+    expect(byId['pypi-anyio-4.3.0-py3-none-any']).toMatchObject({
+      url: 'https://files.pythonhosted.org/packages/py3/a/anyio/anyio-4.3.0-py3-none-any.whl',
+      sha256: 'a'.repeat(64),
+      target: 'pypi/anyio-4.3.0-py3-none-any.whl',
+    });
+    expect(byId['npm-nestjs-core-10.3.0']).toMatchObject({
+      url: 'https://registry.npmjs.org/@nestjs/core/-/core-10.3.0.tgz',
+      integrity: 'sha512-core',
+      projects: ['web'],
+    });
+    expect(byId['npm-rxjs-7.8.1']).toMatchObject({
+      url: 'https://registry.npmjs.org/rxjs/-/rxjs-7.8.1.tgz',
+      integrity: 'sha512-rxjs',
+      projects: ['web', 'admin'],
+    });
+    expect(byId['go-github.com-BurntSushi-toml-v1.3.2'].url).toBe(
+      'https://proxy.golang.org/github.com/!burnt!sushi/toml/@v/v1.3.2.zip'
+    );
+    expect(plan.artifacts.filter((a) => a.ecosystem === 'go')).toHaveLength(2);
+
+    expect(plan.skipped.map((skip) => skip.package)).toEqual([
+      'internal-lib@1.0.0',
+      'local-lib@0.0.1',
+    ]);
+    expect(plan.hosts).toContain('files.pythonhosted.org');
+  });
+
+  it('proposes every Poetry file with allFiles', async () => {
+    const api = await writeProject('api', { 'poetry.lock': POETRY_LOCK });
+
+    const plan = await planMirrorArtifacts(workspaceRoot, [api], { allFiles: true });
+
+    expect(plan.artifacts.map((artifact) => artifact.target)).toEqual([
+      'pypi/anyio-4.3.0.tar.gz',
+      'pypi/anyio-4.3.0-py3-none-any.whl',
+    ]);
+    expect(plan.artifacts[0].url).toBe(
+      'https://files.pythonhosted.org/packages/source/a/anyio/anyio-4.3.0.tar.gz'
+    );
+  });
+
+  it('merges planned artifacts without overwriting existing ids', async () => {
+    const web = await writeProject('web', { 'package-lock.json': PACKAGE_LOCK });
+    await writeFile(
+      path.join(workspaceRoot, '.rapidkit', 'mirror-config.json'),
+      JSON.stringify({ enabled: true, artifacts: [{ id: 'npm-nestjs-core-10.3.0', url: 'x' }] }),
+      'utf-8'
+    );
+
+    const plan = await planMirrorArtifacts(workspaceRoot, [web]);
+    const merged = await appendMirrorArtifacts(workspaceRoot, toMirrorArtifacts(plan));
+
+    expect(merged).toEqual({ ok: true, added: [], existing: ['npm-nestjs-core-10.3.0'] });
+    const config = JSON.parse(
+      await readFile(path.join(workspaceRoot, '.rapidkit', 'mirror-config.json'), 'utf-8')
+    );
+    expect(config.artifacts).toEqual([{ id: 'npm-nestjs-core-10.3.0', url: 'x' }]);
+  });
+
+  it('verifies SRI integrity during mirror sync', async () => {
+    const content = 'tarball';
+    const good = `sha512-${createHash('sha512').update(content).digest('base64')}`;
+    await writeProject('vendor', { 'pkg.tgz': content });
+    await writeFile(
+      path.join(workspaceRoot, '.rapidkit', 'mirror-config.json'),
+      JSON.stringify({
+        enabled: true,
+        artifacts: [
+          { id: 'good', source: 'vendor/pkg.tgz', target: 'good.tgz', integrity: good },
+          { id: 'bad', source: 'vendor/pkg.tgz', target: 'bad.tgz', integrity: 'sha512-AAAA' },
+        ],
+      }),
+      'utf-8'
+    );
+
+    const result = await runMirrorLifecycle(workspaceRoot, { ciMode: true, offlineMode: false });
+
+    expect(result.checks.find((c) => c.id === 'mirror.verify.good')?.status).toBe('passed');
+    expect(result.checks.find((c) => c.id === 'mirror.verify.bad')).toMatchObject({
+      status: 'failed',
+      message: 'Integrity mismatch for bad.',
+    });
+  });
+});
@@ -0,0 +1,244 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { createHash } from 'crypto';
+import type { Server } from 'http';
+import {
+  getMirrorPackageEnv,
+  startMirrorPackageServer,
+  withMirrorPackageIndex,
+} from '../utils/mirror-server.js';
+import { NodeRuntimeAdapter } from '../runtime-adapters/node.js';
+
+function makeTarball(manifest: Record<string, unknown>): Buffer {
+  const body = Buffer.from(JSON.stringify(manifest));
+  const header = Buffer.alloc(512);
+  header.write('package/package.json', 0);
+  header.write('0000644\0', 100);
+  header.write(`${body.length.toString(8).padStart(11, '0')}\0`, 124);
+  header.write('0', 156);
+  const padding = Buffer.alloc(Math.ceil(body.length / 512) * 512 - body.length);
+  return zlib.gzipSync(Buffer.concat([header, body, padding, Buffer.alloc(1024)]));
+}
+
+function makeStoredZip(name: string, content: string): Buffer {
+  const nameBytes = Buffer.from(name);
+  const data = Buffer.from(content);
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(0x04034b50, 0);
+  local.writeUInt32LE(data.length, 18);
+  local.writeUInt32LE(data.length, 22);
+  local.writeUInt16LE(nameBytes.length, 26);
+  const central = Buffer.alloc(46);
+  central.writeUInt32LE(0x02014b50, 0);
+  central.writeUInt32LE(data.length, 20);
+  central.writeUInt32LE(data.length, 24);
+  central.writeUInt16LE(nameBytes.length, 28);
+  const centralOffset = local.length + nameBytes.length + data.length;
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(1, 8);
+  eocd.writeUInt16LE(1, 10);
+  eocd.writeUInt32LE(central.length + nameBytes.length, 12);
+  eocd.writeUInt32LE(centralOffset, 16);
+  return Buffer.concat([local, nameBytes, data, central, nameBytes, eocd]);
+}
+
+describe('mirror package index server', () => {
+  let workspaceRoot: string;
+  let server: Server | null;
+  let baseUrl: string;
+
+  const artifactsDir = () => path.join(workspaceRoot, '.rapidkit', 'mirror', 'artifacts');
+
+  async function writeMirror(mode: string, enabled: boolean | null = true) {
+    await writeFile(
+      path.join(workspaceRoot, '.rapidkit', 'mirror-config.json'),
+      JSON.stringify({
+        ...(enabled === null ? {} : { enabled }),
+        mode,
+        artifacts: [
+          {
+            id: 'pypi-Flask_Login-0.6.3-py3-none-any',
+            url: 'https://files.pythonhosted.org/packages/py3/F/Flask_Login/Flask_Login-0.6.3-py3-none-any.whl',
+            target: 'pypi/Flask_Login-0.6.3-py3-none-any.whl',
+          },
+          {
+            id: 'npm-nestjs-core-10.3.0',
+            url: 'https://registry.npmjs.org/@nestjs/core/-/core-10.3.0.tgz',
+            target: 'npm/nestjs-core-10.3.0.tgz',
+          },
+          {
+            id: 'go-github.com-BurntSushi-toml-v1.3.2',
+            url: 'https://proxy.golang.org/github.com/!burnt!sushi/toml/@v/v1.3.2.zip',
+            target: 'go/github.com_BurntSushi_toml@v1.3.2.zip',
+          },
+          { id: 'not-synced', url: 'https://files.pythonhosted.org/x/missing-1.0.tar.gz' },
+        ],
+      }),
+      'utf-8'
+    );
+  }
+
+  beforeEach(async () => {
+    workspaceRoot = await mkdtemp(path.join(tmpdir(), 'rapidkit-mirror-server-'));
+    for (const dir of ['pypi', 'npm', 'go']) {
+      await mkdir(path.join(artifactsDir(), dir), { recursive: true });
+    }
+    await writeFile(
+      path.join(artifactsDir(), 'pypi', 'Flask_Login-0.6.3-py3-none-any.whl'),
+      'wheel',
+      'utf-8'
+    );
+    await writeFile(
+      path.join(artifactsDir(), 'npm', 'nestjs-core-10.3.0.tgz'),
+      makeTarball({ name: '@nestjs/core', version: '10.3.0', dependencies: { tslib: '2.6.2' } })
+    );
+    await writeFile(
+      path.join(artifactsDir(), 'go', 'github.com_BurntSushi_toml@v1.3.2.zip'),
+      makeStoredZip(
+        'github.com/BurntSushi/toml@v1.3.2/go.mod',
+        'module github.com/BurntSushi/toml\n'
+      )
+    );
+    await writeMirror('offline-only');
+    server = null;
+  });
+
+  afterEach(async () => {
+    delete process.env.RAPIDKIT_WORKSPACE_PATH;
+    if (server) {
+      await new Promise<void>((resolve) => server?.close(() => resolve()));
+    }
+    await rm(workspaceRoot, { recursive: true, force: true });
+  });
+
+  async function start(upstreamFallback = false) {
+    const started = await startMirrorPackageServer(workspaceRoot, { upstreamFallback });
+    server = started.server;
+    baseUrl = started.url;
+  }
+
+  it('serves a PEP 503 simple index with sha256 fragments', async () => {
+    await start();
+
+    const root = await (await fetch(`${baseUrl}/pypi/simple/`)).text();
+    expect(root).toContain('href="/pypi/simple/flask-login/"');
+
+    const page = await (await fetch(`${baseUrl}/pypi/simple/Flask.Login/`)).text();
+    const sha = createHash('sha256').update('wheel').digest('hex');
+    expect(page).toContain(
+      `href="/files/pypi/Flask_Login-0.6.3-py3-none-any.whl#sha256=${sha}">Flask_Login-0.6.3-py3-none-any.whl</a>`
+    );
+
+    const file = await fetch(`${baseUrl}/files/pypi/Flask_Login-0.6.3-py3-none-any.whl`);
+    expect(await file.text()).toBe('wheel');
+    expect((await fetch(`${baseUrl}/files/..%2F..%2Fmirror-config.json`)).status).toBe(404);
+    expect((await fetch(`${baseUrl}/pypi/simple/missing/`)).status).toBe(404);
+  });
+
+  it('serves npm packuments and tarballs from the tarball manifest', async () => {
+    await start();
+
+    const response = await fetch(`${baseUrl}/npm/@nestjs%2fcore`);
+    const packument = await response.json();
+    expect(packument['dist-tags']).toEqual({ latest: '10.3.0' });
+    expect(packument.versions['10.3.0']).toMatchObject({
+      name: '@nestjs/core',
+      dependencies: { tslib: '2.6.2' },
+      dist: { tarball: `${baseUrl}/npm/@nestjs/core/-/core-10.3.0.tgz` },
+    });
+    expect(packument.versions['10.3.0'].dist.integrity).toMatch(/^sha512-/);
+
+    const tarball = await fetch(packument.versions['10.3.0'].dist.tarball);
+    expect(tarball.status).toBe(200);
+    expect((await tarball.arrayBuffer()).byteLength).toBeGreaterThan(0);
+    expect((await fetch(`${baseUrl}/npm/left-pad`)).status).toBe(404);
+  });
+
+  it('redirects unknown npm packages upstream in offline-first mode', async () => {
+    await start(true);
+
+    const response = await fetch(`${baseUrl}/npm/left-pad`, { redirect: 'manual' });
+    expect(response.status).toBe(302);
+    expect(response.headers.get('location')).toBe('https://registry.npmjs.org/left-pad');
+  });
+
+  it('answers the GOPROXY protocol for mirrored module zips', async () => {
+    await start();
+    const modulePath = `${baseUrl}/go/github.com/!burnt!sushi/toml/@v`;
+
+    expect(await (await fetch(`${modulePath}/list`)).text()).toBe('v1.3.2\n');
+    expect(await (await fetch(`${modulePath}/v1.3.2.info`)).json()).toMatchObject({
+      Version: 'v1.3.2',
+    });
+    expect(await (await fetch(`${modulePath}/v1.3.2.mod`)).text()).toBe(
+      'module github.com/BurntSushi/toml\n'
+    );
+    expect((await fetch(`${modulePath}/v1.3.2.zip`)).status).toBe(200);
+    expect((await fetch(`${modulePath}/v9.9.9.zip`)).status).toBe(404);
+  });
+
+  it('builds package manager environment per mirror mode', () => {
+    const offlineOnly = getMirrorPackageEnv('http://127.0.0.1:7439', 'offline-only');
+    expect(offlineOnly).toMatchObject({
+      PIP_INDEX_URL: 'http://127.0.0.1:7439/pypi/simple/',
+      npm_config_registry: 'http://127.0.0.1:7439/npm/',
+      GOPROXY: 'http://127.0.0.1:7439/go',
+      GOSUMDB: 'off',
+    });
+    expect(offlineOnly.PIP_EXTRA_INDEX_URL).toBeUndefined();
+
+    const offlineFirst = getMirrorPackageEnv('http://127.0.0.1:7439/', 'offline-first');
+    expect(offlineFirst.GOPROXY).toBe('http://127.0.0.1:7439/go,https://proxy.golang.org,direct');
+    expect(offlineFirst.GOSUMDB).toBeUndefined();
+  });
+
+  it('points installs at an in-process server only for an enabled offline mirror', async () => {
+    const seen: Array<string | undefined> = [];
+    await withMirrorPackageIndex(workspaceRoot, async (mirrorUrl) => {
+      seen.push(process.env.npm_config_registry);
+      expect(process.env.PIP_INDEX_URL).toBe(`${mirrorUrl}/pypi/simple/`);
+      const packument = await fetch(`${process.env.npm_config_registry}@nestjs%2fcore`);
+      expect(packument.status).toBe(200);
+    });
+    expect(seen[0]).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/npm\/$/);
+    expect(process.env.npm_config_registry).toBeUndefined();
+
+    await writeMirror('online');
+    await withMirrorPackageIndex(workspaceRoot, async (mirrorUrl) => {
+      expect(mirrorUrl).toBeNull();
+      seen.push(process.env.npm_config_registry);
+    });
+    expect(seen[1]).toBeUndefined();
+
+    await writeMirror('offline-only', false);
+    await withMirrorPackageIndex(workspaceRoot, async (mirrorUrl) => {
+      expect(mirrorUrl).toBeNull();
+      seen.push(process.env.npm_config_registry);
+    });
+    expect(seen[2]).toBeUndefined();
+
+    // The mirror is opt-in, as in bootstrap: no `enabled` key means disabled.
+    await writeMirror('offline-only', null);
+    await withMirrorPackageIndex(workspaceRoot, async (mirrorUrl) => {
+      expect(mirrorUrl).toBeNull();
+    });
+  });
+
+  it('runs node installs against the mirror registry', async () => {
+    process.env.RAPIDKIT_WORKSPACE_PATH = workspaceRoot;
+    const registries: Array<string | undefined> = [];
+    const adapter = new NodeRuntimeAdapter(async () => {
+      registries.push(process.env.npm_config_registry);
+      return 0;
+    });
+
+    const result = await adapter.initProject(workspaceRoot);
+
+    expect(result.exitCode).toBe(0);
+    expect(registries[0]).toMatch(/\/npm\/$/);
+  });
+});
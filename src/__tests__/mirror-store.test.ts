@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, readFile, rm, stat, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createHash } from 'crypto';
+import { runMirrorLifecycle } from '../utils/mirror.js';
+import {
+  collectMirrorStoreGarbage,
+  getMirrorStoreBlobPath,
+  readMirrorStoreWorkspaces,
+} from '../utils/mirror-store.js';
+
+describe('mirror content-addressed store', () => {
+  let tempRoot: string;
+  let storeRoot: string;
+  const content = 'wheel-bytes';
+  const sha = createHash('sha256').update(content).digest('hex');
+
+  async function makeWorkspace(name: string, withSource = true): Promise<string> {
+    const workspaceRoot = path.join(tempRoot, name);
+    await mkdir(path.join(workspaceRoot, '.rapidkit'), { recursive: true });
+    if (withSource) {
+      await mkdir(path.join(workspaceRoot, 'vendor'), { recursive: true });
+      await writeFile(path.join(workspaceRoot, 'vendor', 'pkg.whl'), content, 'utf-8');
+    }
+    await writeFile(
+      path.join(workspaceRoot, '.rapidkit', 'mirror-config.json'),
+      JSON.stringify({
+        enabled: true,
+        mode: 'offline-first',
+        store: { enabled: true },
+        artifacts: [{ id: 'pkg', source: 'vendor/pkg.whl', sha256: sha, required: true }],
+      }),
+      'utf-8'
+    );
+    return workspaceRoot;
+  }
+
+  const artifactPath = (workspaceRoot: string) =>
+    path.join(workspaceRoot, '.rapidkit', 'mirror', 'artifacts', 'pkg.whl');
+
+  beforeEach(async () => {
+    tempRoot = await mkdtemp(path.join(tmpdir(), 'rapidkit-mirror-store-'));
+    storeRoot = path.join(tempRoot, 'store');
+    process.env.RAPIDKIT_MIRROR_STORE = storeRoot;
+  });
+
+  afterEach(async () => {
+    delete process.env.RAPIDKIT_MIRROR_STORE;
+    await rm(tempRoot, { recursive: true, force: true });
+  });
+
+  it('stores verified artifacts once and hardlinks them into each workspace', async () => {
+    const first = await makeWorkspace('ws-a');
+    const second = await makeWorkspace('ws-b', false);
+
+    const firstRun = await runMirrorLifecycle(first, { ciMode: true, offlineMode: false });
+    const secondRun = await runMirrorLifecycle(second, { ciMode: true, offlineMode: true });
+
+    expect(firstRun.details.storedArtifacts).toBe(1);
+    expect(secondRun.details.storeReusedArtifacts).toBe(1);
+    expect(secondRun.checks.find((c) => c.id === 'mirror.store.pkg')?.status).toBe('passed');
+
+    const blob = await stat(getMirrorStoreBlobPath(storeRoot, sha));
+    expect((await stat(artifactPath(first))).ino).toBe(blob.ino);
+    expect((await stat(artifactPath(second))).ino).toBe(blob.ino);
+
+    const lock = JSON.parse(await readFile(path.join(second, '.rapidkit', 'mirror.lock'), 'utf-8'));
+    expect(lock.artifacts[0].store).toMatchObject({ link: 'hardlink' });
+    expect(await readMirrorStoreWorkspaces(storeRoot)).toEqual([first, second].sort());
+  });
+
+  it('gc keeps referenced blobs, removes orphans and forgets deleted workspaces', async () => {
+    const kept = await makeWorkspace('ws-kept');
+    const deleted = await makeWorkspace('ws-deleted');
+    await runMirrorLifecycle(kept, { ciMode: true, offlineMode: false });
+    await runMirrorLifecycle(deleted, { ciMode: true, offlineMode: false });
+
+    const orphanSha = 'a'.repeat(64);
+    const orphanPath = getMirrorStoreBlobPath(storeRoot, orphanSha);
+    await mkdir(path.dirname(orphanPath), { recursive: true });
+    await writeFile(orphanPath, 'orphan', 'utf-8');
+    await rm(deleted, { recursive: true, force: true });
+
+    const dryRun = await collectMirrorStoreGarbage(storeRoot, { dryRun: true });
+    expect(dryRun.removedBlobs).toEqual([orphanSha]);
+    expect(existsSync(orphanPath)).toBe(true);
+
+    const result = await collectMirrorStoreGarbage(storeRoot);
+
+    expect(result.forgottenWorkspaces).toEqual([deleted]);
+    expect(result.referencedBlobs).toBe(1);
+    expect(result.removedBlobs).toEqual([orphanSha]);
+    expect(existsSync(orphanPath)).toBe(false);
+    expect(existsSync(getMirrorStoreBlobPath(storeRoot, sha))).toBe(true);
+    expect(await readMirrorStoreWorkspaces(storeRoot)).toEqual([kept]);
+  });
+
+  it('gc removes nothing when a registered lock cannot be read', async () => {
+    const workspace = await makeWorkspace('ws-broken');
+    await runMirrorLifecycle(workspace, { ciMode: true, offlineMode: false });
+    await writeFile(path.join(workspace, '.rapidkit', 'mirror.lock'), '{broken', 'utf-8');
+
+    const result = await collectMirrorStoreGarbage(storeRoot);
+
+    expect(result.unreadableLocks).toHaveLength(1);
+    expect(result.removedBlobs).toEqual([]);
+    expect(existsSync(getMirrorStoreBlobPath(storeRoot, sha))).toBe(true);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { findKit, generateKitProject, loadKitRegistry } from '../generators/registry.js';
+import { readKitBaseline } from '../generators/kit-baseline.js';
+import {
+  addNestMonorepoProject,
+  findNestMonorepoRoot,
+  nestMonorepoMemberKind,
+} from '../nest-monorepo.js';
+import { upgradeKitProject } from '../kit-upgrade.js';
+import { NestMonorepoError } from '../errors.js';
+
+vi.mock('ora', () => ({
+  default: vi.fn(() => ({
+    start: vi.fn().mockReturnThis(),
+    succeed: vi.fn().mockReturnThis(),
+    fail: vi.fn().mockReturnThis(),
+    warn: vi.fn().mockReturnThis(),
+    stop: vi.fn().mockReturnThis(),
+    text: '',
+  })),
+}));
+
+describe('NestJS monorepo projects', () => {
+  let tempDir: string;
+  let projectPath: string;
+
+  const read = (file: string) => fs.readFile(path.join(projectPath, file), 'utf-8');
+  const readJson = async (file: string) => JSON.parse(await read(file));
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rapidkit-nest-projects-'));
+    projectPath = path.join(tempDir, 'shop');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    const registry = await loadKitRegistry({ cwd: tempDir, sources: [] });
+    await generateKitProject(
+      findKit(registry, 'nestjs.monorepo')!,
+      projectPath,
+      { project_name: 'shop' },
+      { skipGit: true, skipInstall: true }
+    );
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('routes nestjs.app and nestjs.lib and finds the monorepo from inside it', async () => {
+    expect(nestMonorepoMemberKind('nestjs.app')).toBe('app');
+    expect(nestMonorepoMemberKind('NestJS.Lib')).toBe('lib');
+    expect(nestMonorepoMemberKind('nestjs.standard')).toBeNull();
+
+    expect(await findNestMonorepoRoot(path.join(projectPath, 'apps', 'api', 'src'))).toBe(
+      projectPath
+    );
+    expect(await findNestMonorepoRoot(tempDir)).toBeNull();
+  });
+
+  it('previews an app without writing it', async () => {
+    const result = await addNestMonorepoProject(projectPath, 'app', 'billing', { dryRun: true });
+
+    expect(result.applied).toBe(false);
+    expect(result.files).toContainEqual({ path: 'apps/billing/src/main.ts', status: 'added' });
+    expect(result.files).toContainEqual({ path: 'nest-cli.json', status: 'updated' });
+    await expect(fs.access(path.join(projectPath, 'apps/billing'))).rejects.toThrow();
+  });
+
+  it('merges a new app into nest-cli.json while keeping local edits', async () => {
+    const nestCli = await readJson('nest-cli.json');
+    nestCli.compilerOptions.assets = ['**/*.graphql'];
+    await fs.writeFile(
+      path.join(projectPath, 'nest-cli.json'),
+      `${JSON.stringify(nestCli, null, 2)}\n`
+    );
+
+    const result = await addNestMonorepoProject(projectPath, 'app', 'billing');
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.files).toContainEqual({ path: 'nest-cli.json', status: 'merged' });
+    const merged = await readJson('nest-cli.json');
+    expect(merged.compilerOptions.assets).toEqual(['**/*.graphql']);
+    expect(merged.projects.billing.root).toBe('apps/billing');
+    expect(await read('apps/billing/src/main.ts')).toContain("process.env.PORT ?? '3001'");
+    expect((await readJson('.rapidkit/project.json')).apps).toEqual(['api', 'billing']);
+
+    // The baseline follows, so upgrade-kit sees nothing to do.
+    expect((await readKitBaseline(projectPath))?.variables.apps).toBe('api,billing');
+    const upgrade = await upgradeKitProject(projectPath, { dryRun: true });
+    expect(upgrade.files).toEqual([]);
+  });
+
+  it('adds libraries with a path alias and Jest mapping', async () => {
+    await addNestMonorepoProject(projectPath, 'lib', 'payments');
+
+    expect((await readJson('tsconfig.json')).compilerOptions.paths['@app/payments']).toEqual([
+      'libs/payments/src',
+    ]);
+    expect((await readJson('package.json')).jest.moduleNameMapper).toHaveProperty(
+      ['^@app/payments(|/.*)$'],
+      '<rootDir>/libs/payments/src/$1'
+    );
+    expect(await read('libs/payments/src/index.ts')).toContain("from './payments.module'");
+    expect((await readJson('.rapidkit/project.json')).libs).toEqual(['shared', 'payments']);
+  });
+
+  it('refuses names that are taken or invalid, and projects that are not monorepos', async () => {
+    await expect(addNestMonorepoProject(projectPath, 'app', 'shared')).rejects.toThrow(
+      NestMonorepoError
+    );
+    await expect(addNestMonorepoProject(projectPath, 'lib', 'Payments')).rejects.toThrow(
+      'Invalid library name'
+    );
+    await fs.mkdir(path.join(projectPath, 'apps', 'legacy'));
+    await expect(addNestMonorepoProject(projectPath, 'app', 'legacy')).rejects.toThrow(
+      'apps/legacy already exists'
+    );
+    await expect(addNestMonorepoProject(tempDir, 'app', 'billing')).rejects.toThrow(
+      'Not a NestJS monorepo'
+    );
+  });
+});
@@ -158,6 +158,76 @@ describe('Phase 3 commands - CLI process integration', () => {
     }
   });
 
+  it('records policy changes in the audit log and diffs against defaults', () => {
+    const dist = ensureDistBuilt();
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rapidkit-ws-policy-audit-'));
+    const workspaceDir = path.join(tempDir, 'my-workspace');
+    const env = { ...process.env, RAPIDKIT_ACTOR: 'compliance-bot' };
+
+    try {
+      fs.mkdirSync(path.join(workspaceDir, '.rapidkit'), { recursive: true });
+      fs.writeFileSync(
+        path.join(workspaceDir, '.rapidkit-workspace'),
+        JSON.stringify({ signature: 'RAPIDKIT_WORKSPACE' }, null, 2)
+      );
+      fs.writeFileSync(
+        path.join(workspaceDir, '.rapidkit', 'policies.yml'),
+        ['version: "1.0"', 'mode: strict', ''].join('\n')
+      );
+
+      const setMode = spawnSync(
+        process.execPath,
+        [dist, 'workspace', 'policy', 'set', 'mode', 'warn'],
+        { cwd: workspaceDir, encoding: 'utf8', env }
+      );
+      expect(setMode.status).toBe(0);
+
+      const auditLines = fs
+        .readFileSync(path.join(workspaceDir, '.rapidkit', 'reports', 'policy-audit.jsonl'), 'utf8')
+        .trim()
+        .split('\n');
+      expect(auditLines).toHaveLength(1);
+      expect(JSON.parse(auditLines[0])).toMatchObject({
+        actor: 'compliance-bot',
+        key: 'mode',
+        old_value: 'strict',
+        new_value: 'warn',
+      });
+
+      const audit = spawnSync(process.execPath, [dist, 'workspace', 'policy', 'audit', 'mode'], {
+        cwd: workspaceDir,
+        encoding: 'utf8',
+        env,
+      });
+      expect(audit.status).toBe(0);
+      expect(audit.stdout).toContain('compliance-bot  mode: strict → warn');
+
+      const setRule = spawnSync(
+        process.execPath,
+        [dist, 'workspace', 'policy', 'set', 'rules.enforce_toolchain_lock', 'true'],
+        { cwd: workspaceDir, encoding: 'utf8', env }
+      );
+      expect(setRule.status).toBe(0);
+
+      const diff = spawnSync(process.execPath, [dist, 'workspace', 'policy', 'diff', '--json'], {
+        cwd: workspaceDir,
+        encoding: 'utf8',
+        env,
+      });
+      expect(diff.status).toBe(0);
+      const payload = JSON.parse(diff.stdout) as {
+        base: string;
+        changes: Array<{ key: string; change: string; from: unknown; to: unknown }>;
+      };
+      expect(payload.base).toBe('defaults');
+      expect(payload.changes).toEqual([
+        { key: 'rules.enforce_toolchain_lock', change: 'changed', from: false, to: true },
+      ]);
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true, maxRetries: 5, retryDelay: 200 });
+    }
+  });
+
   it('rejects workspace policy operations outside a workspace', () => {
     const dist = ensureDistBuilt();
     const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rapidkit-ws-policy-outside-'));
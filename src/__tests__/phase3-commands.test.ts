@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { mkdtemp, mkdir, readFile, rm, writeFile } from 'fs/promises';
 import { tmpdir } from 'os';
 import path from 'path';
 import { createHash, createSign, generateKeyPairSync } from 'crypto';
@@ -11,16 +11,27 @@ const adapterDoctorHints = vi.fn();
 const getRuntimeAdapterMock = vi.fn();
 const areRuntimeAdaptersEnabledMock = vi.fn();
 const cacheClearMock = vi.fn();
+const cachePruneMock = vi.fn();
+const cacheRepairMock = vi.fn();
+const cacheStatsMock = vi.fn();
+const cacheEnforceQuotaMock = vi.fn();
 
 vi.mock('../runtime-adapters/index.js', () => ({
   getRuntimeAdapter: getRuntimeAdapterMock,
   areRuntimeAdaptersEnabled: areRuntimeAdaptersEnabledMock,
 }));
 
-vi.mock('../utils/cache.js', () => ({
+vi.mock('../utils/cache.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../utils/cache.js')>()),
   Cache: {
     getInstance: vi.fn(() => ({
       clear: cacheClearMock,
+      prune: cachePruneMock,
+      repair: cacheRepairMock,
+      stats: cacheStatsMock,
+      enforceQuota: cacheEnforceQuotaMock,
+      configure: vi.fn(),
+      getNamespaceTtl: vi.fn(() => 24 * 60 * 60 * 1000),
     })),
   },
 }));
@@ -55,6 +66,20 @@ describe('Phase 3 command contract handlers', () => {
     adapterCheckPrereqs.mockResolvedValue({ exitCode: 0 });
     adapterDoctorHints.mockResolvedValue([]);
     cacheClearMock.mockResolvedValue(undefined);
+    cachePruneMock.mockResolvedValue({
+      scanned: 0,
+      removed: 0,
+      freedBytes: 0,
+      reasons: { expired: 0, versionMismatch: 0, corrupt: 0 },
+    });
+    cacheRepairMock.mockResolvedValue({ scanned: 0, removed: 0, rehashed: 0 });
+    cacheEnforceQuotaMock.mockResolvedValue({ evicted: 0, freedBytes: 0, totalBytes: 0 });
+    cacheStatsMock.mockResolvedValue({
+      directory: '/tmp/cache',
+      entries: 0,
+      bytes: 0,
+      namespaces: {},
+    });
 
     vi.spyOn(console, 'log').mockImplementation(() => {});
   });
@@ -214,6 +239,116 @@ describe('Phase 3 command contract handlers', () => {
       await cleanupWorkspaceDir(workspaceRoot);
     });
 
+    it('reports unknown policy keys as warnings in warn mode and blocks on them in strict mode', async () => {
+      const workspaceRoot = await mkdtemp(
+        path.join(tmpdir(), 'rapidkit-bootstrap-policy-unknown-')
+      );
+      const rapidkitDir = path.join(workspaceRoot, '.rapidkit');
+      const writePolicy = (mode: string) =>
+        writeFile(
+          path.join(rapidkitDir, 'policies.yml'),
+          [
+            'version: "1.0"',
+            `mode: ${mode}`,
+            'defaults: &d',
+            '  enforce_workspace_marker: true',
+            'rules:',
+            '  <<: *d',
+            '',
+          ].join('\n'),
+          'utf-8'
+        );
+
+      await mkdir(rapidkitDir, { recursive: true });
+      await writeFile(path.join(workspaceRoot, '.rapidkit-workspace'), '{}', 'utf-8');
+      await writeFile(
+        path.join(rapidkitDir, 'workspace.json'),
+        JSON.stringify({ profile: 'minimal' }, null, 2),
+        'utf-8'
+      );
+      await writePolicy('warn');
+      process.chdir(workspaceRoot);
+
+      const index = await import('../index.js');
+      const initRunner = vi.fn().mockResolvedValue(0);
+      expect(await index.handleBootstrapCommand(['bootstrap'], initRunner)).toBe(0);
+      expect(initRunner).toHaveBeenCalledTimes(1);
+      const latestReport = path.join(rapidkitDir, 'reports', 'bootstrap-compliance.latest.json');
+      const report = JSON.parse(await readFile(latestReport, 'utf-8'));
+      expect(report.result).toBe('ok_with_warnings');
+      expect(report.checks).toContainEqual(
+        expect.objectContaining({ id: 'policy.schema_warning.defaults', status: 'failed' })
+      );
+
+      await writePolicy('strict');
+      expect(await index.handleBootstrapCommand(['bootstrap'], initRunner)).toBe(1);
+      expect(initRunner).toHaveBeenCalledTimes(1);
+
+      await cleanupWorkspaceDir(workspaceRoot);
+    });
+
+    it('reports custom policy rules and blocks strict bootstrap when they fail', async () => {
+      const workspaceRoot = await mkdtemp(path.join(tmpdir(), 'rapidkit-bootstrap-custom-rules-'));
+      const rapidkitDir = path.join(workspaceRoot, '.rapidkit');
+      const projectDir = path.join(workspaceRoot, 'api');
+
+      await mkdir(rapidkitDir, { recursive: true });
+      await mkdir(path.join(projectDir, '.rapidkit'), { recursive: true });
+      await writeFile(path.join(workspaceRoot, '.rapidkit-workspace'), '{}', 'utf-8');
+      await writeFile(
+        path.join(rapidkitDir, 'workspace.json'),
+        JSON.stringify({ profile: 'polyglot' }, null, 2),
+        'utf-8'
+      );
+      await writeFile(
+        path.join(projectDir, '.rapidkit', 'project.json'),
+        JSON.stringify({ kit_name: 'fastapi.standard', runtime: 'python' }, null, 2),
+        'utf-8'
+      );
+      await writeFile(
+        path.join(rapidkitDir, 'policies.yml'),
+        [
+          'version: "1.0"',
+          'mode: strict',
+          'rules:',
+          '  enforce_workspace_marker: true',
+          'custom_rules:',
+          '  - id: dockerfile-required',
+          '    type: file_exists',
+          '    path: Dockerfile',
+          '  - id: no-legacy-kits',
+          '    type: forbid_kit',
+          '    kits: ["fastapi.legacy*"]',
+          '',
+        ].join('\n'),
+        'utf-8'
+      );
+
+      process.chdir(workspaceRoot);
+
+      const index = await import('../index.js');
+      const initRunner = vi.fn().mockResolvedValue(0);
+      const code = await index.handleBootstrapCommand(['bootstrap'], initRunner);
+
+      expect(code).toBe(1);
+      expect(initRunner).not.toHaveBeenCalled();
+
+      const { readJson } = await import('fs-extra');
+      const report = (await readJson(
+        path.join(rapidkitDir, 'reports', 'bootstrap-compliance.latest.json')
+      )) as { checks: Array<{ id: string; status: string; message: string }> };
+      const dockerfileCheck = report.checks.find(
+        (check) => check.id === 'policy.custom.dockerfile-required'
+      );
+      expect(dockerfileCheck?.status).toBe('failed');
+      expect(dockerfileCheck?.message).toContain('Dockerfile is missing in [api]');
+      expect(report.checks).toContainEqual(
+        expect.objectContaining({ id: 'policy.custom.no-legacy-kits', status: 'passed' })
+      );
+
+      await cleanupWorkspaceDir(workspaceRoot);
+    });
+
     it('forwards bootstrap path args and writes compliance report on success', async () => {
       const workspaceRoot = await mkdtemp(path.join(tmpdir(), 'rapidkit-bootstrap-report-'));
       const rapidkitDir = path.join(workspaceRoot, '.rapidkit');
@@ -443,10 +578,11 @@ describe('Phase 3 command contract handlers', () => {
       const code = await index.handleCacheCommand(['cache']);
 
       expect(code).toBe(0);
+      expect(cacheStatsMock).toHaveBeenCalledTimes(1);
       expect(cacheClearMock).not.toHaveBeenCalled();
     });
 
-    it('clears cache for clear/prune/repair actions', async () => {
+    it('dispatches clear/prune/repair to the matching cache operation', async () => {
       const index = await import('../index.js');
 
       const clearCode = await index.handleCacheCommand(['cache', 'clear']);
@@ -456,7 +592,9 @@ describe('Phase 3 command contract handlers', () => {
       expect(clearCode).toBe(0);
       expect(pruneCode).toBe(0);
       expect(repairCode).toBe(0);
-      expect(cacheClearMock).toHaveBeenCalledTimes(3);
+      expect(cacheClearMock).toHaveBeenCalledTimes(1);
+      expect(cachePruneMock).toHaveBeenCalledTimes(1);
+      expect(cacheRepairMock).toHaveBeenCalledTimes(1);
     });
 
     it('returns usage error for unsupported action', async () => {
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { execFileSync } from 'child_process';
+import {
+  appendPolicyAuditEntry,
+  getPolicyAuditLogPath,
+  hashWorkspacePolicy,
+  readPolicyAuditLog,
+  readWorkspacePolicyAtRef,
+  recordPolicyHashChange,
+  resolvePolicyActor,
+} from '../utils/policy-audit.js';
+import { loadWorkspacePolicy } from '../utils/workspace-policy.js';
+
+describe('policy audit log', () => {
+  let workspaceRoot: string;
+  const originalActor = process.env.RAPIDKIT_ACTOR;
+
+  beforeEach(() => {
+    workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'rapidkit-policy-audit-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspaceRoot, { recursive: true, force: true });
+    if (originalActor === undefined) delete process.env.RAPIDKIT_ACTOR;
+    else process.env.RAPIDKIT_ACTOR = originalActor;
+  });
+
+  it('appends entries and reads them back oldest-first', async () => {
+    const base = {
+      actor: 'alice',
+      command: 'workspace policy set mode warn',
+      file: '.rapidkit/policies.yml',
+      key: 'mode',
+    };
+    await appendPolicyAuditEntry(workspaceRoot, {
+      ...base,
+      timestamp: '2026-01-01T00:00:00.000Z',
+      old_value: 'warn',
+      new_value: 'strict',
+    });
+    fs.appendFileSync(getPolicyAuditLogPath(workspaceRoot), '{"truncated":\n');
+    await appendPolicyAuditEntry(workspaceRoot, {
+      ...base,
+      timestamp: '2026-02-01T00:00:00.000Z',
+      old_value: 'strict',
+      new_value: 'warn',
+    });
+
+    const entries = await readPolicyAuditLog(workspaceRoot);
+
+    expect(entries.map((entry) => entry.new_value)).toEqual(['strict', 'warn']);
+  });
+
+  it('returns an empty log when nothing was recorded', async () => {
+    await expect(readPolicyAuditLog(workspaceRoot)).resolves.toEqual([]);
+  });
+
+  it('prefers RAPIDKIT_ACTOR when identifying the actor', async () => {
+    process.env.RAPIDKIT_ACTOR = 'ci-pipeline';
+
+    await expect(resolvePolicyActor(workspaceRoot)).resolves.toBe('ci-pipeline');
+  });
+
+  it('records policy changes made outside workspace policy set', async () => {
+    process.env.RAPIDKIT_ACTOR = 'ci-pipeline';
+    const policyPath = path.join(workspaceRoot, '.rapidkit', 'policies.yml');
+    const record = async () =>
+      recordPolicyHashChange(workspaceRoot, await loadWorkspacePolicy(workspaceRoot), 'bootstrap');
+
+    await expect(record()).resolves.toBeNull();
+    fs.mkdirSync(path.dirname(policyPath), { recursive: true });
+    fs.writeFileSync(policyPath, 'mode: warn\n');
+    const baseline = await record();
+    expect(baseline).toMatchObject({ key: 'policy_hash', old_value: null });
+
+    // Comments and formatting are not policy changes.
+    fs.writeFileSync(policyPath, '# team policy\nmode: "warn"\n');
+    await expect(record()).resolves.toBeNull();
+
+    fs.writeFileSync(policyPath, 'mode: strict\n');
+    const changed = await record();
+    expect(changed).toMatchObject({
+      actor: 'ci-pipeline',
+      command: 'bootstrap',
+      file: path.join('.rapidkit', 'policies.yml'),
+      old_value: baseline?.policy_hash,
+      new_value: hashWorkspacePolicy((await loadWorkspacePolicy(workspaceRoot)).policy),
+    });
+    await expect(record()).resolves.toBeNull();
+    expect((await readPolicyAuditLog(workspaceRoot)).map((entry) => entry.key)).toEqual([
+      'policy_hash',
+      'policy_hash',
+    ]);
+  });
+
+  it('reads the policy file at a git ref', async () => {
+    const git = (...args: string[]) =>
+      execFileSync('git', args, { cwd: workspaceRoot, stdio: 'pipe' });
+    git('init', '-q');
+    git('config', 'user.email', 'dev@example.com');
+    git('config', 'user.name', 'Dev');
+    git('config', 'commit.gpgsign', 'false');
+    fs.mkdirSync(path.join(workspaceRoot, '.rapidkit'));
+    fs.writeFileSync(path.join(workspaceRoot, 'README.md'), '# ws\n');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'init');
+    fs.writeFileSync(path.join(workspaceRoot, '.rapidkit', 'policies.yml'), 'mode: strict\n');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'policy');
+
+    await expect(readWorkspacePolicyAtRef(workspaceRoot, 'HEAD')).resolves.toEqual({
+      ok: true,
+      content: 'mode: strict\n',
+    });
+    await expect(readWorkspacePolicyAtRef(workspaceRoot, 'HEAD~1')).resolves.toEqual({
+      ok: true,
+      content: null,
+    });
+    await expect(readWorkspacePolicyAtRef(workspaceRoot, 'no-such-ref')).resolves.toEqual({
+      ok: false,
+      error: 'Unknown git ref: no-such-ref',
+    });
+  });
+});
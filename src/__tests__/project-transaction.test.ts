@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { DirectoryExistsError } from '../errors.js';
+import { beginProjectTransaction, runProjectTransaction } from '../project-transaction.js';
+import {
+  registerProjectInWorkspace,
+  registerWorkspace,
+  unregisterProjectFromWorkspace,
+  unregisterWorkspace,
+} from '../workspace.js';
+
+describe('project transactions', () => {
+  let tempDir: string;
+  let target: string;
+
+  const exists = (p: string) =>
+    fs.access(p).then(
+      () => true,
+      () => false
+    );
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rapidkit-project-tx-'));
+    target = path.join(tempDir, 'orders');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('stages next to the target and moves the tree into place on commit', async () => {
+    const workPaths: string[] = [];
+    await runProjectTransaction(target, async (transaction) => {
+      workPaths.push(transaction.workPath);
+      expect(path.dirname(transaction.workPath)).toBe(tempDir);
+      expect(path.basename(transaction.workPath)).toMatch(/^\.orders\.rapidkit-staging-/);
+      await fs.writeFile(path.join(transaction.workPath, 'go.mod'), 'module orders\n');
+      expect(await exists(target)).toBe(false);
+    });
+
+    expect(await fs.readFile(path.join(target, 'go.mod'), 'utf-8')).toBe('module orders\n');
+    expect(await exists(workPaths[0])).toBe(false);
+    expect(await fs.readdir(tempDir)).toEqual(['orders']);
+  });
+
+  it('rolls back the staged tree and undo steps when generation fails', async () => {
+    const undone: string[] = [];
+    await expect(
+      runProjectTransaction(target, async (transaction) => {
+        await fs.writeFile(path.join(transaction.workPath, 'go.mod'), 'module orders\n');
+        await transaction.publish();
+        transaction.onRollback(async () => {
+          undone.push('registry');
+        });
+        transaction.onRollback(async () => {
+          undone.push('cache');
+          throw new Error('undo failed');
+        });
+        throw new Error('go mod tidy crashed');
+      })
+    ).rejects.toThrow('go mod tidy crashed');
+
+    expect(undone).toEqual(['cache', 'registry']);
+    expect(await fs.readdir(tempDir)).toEqual([]);
+
+    // Nothing blocks the retry.
+    await runProjectTransaction(target, async () => {});
+    expect(await exists(target)).toBe(true);
+  });
+
+  it('refuses existing targets and removes in-place builds on rollback', async () => {
+    await fs.mkdir(target);
+    await expect(beginProjectTransaction(target)).rejects.toThrow(DirectoryExistsError);
+    await fs.rm(target, { recursive: true });
+
+    const transaction = await beginProjectTransaction(target, { inPlace: true });
+    expect(transaction.workPath).toBe(target);
+    await fs.writeFile(path.join(target, 'pyproject.toml'), '');
+    await transaction.rollback();
+    expect(await exists(target)).toBe(false);
+  });
+
+  it('undoes workspace registry entries', async () => {
+    const home = process.env.HOME;
+    process.env.HOME = tempDir;
+    try {
+      const workspace = path.join(tempDir, 'ws');
+      const registryFile = path.join(tempDir, '.rapidkit', 'workspaces.json');
+      const readRegistry = async () => JSON.parse(await fs.readFile(registryFile, 'utf-8'));
+
+      expect(await registerWorkspace(workspace, 'ws')).toBe(true);
+      expect(await registerWorkspace(workspace, 'ws')).toBe(false);
+      expect(await registerProjectInWorkspace(workspace, 'orders', target)).toBe(true);
+      expect((await readRegistry()).workspaces[0].projects).toHaveLength(1);
+
+      await unregisterProjectFromWorkspace(workspace, target);
+      expect((await readRegistry()).workspaces[0].projects).toEqual([]);
+      await unregisterWorkspace(workspace);
+      expect((await readRegistry()).workspaces).toEqual([]);
+    } finally {
+      process.env.HOME = home;
+    }
+  });
+});
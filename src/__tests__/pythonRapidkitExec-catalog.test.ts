@@ -1,6 +1,9 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import type { Mock } from 'vitest';
 import * as fsExtra from 'fs-extra';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
 import { execa } from 'execa';
 
 vi.mock('execa', () => ({
@@ -56,15 +59,26 @@ function mockExecaForCatalog(
 
 describe('getModulesCatalog', () => {
   let bridge: typeof import('../core-bridge/pythonRapidkitExec');
+  let cache: import('../utils/cache').Cache;
+  let cacheDir: string;
+
+  /** Seed the unfiltered catalog entry in the `modules-catalog` namespace. */
+  const seedCatalog = (data: Record<string, unknown>) =>
+    cache.set(JSON.stringify([null, null, false]), data, '1', { namespace: 'modules-catalog' });
 
   beforeEach(async () => {
     vi.resetModules();
     vi.clearAllMocks();
+    cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rapidkit-catalog-cache-'));
+    process.env.RAPIDKIT_CACHE_DIR = cacheDir;
     bridge = await import('../core-bridge/pythonRapidkitExec');
+    cache = (await import('../utils/cache')).Cache.getInstance();
   });
 
-  afterEach(() => {
+  afterEach(async () => {
     delete process.env.RAPIDKIT_DEBUG;
+    delete process.env.RAPIDKIT_CACHE_DIR;
+    await fs.rm(cacheDir, { recursive: true, force: true });
   });
 
   it('returns cached catalog when fresh', async () => {
@@ -78,8 +92,7 @@ describe('getModulesCatalog', () => {
       fetched_at: now - 1000,
     };
 
-    mockFs.pathExists.mockResolvedValue(true);
-    mockFs.readJson.mockResolvedValue(cachedData);
+    await seedCatalog(cachedData);
 
     const result = await bridge.getModulesCatalog();
     expect(result).not.toBeNull();
@@ -100,22 +113,17 @@ describe('getModulesCatalog', () => {
       modules: [{ name: 'new1' }, { name: 'new2' }, { name: 'new3' }],
     };
 
-    mockFs.pathExists.mockResolvedValue(true);
-    mockFs.readJson.mockResolvedValue(oldCache);
-    mockFs.ensureDir.mockResolvedValue(undefined);
-    mockFs.writeJson.mockResolvedValue(undefined);
+    await seedCatalog(oldCache);
 
     mockExecaForCatalog([{ stdout: JSON.stringify(freshData), stderr: '', exitCode: 0 }]);
 
     const result = await bridge.getModulesCatalog();
     expect(result).not.toBeNull();
     expect(result?.modules).toHaveLength(3);
-    expect(mockFs.writeJson).toHaveBeenCalled();
+    expect((await cache.stats()).namespaces['modules-catalog']?.entries).toBe(1);
   });
 
   it('returns null when cache is missing and command fails', async () => {
-    mockFs.pathExists.mockResolvedValue(false);
-
     mockExecaForCatalog([
       { stdout: '', stderr: 'error', exitCode: 1 },
       { stdout: '', stderr: 'error', exitCode: 1 },
@@ -131,10 +139,6 @@ describe('getModulesCatalog', () => {
       { name: 'legacy2', version: '2.0' },
     ];
 
-    mockFs.pathExists.mockResolvedValue(false);
-    mockFs.ensureDir.mockResolvedValue(undefined);
-    mockFs.writeJson.mockResolvedValue(undefined);
-
     mockExecaForCatalog([
       { stdout: '', stderr: 'fail', exitCode: 1 },
       { stdout: JSON.stringify(legacyModules), stderr: '', exitCode: 0 },
@@ -145,7 +149,7 @@ describe('getModulesCatalog', () => {
     expect(result?.schema_version).toBe(1);
     expect(result?.source).toBe('legacy-json');
     expect(result?.modules).toHaveLength(2);
-    expect(mockFs.writeJson).toHaveBeenCalled();
+    expect((await cache.stats()).namespaces['modules-catalog']?.entries).toBe(1);
   });
 
   it('returns stale cache when fresh fetch fails', async () => {
@@ -156,8 +160,7 @@ describe('getModulesCatalog', () => {
       fetched_at: now - 60 * 60 * 1000,
     };
 
-    mockFs.pathExists.mockResolvedValue(true);
-    mockFs.readJson.mockResolvedValue(staleCache);
+    await seedCatalog(staleCache);
 
     mockExecaForCatalog([
       { stdout: '', stderr: 'error', exitCode: 1 },
@@ -172,10 +175,6 @@ describe('getModulesCatalog', () => {
   it('passes category and tag options', async () => {
     const freshData = { schema_version: 1, modules: [{ name: 'filtered' }] };
 
-    mockFs.pathExists.mockResolvedValue(false);
-    mockFs.ensureDir.mockResolvedValue(undefined);
-    mockFs.writeJson.mockResolvedValue(undefined);
-
     mockExecaForCatalog([{ stdout: JSON.stringify(freshData), stderr: '', exitCode: 0 }]);
 
     const result = await bridge.getModulesCatalog({
@@ -194,8 +193,7 @@ describe('getModulesCatalog', () => {
       fetched_at: now - 5000,
     };
 
-    mockFs.pathExists.mockResolvedValue(true);
-    mockFs.readJson.mockResolvedValue(recentCache);
+    await seedCatalog(recentCache);
 
     mockExecaForCatalog([
       { stdout: '', stderr: 'fail', exitCode: 1 },
@@ -207,9 +205,26 @@ describe('getModulesCatalog', () => {
     expect(result).not.toBeNull();
   });
 
-  it('handles invalid JSON from new format gracefully', async () => {
-    mockFs.pathExists.mockResolvedValue(false);
+  it('re-fetches the catalog once quota eviction removes its entry', async () => {
+    const freshData = { schema_version: 1, modules: [{ name: 'fresh' }] };
+    mockExecaForCatalog([
+      { stdout: JSON.stringify(freshData), stderr: '', exitCode: 0 },
+      { stdout: JSON.stringify(freshData), stderr: '', exitCode: 0 },
+    ]);
+    const moduleCalls = () =>
+      mockExeca.mock.calls.filter(([, args]) => (args as string[] | undefined)?.includes('modules'))
+        .length;
+
+    await bridge.getModulesCatalog();
+    await bridge.getModulesCatalog();
+    expect(moduleCalls()).toBe(1);
 
+    expect((await cache.enforceQuota(0)).evicted).toBe(1);
+    await bridge.getModulesCatalog();
+    expect(moduleCalls()).toBe(2);
+  });
+
+  it('handles invalid JSON from new format gracefully', async () => {
     mockExecaForCatalog([
       { stdout: '{not json', stderr: '', exitCode: 0 },
       { stdout: 'not json either', stderr: '', exitCode: 0 },
@@ -220,10 +235,12 @@ describe('getModulesCatalog', () => {
   });
 
   it('handles cache read errors gracefully', async () => {
-    mockFs.pathExists.mockResolvedValueOnce(true);
-    mockFs.readJson.mockRejectedValueOnce(new Error('corrupt file'));
-    mockFs.pathExists.mockResolvedValue(false);
-
+    await seedCatalog({ schema_version: 1, modules: [], fetched_at: Date.now() });
+    for (const file of await fs.readdir(cacheDir)) {
+      await fs.writeFile(path.join(cacheDir, file), '{corrupt', 'utf-8');
+    }
+    vi.resetModules();
+    bridge = await import('../core-bridge/pythonRapidkitExec');
     mockExecaForCatalog([
       { stdout: '', stderr: 'err', exitCode: 1 },
       { stdout: '', stderr: 'err', exitCode: 1 },
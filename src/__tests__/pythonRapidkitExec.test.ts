@@ -3,6 +3,9 @@ import type { Mock } from 'vitest';
 import * as fsExtra from 'fs-extra';
 import { execa } from 'execa';
 import { EventEmitter } from 'events';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
 
 const { spawnMock } = vi.hoisted(() => ({
   spawnMock: vi.fn(),
@@ -365,66 +368,82 @@ describe('resolveRapidkitRunner', () => {
 
 describe('getCachedCoreTopLevelCommands', () => {
   let bridge: typeof import('../core-bridge/pythonRapidkitExec');
+  let cache: import('../utils/cache').Cache;
+  let cacheDir: string;
+
+  /** Seed the entry in the `core-commands` namespace; `ttlMs: 0` stores it already expired. */
+  const seedCommands = (commands: string[], ttlMs?: number) =>
+    cache.set('top-level', { schema_version: 1, fetched_at: Date.now(), commands }, '1', {
+      namespace: 'core-commands',
+      ttlMs,
+    });
 
   beforeEach(async () => {
     vi.resetModules();
     vi.clearAllMocks();
+    cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rapidkit-commands-cache-'));
+    process.env.RAPIDKIT_CACHE_DIR = cacheDir;
     bridge = await import('../core-bridge/pythonRapidkitExec');
+    cache = (await import('../utils/cache')).Cache.getInstance();
   });
 
-  it('returns null if cache is missing', async () => {
-    mockFs.pathExists.mockResolvedValue(false);
+  afterEach(async () => {
+    delete process.env.RAPIDKIT_CACHE_DIR;
+    await fs.rm(cacheDir, { recursive: true, force: true });
+  });
 
+  it('returns null if cache is missing', async () => {
     const res = await bridge.getCachedCoreTopLevelCommands();
     expect(res).toBeNull();
   });
 
   it('returns cached commands if fresh', async () => {
-    mockFs.pathExists.mockResolvedValue(true);
-    mockFs.readJson.mockResolvedValue({
-      schema_version: 1,
-      fetched_at: Date.now(),
-      commands: ['list', 'run'],
-    });
+    await seedCommands(['list', 'run']);
 
     const res = await bridge.getCachedCoreTopLevelCommands();
     expect(res?.has('list')).toBe(true);
   });
 
   it('returns null when cache is stale', async () => {
-    mockFs.pathExists.mockResolvedValue(true);
-    mockFs.readJson.mockResolvedValue({
-      schema_version: 1,
-      fetched_at: Date.now() - 25 * 60 * 60 * 1000,
-      commands: ['list'],
-    });
+    await seedCommands(['list'], 0);
 
     const res = await bridge.getCachedCoreTopLevelCommands();
     expect(res).toBeNull();
   });
 
   it('returns null when cache has empty commands', async () => {
-    mockFs.pathExists.mockResolvedValue(true);
-    mockFs.readJson.mockResolvedValue({
-      schema_version: 1,
-      fetched_at: Date.now(),
-      commands: [],
-    });
+    await seedCommands([]);
 
     const res = await bridge.getCachedCoreTopLevelCommands();
     expect(res).toBeNull();
   });
+
+  it('forgets the commands once quota eviction removes their entry', async () => {
+    await seedCommands(['list']);
+    expect((await cache.stats()).namespaces['core-commands']?.entries).toBe(1);
+
+    expect((await cache.enforceQuota(0)).evicted).toBe(1);
+    expect(await bridge.getCachedCoreTopLevelCommands()).toBeNull();
+  });
 });
 
 describe('getCoreTopLevelCommands', () => {
   let bridge: typeof import('../core-bridge/pythonRapidkitExec');
+  let cacheDir: string;
 
   beforeEach(async () => {
     vi.resetModules();
     vi.clearAllMocks();
+    cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rapidkit-commands-cache-'));
+    process.env.RAPIDKIT_CACHE_DIR = cacheDir;
     bridge = await import('../core-bridge/pythonRapidkitExec');
   });
 
+  afterEach(async () => {
+    delete process.env.RAPIDKIT_CACHE_DIR;
+    await fs.rm(cacheDir, { recursive: true, force: true });
+  });
+
   it('falls back to non-empty command set if help command fails', async () => {
     mockExeca.mockResolvedValue({
       exitCode: 1,
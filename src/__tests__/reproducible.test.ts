@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { SourceDateEpochError } from '../errors.js';
+import {
+  createSecretGenerator,
+  enableReproducibleMode,
+  generationTimestamp,
+  isReproducible,
+} from '../utils/reproducible.js';
+
+describe('reproducible mode', () => {
+  it('takes timestamps from SOURCE_DATE_EPOCH', () => {
+    expect(generationTimestamp({ SOURCE_DATE_EPOCH: '1700000000' })).toBe(
+      '2023-11-14T22:13:20.000Z'
+    );
+    expect(() => generationTimestamp({ SOURCE_DATE_EPOCH: '2024-01-01' })).toThrow(
+      SourceDateEpochError
+    );
+
+    const env: NodeJS.ProcessEnv = {};
+    enableReproducibleMode({}, env);
+    expect(isReproducible(env)).toBe(true);
+    expect(generationTimestamp(env)).toBe('1970-01-01T00:00:00.000Z');
+
+    const pinned: NodeJS.ProcessEnv = { SOURCE_DATE_EPOCH: '86400' };
+    enableReproducibleMode({ seed: 'ci' }, pinned);
+    expect(pinned).toMatchObject({ SOURCE_DATE_EPOCH: '86400', RAPIDKIT_SEED: 'ci' });
+  });
+
+  it('derives secrets from the seed and scope', () => {
+    const env: NodeJS.ProcessEnv = {};
+    enableReproducibleMode({ seed: 'ci' }, env);
+
+    const first = createSecretGenerator('nestjs.standard', env);
+    const again = createSecretGenerator('nestjs.standard', env);
+    const secrets = [first(48), first(48)];
+    expect(secrets[0]).toMatch(/^[A-Za-z0-9]{48}$/);
+    expect(secrets[1]).not.toBe(secrets[0]);
+    expect([again(48), again(48)]).toEqual(secrets);
+
+    expect(createSecretGenerator('fastapi.standard', env)(48)).not.toBe(secrets[0]);
+    expect(createSecretGenerator('nestjs.standard', { RAPIDKIT_SEED: 'ci' })(48)).not.toBe(
+      secrets[0]
+    );
+  });
+});
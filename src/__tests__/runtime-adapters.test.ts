@@ -54,6 +54,20 @@ describe('Runtime Adapters', () => {
       expect(run).toHaveBeenCalledWith('go', ['run', './main.go'], '/tmp/project');
     });
 
+    it('lints with make lint when the Makefile has a lint target, else go vet', async () => {
+      const run = vi.fn().mockResolvedValue(0);
+      const adapter = new GoRuntimeAdapter(run);
+      vi.spyOn(fs, 'existsSync').mockReturnValue(true);
+      const makefile = vi.spyOn(fs, 'readFileSync').mockReturnValue('build:\n\tgo build\nlint:\n');
+
+      await adapter.runLint('/tmp/project');
+      expect(run).toHaveBeenCalledWith('make', ['lint'], '/tmp/project');
+
+      makefile.mockReturnValue('build:\n\tgo build\n');
+      await adapter.runLint('/tmp/project');
+      expect(run).toHaveBeenCalledWith('go', ['vet', './...'], '/tmp/project');
+    });
+
     it('uses project-isolated go caches in isolated mode', async () => {
       process.env.RAPIDKIT_DEP_SHARING_MODE = 'isolated';
       process.env.RAPIDKIT_WORKSPACE_PATH = '/tmp/workspace';
@@ -165,6 +179,17 @@ describe('Runtime Adapters', () => {
       expect(runCore).toHaveBeenCalledWith(['dev'], '/tmp/project');
     });
 
+    it('forwards server arguments to core dev and start', async () => {
+      const runCore = vi.fn().mockResolvedValue(0);
+      const adapter = new PythonRuntimeAdapter(runCore);
+
+      await adapter.runDev('/tmp/project', { args: ['--port', '8001'] });
+      await adapter.runStart('/tmp/project', { args: ['--host', '0.0.0.0'] });
+
+      expect(runCore).toHaveBeenCalledWith(['dev', '--port', '8001'], '/tmp/project');
+      expect(runCore).toHaveBeenCalledWith(['start', '--host', '0.0.0.0'], '/tmp/project');
+    });
+
     it('uses shared python caches in shared-runtime-caches mode', async () => {
       process.env.RAPIDKIT_DEP_SHARING_MODE = 'shared-runtime-caches';
       process.env.RAPIDKIT_WORKSPACE_PATH = '/tmp/workspace';
@@ -207,17 +232,19 @@ describe('Runtime Adapters', () => {
       expect(runCore).toHaveBeenCalledWith(['init'], '/tmp/project');
     });
 
-    it('delegates test/build/start to core runner', async () => {
+    it('delegates test/build/start/lint to core runner', async () => {
       const runCore = vi.fn().mockResolvedValue(0);
       const adapter = new PythonRuntimeAdapter(runCore);
 
       await adapter.runTest('/tmp/project');
       await adapter.runBuild('/tmp/project');
       await adapter.runStart('/tmp/project');
+      await adapter.runLint('/tmp/project');
 
       expect(runCore).toHaveBeenCalledWith(['test'], '/tmp/project');
       expect(runCore).toHaveBeenCalledWith(['build'], '/tmp/project');
       expect(runCore).toHaveBeenCalledWith(['start'], '/tmp/project');
+      expect(runCore).toHaveBeenCalledWith(['lint'], '/tmp/project');
     });
   });
 
@@ -343,6 +370,71 @@ describe('Runtime Adapters', () => {
       expect(run).toHaveBeenCalledWith('npm', ['run', 'test'], '/tmp/node-project');
       expect(run).toHaveBeenCalledWith('npm', ['run', 'start'], '/tmp/node-project');
     });
+
+    it('runs the lint script and reports when there is none', async () => {
+      const run = vi.fn().mockResolvedValue(0);
+      const adapter = new NodeRuntimeAdapter(run);
+      vi.spyOn(fs, 'existsSync').mockReturnValue(false);
+      const pkg = vi
+        .spyOn(fs, 'readFileSync')
+        .mockReturnValue(JSON.stringify({ scripts: { lint: 'eslint .' } }));
+
+      await adapter.runLint('/tmp/node-project');
+      expect(run).toHaveBeenCalledWith('npm', ['run', 'lint'], '/tmp/node-project');
+
+      pkg.mockReturnValue(JSON.stringify({ scripts: { test: 'jest' } }));
+      const result = await adapter.runLint('/tmp/node-project');
+      expect(result).toEqual({ exitCode: 1, message: 'No "lint" script in package.json' });
+      expect(run).toHaveBeenCalledTimes(1);
+    });
+
+    it('narrows scripts to one NestJS monorepo project with --app', async () => {
+      const run = vi.fn().mockResolvedValue(0);
+      const adapter = new NodeRuntimeAdapter(run);
+      vi.spyOn(fs, 'existsSync').mockImplementation((p: fs.PathLike) =>
+        String(p).includes('pnpm-lock.yaml')
+      );
+      vi.spyOn(fs, 'readFileSync').mockReturnValue(
+        JSON.stringify({
+          monorepo: true,
+          projects: {
+            billing: { type: 'application', root: 'apps/billing' },
+            shared: { type: 'library', root: 'libs/shared' },
+          },
+        })
+      );
+
+      await adapter.runBuild('/tmp/shop', { app: 'billing' });
+      await adapter.runTest('/tmp/shop', { app: 'shared' });
+      const started = await adapter.runDev('/tmp/shop', { app: 'shared' });
+      const unknown = await adapter.runStart('/tmp/shop', { app: 'nope' });
+
+      expect(run).toHaveBeenCalledWith('pnpm', ['run', 'build', 'billing'], '/tmp/shop');
+      expect(run).toHaveBeenCalledWith('pnpm', ['run', 'test', 'libs/shared/'], '/tmp/shop');
+      expect(run).toHaveBeenCalledTimes(2);
+      expect(started).toEqual({
+        exitCode: 1,
+        message: '"shared" is a library; only applications can be started',
+      });
+      expect(unknown.message).toBe('Unknown app "nope" (available: billing, shared)');
+    });
+
+    it('passes --app after -- for npm and refuses it outside a monorepo', async () => {
+      const run = vi.fn().mockResolvedValue(0);
+      const adapter = new NodeRuntimeAdapter(run);
+      vi.spyOn(fs, 'existsSync').mockReturnValue(false);
+      const readFile = vi
+        .spyOn(fs, 'readFileSync')
+        .mockReturnValue(JSON.stringify({ monorepo: true, projects: { api: {} } }));
+
+      await adapter.runDev('/tmp/shop', { app: 'api' });
+      expect(run).toHaveBeenCalledWith('npm', ['run', 'dev', '--', 'api'], '/tmp/shop');
+
+      readFile.mockReturnValue(JSON.stringify({ collection: '@nestjs/schematics' }));
+      const result = await adapter.runBuild('/tmp/nest-project', { app: 'api' });
+      expect(result.exitCode).toBe(1);
+      expect(result.message).toContain('needs a NestJS monorepo');
+    });
   });
 
   describe('adapter factory and feature flag', () => {
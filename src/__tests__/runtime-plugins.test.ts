@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { getRuntimeAdapter } from '../runtime-adapters/index.js';
+import { PluginRuntimeAdapter, pluginCacheEnv } from '../runtime-adapters/plugin.js';
+import {
+  detectRuntimePlugin,
+  loadRuntimePlugins,
+  registerRuntimePlugins,
+  type RuntimePlugin,
+} from '../runtime-adapters/plugins.js';
+
+const RUST_MANIFEST = `runtime: rust
+displayName: Rust
+detect:
+  files: [Cargo.toml]
+  kits: [axum]
+prereq:
+  command: cargo
+  args: [--version]
+  install: Install Rust from https://rustup.rs
+commands:
+  init: [cargo, fetch]
+  test: [cargo, test]
+  build: [cargo, build, --release]
+cacheEnv:
+  CARGO_HOME: home
+  CARGO_TARGET_DIR: target
+`;
+
+const rust: RuntimePlugin = {
+  runtime: 'rust',
+  displayName: 'Rust',
+  detect: { files: ['Cargo.toml'], kits: ['axum'] },
+  prereq: { command: 'cargo', args: ['--version'], install: 'Install Rust from https://rustup.rs' },
+  commands: { test: ['cargo', 'test'], build: ['cargo', 'build', '--release'] },
+  cacheEnv: { CARGO_HOME: 'home' },
+};
+
+describe('runtime plugins', () => {
+  let tempDir: string;
+  const originalMode = process.env.RAPIDKIT_DEP_SHARING_MODE;
+
+  const write = async (file: string, content: string) => {
+    await fs.mkdir(path.dirname(path.join(tempDir, file)), { recursive: true });
+    await fs.writeFile(path.join(tempDir, file), content);
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rapidkit-runtime-plugins-'));
+    process.env.RAPIDKIT_DEP_SHARING_MODE = 'isolated';
+  });
+
+  afterEach(async () => {
+    registerRuntimePlugins([]);
+    if (originalMode === undefined) delete process.env.RAPIDKIT_DEP_SHARING_MODE;
+    else process.env.RAPIDKIT_DEP_SHARING_MODE = originalMode;
+    delete process.env.CARGO_HOME;
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('loads manifest and module plugins and reports broken ones', async () => {
+    await write('rust/runtime.yaml', RUST_MANIFEST);
+    await write(
+      'java/package.json',
+      JSON.stringify({ name: 'rapidkit-java', rapidkit: { runtime: 'plugin.mjs' } })
+    );
+    await write(
+      'java/plugin.mjs',
+      `export const runtimes = [{ runtime: 'java', prereq: { command: 'gradle' }, commands: { build: ['gradle', 'build'] } }];`
+    );
+    await write('go/runtime.json', JSON.stringify({ runtime: 'go', prereq: { command: 'go' } }));
+    await write(
+      'deploy/runtime.json',
+      JSON.stringify({ runtime: 'zig', prereq: { command: 'zig' }, commands: { deploy: ['x'] } })
+    );
+
+    const registry = await loadRuntimePlugins({
+      cwd: tempDir,
+      sources: ['./rust', './java', './go', './deploy', './rust', './missing'],
+    });
+
+    expect(registry.plugins.map((plugin) => [plugin.runtime, plugin.origin])).toEqual([
+      ['rust', './rust'],
+      ['java', './java'],
+    ]);
+    expect(registry.plugins[0].cacheEnv).toEqual({
+      CARGO_HOME: 'home',
+      CARGO_TARGET_DIR: 'target',
+    });
+    expect(registry.errors.map((failure) => failure.error)).toEqual([
+      'runtime go is built in',
+      expect.stringContaining('unknown command "deploy"'),
+      'runtime rust is already provided by ./rust',
+      expect.stringContaining('ENOENT'),
+    ]);
+  });
+
+  it('claims projects by runtime, kit prefix, then files no built-in runtime matches', async () => {
+    registerRuntimePlugins([rust]);
+    await write('svc/Cargo.toml', '[package]\n');
+    await write('tooled/Cargo.toml', '[package]\n');
+    await write('tooled/package.json', '{}');
+    const svc = path.join(tempDir, 'svc');
+    const tooled = path.join(tempDir, 'tooled');
+
+    expect(detectRuntimePlugin(null, svc)?.runtime).toBe('rust');
+    expect(detectRuntimePlugin(null, tooled)).toBeNull();
+    expect(detectRuntimePlugin({ runtime: 'rust' }, tooled)?.runtime).toBe('rust');
+    expect(detectRuntimePlugin({ kit_name: 'axum.standard' }, tooled)?.runtime).toBe('rust');
+    expect(detectRuntimePlugin({ runtime: 'python' }, svc)).toBeNull();
+  });
+
+  it('runs declared commands with the cache variables set for the call', async () => {
+    registerRuntimePlugins([rust]);
+    const project = path.join(tempDir, 'svc');
+    const seen: Array<[string, string[], string | undefined]> = [];
+    const run = vi.fn(async (command: string, args: string[]) => {
+      seen.push([command, args, process.env.CARGO_HOME]);
+      return 0;
+    });
+
+    const adapter = getRuntimeAdapter('rust', {
+      runCommandInCwd: run,
+      runCoreRapidkit: vi.fn(),
+    });
+    expect(adapter).toBeInstanceOf(PluginRuntimeAdapter);
+    expect((await adapter.runBuild(project)).exitCode).toBe(0);
+
+    const cargoHome = path.join(project, '.rapidkit', 'cache', 'rust', 'home');
+    expect(seen).toEqual([
+      ['cargo', ['--version'], cargoHome],
+      ['cargo', ['build', '--release'], cargoHome],
+    ]);
+    expect(process.env.CARGO_HOME).toBeUndefined();
+
+    expect((await adapter.initProject(project)).exitCode).toBe(0);
+    expect(await adapter.runDev(project)).toEqual({
+      exitCode: 1,
+      message: 'The rust runtime plugin declares no dev command (commands.dev).',
+    });
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports a missing toolchain with the install hint', async () => {
+    const adapter = new PluginRuntimeAdapter(rust, vi.fn().mockResolvedValue(127));
+
+    expect(await adapter.runTest(tempDir)).toEqual({
+      exitCode: 1,
+      message:
+        'Rust toolchain is not installed or not available on PATH (`cargo` failed). Install Rust from https://rustup.rs',
+    });
+    expect(await adapter.doctorHints(tempDir)).toEqual(['Install Rust from https://rustup.rs']);
+  });
+
+  it('shares the runtime cache across the workspace in shared-runtime-caches mode', async () => {
+    await write('.rapidkit-workspace', '{}');
+    const project = path.join(tempDir, 'services', 'svc');
+    process.env.RAPIDKIT_DEP_SHARING_MODE = 'shared-runtime-caches';
+
+    expect(pluginCacheEnv(rust, project)).toEqual({
+      CARGO_HOME: path.join(tempDir, '.rapidkit', 'cache', 'rust', 'home'),
+    });
+  });
+});
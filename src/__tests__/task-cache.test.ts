@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { TaskCacheError } from '../errors.js';
+import {
+  pruneTaskCache,
+  readProjectTaskConfig,
+  readTaskGraph,
+  resolveCachedTask,
+  restoreTaskOutputs,
+  storeTaskOutputs,
+  taskCacheDir,
+} from '../task-cache.js';
+
+describe('task cache', () => {
+  let workspace: string;
+  const originalMode = process.env.RAPIDKIT_DEP_SHARING_MODE;
+
+  const write = async (file: string, content: string) => {
+    await fs.mkdir(path.dirname(path.join(workspace, file)), { recursive: true });
+    await fs.writeFile(path.join(workspace, file), content);
+  };
+
+  const addProject = async (name: string, projectJson: Record<string, unknown>) => {
+    await write(
+      `${name}/.rapidkit/project.json`,
+      JSON.stringify({ runtime: 'node', ...projectJson })
+    );
+    return path.join(workspace, name);
+  };
+
+  const build = { build: { inputs: ['src/**', 'package.json'], outputs: ['dist/**'] } };
+
+  beforeEach(async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'rapidkit-task-cache-'));
+    await write('.rapidkit-workspace', '{}');
+    process.env.RAPIDKIT_DEP_SHARING_MODE = 'isolated';
+  });
+
+  afterEach(async () => {
+    if (originalMode === undefined) delete process.env.RAPIDKIT_DEP_SHARING_MODE;
+    else process.env.RAPIDKIT_DEP_SHARING_MODE = originalMode;
+    await fs.rm(workspace, { recursive: true, force: true });
+  });
+
+  it('validates depends_on and task definitions', () => {
+    expect(readProjectTaskConfig(null)).toEqual({ dependsOn: [], tasks: {} });
+    expect(
+      readProjectTaskConfig({ depends_on: ['lib'], tasks: { test: { inputs: ['**'] } } })
+    ).toEqual({
+      dependsOn: ['lib'],
+      tasks: { test: { inputs: ['**'], outputs: [] } },
+    });
+
+    expect(() => readProjectTaskConfig({ depends_on: 'lib' })).toThrow(TaskCacheError);
+    expect(() => readProjectTaskConfig({ tasks: { deploy: { inputs: ['**'] } } })).toThrow(
+      /Unknown task "deploy"/
+    );
+    expect(() => readProjectTaskConfig({ tasks: { build: { inputs: [] } } })).toThrow(
+      /non-empty list/
+    );
+  });
+
+  it('reads the dependency graph and rejects cycles and unknown projects', async () => {
+    const lib = await addProject('libs/shared', {});
+    const api = await addProject('api', { depends_on: ['libs/shared'] });
+    expect(readTaskGraph(workspace, [api, lib])).toEqual({
+      api: ['libs/shared'],
+      'libs/shared': [],
+    });
+
+    await addProject('libs/shared', { depends_on: ['api'] });
+    expect(() => readTaskGraph(workspace, [api, lib])).toThrow(
+      'Project dependencies form a cycle: api → libs/shared → api'
+    );
+
+    await addProject('api', { depends_on: ['web'] });
+    expect(() => readTaskGraph(workspace, [api])).toThrow(
+      /"web", which is not a workspace project/
+    );
+  });
+
+  it('reads only the given projects and what they depend on', async () => {
+    await addProject('libs/core', {});
+    await addProject('libs/shared', { depends_on: ['libs/core'] });
+    const api = await addProject('api', { depends_on: ['libs/shared'] });
+    await addProject('broken', { depends_on: 'libs/core' });
+
+    expect(readTaskGraph(workspace, [api])).toEqual({
+      api: ['libs/shared'],
+      'libs/shared': ['libs/core'],
+      'libs/core': [],
+    });
+  });
+
+  it('hashes declared inputs and the inputs of dependencies', async () => {
+    const lib = await addProject('lib', {});
+    const app = await addProject('app', { depends_on: ['lib'], tasks: build });
+    await write('app/src/index.js', 'export {};');
+    await write('lib/src/index.js', 'export const a = 1;');
+
+    expect(await resolveCachedTask(workspace, lib, 'build')).toBeNull();
+    const first = await resolveCachedTask(workspace, app, 'build');
+    expect(first?.inputFiles).toBe(1);
+
+    // Outputs, untracked inputs and RapidKit state do not change the hash.
+    await write('app/dist/index.js', 'built');
+    await write('app/README.md', 'docs');
+    await write('app/.rapidkit/cache/tasks/x', 'entry');
+    expect((await resolveCachedTask(workspace, app, 'build'))?.hash).toBe(first?.hash);
+
+    await write('lib/src/index.js', 'export const a = 2;');
+    const afterLib = await resolveCachedTask(workspace, app, 'build');
+    expect(afterLib?.hash).not.toBe(first?.hash);
+
+    await write('app/src/index.js', 'export const b = 1;');
+    expect((await resolveCachedTask(workspace, app, 'build'))?.hash).not.toBe(afterLib?.hash);
+  });
+
+  it('hashes a shared dependency once per resolve', async () => {
+    await addProject('core', {});
+    await addProject('auth', { depends_on: ['core'] });
+    await addProject('billing', { depends_on: ['core'] });
+    const app = await addProject('app', { depends_on: ['auth', 'billing'], tasks: build });
+    await write('core/src/index.js', 'export const core = 1;');
+
+    const readFile = vi.spyOn(fs, 'readFile');
+    try {
+      await resolveCachedTask(workspace, app, 'build');
+      const coreReads = readFile.mock.calls.filter(
+        ([file]) => file === path.join(workspace, 'core', 'src', 'index.js')
+      );
+      expect(coreReads).toHaveLength(1);
+    } finally {
+      readFile.mockRestore();
+    }
+  });
+
+  it('restores the outputs of a cached run', async () => {
+    const app = await addProject('app', { tasks: build });
+    await write('app/src/index.js', 'export {};');
+    const task = await resolveCachedTask(workspace, app, 'build');
+    if (!task) throw new Error('expected a cached task');
+
+    expect(await restoreTaskOutputs(task)).toBeNull();
+    await write('app/dist/index.js', 'built');
+    await write('app/dist/nested/chunk.js', 'chunk');
+    await storeTaskOutputs(task, 1200);
+
+    await fs.rm(path.join(app, 'dist'), { recursive: true });
+    await write('app/dist/stale.js', 'stale');
+    const entry = await restoreTaskOutputs(task);
+    expect(entry?.outputs).toEqual(['dist/index.js', 'dist/nested/chunk.js']);
+    expect(entry?.duration_ms).toBe(1200);
+    expect(await fs.readFile(path.join(app, 'dist/nested/chunk.js'), 'utf-8')).toBe('chunk');
+    await expect(fs.stat(path.join(app, 'dist/stale.js'))).rejects.toThrow();
+  });
+
+  it('evicts the least recently used entries beyond the size bound', async () => {
+    const app = await addProject('app', { tasks: build });
+    const cacheDir = taskCacheDir(workspace, app);
+    const entryFiles = async () => {
+      const byHash = new Map<string, string>();
+      for (const name of await fs.readdir(cacheDir)) {
+        const entryFile = path.join(cacheDir, name, 'entry.json');
+        byHash.set(JSON.parse(await fs.readFile(entryFile, 'utf-8')).hash, entryFile);
+      }
+      return byHash;
+    };
+    const store = async (source: string, ageSeconds: number) => {
+      await write('app/src/index.js', source);
+      await write('app/dist/index.js', 'x'.repeat(100));
+      const task = await resolveCachedTask(workspace, app, 'build');
+      if (!task) throw new Error('expected a cached task');
+      await storeTaskOutputs(task, 10, null);
+      const usedAt = new Date(Date.now() - ageSeconds * 1000);
+      await fs.utimes((await entryFiles()).get(task.hash) as string, usedAt, usedAt);
+      return task;
+    };
+    const oldest = await store('one', 300);
+    const restored = await store('two', 400);
+    const newest = await store('three', 100);
+    // Restoring counts as a use, so `restored` outlives the older `oldest`.
+    expect(await restoreTaskOutputs(restored)).not.toBeNull();
+    const { totalBytes } = await pruneTaskCache(cacheDir, null);
+
+    const interrupted = path.join(cacheDir, 'interrupted');
+    await fs.mkdir(interrupted);
+    const stale = new Date(Date.now() - 2 * 60 * 60 * 1000);
+    await fs.utimes(interrupted, stale, stale);
+
+    // Just over the bound: the interrupted store and the least recently used entry go.
+    const pruned = await pruneTaskCache(cacheDir, totalBytes - 1);
+    expect(pruned.removed).toBe(2);
+    expect([...(await entryFiles()).keys()].sort()).toEqual([restored.hash, newest.hash].sort());
+    expect(await restoreTaskOutputs(oldest)).toBeNull();
+  });
+
+  it('keeps entries in the workspace in shared-runtime-caches mode', async () => {
+    const app = await addProject('app', { tasks: build });
+    expect(taskCacheDir(workspace, app)).toBe(path.join(app, '.rapidkit', 'cache', 'tasks'));
+    process.env.RAPIDKIT_DEP_SHARING_MODE = 'shared-runtime-caches';
+    expect(taskCacheDir(workspace, app)).toBe(path.join(workspace, '.rapidkit', 'cache', 'tasks'));
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import nunjucks from 'nunjucks';
+import {
+  globToRegExp,
+  loadTemplateKits,
+  planTemplateKitFiles,
+  type TemplateKit,
+} from '../template-kits.js';
+import { findKit } from '../generators/registry.js';
+
+const VARIANT_MANIFEST = `name: fastapi.minimal
+runtime: python
+aliases:
+  - minimal*
+variables:
+  project_name:
+    type: string
+    required: true
+  with_docker:
+    type: boolean
+    default: false
+files:
+  - glob: '**/*.j2'
+    exclude:
+      - 'docker/**'
+  - glob: 'docker/*.j2'
+    when: with_docker
+  - glob: 'bin/*.j2'
+    executable: true
+  - path: '{{ project_name }}.txt'
+    template: 'hello {{ project_name }}'
+rename:
+  env.example: .env.example
+`;
+
+describe('bundled template kits', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rapidkit-template-kits-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('discovers every kit under templates/kits from its manifest', async () => {
+    const kits = await loadTemplateKits();
+
+    expect(kits.map((kit) => kit.name)).toEqual([
+      'fastapi.ddd',
+      'fastapi.standard',
+      'nestjs.standard',
+    ]);
+    expect(findKit({ kits }, 'fastapi')?.name).toBe('fastapi.standard');
+    expect(findKit({ kits }, 'fastapi.ddd')?.name).toBe('fastapi.ddd');
+    expect(findKit({ kits }, 'nestjs.custom')?.runtime).toBe('node');
+    expect(findKit({ kits }, 'gofiber.standard')).toBeNull();
+  });
+
+  it('matches globs on slash-separated paths', () => {
+    expect(globToRegExp('**/*.j2').test('main.py.j2')).toBe(true);
+    expect(globToRegExp('**/*.j2').test('src/app/main.py.j2')).toBe(true);
+    expect(globToRegExp('src/*.j2').test('src/app/main.py.j2')).toBe(false);
+    expect(globToRegExp('src/auth/**').test('src/auth/entities/user.ts.j2')).toBe(true);
+  });
+
+  it('plans files from globs, conditions, renames and inline templates', async () => {
+    const kitDir = path.join(tempDir, 'fastapi-minimal');
+    for (const file of ['main.py.j2', 'env.example.j2', 'docker/Dockerfile.j2', 'bin/run.j2']) {
+      await fs.mkdir(path.dirname(path.join(kitDir, file)), { recursive: true });
+      await fs.writeFile(path.join(kitDir, file), '', 'utf-8');
+    }
+    await fs.writeFile(path.join(kitDir, 'kit.yaml'), VARIANT_MANIFEST, 'utf-8');
+    await fs.mkdir(path.join(tempDir, 'no-manifest'));
+
+    const kits = await loadTemplateKits(tempDir);
+    expect(kits).toHaveLength(1);
+    const kit = findKit({ kits }, 'minimal') as TemplateKit;
+    const env = new nunjucks.Environment();
+
+    const plain = await planTemplateKitFiles(kit, env, { project_name: 'svc', with_docker: false });
+    expect(plain.map((file) => file.path)).toEqual([
+      'bin/run',
+      '.env.example',
+      'main.py',
+      'svc.txt',
+    ]);
+    expect(plain.find((file) => file.path === 'bin/run')?.executable).toBe(true);
+
+    const docker = await planTemplateKitFiles(kit, env, { project_name: 'svc', with_docker: true });
+    expect(docker.find((file) => file.path === 'docker/Dockerfile')?.source).toBe(
+      'docker/Dockerfile.j2'
+    );
+  });
+
+  it('rejects manifests with an invalid runtime', async () => {
+    await fs.mkdir(path.join(tempDir, 'broken'));
+    await fs.writeFile(
+      path.join(tempDir, 'broken', 'kit.yaml'),
+      'name: broken\nruntime: rust\nfiles: []\n',
+      'utf-8'
+    );
+
+    await expect(loadTemplateKits(tempDir)).rejects.toThrow('invalid runtime rust');
+  });
+});
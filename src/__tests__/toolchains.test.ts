@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { execa } from 'execa';
+import { ToolchainError } from '../errors.js';
+import {
+  findToolchainArchive,
+  formatToolchainMismatch,
+  provisionToolchain,
+  toolchainPathEnv,
+  verifyToolchains,
+  versionMatchesPin,
+} from '../toolchains.js';
+
+const GO_PLATFORM = `${process.platform}-${process.arch === 'x64' ? 'amd64' : process.arch}`;
+
+describe.skipIf(process.platform === 'win32')('toolchains', () => {
+  let workspace: string;
+
+  const write = async (file: string, content: string, mode?: number) => {
+    await fs.mkdir(path.dirname(path.join(workspace, file)), { recursive: true });
+    await fs.writeFile(path.join(workspace, file), content, { mode });
+  };
+
+  const pin = (runtime: Record<string, { version: string }>) =>
+    write('.rapidkit/toolchain.lock', JSON.stringify({ schema_version: '1.0', runtime }));
+
+  /** A Go release archive whose `go version` prints `reports`. */
+  const goArchive = async (name: string, reports: string) => {
+    const staging = path.join(workspace, 'staging', name);
+    await fs.mkdir(path.join(staging, 'go', 'bin'), { recursive: true });
+    await fs.writeFile(
+      path.join(staging, 'go', 'bin', 'go'),
+      `#!/bin/sh\necho "go version go${reports} ${GO_PLATFORM}"\n`,
+      { mode: 0o755 }
+    );
+    await fs.mkdir(path.join(workspace, 'archives'), { recursive: true });
+    await execa('tar', ['-czf', path.join(workspace, 'archives', name), '-C', staging, 'go']);
+  };
+
+  beforeEach(async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'rapidkit-toolchains-'));
+    await write('.rapidkit-workspace', '{}');
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspace, { recursive: true, force: true });
+  });
+
+  it('matches pins by component, ignoring prefixes', () => {
+    expect(versionMatchesPin('3.12', '3.12.4')).toBe(true);
+    expect(versionMatchesPin('v20.x', 'v20.11.0')).toBe(true);
+    expect(versionMatchesPin('go1.22.1', '1.22.1')).toBe(true);
+    expect(versionMatchesPin('1.22.1', '1.22.10')).toBe(false);
+    expect(versionMatchesPin('3.12', '3.1')).toBe(false);
+    expect(versionMatchesPin('v20.11.0', 'unknown')).toBe(false);
+  });
+
+  it('picks the newest archive for this platform matching the pin', async () => {
+    await goArchive(`go1.22.0.${GO_PLATFORM}.tar.gz`, '1.22.0');
+    await goArchive(`go1.22.1.${GO_PLATFORM}.tar.gz`, '1.22.1');
+    await goArchive(`go1.23.0.${GO_PLATFORM}.tar.gz`, '1.23.0');
+    await goArchive('go1.22.5.plan9-386.tar.gz', '1.22.5');
+
+    const archive = await findToolchainArchive('go', '1.22', [path.join(workspace, 'archives')]);
+    expect(archive).toEqual({
+      path: path.join(workspace, 'archives', `go1.22.1.${GO_PLATFORM}.tar.gz`),
+      version: '1.22.1',
+    });
+  });
+
+  it('provisions the pinned version and puts it first on PATH', async () => {
+    await pin({ go: { version: '1.22' } });
+    await goArchive(`go1.22.1.${GO_PLATFORM}.tar.gz`, '1.22.1');
+    const sources = [path.join(workspace, 'archives')];
+
+    const provisioned = await provisionToolchain(workspace, 'go', '1.22', sources);
+    const root = path.join(workspace, '.rapidkit', 'toolchains', 'go', '1.22.1');
+    expect(provisioned).toMatchObject({ version: '1.22.1', root, binDir: path.join(root, 'bin') });
+    expect((await provisionToolchain(workspace, 'go', '1.22', sources)).archive).toBeNull();
+    expect(await fs.readdir(path.join(workspace, '.rapidkit', 'toolchains', 'go'))).toEqual([
+      '1.22.1',
+    ]);
+
+    expect(toolchainPathEnv(workspace).PATH?.split(path.delimiter)[0]).toBe(path.join(root, 'bin'));
+    expect(await verifyToolchains(workspace, ['go'])).toEqual([
+      expect.objectContaining({ runtime: 'go', pinned: '1.22', active: '1.22.1', matches: true }),
+    ]);
+  });
+
+  it('rejects archives that do not provide the pinned version', async () => {
+    await goArchive(`go1.22.1.${GO_PLATFORM}.tar.gz`, '1.19.13');
+    const sources = [path.join(workspace, 'archives')];
+
+    await expect(provisionToolchain(workspace, 'go', '1.22.1', sources)).rejects.toThrow(
+      `go1.22.1.${GO_PLATFORM}.tar.gz provides go 1.19.13, not 1.22.1`
+    );
+    await expect(
+      fs.readdir(path.join(workspace, '.rapidkit', 'toolchains', 'go'))
+    ).resolves.toEqual([]);
+    await expect(provisionToolchain(workspace, 'go', '1.30', sources)).rejects.toBeInstanceOf(
+      ToolchainError
+    );
+  });
+
+  it('reports the active toolchain when it differs from the pin', async () => {
+    await pin({ node: { version: 'v0.10' }, python: { version: '' } as { version: string } });
+
+    const checks = await verifyToolchains(workspace);
+    expect(checks).toEqual([
+      {
+        runtime: 'node',
+        pinned: 'v0.10',
+        active: process.version,
+        provisioned: null,
+        matches: false,
+      },
+    ]);
+    expect(formatToolchainMismatch(checks[0])).toBe(
+      `node: toolchain.lock pins v0.10, active node is ${process.version} — run \`rapidkit toolchain install node\` or \`rapidkit setup node\` to re-pin.`
+    );
+  });
+});
@@ -1,6 +1,10 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
 import { checkForUpdates, getVersion, __testables } from '../update-checker.js';
 import { execa } from 'execa';
+import { Cache } from '../utils/cache.js';
 
 // Mock execa
 vi.mock('execa');
@@ -8,8 +12,9 @@ vi.mock('execa');
 describe('Update Checker', () => {
   let consoleLogSpy: ReturnType<typeof vi.spyOn>;
 
-  beforeEach(() => {
+  beforeEach(async () => {
     consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    await Cache.getInstance().invalidate('rapidkit', { namespace: 'update-checks' });
   });
 
   afterEach(() => {
@@ -57,6 +62,48 @@ describe('Update Checker', () => {
       expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining(newerVersion));
     });
 
+    it('caches the published version in the update-checks namespace until evicted', async () => {
+      vi.mocked(execa).mockResolvedValue({ stdout: '99.99.99' } as never);
+      const cache = Cache.getInstance();
+
+      await checkForUpdates();
+      await checkForUpdates();
+      expect(execa).toHaveBeenCalledTimes(1);
+      expect((await cache.stats()).namespaces['update-checks']?.entries).toBe(1);
+
+      expect((await cache.enforceQuota(0)).evicted).toBeGreaterThan(0);
+      await checkForUpdates();
+      expect(execa).toHaveBeenCalledTimes(2);
+    });
+
+    it('honors the workspace cache max_size when caching the published version', async () => {
+      vi.mocked(execa).mockResolvedValue({ stdout: '99.99.99' } as never);
+      const workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'rapidkit-update-quota-'));
+      const previous = {
+        RAPIDKIT_WORKSPACE_PATH: process.env.RAPIDKIT_WORKSPACE_PATH,
+        RAPIDKIT_CACHE_DIR: process.env.RAPIDKIT_CACHE_DIR,
+      };
+      try {
+        await fs.mkdir(path.join(workspace, '.rapidkit'));
+        await fs.writeFile(path.join(workspace, '.rapidkit-workspace'), '{}');
+        await fs.writeFile(path.join(workspace, '.rapidkit', 'cache-config.yml'), 'max_size: 1\n');
+        process.env.RAPIDKIT_WORKSPACE_PATH = workspace;
+        process.env.RAPIDKIT_CACHE_DIR = path.join(workspace, 'cache');
+
+        await checkForUpdates();
+        expect(Cache.getInstance().getLimits().maxSizeBytes).toBe(1);
+        expect((await Cache.getInstance().stats()).namespaces['update-checks']?.entries).toBe(0);
+        await checkForUpdates();
+        expect(execa).toHaveBeenCalledTimes(2);
+      } finally {
+        for (const [key, value] of Object.entries(previous)) {
+          if (value === undefined) delete process.env[key];
+          else process.env[key] = value;
+        }
+        await fs.rm(workspace, { recursive: true, force: true });
+      }
+    });
+
     it('should not notify when on latest version', async () => {
       const currentVersion = getVersion();
 
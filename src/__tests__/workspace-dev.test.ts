@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import net from 'net';
+import path from 'path';
+import os from 'os';
+import { WorkspaceDevError } from '../errors.js';
+import {
+  loadDevServiceConfig,
+  planDevServices,
+  selectDevProjects,
+  superviseDevServices,
+  type DevService,
+} from '../workspace-dev.js';
+import type { WorkspaceProject } from '../workspace-run.js';
+
+describe('workspace dev services', () => {
+  let workspace: string;
+
+  const writeWorkspaceJson = (value: unknown) =>
+    fs.writeFile(path.join(workspace, '.rapidkit', 'workspace.json'), JSON.stringify(value));
+
+  const project = async (
+    name: string,
+    runtime: WorkspaceProject['runtime'],
+    files: Record<string, string> = {}
+  ): Promise<WorkspaceProject> => {
+    const projectPath = path.join(workspace, name);
+    await fs.mkdir(path.join(projectPath, '.rapidkit'), { recursive: true });
+    for (const [file, content] of Object.entries(files)) {
+      await fs.writeFile(path.join(projectPath, file), content);
+    }
+    return { name, path: projectPath, runtime };
+  };
+
+  const freePort = () =>
+    new Promise<number>((resolve) => {
+      const server = net.createServer().listen(0, () => {
+        const { port } = server.address() as net.AddressInfo;
+        server.close(() => resolve(port));
+      });
+    });
+
+  beforeEach(async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'rapidkit-workspace-dev-'));
+    await fs.mkdir(path.join(workspace, '.rapidkit'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspace, { recursive: true, force: true });
+  });
+
+  it('reads and validates the services section of workspace.json', async () => {
+    expect(await loadDevServiceConfig(workspace)).toBeNull();
+
+    await writeWorkspaceJson({
+      profile: 'polyglot',
+      services: { gateway: { port: 3000 }, worker: { health: false, restart: false }, api: {} },
+    });
+    const config = await loadDevServiceConfig(workspace);
+    expect(Object.keys(config ?? {})).toEqual(['gateway', 'worker', 'api']);
+    expect(config?.worker).toEqual({ health: false, restart: false });
+
+    await writeWorkspaceJson({ services: { api: { port: '3000' } } });
+    await expect(loadDevServiceConfig(workspace)).rejects.toThrow(WorkspaceDevError);
+    await writeWorkspaceJson({ services: { api: { health: 'health' } } });
+    await expect(loadDevServiceConfig(workspace)).rejects.toThrow(/health must be a path/);
+  });
+
+  it('starts configured services in order and rejects unknown ones', async () => {
+    const projects = [
+      await project('api', 'python'),
+      await project('docs', 'unknown'),
+      await project('gateway', 'node'),
+    ];
+
+    expect(selectDevProjects(projects, null).map((p) => p.name)).toEqual(['api', 'gateway']);
+    expect(selectDevProjects(projects, { gateway: {}, api: {} }).map((p) => p.name)).toEqual([
+      'gateway',
+      'api',
+    ]);
+    expect(() => selectDevProjects(projects, { worker: {} })).toThrow(/not a project/);
+    expect(() => selectDevProjects(projects, { docs: {} })).toThrow(/no runtime/);
+  });
+
+  it('assigns non-conflicting ports and kit health paths', async () => {
+    const worker = await project('worker', 'go', {
+      '.rapidkit/kit-baseline.json': JSON.stringify({
+        kit_name: 'gogin.standard',
+        rapidkit_version: '0.0.0',
+        variables: { port: '3000' },
+        files: {},
+      }),
+    });
+    const gateway = await project('gateway', 'node', { '.env.example': 'PORT=3000\n' });
+    const api = await project('api', 'python');
+    const admin = await project('admin', 'node');
+    const busy = new Set([3001]);
+
+    const services = await planDevServices(
+      [worker, gateway, api, admin],
+      { admin: { port: 3002, health: '/status' }, api: { restart: false } },
+      { isPortFree: async (port) => !busy.has(port) }
+    );
+
+    expect(services.map((s) => [s.name, s.port, s.healthPath, s.restart])).toEqual([
+      ['worker', 3000, '/api/v1/health/ready', true],
+      ['gateway', 3003, '/health', true],
+      ['api', 8000, '/api/health/', false],
+      ['admin', 3002, '/status', true],
+    ]);
+
+    await expect(
+      planDevServices([worker, gateway], { worker: { port: 4000 }, gateway: { port: 4000 } })
+    ).rejects.toThrow(/both use port 4000/);
+  });
+
+  it('restarts a crashed service, waits for health and stops it', async () => {
+    const port = await freePort();
+    const service: DevService = {
+      ...(await project('gateway', 'node')),
+      port,
+      healthPath: '/health',
+      restart: true,
+    };
+    const entry = path.join(workspace, 'fake-cli.mjs');
+    const marker = path.join(workspace, 'crashed');
+    await fs.writeFile(
+      entry,
+      [
+        "import fs from 'fs';",
+        "import http from 'http';",
+        `if (!fs.existsSync(${JSON.stringify(marker)})) {`,
+        `  fs.writeFileSync(${JSON.stringify(marker)}, '');`,
+        "  console.error('boom');",
+        '  process.exit(1);',
+        '}',
+        'http',
+        "  .createServer((req, res) => { res.statusCode = req.url === '/health' ? 200 : 404; res.end(); })",
+        '  .listen(Number(process.env.PORT), () => console.log(`${process.argv[2]} on ${process.env.PORT}`));',
+      ].join('\n')
+    );
+
+    const lines: string[] = [];
+    const statuses: string[] = [];
+    const supervisor = superviseDevServices([service], {
+      entry,
+      backoffMs: 10,
+      readyTimeoutMs: 10_000,
+      onLine: (_service, stream, line) => lines.push(`${stream}:${line}`),
+      onStatus: (state) => statuses.push(state.status),
+    });
+
+    expect(await supervisor.ready).toBe(true);
+    const [state] = supervisor.states;
+    const pid = state.pid;
+    expect(state.restarts).toBe(1);
+    expect(lines).toContain('stderr:boom');
+
+    await supervisor.stop();
+    await supervisor.done;
+    expect(statuses).toEqual(['starting', 'restarting', 'starting', 'ready', 'stopped']);
+    expect(state.pid).toBeNull();
+    expect(lines).toContain(`stdout:dev on ${port}`);
+    expect(() => process.kill(pid as number, 0)).toThrow();
+  });
+
+  it('passes each Python service its own port on the command line', async () => {
+    const ports = [await freePort(), await freePort()];
+    const services: DevService[] = [
+      {
+        ...(await project('api', 'python')),
+        port: ports[0],
+        healthPath: '/health',
+        restart: false,
+      },
+      {
+        ...(await project('admin', 'python')),
+        port: ports[1],
+        healthPath: '/health',
+        restart: false,
+      },
+    ];
+    // Like the FastAPI kits' dev server: the port comes from `--port` only.
+    const entry = path.join(workspace, 'fake-core.mjs');
+    await fs.writeFile(
+      entry,
+      [
+        "import http from 'http';",
+        "const port = Number(process.argv[process.argv.indexOf('--port') + 1]);",
+        'http',
+        "  .createServer((req, res) => { res.statusCode = req.url === '/health' ? 200 : 404; res.end(); })",
+        '  .listen(port, () => console.log(`${process.argv.slice(2).join(" ")} in ${process.cwd()}`));',
+      ].join('\n')
+    );
+
+    const lines: string[] = [];
+    const supervisor = superviseDevServices(services, {
+      entry,
+      readyTimeoutMs: 10_000,
+      onLine: (service, stream, line) => lines.push(`${service.name}:${stream}:${line}`),
+    });
+
+    expect(await supervisor.ready).toBe(true);
+    await supervisor.stop();
+    await supervisor.done;
+    expect(lines).toEqual(
+      expect.arrayContaining([
+        expect.stringMatching(new RegExp(`^api:stdout:dev --port ${ports[0]} in .*api$`)),
+        expect.stringMatching(new RegExp(`^admin:stdout:dev --port ${ports[1]} in .*admin$`)),
+      ])
+    );
+  });
+});
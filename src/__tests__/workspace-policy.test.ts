@@ -0,0 +1,412 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  WORKSPACE_POLICY_SCHEMA,
+  defaultWorkspacePolicyYaml,
+  diffWorkspacePolicies,
+  formatPolicyIssue,
+  findPolicyProjectRoot,
+  loadEffectiveWorkspacePolicy,
+  loadWorkspacePolicy,
+  mergeProjectPolicy,
+  parseWorkspacePolicy,
+  partitionPolicyIssues,
+  resolveDependencySharingMode,
+  setWorkspacePolicyValue,
+} from '../utils/workspace-policy.js';
+import { WorkspacePolicyError } from '../errors.js';
+
+const loaded = (content: string, filePath = '/ws/.rapidkit/policies.yml') => ({
+  ...parseWorkspacePolicy(content),
+  filePath,
+  exists: true,
+});
+
+describe('workspace policy', () => {
+  describe('parseWorkspacePolicy', () => {
+    it('parses the default policy without issues', () => {
+      const result = parseWorkspacePolicy(defaultWorkspacePolicyYaml());
+
+      expect(result.issues).toEqual([]);
+      expect(result.policy.mode).toBe('warn');
+      expect(result.policy.dependency_sharing_mode).toBe('isolated');
+      expect(result.policy.rules.enforce_workspace_marker).toBe(true);
+    });
+
+    it('handles quoted values, anchors and flow maps', () => {
+      const content = [
+        'version: "1.0"',
+        'mode: "strict"',
+        "dependency_sharing_mode: 'shared-node-deps'",
+        'rules:',
+        '  enforce_toolchain_lock: &on true',
+        '  enforce_compatibility_matrix: *on',
+        '  enforce_workspace_marker: false',
+        '',
+      ].join('\n');
+
+      const result = parseWorkspacePolicy(content);
+      expect(result.issues).toEqual([]);
+      expect(result.policy.mode).toBe('strict');
+      expect(result.policy.dependency_sharing_mode).toBe('shared-node-deps');
+      expect(result.policy.rules.enforce_toolchain_lock).toBe(true);
+      expect(result.policy.rules.enforce_compatibility_matrix).toBe(true);
+      expect(result.policy.rules.enforce_workspace_marker).toBe(false);
+
+      const flow = parseWorkspacePolicy('mode: warn\nrules: { enforce_toolchain_lock: true }\n');
+      expect(flow.issues).toEqual([]);
+      expect(flow.policy.rules.enforce_toolchain_lock).toBe(true);
+    });
+
+    it('reports invalid enum values with line and column', () => {
+      const result = parseWorkspacePolicy('mode: warn\ndependency_sharing_mode: everything\n');
+
+      expect(result.policy.dependency_sharing_mode).toBe('isolated');
+      expect(result.issues).toHaveLength(1);
+      expect(result.issues[0]).toMatchObject({
+        path: 'dependency_sharing_mode',
+        line: 2,
+        column: 26,
+      });
+      expect(formatPolicyIssue(result.issues[0])).toBe(
+        'policies.yml:2:26 Invalid dependency_sharing_mode: everything. Use one of: isolated, shared-runtime-caches, shared-node-deps.'
+      );
+    });
+
+    it('reports unknown keys and wrong types at their location', () => {
+      const result = parseWorkspacePolicy(
+        [
+          'mode: warn',
+          'rules:',
+          '  enforce_toolchain_lock: "yes"',
+          '  enforce_everything: true',
+        ].join('\n')
+      );
+
+      expect(result.issues).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            path: 'rules.enforce_toolchain_lock',
+            message: 'rules.enforce_toolchain_lock must be boolean',
+            line: 3,
+          }),
+          expect.objectContaining({
+            path: 'rules.enforce_everything',
+            message: 'Unknown policy key: rules.enforce_everything',
+            line: 4,
+            column: 3,
+          }),
+        ])
+      );
+      expect(result.policy.rules.enforce_toolchain_lock).toBe(false);
+    });
+
+    it('reports YAML syntax errors', () => {
+      const result = parseWorkspacePolicy('mode: warn\nrules:\n  - a\n  b: c\n');
+
+      expect(result.issues.length).toBeGreaterThan(0);
+      expect(result.issues[0].path).toBe('$');
+      expect(result.issues[0].message).toMatch(/^YAML syntax error:/);
+      expect(result.policy.mode).toBe('warn');
+    });
+
+    it('validates custom rules and keeps only the valid ones', () => {
+      const result = parseWorkspacePolicy(
+        [
+          'custom_rules:',
+          '  - id: dockerfile',
+          '    type: file_exists',
+          '    path: Dockerfile',
+          '  - id: python-311',
+          '    type: toolchain_version',
+          '    min: "3.11"',
+          '',
+        ].join('\n')
+      );
+
+      expect(result.issues).toEqual([
+        expect.objectContaining({
+          path: 'custom_rules.1',
+          message: 'custom_rules.1 is missing required key: runtime',
+          line: 5,
+          column: 5,
+        }),
+      ]);
+      expect(result.policy.custom_rules.map((rule) => rule.id)).toEqual(['dockerfile']);
+    });
+
+    it('accepts the legacy enforcement_mode alias', () => {
+      expect(parseWorkspacePolicy('enforcement_mode: strict\n').policy.mode).toBe('strict');
+    });
+
+    it('reads mode values case-insensitively', () => {
+      const result = parseWorkspacePolicy('mode: Strict\ndependency_sharing_mode: ISOLATED\n');
+      expect(result.issues).toEqual([]);
+      expect(result.policy.mode).toBe('strict');
+      expect(result.policy.dependency_sharing_mode).toBe('isolated');
+    });
+
+    it('blocks only on issues in the values a command uses', () => {
+      const result = parseWorkspacePolicy(
+        [
+          'mode: warn',
+          'owner: platform-team',
+          'rules:',
+          '  enforce_toolchain_lock: "yes"',
+          '  enforce_everything: true',
+          '',
+        ].join('\n')
+      );
+
+      const { blocking, warnings } = partitionPolicyIssues(result.issues, [
+        'mode',
+        'rules.enforce_toolchain_lock',
+      ]);
+      expect(blocking.map((issue) => issue.path)).toEqual(['rules.enforce_toolchain_lock']);
+      expect(warnings.map((issue) => issue.path).sort()).toEqual([
+        'owner',
+        'rules.enforce_everything',
+      ]);
+
+      const broken = parseWorkspacePolicy('rules: on\n');
+      expect(
+        partitionPolicyIssues(broken.issues, ['rules.enforce_toolchain_lock']).blocking
+      ).toEqual(broken.issues);
+
+      const customRule = parseWorkspacePolicy('custom_rules:\n  - id: x\n    type: file_exists\n');
+      expect(customRule.issues.length).toBeGreaterThan(0);
+      expect(partitionPolicyIssues(customRule.issues, ['custom_rules']).warnings).toEqual([]);
+    });
+  });
+
+  describe('setWorkspacePolicyValue', () => {
+    it('updates values in place and preserves comments', () => {
+      const next = setWorkspacePolicyValue(defaultWorkspacePolicyYaml(), 'mode', 'strict');
+
+      expect(next).toContain('mode: strict # "warn" or "strict"');
+      expect(next).toContain('# change profile (recommended)');
+    });
+
+    it('adds missing nested keys', () => {
+      const next = setWorkspacePolicyValue('mode: warn\n', 'rules.enforce_toolchain_lock', true);
+
+      expect(parseWorkspacePolicy(next).policy.rules.enforce_toolchain_lock).toBe(true);
+    });
+
+    it('refuses to edit a document with syntax errors', () => {
+      expect(() => setWorkspacePolicyValue('mode: [warn\n', 'mode', 'strict')).toThrow(
+        WorkspacePolicyError
+      );
+    });
+  });
+
+  describe('project overrides', () => {
+    const workspacePolicy = [
+      'mode: warn',
+      'dependency_sharing_mode: shared-runtime-caches',
+      'rules:',
+      '  enforce_toolchain_lock: true',
+      'custom_rules:',
+      '  - id: dockerfile',
+      '    type: file_exists',
+      '    path: Dockerfile',
+      '',
+    ].join('\n');
+
+    it('applies tightening overrides and records their origin', () => {
+      const effective = mergeProjectPolicy(
+        loaded(workspacePolicy),
+        loaded(
+          [
+            'mode: strict',
+            'dependency_sharing_mode: isolated',
+            'rules:',
+            '  enforce_compatibility_matrix: true',
+            'custom_rules:',
+            '  - id: env-clean',
+            '    type: no_secrets',
+            '    path: .env.example',
+            '',
+          ].join('\n'),
+          '/ws/api/.rapidkit/policies.yml'
+        ),
+        '/ws/api'
+      );
+
+      expect(effective.rejected).toEqual([]);
+      expect(effective.policy.mode).toBe('strict');
+      expect(effective.policy.dependency_sharing_mode).toBe('isolated');
+      expect(effective.policy.rules.enforce_compatibility_matrix).toBe(true);
+      expect(effective.policy.custom_rules.map((rule) => rule.id)).toEqual([
+        'dockerfile',
+        'env-clean',
+      ]);
+      expect(effective.origins).toMatchObject({
+        mode: 'project',
+        dependency_sharing_mode: 'project',
+        'rules.enforce_toolchain_lock': 'workspace',
+        'rules.enforce_compatibility_matrix': 'project',
+        'rules.enforce_workspace_marker': 'default',
+        'custom_rules.dockerfile': 'workspace',
+        'custom_rules.env-clean': 'project',
+      });
+    });
+
+    it('rejects loosening overrides with their location', () => {
+      const effective = mergeProjectPolicy(
+        loaded(workspacePolicy.replace('mode: warn', 'mode: strict')),
+        loaded(
+          [
+            'mode: warn',
+            'rules:',
+            '  enforce_toolchain_lock: false',
+            'custom_rules:',
+            '  - id: dockerfile',
+            '    type: file_exists',
+            '    path: Containerfile',
+            'overrides:',
+            '  allow_loosen: ["*"]',
+            '',
+          ].join('\n')
+        )
+      );
+
+      expect(effective.policy.mode).toBe('strict');
+      expect(effective.policy.rules.enforce_toolchain_lock).toBe(true);
+      expect(effective.policy.custom_rules[0].path).toBe('Dockerfile');
+      expect(effective.rejected.map((issue) => [issue.path, issue.line])).toEqual([
+        ['mode', 1],
+        ['rules.enforce_toolchain_lock', 3],
+        ['custom_rules.0', 5],
+        ['overrides', 9],
+      ]);
+      expect(effective.rejected[0].message).toContain(
+        'Project policy cannot loosen mode (workspace: strict, project: warn)'
+      );
+    });
+
+    it('allows loosening keys listed in the workspace overrides', () => {
+      const effective = mergeProjectPolicy(
+        loaded(
+          [
+            'mode: strict',
+            'overrides:',
+            '  allow_loosen: [mode, rules.enforce_workspace_marker]',
+            '',
+          ].join('\n')
+        ),
+        loaded(
+          ['mode: warn', 'dependency_sharing_mode: shared-node-deps', 'rules:'].join('\n') +
+            '\n  enforce_workspace_marker: false\n'
+        )
+      );
+
+      expect(effective.policy.mode).toBe('warn');
+      expect(effective.policy.rules.enforce_workspace_marker).toBe(false);
+      expect(effective.policy.dependency_sharing_mode).toBe('isolated');
+      expect(effective.rejected.map((issue) => issue.path)).toEqual(['dependency_sharing_mode']);
+    });
+  });
+
+  it('diffs policies by dotted key', () => {
+    const base = parseWorkspacePolicy(defaultWorkspacePolicyYaml()).policy;
+    const current = parseWorkspacePolicy(
+      [
+        'mode: strict',
+        'custom_rules:',
+        '  - id: dockerfile',
+        '    type: file_exists',
+        '    path: Dockerfile',
+        '',
+      ].join('\n')
+    ).policy;
+
+    expect(diffWorkspacePolicies(base, current)).toEqual([
+      { key: 'mode', change: 'changed', from: 'warn', to: 'strict' },
+      {
+        key: 'custom_rules.dockerfile',
+        change: 'added',
+        from: null,
+        to: '{"type":"file_exists","path":"Dockerfile"}',
+      },
+    ]);
+    expect(diffWorkspacePolicies(current, current)).toEqual([]);
+  });
+
+  it('keeps the published schema contract in sync', () => {
+    const schemaPath = path.resolve(
+      __dirname,
+      '../../docs/contracts/rapidkit-workspace-policy.schema.json'
+    );
+    const published = JSON.parse(fs.readFileSync(schemaPath, 'utf-8'));
+
+    expect(published).toEqual(WORKSPACE_POLICY_SCHEMA);
+  });
+
+  describe('policy resolution from disk', () => {
+    let tmpDir: string;
+    const originalEnv = process.env.RAPIDKIT_DEP_SHARING_MODE;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rapidkit-policy-'));
+      delete process.env.RAPIDKIT_DEP_SHARING_MODE;
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+      if (originalEnv === undefined) delete process.env.RAPIDKIT_DEP_SHARING_MODE;
+      else process.env.RAPIDKIT_DEP_SHARING_MODE = originalEnv;
+    });
+
+    it('reports a missing policy file', async () => {
+      const loaded = await loadWorkspacePolicy(tmpDir);
+
+      expect(loaded.exists).toBe(false);
+      expect(loaded.policy.mode).toBe('warn');
+    });
+
+    it('resolves dependency sharing mode from the enclosing workspace', () => {
+      fs.writeFileSync(path.join(tmpDir, '.rapidkit-workspace'), '{}');
+      fs.mkdirSync(path.join(tmpDir, '.rapidkit'));
+      fs.writeFileSync(
+        path.join(tmpDir, '.rapidkit', 'policies.yml'),
+        'dependency_sharing_mode: "shared-runtime-caches"\n'
+      );
+      const projectPath = path.join(tmpDir, 'api');
+      fs.mkdirSync(projectPath);
+
+      expect(resolveDependencySharingMode(projectPath)).toBe('shared-runtime-caches');
+
+      process.env.RAPIDKIT_DEP_SHARING_MODE = 'shared-node-deps';
+      expect(resolveDependencySharingMode(projectPath)).toBe('shared-node-deps');
+    });
+
+    it('layers the enclosing project policy over the workspace policy', async () => {
+      fs.writeFileSync(path.join(tmpDir, '.rapidkit-workspace'), '{}');
+      fs.mkdirSync(path.join(tmpDir, '.rapidkit'));
+      fs.writeFileSync(
+        path.join(tmpDir, '.rapidkit', 'policies.yml'),
+        'dependency_sharing_mode: shared-runtime-caches\n'
+      );
+      const projectPath = path.join(tmpDir, 'api');
+      fs.mkdirSync(path.join(projectPath, '.rapidkit'), { recursive: true });
+      fs.mkdirSync(path.join(projectPath, 'src'));
+      fs.writeFileSync(path.join(projectPath, '.rapidkit', 'project.json'), '{}');
+      fs.writeFileSync(
+        path.join(projectPath, '.rapidkit', 'policies.yml'),
+        'dependency_sharing_mode: isolated\n'
+      );
+
+      const nested = path.join(projectPath, 'src');
+      expect(findPolicyProjectRoot(nested, tmpDir)).toBe(projectPath);
+      expect(findPolicyProjectRoot(tmpDir, tmpDir)).toBeNull();
+
+      const effective = await loadEffectiveWorkspacePolicy(tmpDir, nested);
+      expect(effective.projectPath).toBe(projectPath);
+      expect(effective.origins.dependency_sharing_mode).toBe('project');
+      expect(resolveDependencySharingMode(nested)).toBe('isolated');
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { execa } from 'execa';
+import {
+  cliTaskRunner,
+  matchesProjectFilter,
+  runWorkspaceTask,
+  selectWorkspaceProjects,
+  type WorkspaceProject,
+} from '../workspace-run.js';
+
+describe('workspace task runner', () => {
+  let workspace: string;
+
+  const addProject = async (name: string, runtime: string) => {
+    const projectPath = path.join(workspace, name);
+    await fs.mkdir(path.join(projectPath, '.rapidkit'), { recursive: true });
+    await fs.writeFile(
+      path.join(projectPath, '.rapidkit', 'project.json'),
+      JSON.stringify({ runtime })
+    );
+    return projectPath;
+  };
+
+  const git = (...args: string[]) =>
+    execa('git', ['-c', 'user.email=dev@example.com', '-c', 'user.name=dev', ...args], {
+      cwd: workspace,
+    });
+
+  beforeEach(async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'rapidkit-workspace-run-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspace, { recursive: true, force: true });
+  });
+
+  it('selects projects by glob and detects their runtimes', async () => {
+    const paths = [
+      await addProject('orders-api', 'go'),
+      await addProject('admin-web', 'node'),
+      await addProject('billing-api', 'python'),
+    ];
+
+    const { projects } = await selectWorkspaceProjects(workspace, paths, {
+      filter: '*-api, admin-*',
+    });
+    expect(projects.map((p) => [p.name, p.runtime])).toEqual([
+      ['admin-web', 'node'],
+      ['billing-api', 'python'],
+      ['orders-api', 'go'],
+    ]);
+
+    expect(matchesProjectFilter('orders-api', 'orders-?pi')).toBe(true);
+    expect(matchesProjectFilter('orders-api', 'orders')).toBe(false);
+  });
+
+  it('selects projects changed since a git ref, ignoring RapidKit state', async () => {
+    const api = await addProject('api', 'node');
+    const web = await addProject('web', 'node');
+    const worker = await addProject('worker', 'go');
+    await git('init', '-q');
+    await git('add', '-A');
+    await git('commit', '-qm', 'init');
+
+    await fs.writeFile(path.join(api, 'package.json'), '{}');
+    await fs.mkdir(path.join(web, '.rapidkit', 'cache', 'node'), { recursive: true });
+    await fs.writeFile(path.join(web, '.rapidkit', 'cache', 'node', 'blob'), 'x');
+    await fs.writeFile(path.join(worker, '.rapidkit', 'project.json'), '{"runtime":"go"}\n');
+
+    const selection = await selectWorkspaceProjects(workspace, [api, web, worker], {
+      changedSince: 'HEAD',
+    });
+    expect(selection.projects.map((p) => p.name)).toEqual(['api', 'worker']);
+    expect(selection.unchecked).toEqual([]);
+
+    // An unknown ref cannot be compared, so the project runs anyway.
+    const unknown = await selectWorkspaceProjects(workspace, [web], { changedSince: 'v9.9.9' });
+    expect(unknown.projects.map((p) => p.name)).toEqual(['web']);
+    expect(unknown.unchecked).toEqual(['web']);
+  });
+
+  it('runs projects with bounded concurrency and keeps going after failures', async () => {
+    const projects: WorkspaceProject[] = ['a', 'b', 'c', 'd'].map((name) => ({
+      name,
+      path: path.join(workspace, name),
+      runtime: 'node',
+    }));
+    let running = 0;
+    let peak = 0;
+    const lines: string[] = [];
+
+    const results = await runWorkspaceTask(projects, 'test', {
+      concurrency: 2,
+      runner: async (project, action, onLine) => {
+        running++;
+        peak = Math.max(peak, running);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        onLine('stdout', `${action} ${project.name}`);
+        running--;
+        if (project.name === 'c') throw new Error('spawn failed');
+        return project.name === 'b' ? 2 : 0;
+      },
+      onLine: (project, stream, line) => lines.push(`${project.name}:${stream}:${line}`),
+    });
+
+    expect(peak).toBe(2);
+    expect(results.map((r) => [r.project, r.status, r.exit_code])).toEqual([
+      ['a', 'passed', 0],
+      ['b', 'failed', 2],
+      ['c', 'failed', 1],
+      ['d', 'passed', 0],
+    ]);
+    expect(lines).toContain('b:stdout:test b');
+    expect(lines).toContain('c:stderr:spawn failed');
+  });
+
+  it('runs dependencies first and skips projects whose dependencies failed', async () => {
+    const projects: WorkspaceProject[] = ['api', 'lib', 'web', 'worker'].map((name) => ({
+      name,
+      path: path.join(workspace, name),
+      runtime: 'node',
+    }));
+    const order: string[] = [];
+
+    const results = await runWorkspaceTask(projects, 'build', {
+      concurrency: 4,
+      dependencies: { api: ['lib'], web: ['api'], worker: ['queue'] },
+      runner: async (project) => {
+        order.push(project.name);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        return project.name === 'api' ? 1 : 0;
+      },
+    });
+
+    // `queue` is not selected, so `worker` does not wait for it.
+    expect(order).toEqual(['lib', 'worker', 'api']);
+    expect(results.map((r) => [r.project, r.status, r.exit_code])).toEqual([
+      ['api', 'failed', 1],
+      ['lib', 'passed', 0],
+      ['web', 'skipped', null],
+      ['worker', 'passed', 0],
+    ]);
+  });
+
+  it('runs the CLI entry in each project and streams its output by line', async () => {
+    const project = {
+      name: 'api',
+      path: await addProject('api', 'node'),
+      runtime: 'node' as const,
+    };
+    const entry = path.join(workspace, 'fake-cli.mjs');
+    await fs.writeFile(
+      entry,
+      [
+        'process.stdout.write(`${process.argv[2]} in ${process.cwd().split(/[\\\\/]/).pop()}\\nhalf`);',
+        "setTimeout(() => { process.stdout.write(' line'); console.error('oops'); process.exit(3); }, 20);",
+      ].join('\n')
+    );
+
+    const lines: string[] = [];
+    const [result] = await runWorkspaceTask([project], 'lint', {
+      runner: cliTaskRunner(entry),
+      onLine: (_project, stream, line) => lines.push(`${stream}:${line}`),
+    });
+
+    expect(result.exit_code).toBe(3);
+    // A trailing line without a newline is flushed when the process exits.
+    expect(lines).toHaveLength(3);
+    expect(lines).toEqual(
+      expect.arrayContaining(['stdout:lint in api', 'stdout:half line', 'stderr:oops'])
+    );
+  });
+});
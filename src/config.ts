@@ -13,6 +13,15 @@ export interface UserConfig {
   skipGit?: boolean;
   // Test mode configuration (for development only)
   testRapidKitPath?: string;
+  // Cache quota and per-namespace TTLs (overridden by .rapidkit/cache-config.yml)
+  cache?: {
+    max_size?: string | number;
+    namespaces?: Record<string, { ttl?: string | number } | string | number>;
+  };
+  // Extra kit generators: local directories or npm package names
+  kits?: string[];
+  // Runtime adapter plugins (rust, java, ...): local directories or npm package names
+  runtimes?: string[];
 }
 
 export interface RapidKitConfig {
@@ -27,6 +36,8 @@ export interface RapidKitConfig {
     skipGit?: boolean;
     skipInstall?: boolean;
   };
+  kits?: string[];
+  runtimes?: string[];
 }
 
 const CONFIG_FILE_NAME = '.rapidkitrc.json';
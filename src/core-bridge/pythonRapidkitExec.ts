@@ -12,6 +12,7 @@ import {
   getVenvRapidkitPath,
   isWindowsPlatform,
 } from '../utils/platform-capabilities.js';
+import { Cache } from '../utils/cache.js';
 
 export type PythonCommand = 'python3' | 'python' | 'py';
 
@@ -154,10 +155,6 @@ function venvDirFromPythonPath(pythonPath: string): string {
   return path.dirname(path.dirname(pythonPath));
 }
 
-function commandsCachePath(): string {
-  return path.join(cacheRoot(), 'rapidkit', 'npm-bridge', 'core-commands.json');
-}
-
 async function tryRapidkit(cmd: PythonCommand): Promise<boolean> {
   const verbose = !!process.env.RAPIDKIT_DEBUG;
 
@@ -1177,24 +1174,22 @@ function parseCoreCommandsFromHelp(helpText: string): Set<string> {
   return commands;
 }
 
+const CORE_COMMANDS_NAMESPACE = 'core-commands';
+const MODULES_CATALOG_NAMESPACE = 'modules-catalog';
+const BRIDGE_CACHE_VERSION = '1';
+
 async function tryReadCommandsCache(): Promise<CoreCommandsCache | null> {
-  const p = commandsCachePath();
-  if (!(await fsExtra.pathExists(p))) return null;
-  try {
-    const data = await fsExtra.readJson(p);
-    if (data && data.schema_version === 1 && Array.isArray(data.commands)) {
-      return data as CoreCommandsCache;
-    }
-  } catch {
-    // ignore
-  }
+  const data = await Cache.getInstance().get<CoreCommandsCache>('top-level', BRIDGE_CACHE_VERSION, {
+    namespace: CORE_COMMANDS_NAMESPACE,
+  });
+  if (data && data.schema_version === 1 && Array.isArray(data.commands)) return data;
   return null;
 }
 
 async function writeCommandsCache(cache: CoreCommandsCache): Promise<void> {
-  const p = commandsCachePath();
-  await fsExtra.ensureDir(path.dirname(p));
-  await fsExtra.writeJson(p, cache, { spaces: 2 });
+  await Cache.getInstance().set('top-level', cache, BRIDGE_CACHE_VERSION, {
+    namespace: CORE_COMMANDS_NAMESPACE,
+  });
 }
 
 async function getCoreVersion(): Promise<string | undefined> {
@@ -1225,8 +1220,8 @@ async function getCoreCommandsJson(): Promise<string[] | null> {
   }
 }
 
+/** Core's top-level commands, cached in the `core-commands` namespace per core version. */
 export async function getCoreTopLevelCommands(): Promise<Set<string>> {
-  const ONE_DAY_MS = 24 * 60 * 60 * 1000;
   const now = Date.now();
 
   const cached = await tryReadCommandsCache();
@@ -1238,7 +1233,6 @@ export async function getCoreTopLevelCommands(): Promise<Set<string>> {
 
   if (
     cachedHasCommands &&
-    now - cached.fetched_at < ONE_DAY_MS &&
     (!currentVersion || !cached.rapidkit_version || cached.rapidkit_version === currentVersion)
   ) {
     return new Set(cached.commands);
@@ -1283,13 +1277,8 @@ export async function getCoreTopLevelCommands(): Promise<Set<string>> {
 }
 
 export async function getCachedCoreTopLevelCommands(): Promise<Set<string> | null> {
-  const ONE_DAY_MS = 24 * 60 * 60 * 1000;
-  const now = Date.now();
-
   const cached = await tryReadCommandsCache();
-  if (!cached) return null;
-  if (now - cached.fetched_at >= ONE_DAY_MS) return null;
-  if (!cached.commands?.length) return null;
+  if (!cached?.commands?.length) return null;
   return new Set(cached.commands);
 }
 
@@ -1326,28 +1315,23 @@ type ModulesCatalogOptions = {
   env?: NodeJS.ProcessEnv;
 };
 
-function modulesCatalogCachePath(): string {
-  return path.join(cacheRoot(), 'rapidkit', 'npm-bridge', 'modules-catalog.json');
+/** Catalogs are cached per filter set; the namespace TTL bounds how stale a fallback can be. */
+function modulesCatalogCacheKey(opts: ModulesCatalogOptions): string {
+  return JSON.stringify([opts.category ?? null, opts.tag ?? null, !!opts.detailed]);
 }
 
-async function tryReadModulesCatalogCache(): Promise<ModulesCatalog | null> {
-  const p = modulesCatalogCachePath();
-  if (!(await fsExtra.pathExists(p))) return null;
-  try {
-    const data = await fsExtra.readJson(p);
-    if (data && data.schema_version === 1 && Array.isArray(data.modules)) {
-      return data as ModulesCatalog;
-    }
-  } catch {
-    // ignore
-  }
+async function tryReadModulesCatalogCache(key: string): Promise<ModulesCatalog | null> {
+  const data = await Cache.getInstance().get<ModulesCatalog>(key, BRIDGE_CACHE_VERSION, {
+    namespace: MODULES_CATALOG_NAMESPACE,
+  });
+  if (data && data.schema_version === 1 && Array.isArray(data.modules)) return data;
   return null;
 }
 
-async function writeModulesCatalogCache(cache: ModulesCatalog): Promise<void> {
-  const p = modulesCatalogCachePath();
-  await fsExtra.ensureDir(path.dirname(p));
-  await fsExtra.writeJson(p, cache, { spaces: 2 });
+async function writeModulesCatalogCache(key: string, cache: ModulesCatalog): Promise<void> {
+  await Cache.getInstance().set(key, cache, BRIDGE_CACHE_VERSION, {
+    namespace: MODULES_CATALOG_NAMESPACE,
+  });
 }
 
 function safeJsonParse(value: string): unknown {
@@ -1363,8 +1347,9 @@ export async function getModulesCatalog(
 ): Promise<ModulesCatalog | null> {
   const ttlMs = typeof opts.ttlMs === 'number' ? opts.ttlMs : 30 * 60 * 1000;
   const now = Date.now();
+  const cacheKey = modulesCatalogCacheKey(opts);
 
-  const cached = await tryReadModulesCatalogCache();
+  const cached = await tryReadModulesCatalogCache(cacheKey);
   if (cached?.fetched_at && now - cached.fetched_at < ttlMs) {
     return cached;
   }
@@ -1379,7 +1364,7 @@ export async function getModulesCatalog(
     const payload = safeJsonParse(res.stdout) as ModulesCatalog | null;
     if (payload && payload.schema_version === 1 && Array.isArray(payload.modules)) {
       const enriched = { ...payload, fetched_at: now };
-      await writeModulesCatalogCache(enriched);
+      await writeModulesCatalogCache(cacheKey, enriched);
       return enriched;
     }
   }
@@ -1408,7 +1393,7 @@ export async function getModulesCatalog(
         source: 'legacy-json',
         fetched_at: now,
       };
-      await writeModulesCatalogCache(legacyPayload);
+      await writeModulesCatalogCache(cacheKey, legacyPayload);
       return legacyPayload;
     }
   }
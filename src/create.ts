@@ -25,6 +25,7 @@ import {
   getVenvPythonPath,
   isWindowsPlatform,
 } from './utils/platform-capabilities.js';
+import { defaultWorkspacePolicyYaml } from './utils/workspace-policy.js';
 import {
   createNpmWorkspaceMarker,
   readWorkspaceMarker,
@@ -152,19 +153,6 @@ function buildToolchainLock(
   );
 }
 
-function buildPoliciesYaml(): string {
-  return `version: "1.0"
-mode: warn # "warn" or "strict"
-dependency_sharing_mode: isolated # "isolated" or "shared-runtime-caches" or "shared-node-deps"
-# change profile (recommended): npx rapidkit bootstrap --profile polyglot
-# change mode/dependency manually: edit this file and rerun npx rapidkit init
-rules:
-  enforce_workspace_marker: true
-  enforce_toolchain_lock: false
-  disallow_untrusted_tool_sources: false
-`;
-}
-
 function buildCacheConfigYaml(): string {
   return `version: "1.0"
 cache:
@@ -204,7 +192,7 @@ async function writeWorkspaceFoundationFiles(
   );
   await fsExtra.outputFile(
     path.join(workspacePath, '.rapidkit', 'policies.yml'),
-    buildPoliciesYaml(),
+    defaultWorkspacePolicyYaml(),
     'utf-8'
   );
   await fsExtra.outputFile(
@@ -265,7 +253,7 @@ export async function syncWorkspaceFoundationFiles(
     },
     {
       relPath: path.join('.rapidkit', 'policies.yml'),
-      content: buildPoliciesYaml(),
+      content: defaultWorkspacePolicyYaml(),
     },
     {
       relPath: path.join('.rapidkit', 'cache-config.yml'),
@@ -740,6 +728,26 @@ export async function writeWorkspaceLauncher(
   );
 }
 
+/**
+ * Undo a failed workspace creation: drop the shared registry entry (if this
+ * run added it) and the half-built directory, so the next attempt starts clean.
+ */
+async function rollbackWorkspaceCreation(workspacePath: string, registered: boolean) {
+  if (registered) {
+    try {
+      const { unregisterWorkspace } = await import('./workspace.js');
+      await unregisterWorkspace(workspacePath);
+    } catch {
+      // Registry is optional.
+    }
+  }
+  try {
+    await fsExtra.remove(workspacePath);
+  } catch (_cleanupError) {
+    // Ignore cleanup errors
+  }
+}
+
 interface CreateProjectOptions {
   skipGit?: boolean;
   testMode?: boolean;
@@ -931,6 +939,9 @@ export async function createProject(
   // the full Python install path.
   const PYTHON_FREE_PROFILES = new Set(['go-only', 'node-only', 'minimal']);
 
+  // Set once the workspace is in the shared registry, so a failure can remove it again.
+  let registered = false;
+
   if (PYTHON_FREE_PROFILES.has(resolvedProfile)) {
     const spinner2 = ora('Creating workspace').start();
     try {
@@ -993,7 +1004,7 @@ export async function createProject(
       // Register in shared registry for VS Code Extension
       try {
         const { registerWorkspace } = await import('./workspace.js');
-        await registerWorkspace(projectPath, name);
+        registered = await registerWorkspace(projectPath, name);
       } catch {
         /* silent — registry is optional */
       }
@@ -1052,6 +1063,7 @@ export async function createProject(
     } catch (_err) {
       spinner2.fail('Failed to create workspace');
       console.error(chalk.red('\n❌ Error:'), _err);
+      await rollbackWorkspaceCreation(projectPath, registered);
       throw _err;
     }
     return; // ← skip Python env setup entirely
@@ -1237,7 +1249,7 @@ export async function createProject(
     // Register workspace in shared registry for Extension compatibility
     try {
       const { registerWorkspace } = await import('./workspace.js');
-      await registerWorkspace(projectPath, name);
+      registered = await registerWorkspace(projectPath, name);
     } catch (_err) {
       // Silent fail - registry is optional, but log warning
       console.warn(chalk.gray('Note: Could not register workspace in shared registry'));
@@ -1319,11 +1331,7 @@ export async function createProject(
     console.error(chalk.red('\n❌ Error:'), _error);
 
     // Cleanup on failure
-    try {
-      await fsExtra.remove(projectPath);
-    } catch (_cleanupError) {
-      // Ignore cleanup errors
-    }
+    await rollbackWorkspaceCreation(projectPath, registered);
 
     // Re-throw the error for callers to handle (e.g., tests and CLI error handlers)
     throw _error;
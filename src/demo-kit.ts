@@ -1,16 +1,20 @@
-import { promises as fs } from 'fs';
 import path from 'path';
-import nunjucks from 'nunjucks';
 import chalk from 'chalk';
 import ora from 'ora';
-import { fileURLToPath } from 'url';
 import { execa } from 'execa';
 import { getVersion } from './update-checker.js';
-import crypto from 'crypto';
-
-// Get the directory of the current module
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
+import { findKit, resolveKitVariables, type KitVariableValue } from './generators/registry.js';
+import { writeKitBaseline } from './generators/kit-baseline.js';
+import { createSecretSeed } from './utils/reproducible.js';
+import {
+  createTemplateKitEnvironment,
+  evaluateKitCondition,
+  loadTemplateKits,
+  renderTemplateKit,
+  renderTemplateKitFiles,
+  templateKitContext,
+  type TemplateKit,
+} from './template-kits.js';
 
 interface KitVariables {
   project_name: string;
@@ -27,271 +31,76 @@ interface KitVariables {
   node_version?: string;
   database_type?: string;
   include_caching?: boolean;
+  /** Further kit variables (`--var`, `--vars-file`, prompts), checked against `kit.yaml`. */
+  vars?: Record<string, unknown>;
+  /** Where the project ends up when `projectPath` is a staging directory. */
+  targetPath?: string;
 }
 
-/**
- * Generate a cryptographically secure random secret
- */
-function generateSecret(length: number = 32): string {
-  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
-  const bytes = crypto.randomBytes(length);
-  let result = '';
-  for (let i = 0; i < length; i++) {
-    result += alphabet[bytes[i] % alphabet.length];
+/** Find the bundled kit and resolve its variables from the manifest. */
+async function resolveDemoKit(variables: KitVariables): Promise<{
+  kit: TemplateKit;
+  resolved: Record<string, KitVariableValue>;
+}> {
+  const kits = await loadTemplateKits();
+  const kitName = variables.kit_name || `${variables.template || 'fastapi'}.standard`;
+  const kit = findKit({ kits }, kitName);
+  if (!kit) {
+    throw new Error(
+      `No bundled template for kit "${kitName}" (available: ${kits.map((k) => k.name).join(', ')})`
+    );
   }
-  return result;
+
+  // Defaults and validation come from the kit manifest
+  const resolved = resolveKitVariables(kit, {
+    project_name: variables.project_name,
+    author: variables.author,
+    description: variables.description,
+    app_version: variables.app_version,
+    license: variables.license,
+    package_manager: variables.package_manager,
+    node_version: variables.node_version,
+    database_type: variables.database_type,
+    include_caching: variables.include_caching,
+    engine: variables.engine,
+    ...variables.vars,
+  });
+  return { kit, resolved };
+}
+
+/** Render the files `generateDemoKit` would write, without touching the disk. */
+export async function renderDemoKit(
+  variables: KitVariables
+): Promise<{ kitName: string; files: Record<string, string> }> {
+  const { kit, resolved } = await resolveDemoKit(variables);
+  const files = await renderTemplateKitFiles(
+    kit,
+    createTemplateKitEnvironment(kit),
+    templateKitContext(kit, resolved)
+  );
+  return { kitName: kit.name, files };
 }
 
 export async function generateDemoKit(projectPath: string, variables: KitVariables): Promise<void> {
-  const template = variables.template || 'fastapi';
-  const isFastAPI = template === 'fastapi';
-  const templateName = isFastAPI ? 'FastAPI' : 'NestJS';
+  const { kit, resolved } = await resolveDemoKit(variables);
+  const isFastAPI = kit.runtime === 'python';
+  const templateName = kit.displayName ?? kit.name;
 
   const spinner = ora(`Generating ${templateName} project...`).start();
 
   try {
-    // When running from dist/demo-kit.js, we need to go up to package root
-    const packageRoot = path.resolve(__dirname, '..');
-
-    // Map kit_name to template directory
-    const kitName = variables.kit_name || `${template}.standard`;
-    let templateDir: string;
-
-    if (kitName === 'fastapi.ddd') {
-      templateDir = 'fastapi-ddd';
-    } else if (kitName.startsWith('fastapi')) {
-      templateDir = 'fastapi-standard';
-    } else {
-      templateDir = 'nestjs-standard';
-    }
-
-    const templatesPath = path.join(packageRoot, 'templates', 'kits', templateDir);
-
-    const env = nunjucks.configure(templatesPath, {
-      autoescape: false,
-      trimBlocks: true,
-      lstripBlocks: true,
-    });
-
-    // Add custom filter for generating secrets
-    env.addFilter('generate_secret', function (_value: unknown, length: number = 32) {
-      return generateSecret(length);
-    });
+    const secretSeed = createSecretSeed();
+    const env = createTemplateKitEnvironment(kit, { secretSeed });
+    const context = templateKitContext(kit, resolved);
 
-    // Default variables
-    const context = {
-      project_name: variables.project_name,
-      author: variables.author || 'RapidKit User',
-      description:
-        variables.description ||
-        (isFastAPI
-          ? 'FastAPI service generated with RapidKit'
-          : 'NestJS application generated with RapidKit'),
-      app_version: variables.app_version || '0.1.0',
-      license: variables.license || 'MIT',
-      package_manager: variables.package_manager || 'npm',
-      node_version: variables.node_version || '20.0.0',
-      database_type: variables.database_type || 'postgresql',
-      include_caching: variables.include_caching || false,
-      created_at: new Date().toISOString(),
+    const files = await renderTemplateKit(kit, projectPath, env, context);
+    await writeKitBaseline(projectPath, {
+      kit_name: kit.name,
       rapidkit_version: getVersion(),
-    };
-
-    // File structure based on template
-    let files: string[];
-
-    if (isFastAPI) {
-      files = [
-        'src/main.py.j2',
-        'src/__init__.py.j2',
-        'src/cli.py.j2',
-        'src/routing/__init__.py.j2',
-        'src/routing/health.py.j2',
-        'src/modules/__init__.py.j2',
-        'tests/__init__.py.j2',
-        'README.md.j2',
-        'pyproject.toml.j2',
-        'Makefile.j2',
-        '.rapidkit/__init__.py.j2',
-        '.rapidkit/project.json.j2',
-        '.rapidkit/cli.py.j2',
-        '.rapidkit/rapidkit.j2',
-        '.rapidkit/activate.j2',
-        'rapidkit.j2',
-        'rapidkit.cmd.j2',
-      ];
-    } else {
-      // NestJS files
-      files = [
-        'src/main.ts.j2',
-        'src/app.module.ts.j2',
-        'src/app.controller.ts.j2',
-        'src/app.service.ts.j2',
-        'src/config/configuration.ts.j2',
-        'src/config/validation.ts.j2',
-        'src/config/index.ts.j2',
-        'src/modules/index.ts.j2',
-        'src/examples/examples.module.ts.j2',
-        'src/examples/examples.controller.ts.j2',
-        'src/examples/examples.service.ts.j2',
-        'src/examples/dto/create-note.dto.ts.j2',
-        'test/app.controller.spec.ts.j2',
-        'test/examples.controller.spec.ts.j2',
-        'test/app.e2e-spec.ts.j2',
-        'test/jest-e2e.json.j2',
-        'package.json.j2',
-        'tsconfig.json.j2',
-        'tsconfig.build.json.j2',
-        'nest-cli.json.j2',
-        'jest.config.ts.j2',
-        'eslint.config.cjs.j2',
-        '.env.example.j2',
-        'docker-compose.yml.j2',
-        'Dockerfile.j2',
-        'README.md.j2',
-        '.rapidkit/project.json.j2',
-        '.rapidkit/rapidkit.j2',
-        '.rapidkit/rapidkit.cmd.j2',
-        '.rapidkit/activate.j2',
-        'rapidkit.j2',
-        'rapidkit.cmd.j2',
-      ];
-    }
-
-    // Generate files
-    for (const templateFile of files) {
-      const templatePath = path.join(templatesPath, templateFile);
-
-      // Check if template file exists
-      try {
-        await fs.access(templatePath);
-      } catch {
-        // Template file doesn't exist, skip it
-        continue;
-      }
-
-      const templateContent = await fs.readFile(templatePath, 'utf-8');
-      let rendered: string;
-      try {
-        rendered = env.renderString(templateContent, context);
-      } catch (e) {
-        console.error(`Failed to render template: ${templateFile}`);
-        throw e;
-      }
-
-      // Output path is the same but without .j2
-      const outputFile = templateFile.replace(/\.j2$/, '');
-      const outputPath = path.join(projectPath, outputFile);
-
-      // Create directory if needed
-      await fs.mkdir(path.dirname(outputPath), { recursive: true });
-
-      // Write file
-      await fs.writeFile(outputPath, rendered);
-
-      // Make executable files executable
-      if (
-        outputFile.endsWith('.rapidkit/rapidkit') ||
-        outputFile.endsWith('.rapidkit/cli.py') ||
-        outputFile.endsWith('.rapidkit/activate') ||
-        outputFile === 'rapidkit'
-      ) {
-        await fs.chmod(outputPath, 0o755);
-      }
-    }
-
-    // Copy static context.json file (not a template)
-    if (isFastAPI) {
-      const contextJsonSource = path.join(templatesPath, '.rapidkit', 'context.json');
-      const contextJsonDest = path.join(projectPath, '.rapidkit', 'context.json');
-      try {
-        await fs.mkdir(path.join(projectPath, '.rapidkit'), { recursive: true });
-        await fs.copyFile(contextJsonSource, contextJsonDest);
-      } catch (_err) {
-        // If context.json doesn't exist in templates, create a minimal one
-        await fs.mkdir(path.join(projectPath, '.rapidkit'), { recursive: true });
-        const engine = variables.engine || 'pip'; // Default to pip if not specified
-        await fs.writeFile(
-          contextJsonDest,
-          JSON.stringify({ engine, created_by: 'rapidkit-npm-fallback' }, null, 2)
-        );
-      }
-    }
-
-    // Create .gitignore separately with proper content
-    const gitignoreContent = isFastAPI
-      ? `# Python
-__pycache__/
-*.py[cod]
-*$py.class
-*.so
-.Python
-build/
-develop-eggs/
-dist/
-downloads/
-eggs/
-.eggs/
-lib/
-lib64/
-parts/
-sdist/
-var/
-wheels/
-*.egg-info/
-.installed.cfg
-*.egg
-
-# Virtual environments
-.venv/
-venv/
-ENV/
-env/
-
-# IDEs
-.vscode/
-.idea/
-*.swp
-*.swo
-*~
-
-# OS
-.DS_Store
-Thumbs.db
-
-# Project specific
-.env
-.env.local
-`
-      : `# Node artifacts
-node_modules/
-dist/
-.tmp/
-.env
-.env.*
-!.env.example
-
-# Logs
-logs/
-*.log
-npm-debug.log*
-yarn-debug.log*
-yarn-error.log*
-pnpm-debug.log*
-
-# OS
-.DS_Store
-Thumbs.db
-
-# IDEs
-.idea/
-.vscode/
-
-# Coverage
-coverage/
-`;
-
-    await fs.writeFile(path.join(projectPath, '.gitignore'), gitignoreContent);
+      variables: resolved,
+      secret_seed: secretSeed,
+      files,
+    });
 
     spinner.succeed(`${templateName} project generated!`);
 
@@ -314,21 +123,26 @@ coverage/
       }
     }
 
-    // Install dependencies (for NestJS)
-    if (!isFastAPI && !variables.skipInstall) {
-      const pm = variables.package_manager || 'npm';
-      const installSpinner = ora(`Installing dependencies with ${pm}...`).start();
+    // Post-generate hooks (e.g. dependency install for NestJS)
+    const hookContext = { ...context, skip_install: variables.skipInstall === true };
+    for (const hook of kit.hooks?.postGenerate ?? []) {
+      if (hook.when && !evaluateKitCondition(env, hook.when, hookContext)) continue;
+      const commandLine = env.renderString(hook.run, hookContext).trim();
+      const [command, ...args] = commandLine.split(/\s+/);
+      const hookSpinner = ora(
+        hook.description ? env.renderString(hook.description, hookContext) : commandLine
+      ).start();
       try {
-        const installCmd = pm === 'yarn' ? ['install'] : pm === 'pnpm' ? ['install'] : ['install'];
-        await execa(pm, installCmd, { cwd: projectPath });
-        installSpinner.succeed('Dependencies installed');
+        await execa(command, args, { cwd: projectPath });
+        hookSpinner.succeed(`${commandLine} completed`);
       } catch {
-        installSpinner.warn(`Could not install dependencies. Run '${pm} install' manually.`);
+        hookSpinner.warn(`Could not run '${commandLine}'. Run it manually.`);
       }
     }
 
     // Success message
-    const projectName = path.basename(projectPath);
+    const displayPath = variables.targetPath ?? projectPath;
+    const projectName = path.basename(displayPath);
 
     // Fallback mode warning
     console.log(`
@@ -343,7 +157,7 @@ ${chalk.cyan('  pip install rapidkit-core')}
 ${chalk.green('✨ FastAPI project created successfully!')}
 
 ${chalk.bold('📂 Project structure:')}
-${projectPath}/
+${displayPath}/
   ├── .rapidkit/           # RapidKit CLI module
   ├── src/
   │   ├── main.py          # FastAPI application
@@ -375,7 +189,7 @@ ${chalk.gray('💡 Tip: Install globally (npm i -g rapidkit) to use without npx'
 ${chalk.green('✨ NestJS project created successfully!')}
 
 ${chalk.bold('📂 Project structure:')}
-${projectPath}/
+${displayPath}/
   ├── .rapidkit/           # RapidKit CLI module
   ├── src/
   │   ├── main.ts              # Application entry point
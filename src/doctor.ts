@@ -3,6 +3,13 @@ import { execa } from 'execa';
 import fsExtra from 'fs-extra';
 import path from 'path';
 import { logger } from './logger.js';
+import { missingGoModuleFiles } from './go-modules.js';
+import {
+  activateRuntimePlugins,
+  detectRuntimePlugin,
+  probeRuntimePlugin,
+  runtimePluginLabel,
+} from './runtime-adapters/plugins.js';
 import inquirer from 'inquirer';
 import {
   getPythonCommandCandidates,
@@ -118,8 +125,11 @@ interface ProjectHealth {
   hasEnvFile?: boolean;
   modulesHealthy?: boolean;
   missingModules?: string[];
-  framework?: 'FastAPI' | 'NestJS' | 'Go/Fiber' | 'Go/Gin' | 'Unknown';
+  /** A built-in framework, or the display name of the runtime plugin owning the project. */
+  framework?: 'FastAPI' | 'NestJS' | 'Go/Fiber' | 'Go/Gin' | 'Unknown' | (string & {});
   isGoProject?: boolean;
+  /** Set for projects owned by a runtime plugin (`rust`, `java`, ...). */
+  pluginRuntime?: string;
   kit?: string;
   stats?: {
     modules: number;
@@ -680,6 +690,29 @@ async function checkProject(projectPath: string): Promise<ProjectHealth> {
     // Ignore if can't determine last modified
   }
 
+  // Projects of plugin runtimes (Rust, Java, ...): the plugin's prereq check stands in
+  // for the toolchain check; dependency state is up to the plugin's own commands.
+  const runtimePlugin = detectRuntimePlugin(projectJsonData, projectPath);
+  if (runtimePlugin) {
+    const label = runtimePluginLabel(runtimePlugin);
+    health.framework = label;
+    health.pluginRuntime = runtimePlugin.runtime;
+    health.venvActive = true; // N/A
+    health.coreInstalled = false; // N/A
+    health.depsInstalled = true; // N/A
+
+    const probe = await probeRuntimePlugin(runtimePlugin, projectPath);
+    if (!probe.installed) {
+      const { command, install } = runtimePlugin.prereq;
+      health.issues.push(
+        `${label} toolchain not found (\`${command}\` failed)${install ? ` — ${install}` : ''}`
+      );
+    }
+
+    await performCommonChecks(projectPath, health);
+    return health;
+  }
+
   // Detect project type (Go/Fiber, Python FastAPI, or Node.js NestJS)
   const packageJsonPath = path.join(projectPath, 'package.json');
   const pyprojectTomlPath = path.join(projectPath, 'pyproject.toml');
@@ -718,6 +751,17 @@ async function checkProject(projectPath: string): Promise<ProjectHealth> {
       health.fixCommands?.push(buildProjectFixCommand(projectPath, 'go mod tidy'));
     }
 
+    // Modules added with `rapidkit add module` (or enabled at create time) must keep their files
+    const missingModuleFiles = await missingGoModuleFiles(projectPath, projectJsonData);
+    health.missingModules = missingModuleFiles.map((entry) => entry.file);
+    health.modulesHealthy = missingModuleFiles.length === 0;
+    if (!health.modulesHealthy) {
+      health.issues.push(`Missing module files: ${health.missingModules.join(', ')}`);
+      for (const id of new Set(missingModuleFiles.map((entry) => entry.module))) {
+        health.fixCommands?.push(buildProjectFixCommand(projectPath, `rapidkit add module ${id}`));
+      }
+    }
+
     // .env check — Go reads env vars from OS directly; .env is optional (no dotenv loaded by default)
     // Leave hasEnvFile undefined so the Environment row is hidden in the output.
 
@@ -1247,11 +1291,13 @@ function renderProjectHealth(project: ProjectHealth): void {
     }
   }
 
-  // Dependencies (both Python and Node.js)
-  if (project.depsInstalled) {
-    console.log(`   ✅ Dependencies: ${chalk.green('Installed')}`);
-  } else {
-    console.log(`   ⚠️  Dependencies: ${chalk.yellow('Not installed')}`);
+  // Dependencies (both Python and Node.js; plugin runtimes have no dependency check)
+  if (!project.pluginRuntime) {
+    if (project.depsInstalled) {
+      console.log(`   ✅ Dependencies: ${chalk.green('Installed')}`);
+    } else {
+      console.log(`   ⚠️  Dependencies: ${chalk.yellow('Not installed')}`);
+    }
   }
 
   // Environment file check
@@ -1269,7 +1315,7 @@ function renderProjectHealth(project: ProjectHealth): void {
       console.log(`   ✅ Modules: ${chalk.green('Healthy')}`);
     } else if (project.missingModules && project.missingModules.length > 0) {
       console.log(
-        `   ⚠️  Modules: ${chalk.yellow(`Missing ${project.missingModules.length} init file(s)`)}`
+        `   ⚠️  Modules: ${chalk.yellow(`Missing ${project.missingModules.length} ${project.isGoProject ? 'module' : 'init'} file(s)`)}`
       );
     }
   }
@@ -1494,6 +1540,13 @@ export async function runDoctor(
     console.log(chalk.bold.cyan('\n🩺 RapidKit Health Check\n'));
   }
 
+  const plugins = await activateRuntimePlugins(process.cwd());
+  if (!options.json) {
+    for (const failure of plugins.errors) {
+      console.log(chalk.yellow(`⚠️  Skipping runtime plugin ${failure.source}: ${failure.error}`));
+    }
+  }
+
   if (workspaceMode) {
     // Workspace mode: check entire workspace
     const workspacePath = autoWorkspacePath ?? (await findWorkspace(process.cwd()));
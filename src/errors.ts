@@ -100,3 +100,71 @@ export class FileSystemError extends RapidKitError {
     );
   }
 }
+
+export class WorkspacePolicyError extends RapidKitError {
+  constructor(message: string, issues: string[] = []) {
+    super(
+      message,
+      'WORKSPACE_POLICY_INVALID',
+      issues.length > 0
+        ? `${issues.join('\n')}\n\nFix .rapidkit/policies.yml and retry.`
+        : 'Fix .rapidkit/policies.yml and retry.'
+    );
+  }
+}
+
+export class KitVariableError extends RapidKitError {
+  constructor(kitName: string, issues: string[]) {
+    super(
+      `Invalid variables for kit "${kitName}"`,
+      'KIT_VARIABLES_INVALID',
+      `${issues.join('\n')}\n\nFix the values and retry.`
+    );
+  }
+}
+
+export class KitUpgradeError extends RapidKitError {
+  constructor(message: string, details?: string) {
+    super(message, 'KIT_UPGRADE_FAILED', details);
+  }
+}
+
+export class GoModuleError extends RapidKitError {
+  constructor(message: string, details?: string) {
+    super(message, 'GO_MODULE_FAILED', details);
+  }
+}
+
+export class SourceDateEpochError extends RapidKitError {
+  constructor(value: string) {
+    super(
+      `Invalid SOURCE_DATE_EPOCH "${value}"`,
+      'INVALID_SOURCE_DATE_EPOCH',
+      'SOURCE_DATE_EPOCH must be a whole number of seconds since 1970-01-01T00:00:00Z.'
+    );
+  }
+}
+
+export class NestMonorepoError extends RapidKitError {
+  constructor(message: string, details?: string) {
+    super(message, 'NEST_MONOREPO_FAILED', details);
+  }
+}
+
+export class WorkspaceDevError extends RapidKitError {
+  constructor(message: string, details?: string) {
+    super(message, 'WORKSPACE_DEV_FAILED', details);
+  }
+}
+
+export class TaskCacheError extends RapidKitError {
+  constructor(message: string, details?: string) {
+    super(message, 'TASK_CACHE_FAILED', details);
+  }
+}
+
+export class ToolchainError extends RapidKitError {
+  constructor(message: string, details?: string) {
+    super(message, 'TOOLCHAIN_FAILED', details);
+  }
+}
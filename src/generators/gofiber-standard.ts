@@ -11,6 +11,8 @@
  *   - GitHub Actions CI
  *   - Makefile
  *   - .rapidkit/project.json marker (disables module system)
+ *   - Optional features (Postgres, Redis, JWT, OpenTelemetry, Prometheus, gRPC)
+ *     from ./go-features
  */
 
 import { promises as fs } from 'fs';
@@ -19,6 +21,28 @@ import chalk from 'chalk';
 import ora from 'ora';
 import { execa } from 'execa';
 import { getVersion } from '../update-checker.js';
+import { generationTimestamp } from '../utils/reproducible.js';
+import {
+  enabledGoFeatures,
+  goFeatureApiRoutes,
+  goFeatureCompose,
+  goFeatureConfigFields,
+  goFeatureConfigValues,
+  goFeatureEndpointRows,
+  goFeatureEnvExample,
+  goFeatureFiles,
+  goFeatureMainImports,
+  goFeatureMainSetup,
+  goFeatureMainShutdown,
+  goFeatureMiddleware,
+  goFeatureReadme,
+  goFeatureRequires,
+  goFeatureRoutes,
+  renderGoImports,
+  resolveGoFeatures,
+  type GoFeatureContext,
+  type GoFeatures,
+} from './go-features.js';
 
 export interface GoFiberVariables {
   project_name: string;
@@ -28,7 +52,13 @@ export interface GoFiberVariables {
   go_version?: string;
   app_version?: string;
   port?: string;
+  /** Optional features; all off by default. */
+  features?: Partial<GoFeatures>;
   skipGit?: boolean;
+  /** Only write the files: no Go check, `go mod tidy`, git or console output. */
+  renderOnly?: boolean;
+  /** Where the project ends up when `projectPath` is a staging directory. */
+  targetPath?: string;
 }
 
 // ─── helpers ────────────────────────────────────────────────────────────────
@@ -45,23 +75,32 @@ async function writeFile(filePath: string, content: string): Promise<void> {
   await fs.writeFile(filePath, content, 'utf8');
 }
 
+function featureContext(v: Required<GoFiberVariables>): GoFeatureContext {
+  return {
+    framework: 'fiber',
+    project_name: v.project_name,
+    module_path: v.module_path,
+    features: resolveGoFeatures(v.features),
+  };
+}
+
 // ─── cmd/server/main.go ──────────────────────────────────────────────────────
 
 function mainGo(v: Required<GoFiberVariables>): string {
+  const ctx = featureContext(v);
+  const featureImports = goFeatureMainImports(ctx);
+  const imports = renderGoImports([
+    ['fmt', 'log/slog', 'os', 'os/signal', 'syscall', 'time', ...featureImports.std],
+    [
+      `_ ${v.module_path}/docs`,
+      `${v.module_path}/internal/config`,
+      `${v.module_path}/internal/server`,
+      ...featureImports.local,
+    ],
+  ]);
   return `package main
 
-import (
-	"fmt"
-	"log/slog"
-	"os"
-	"os/signal"
-	"syscall"
-	"time"
-
-	_ "${v.module_path}/docs"
-	"${v.module_path}/internal/config"
-	"${v.module_path}/internal/server"
-)
+${imports}
 
 // Build-time variables — injected via -ldflags.
 var (
@@ -78,7 +117,7 @@ func main() {
 	}))
 	slog.SetDefault(log)
 
-	app := server.NewApp(cfg)
+${goFeatureMainSetup(ctx)}	app := server.NewApp(cfg)
 
 	// Graceful shutdown on SIGINT / SIGTERM
 	quit := make(chan os.Signal, 1)
@@ -96,7 +135,7 @@ func main() {
 
 	<-quit
 	slog.Info("shutting down…")
-	if err := app.ShutdownWithTimeout(5 * time.Second); err != nil {
+${goFeatureMainShutdown(ctx)}	if err := app.ShutdownWithTimeout(5 * time.Second); err != nil {
 		slog.Error("graceful shutdown failed", "err", err)
 		os.Exit(1)
 	}
@@ -114,7 +153,7 @@ require (
 	github.com/gofiber/fiber/v2 v2.52.5
 	github.com/swaggo/fiber-swagger v1.3.0
 	github.com/swaggo/swag v1.16.3
-)
+${goFeatureRequires(featureContext(v))})
 
 require (
 	github.com/KyleBanks/depth v1.2.1 // indirect
@@ -156,7 +195,7 @@ import (
 type Config struct {
 	Port     string
 	Env      string
-	LogLevel string
+	LogLevel string${goFeatureConfigFields(featureContext(v))}
 }
 
 // Load reads configuration from environment variables with sensible defaults.
@@ -165,7 +204,7 @@ func Load() *Config {
 	return &Config{
 		Port:     getEnv("PORT", "${v.port}"),
 		Env:      env,
-		LogLevel: getEnv("LOG_LEVEL", defaultLogLevel(env)),
+		LogLevel: getEnv("LOG_LEVEL", defaultLogLevel(env)),${goFeatureConfigValues(featureContext(v))}
 	}
 }
 
@@ -203,6 +242,7 @@ func getEnv(key, fallback string) string {
 // ─── internal/server/server.go ───────────────────────────────────────────────
 
 function routesGo(v: Required<GoFiberVariables>): string {
+  const ctx = featureContext(v);
   return `package server
 
 import (
@@ -251,7 +291,7 @@ func NewApp(cfg *config.Config) *fiber.App {
 	app.Use(middleware.RequestID())
 	app.Use(middleware.RateLimit())
 	app.Use(middleware.Logger())
-
+${goFeatureMiddleware(ctx)}${goFeatureRoutes(ctx)}
 	// Swagger UI — /docs redirects to /docs/index.html
 	app.Get("/docs", func(c *fiber.Ctx) error { return c.Redirect("/docs/index.html", fiber.StatusFound) })
 	app.Get("/docs/*", fiberSwagger.WrapHandler)
@@ -260,7 +300,7 @@ func NewApp(cfg *config.Config) *fiber.App {
 	v1.Get("/health/live",  handlers.Liveness)
 	v1.Get("/health/ready", handlers.Readiness)
 	v1.Get("/echo/:name",   handlers.EchoParams)
-
+${goFeatureApiRoutes(ctx)}
 	// 404 catch-all: return fiber.ErrNotFound so it is processed by the
 	// custom ErrorHandler above, keeping all error formatting in one place.
 	app.Use(func(c *fiber.Ctx) error {
@@ -278,11 +318,21 @@ function handlerHealthGo(): string {
   return `package handlers
 
 import (
+	"context"
 	"time"
 
 	"github.com/gofiber/fiber/v2"
 )
 
+// readinessChecks are probed by Readiness; register them with AddReadinessCheck.
+var readinessChecks = map[string]func(context.Context) error{}
+
+// AddReadinessCheck registers a dependency probe (database, cache, …) for
+// /health/ready. Call it during startup, before the server accepts traffic.
+func AddReadinessCheck(name string, check func(context.Context) error) {
+	readinessChecks[name] = check
+}
+
 // Liveness signals the process is alive (Kubernetes livenessProbe).
 //
 //	@Summary		Liveness probe
@@ -299,15 +349,27 @@ func Liveness(c *fiber.Ctx) error {
 }
 
 // Readiness signals the service can accept traffic (Kubernetes readinessProbe).
-// Extend this function to check database connectivity, caches, etc.
+// It fails with 503 while any registered readiness check fails.
 //
 //	@Summary		Readiness probe
 //	@Description	Returns 200 when the service is ready to accept traffic.
 //	@Tags			health
 //	@Produce		json
 //	@Success		200	{object}	map[string]string
+//	@Failure		503	{object}	map[string]string
 //	@Router			/api/v1/health/ready [get]
 func Readiness(c *fiber.Ctx) error {
+	ctx, cancel := context.WithTimeout(c.UserContext(), 2*time.Second)
+	defer cancel()
+	for name, check := range readinessChecks {
+		if err := check(ctx); err != nil {
+			return c.Status(fiber.StatusServiceUnavailable).JSON(fiber.Map{
+				"status": "unavailable",
+				"check":  name,
+				"time":   time.Now().UTC().Format(time.RFC3339),
+			})
+		}
+	}
 	return c.JSON(fiber.Map{
 		"status": "ready",
 		"time":   time.Now().UTC().Format(time.RFC3339),
@@ -405,6 +467,7 @@ ENTRYPOINT ["/server"]
 }
 
 function dockerCompose(v: Required<GoFiberVariables>): string {
+  const extra = goFeatureCompose(featureContext(v));
   return `version: "3.9"
 
 services:
@@ -413,14 +476,14 @@ services:
     container_name: ${v.project_name}
     ports:
       - "${v.port}:${v.port}"
-    environment:
+${extra.ports}    environment:
       PORT: "${v.port}"
       APP_ENV: development
       LOG_LEVEL: info
       CORS_ALLOW_ORIGINS: "*"
       RATE_LIMIT_RPS: "100"
-    restart: unless-stopped
-`;
+${extra.environment}${extra.dependsOn}    restart: unless-stopped
+${extra.services}`;
 }
 
 function makefile(v: Required<GoFiberVariables>): string {
@@ -484,7 +547,7 @@ CORS_ALLOW_ORIGINS=*
 
 # Rate limiting — max requests per IP per second
 RATE_LIMIT_RPS=100
-`;
+${goFeatureEnvExample(featureContext(v))}`;
 }
 
 function gitignore(): string {
@@ -633,8 +696,8 @@ The raw OpenAPI spec is served at \`/docs/doc.json\`.
 | GET    | /api/v1/health/ready   | Kubernetes readinessProbe |
 | GET    | /api/v1/echo/:name     | Example handler \u2014 remove in production |
 | GET    | /docs/*                | Swagger UI (OpenAPI docs) |
-
-## Configuration
+${goFeatureEndpointRows(featureContext(v))}
+${goFeatureReadme(featureContext(v))}## Configuration
 
 All configuration is done through environment variables (see \`.env.example\`):
 
@@ -1780,13 +1843,14 @@ function projectJson(v: Required<GoFiberVariables>, rapidkitVersion: string): st
     {
       kit_name: 'gofiber.standard',
       runtime: 'go',
-      module_support: false,
+      module_support: true,
       project_name: v.project_name,
       module_path: v.module_path,
       app_version: v.app_version,
+      features: enabledGoFeatures(resolveGoFeatures(v.features)),
       created_by: 'rapidkit-npm',
       rapidkit_version: rapidkitVersion,
-      created_at: new Date().toISOString(),
+      created_at: generationTimestamp(),
     },
     null,
     2
@@ -1795,11 +1859,8 @@ function projectJson(v: Required<GoFiberVariables>, rapidkitVersion: string): st
 
 // ─── main generator ──────────────────────────────────────────────────────────
 
-export async function generateGoFiberKit(
-  projectPath: string,
-  variables: GoFiberVariables
-): Promise<void> {
-  const v: Required<GoFiberVariables> = {
+function resolveVariables(variables: GoFiberVariables): Required<GoFiberVariables> {
+  return {
     project_name: variables.project_name,
     module_path: variables.module_path || variables.project_name,
     author: variables.author || 'RapidKit User',
@@ -1807,24 +1868,80 @@ export async function generateGoFiberKit(
     go_version: variables.go_version || '1.24',
     app_version: variables.app_version || '0.1.0',
     port: variables.port || '3000',
+    features: resolveGoFeatures(variables.features),
     skipGit: variables.skipGit ?? false,
+    renderOnly: variables.renderOnly ?? false,
+    targetPath: variables.targetPath ?? '',
   };
+}
 
-  const rapidkitVersion = getVersion();
+/**
+ * Render every project file in memory, keyed by project-relative path.
+ * `generateGoFiberKit` writes exactly this set; dry runs and kit baselines use it directly.
+ */
+export function renderGoFiberFiles(variables: GoFiberVariables): Record<string, string> {
+  const v = resolveVariables(variables);
+  return {
+    'cmd/server/main.go': mainGo(v),
+    'go.mod': goMod(v),
+    'internal/config/config.go': configGo(v),
+    'internal/server/server.go': routesGo(v),
+    'internal/middleware/requestid.go': middlewareGo(),
+    'internal/middleware/requestid_test.go': middlewareTestGo(v),
+    'internal/apierr/apierr.go': apierrGo(),
+    'internal/apierr/apierr_test.go': apierrTestGo(v),
+    'internal/handlers/health.go': handlerHealthGo(),
+    'internal/handlers/health_test.go': mainTestGo(v),
+    'internal/handlers/example.go': exampleHandlerGo(v),
+    'internal/handlers/example_test.go': exampleHandlerTestGo(v),
+    'internal/config/config_test.go': configTestGo(v),
+    'internal/middleware/cors.go': corsMiddlewareGo(),
+    'internal/middleware/cors_test.go': corsMiddlewareTestGo(v),
+    'internal/middleware/ratelimit.go': ratelimitMiddlewareGo(v),
+    'internal/middleware/ratelimit_test.go': ratelimitMiddlewareTestGo(v),
+    'internal/server/server_test.go': serverTestGo(v),
+    'docs/doc.go': swaggerDocGo(v),
+    '.air.toml': airToml(v),
+    Dockerfile: dockerfile(),
+    'docker-compose.yml': dockerCompose(v),
+    Makefile: makefile(v),
+    '.golangci.yml': golangciYml(v.module_path),
+    '.env.example': envExample(v),
+    '.gitignore': gitignore(),
+    '.github/workflows/ci.yml': githubWorkflow(v),
+    'README.md': readmeMd(v),
+    '.rapidkit/project.json': projectJson(v, getVersion()),
+    '.rapidkit/context.json': contextJson(),
+    rapidkit: rapidkitScript(v),
+    'rapidkit.cmd': rapidkitCmd(v),
+    ...goFeatureFiles(featureContext(v), v.port),
+  };
+}
+
+export async function generateGoFiberKit(
+  projectPath: string,
+  variables: GoFiberVariables
+): Promise<void> {
+  const v = resolveVariables(variables);
 
   // Go pre-flight check — warn if not installed, but don't block scaffold
-  try {
-    await execa('go', ['version'], { timeout: 3000 });
-  } catch {
-    console.log(
-      chalk.yellow(
-        '\n⚠  Go not found in PATH — project will be scaffolded, but `go mod tidy` requires Go 1.21+'
-      )
-    );
-    console.log(chalk.gray('   Install: https://go.dev/dl/\n'));
+  if (!v.renderOnly) {
+    try {
+      await execa('go', ['version'], { timeout: 3000 });
+    } catch {
+      console.log(
+        chalk.yellow(
+          '\n⚠  Go not found in PATH — project will be scaffolded, but `go mod tidy` requires Go 1.21+'
+        )
+      );
+      console.log(chalk.gray('   Install: https://go.dev/dl/\n'));
+    }
   }
 
-  const spinner = ora(`Generating Go/Fiber project: ${v.project_name}…`).start();
+  const spinner = ora({
+    text: `Generating Go/Fiber project: ${v.project_name}…`,
+    isSilent: v.renderOnly,
+  }).start();
 
   try {
     const w = (rel: string, content: string) => writeFile(path.join(projectPath, rel), content);
@@ -1832,46 +1949,16 @@ export async function generateGoFiberKit(
     const rapidkitScriptPath = path.join(projectPath, 'rapidkit');
     const rapidkitCmdPath = path.join(projectPath, 'rapidkit.cmd');
 
-    await Promise.all([
-      w('cmd/server/main.go', mainGo(v)),
-      w('go.mod', goMod(v)),
-      w('internal/config/config.go', configGo(v)),
-      w('internal/server/server.go', routesGo(v)),
-      w('internal/middleware/requestid.go', middlewareGo()),
-      w('internal/middleware/requestid_test.go', middlewareTestGo(v)),
-      w('internal/apierr/apierr.go', apierrGo()),
-      w('internal/apierr/apierr_test.go', apierrTestGo(v)),
-      w('internal/handlers/health.go', handlerHealthGo()),
-      w('internal/handlers/health_test.go', mainTestGo(v)),
-      w('internal/handlers/example.go', exampleHandlerGo(v)),
-      w('internal/handlers/example_test.go', exampleHandlerTestGo(v)),
-      w('internal/config/config_test.go', configTestGo(v)),
-      w('internal/middleware/cors.go', corsMiddlewareGo()),
-      w('internal/middleware/cors_test.go', corsMiddlewareTestGo(v)),
-      w('internal/middleware/ratelimit.go', ratelimitMiddlewareGo(v)),
-      w('internal/middleware/ratelimit_test.go', ratelimitMiddlewareTestGo(v)),
-      w('internal/server/server_test.go', serverTestGo(v)),
-      w('docs/doc.go', swaggerDocGo(v)),
-      w('.air.toml', airToml(v)),
-      w('Dockerfile', dockerfile()),
-      w('docker-compose.yml', dockerCompose(v)),
-      w('Makefile', makefile(v)),
-      w('.golangci.yml', golangciYml(v.module_path)),
-      w('.env.example', envExample(v)),
-      w('.gitignore', gitignore()),
-      w('.github/workflows/ci.yml', githubWorkflow(v)),
-      w('README.md', readmeMd(v)),
-      w('.rapidkit/project.json', projectJson(v, rapidkitVersion)),
-      w('.rapidkit/context.json', contextJson()),
-      w('rapidkit', rapidkitScript(v)),
-      w('rapidkit.cmd', rapidkitCmd(v)),
-    ]);
+    await Promise.all(
+      Object.entries(renderGoFiberFiles(v)).map(([rel, content]) => w(rel, content))
+    );
 
     // Make the launcher scripts executable
     await fs.chmod(rapidkitScriptPath, 0o755);
     await fs.chmod(rapidkitCmdPath, 0o755);
 
-    spinner.succeed(chalk.green(`Project created at ${projectPath}`));
+    spinner.succeed(chalk.green(`Project created at ${v.targetPath || projectPath}`));
+    if (v.renderOnly) return;
 
     // Fetch Go dependencies automatically
     try {
@@ -1912,10 +1999,13 @@ export async function generateGoFiberKit(
     console.log(chalk.gray('  http://localhost:' + v.port + '/api/v1/health/live'));
     console.log(chalk.gray('  http://localhost:' + v.port + '/api/v1/health/ready'));
     console.log('');
+    const features = enabledGoFeatures(featureContext(v).features);
     console.log(
-      chalk.yellow(
-        'ℹ  RapidKit modules are not available for Go projects (module system uses Python/pip).'
-      )
+      features.length > 0
+        ? chalk.gray(`Features: ${features.join(', ')} (see README.md)`)
+        : chalk.gray(
+            'ℹ  Optional features are chosen at create time, e.g. --var postgres=true (also redis, jwt, otel, prometheus, grpc).'
+          )
     );
     console.log('');
   } catch (err) {
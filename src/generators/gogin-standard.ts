@@ -11,6 +11,8 @@
  *   - GitHub Actions CI
  *   - Makefile
  *   - .rapidkit/project.json marker (disables module system)
+ *   - Optional features (Postgres, Redis, JWT, OpenTelemetry, Prometheus, gRPC)
+ *     from ./go-features
  */
 
 import { promises as fs } from 'fs';
@@ -19,6 +21,28 @@ import chalk from 'chalk';
 import ora from 'ora';
 import { execa } from 'execa';
 import { getVersion } from '../update-checker.js';
+import { generationTimestamp } from '../utils/reproducible.js';
+import {
+  enabledGoFeatures,
+  goFeatureApiRoutes,
+  goFeatureCompose,
+  goFeatureConfigFields,
+  goFeatureConfigValues,
+  goFeatureEndpointRows,
+  goFeatureEnvExample,
+  goFeatureFiles,
+  goFeatureMainImports,
+  goFeatureMainSetup,
+  goFeatureMainShutdown,
+  goFeatureMiddleware,
+  goFeatureReadme,
+  goFeatureRequires,
+  goFeatureRoutes,
+  renderGoImports,
+  resolveGoFeatures,
+  type GoFeatureContext,
+  type GoFeatures,
+} from './go-features.js';
 
 export interface GoGinVariables {
   project_name: string;
@@ -28,7 +52,13 @@ export interface GoGinVariables {
   go_version?: string;
   app_version?: string;
   port?: string;
+  /** Optional features; all off by default. */
+  features?: Partial<GoFeatures>;
   skipGit?: boolean;
+  /** Only write the files: no Go check, `go mod tidy`, git or console output. */
+  renderOnly?: boolean;
+  /** Where the project ends up when `projectPath` is a staging directory. */
+  targetPath?: string;
 }
 
 // ─── helpers ─────────────────────────────────────────────────────────────────
@@ -45,28 +75,45 @@ async function writeFile(filePath: string, content: string): Promise<void> {
   await fs.writeFile(filePath, content, 'utf8');
 }
 
+function featureContext(v: Required<GoGinVariables>): GoFeatureContext {
+  return {
+    framework: 'gin',
+    project_name: v.project_name,
+    module_path: v.module_path,
+    features: resolveGoFeatures(v.features),
+  };
+}
+
 // ─── file templates ───────────────────────────────────────────────────────────
 
 // ─── cmd/server/main.go ───────────────────────────────────────────────────────
 
 function mainGo(v: Required<GoGinVariables>): string {
+  const ctx = featureContext(v);
+  const featureImports = goFeatureMainImports(ctx);
+  const imports = renderGoImports([
+    [
+      'context',
+      'errors',
+      'fmt',
+      'log/slog',
+      'net/http',
+      'os',
+      'os/signal',
+      'syscall',
+      'time',
+      ...featureImports.std,
+    ],
+    [
+      `_ ${v.module_path}/docs`,
+      `${v.module_path}/internal/config`,
+      `${v.module_path}/internal/server`,
+      ...featureImports.local,
+    ],
+  ]);
   return `package main
 
-import (
-	"context"
-	"errors"
-	"fmt"
-	"log/slog"
-	"net/http"
-	"os"
-	"os/signal"
-	"syscall"
-	"time"
-
-	_ "${v.module_path}/docs"
-	"${v.module_path}/internal/config"
-	"${v.module_path}/internal/server"
-)
+${imports}
 
 // Build-time variables — injected via -ldflags.
 var (
@@ -83,7 +130,7 @@ func main() {
 	}))
 	slog.SetDefault(log)
 
-	r := server.NewRouter(cfg)
+${goFeatureMainSetup(ctx)}	r := server.NewRouter(cfg)
 
 	srv := &http.Server{
 		Addr:         ":" + cfg.Port,
@@ -108,7 +155,7 @@ func main() {
 	<-quit
 
 	slog.Info("shutting down…")
-	ctx, cancel := context.WithTimeout(context.Background(), 5*time.Second)
+${goFeatureMainShutdown(ctx)}	ctx, cancel := context.WithTimeout(context.Background(), 5*time.Second)
 	defer cancel()
 
 	if err := srv.Shutdown(ctx); err != nil {
@@ -129,7 +176,7 @@ require (
 	github.com/gin-gonic/gin v1.10.0
 	github.com/swaggo/gin-swagger v1.6.0
 	github.com/swaggo/swag v1.16.3
-)
+${goFeatureRequires(featureContext(v))})
 
 require (
 	github.com/KyleBanks/depth v1.2.1 // indirect
@@ -187,7 +234,7 @@ type Config struct {
 	Port     string
 	Env      string
 	GinMode  string
-	LogLevel string
+	LogLevel string${goFeatureConfigFields(featureContext(v))}
 }
 
 // Load reads configuration from environment variables with sensible defaults.
@@ -197,7 +244,7 @@ func Load() *Config {
 		Port:     getEnv("PORT", "${v.port}"),
 		Env:      env,
 		GinMode:  getEnv("GIN_MODE", "debug"),
-		LogLevel: getEnv("LOG_LEVEL", defaultLogLevel(env)),
+		LogLevel: getEnv("LOG_LEVEL", defaultLogLevel(env)),${goFeatureConfigValues(featureContext(v))}
 	}
 }
 
@@ -235,6 +282,7 @@ func getEnv(key, fallback string) string {
 // ─── internal/server/server.go ───────────────────────────────────────────────
 
 function serverGo(v: Required<GoGinVariables>): string {
+  const ctx = featureContext(v);
   return `package server
 
 import (
@@ -263,7 +311,7 @@ func NewRouter(cfg *config.Config) *gin.Engine {
 	r.Use(middleware.RequestID())
 	r.Use(middleware.RateLimit())
 	r.Use(middleware.Logger())
-
+${goFeatureMiddleware(ctx)}${goFeatureRoutes(ctx)}
 	// Swagger UI — /docs redirects to /docs/index.html
 	r.GET("/docs", func(c *gin.Context) { c.Redirect(http.StatusFound, "/docs/index.html") })
 	r.GET("/docs/*any", ginSwagger.WrapHandler(swaggerFiles.Handler))
@@ -273,7 +321,7 @@ func NewRouter(cfg *config.Config) *gin.Engine {
 		v1.GET("/health/live",  handlers.Liveness)
 		v1.GET("/health/ready", handlers.Readiness)
 		v1.GET("/echo/:name",   handlers.EchoParams)
-	}
+${goFeatureApiRoutes(ctx, '\t\t')}	}
 
 	// Return JSON for unknown routes/methods instead of Gin's default text responses.
 	// HandleMethodNotAllowed must be true so NoMethod handler fires for 405 cases.
@@ -296,12 +344,22 @@ function handlerHealthGo(): string {
   return `package handlers
 
 import (
+	"context"
 	"net/http"
 	"time"
 
 	"github.com/gin-gonic/gin"
 )
 
+// readinessChecks are probed by Readiness; register them with AddReadinessCheck.
+var readinessChecks = map[string]func(context.Context) error{}
+
+// AddReadinessCheck registers a dependency probe (database, cache, …) for
+// /health/ready. Call it during startup, before the server accepts traffic.
+func AddReadinessCheck(name string, check func(context.Context) error) {
+	readinessChecks[name] = check
+}
+
 // Liveness signals the process is alive (Kubernetes livenessProbe).
 //
 //	@Summary		Liveness probe
@@ -318,15 +376,28 @@ func Liveness(c *gin.Context) {
 }
 
 // Readiness signals the service can accept traffic (Kubernetes readinessProbe).
-// Extend this function to check database connectivity, caches, etc.
+// It fails with 503 while any registered readiness check fails.
 //
 //	@Summary		Readiness probe
 //	@Description	Returns 200 when the service is ready to accept traffic.
 //	@Tags			health
 //	@Produce		json
 //	@Success		200	{object}	map[string]string
+//	@Failure		503	{object}	map[string]string
 //	@Router			/api/v1/health/ready [get]
 func Readiness(c *gin.Context) {
+	ctx, cancel := context.WithTimeout(c.Request.Context(), 2*time.Second)
+	defer cancel()
+	for name, check := range readinessChecks {
+		if err := check(ctx); err != nil {
+			c.JSON(http.StatusServiceUnavailable, gin.H{
+				"status": "unavailable",
+				"check":  name,
+				"time":   time.Now().UTC().Format(time.RFC3339),
+			})
+			return
+		}
+	}
 	c.JSON(http.StatusOK, gin.H{
 		"status": "ready",
 		"time":   time.Now().UTC().Format(time.RFC3339),
@@ -420,6 +491,7 @@ ENTRYPOINT ["/server"]
 }
 
 function dockerCompose(v: Required<GoGinVariables>): string {
+  const extra = goFeatureCompose(featureContext(v));
   return `version: "3.9"
 
 services:
@@ -428,15 +500,15 @@ services:
     container_name: ${v.project_name}
     ports:
       - "${v.port}:${v.port}"
-    environment:
+${extra.ports}    environment:
       PORT: "${v.port}"
       APP_ENV: development
       GIN_MODE: debug
       LOG_LEVEL: info
       CORS_ALLOW_ORIGINS: "*"
       RATE_LIMIT_RPS: "100"
-    restart: unless-stopped
-`;
+${extra.environment}${extra.dependsOn}    restart: unless-stopped
+${extra.services}`;
 }
 
 function makefile(v: Required<GoGinVariables>): string {
@@ -509,7 +581,7 @@ CORS_ALLOW_ORIGINS=*
 
 # Rate limiting — max requests per IP per second
 RATE_LIMIT_RPS=100
-`;
+${goFeatureEnvExample(featureContext(v))}`;
 }
 
 function gitignore(): string {
@@ -658,8 +730,8 @@ The raw OpenAPI spec is served at \`/docs/doc.json\`.
 | GET    | /api/v1/health/ready   | Kubernetes readinessProbe |
 | GET    | /api/v1/echo/:name     | Example handler \u2014 remove in production |
 | GET    | /docs/*                | Swagger UI (OpenAPI docs) |
-
-## Configuration
+${goFeatureEndpointRows(featureContext(v))}
+${goFeatureReadme(featureContext(v))}## Configuration
 
 All configuration is done through environment variables (see \`.env.example\`):
 
@@ -1753,13 +1825,14 @@ function projectJson(v: Required<GoGinVariables>, rapidkitVersion: string): stri
     {
       kit_name: 'gogin.standard',
       runtime: 'go',
-      module_support: false,
+      module_support: true,
       project_name: v.project_name,
       module_path: v.module_path,
       app_version: v.app_version,
+      features: enabledGoFeatures(resolveGoFeatures(v.features)),
       created_by: 'rapidkit-npm',
       rapidkit_version: rapidkitVersion,
-      created_at: new Date().toISOString(),
+      created_at: generationTimestamp(),
     },
     null,
     2
@@ -1882,11 +1955,8 @@ exit /b 1
 
 // ─── main generator ───────────────────────────────────────────────────────────
 
-export async function generateGoGinKit(
-  projectPath: string,
-  variables: GoGinVariables
-): Promise<void> {
-  const v: Required<GoGinVariables> = {
+function resolveVariables(variables: GoGinVariables): Required<GoGinVariables> {
+  return {
     project_name: variables.project_name,
     module_path: variables.module_path || variables.project_name,
     author: variables.author || 'RapidKit User',
@@ -1894,24 +1964,80 @@ export async function generateGoGinKit(
     go_version: variables.go_version || '1.24',
     app_version: variables.app_version || '0.1.0',
     port: variables.port || '8080',
+    features: resolveGoFeatures(variables.features),
     skipGit: variables.skipGit ?? false,
+    renderOnly: variables.renderOnly ?? false,
+    targetPath: variables.targetPath ?? '',
   };
+}
 
-  const rapidkitVersion = getVersion();
+/**
+ * Render every project file in memory, keyed by project-relative path.
+ * `generateGoGinKit` writes exactly this set; dry runs and kit baselines use it directly.
+ */
+export function renderGoGinFiles(variables: GoGinVariables): Record<string, string> {
+  const v = resolveVariables(variables);
+  return {
+    'cmd/server/main.go': mainGo(v),
+    'go.mod': goMod(v),
+    'internal/config/config.go': configGo(v),
+    'internal/server/server.go': serverGo(v),
+    'internal/middleware/requestid.go': middlewareGo(),
+    'internal/middleware/requestid_test.go': middlewareTestGo(v),
+    'internal/apierr/apierr.go': apierrGo(),
+    'internal/apierr/apierr_test.go': apierrTestGo(v),
+    'internal/handlers/health.go': handlerHealthGo(),
+    'internal/handlers/health_test.go': handlerHealthTestGo(v),
+    'internal/handlers/example.go': exampleHandlerGo(v),
+    'internal/handlers/example_test.go': exampleHandlerTestGo(v),
+    'internal/config/config_test.go': configTestGo(v),
+    'internal/middleware/cors.go': corsMiddlewareGo(),
+    'internal/middleware/cors_test.go': corsMiddlewareTestGo(v),
+    'internal/middleware/ratelimit.go': ratelimitMiddlewareGo(v),
+    'internal/middleware/ratelimit_test.go': ratelimitMiddlewareTestGo(v),
+    'internal/server/server_test.go': serverTestGo(v),
+    'docs/doc.go': swaggerDocGo(v),
+    '.air.toml': airToml(v),
+    Dockerfile: dockerfile(),
+    'docker-compose.yml': dockerCompose(v),
+    Makefile: makefile(v),
+    '.golangci.yml': golangciYml(v.module_path),
+    '.env.example': envExample(v),
+    '.gitignore': gitignore(),
+    '.github/workflows/ci.yml': githubWorkflow(v),
+    'README.md': readmeMd(v),
+    '.rapidkit/project.json': projectJson(v, getVersion()),
+    '.rapidkit/context.json': contextJson(),
+    rapidkit: rapidkitScript(v),
+    'rapidkit.cmd': rapidkitCmd(v),
+    ...goFeatureFiles(featureContext(v), v.port),
+  };
+}
+
+export async function generateGoGinKit(
+  projectPath: string,
+  variables: GoGinVariables
+): Promise<void> {
+  const v = resolveVariables(variables);
 
   // Go pre-flight check — warn if not installed, but don't block scaffold
-  try {
-    await execa('go', ['version'], { timeout: 3000 });
-  } catch {
-    console.log(
-      chalk.yellow(
-        '\n⚠  Go not found in PATH — project will be scaffolded, but `go mod tidy` requires Go 1.21+'
-      )
-    );
-    console.log(chalk.gray('   Install: https://go.dev/dl/\n'));
+  if (!v.renderOnly) {
+    try {
+      await execa('go', ['version'], { timeout: 3000 });
+    } catch {
+      console.log(
+        chalk.yellow(
+          '\n⚠  Go not found in PATH — project will be scaffolded, but `go mod tidy` requires Go 1.21+'
+        )
+      );
+      console.log(chalk.gray('   Install: https://go.dev/dl/\n'));
+    }
   }
 
-  const spinner = ora(`Generating Go/Gin project: ${v.project_name}…`).start();
+  const spinner = ora({
+    text: `Generating Go/Gin project: ${v.project_name}…`,
+    isSilent: v.renderOnly,
+  }).start();
 
   try {
     const w = (rel: string, content: string) => writeFile(path.join(projectPath, rel), content);
@@ -1919,45 +2045,13 @@ export async function generateGoGinKit(
     const rapidkitScriptPath = path.join(projectPath, 'rapidkit');
     const rapidkitCmdPath = path.join(projectPath, 'rapidkit.cmd');
 
-    await Promise.all([
-      w('cmd/server/main.go', mainGo(v)),
-      w('go.mod', goMod(v)),
-      w('internal/config/config.go', configGo(v)),
-      w('internal/server/server.go', serverGo(v)),
-      w('internal/middleware/requestid.go', middlewareGo()),
-      w('internal/middleware/requestid_test.go', middlewareTestGo(v)),
-      w('internal/apierr/apierr.go', apierrGo()),
-      w('internal/apierr/apierr_test.go', apierrTestGo(v)),
-      w('internal/handlers/health.go', handlerHealthGo()),
-      w('internal/handlers/health_test.go', handlerHealthTestGo(v)),
-      w('internal/handlers/example.go', exampleHandlerGo(v)),
-      w('internal/handlers/example_test.go', exampleHandlerTestGo(v)),
-      w('internal/config/config_test.go', configTestGo(v)),
-      w('internal/middleware/cors.go', corsMiddlewareGo()),
-      w('internal/middleware/cors_test.go', corsMiddlewareTestGo(v)),
-      w('internal/middleware/ratelimit.go', ratelimitMiddlewareGo(v)),
-      w('internal/middleware/ratelimit_test.go', ratelimitMiddlewareTestGo(v)),
-      w('internal/server/server_test.go', serverTestGo(v)),
-      w('docs/doc.go', swaggerDocGo(v)),
-      w('.air.toml', airToml(v)),
-      w('Dockerfile', dockerfile()),
-      w('docker-compose.yml', dockerCompose(v)),
-      w('Makefile', makefile(v)),
-      w('.golangci.yml', golangciYml(v.module_path)),
-      w('.env.example', envExample(v)),
-      w('.gitignore', gitignore()),
-      w('.github/workflows/ci.yml', githubWorkflow(v)),
-      w('README.md', readmeMd(v)),
-      w('.rapidkit/project.json', projectJson(v, rapidkitVersion)),
-      w('.rapidkit/context.json', contextJson()),
-      w('rapidkit', rapidkitScript(v)),
-      w('rapidkit.cmd', rapidkitCmd(v)),
-    ]);
+    await Promise.all(Object.entries(renderGoGinFiles(v)).map(([rel, content]) => w(rel, content)));
 
     await fs.chmod(rapidkitScriptPath, 0o755);
     await fs.chmod(rapidkitCmdPath, 0o755);
 
-    spinner.succeed(chalk.green(`Project created at ${projectPath}`));
+    spinner.succeed(chalk.green(`Project created at ${v.targetPath || projectPath}`));
+    if (v.renderOnly) return;
 
     // Fetch Go dependencies automatically
     try {
@@ -1994,10 +2088,13 @@ export async function generateGoGinKit(
     console.log(chalk.gray('  http://localhost:' + v.port + '/api/v1/health/live'));
     console.log(chalk.gray('  http://localhost:' + v.port + '/api/v1/health/ready'));
     console.log('');
+    const features = enabledGoFeatures(featureContext(v).features);
     console.log(
-      chalk.yellow(
-        'ℹ  RapidKit modules are not available for Go projects (module system uses Python/pip).'
-      )
+      features.length > 0
+        ? chalk.gray(`Features: ${features.join(', ')} (see README.md)`)
+        : chalk.gray(
+            'ℹ  Optional features are chosen at create time, e.g. --var postgres=true (also redis, jwt, otel, prometheus, grpc).'
+          )
     );
     console.log('');
   } catch (err) {
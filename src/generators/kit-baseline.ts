@@ -0,0 +1,70 @@
+/**
+ * Kit baselines.
+ *
+ * When a kit scaffolds a project, the files it produced are recorded in
+ * `.rapidkit/kit-baseline.json` together with the kit name, RapidKit version
+ * and variables. `rapidkit upgrade-kit` uses that snapshot as the common
+ * ancestor when merging a newer kit render with the project's own edits.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { KitVariableValue } from './registry.js';
+
+export const KIT_BASELINE_PATH = '.rapidkit/kit-baseline.json';
+
+/** Per-project state written next to the kit output; never snapshotted or merged. */
+export const KIT_STATE_FILES = ['.rapidkit/project.json', KIT_BASELINE_PATH];
+
+const SKIPPED_DIRECTORIES = new Set(['.git', 'node_modules']);
+
+export interface KitBaseline {
+  kit_name: string;
+  rapidkit_version: string;
+  variables: Record<string, KitVariableValue>;
+  /** Seed for the kit's `generate_secret` output, so re-renders reproduce the same secrets. */
+  secret_seed?: string;
+  /** Generated file contents keyed by `/`-separated project-relative path. */
+  files: Record<string, string>;
+}
+
+/** Read every file under `root` (except VCS, dependencies and, unless asked, kit state files). */
+export async function snapshotKitFiles(
+  root: string,
+  options: { includeState?: boolean } = {}
+): Promise<Record<string, string>> {
+  const files: Record<string, string> = {};
+
+  async function walk(dir: string): Promise<void> {
+    for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+      const absolute = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRECTORIES.has(entry.name)) await walk(absolute);
+        continue;
+      }
+      if (!entry.isFile()) continue;
+      const relative = path.relative(root, absolute).split(path.sep).join('/');
+      if (!options.includeState && KIT_STATE_FILES.includes(relative)) continue;
+      files[relative] = await fs.readFile(absolute, 'utf-8');
+    }
+  }
+
+  await walk(root);
+  return Object.fromEntries(Object.entries(files).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+export async function readKitBaseline(projectPath: string): Promise<KitBaseline | null> {
+  try {
+    const raw = await fs.readFile(path.join(projectPath, KIT_BASELINE_PATH), 'utf-8');
+    const parsed = JSON.parse(raw) as KitBaseline;
+    return parsed && typeof parsed.kit_name === 'string' && parsed.files ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function writeKitBaseline(projectPath: string, baseline: KitBaseline): Promise<void> {
+  const target = path.join(projectPath, KIT_BASELINE_PATH);
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  await fs.writeFile(target, `${JSON.stringify(baseline, null, 2)}\n`, 'utf-8');
+}
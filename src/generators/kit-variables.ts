@@ -0,0 +1,182 @@
+/**
+ * Kit variable input for `create project`.
+ *
+ * Values come from `--vars-file <path>` (YAML or JSON mapping), then repeated
+ * `--var key=value` flags, then — in interactive sessions — a prompt for each
+ * variable the kit declares that is still unset. Everything is checked with
+ * `resolveKitVariables` before a single file is written.
+ */
+
+import { promises as fs } from 'fs';
+import inquirer from 'inquirer';
+import { parse as parseYaml } from 'yaml';
+import { KitVariableError } from '../errors.js';
+import {
+  resolveKitVariables,
+  type KitGenerator,
+  type KitVariable,
+  type KitVariableValue,
+} from './registry.js';
+
+export interface KitVariableFlags {
+  /** Raw `key=value` strings from `--var`. */
+  vars: string[];
+  varsFile?: string;
+}
+
+export interface CollectKitVariablesOptions {
+  /** Values fixed by the command line (e.g. the project name); never prompted. */
+  values?: Record<string, unknown>;
+  /** Fallbacks that take precedence over the kit defaults (e.g. `module_path`). */
+  defaults?: Record<string, unknown>;
+  interactive?: boolean;
+}
+
+type VariableSchema = Pick<KitGenerator, 'name' | 'variables'>;
+
+/** Read `--var key=value` (repeatable, also `--var=key=value`) and `--vars-file` from argv. */
+export function readKitVariableFlags(args: string[]): KitVariableFlags {
+  const flags: KitVariableFlags = { vars: [] };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--var' && i + 1 < args.length) {
+      flags.vars.push(args[++i]);
+    } else if (arg.startsWith('--var=')) {
+      flags.vars.push(arg.slice('--var='.length));
+    } else if (arg === '--vars-file' && i + 1 < args.length) {
+      flags.varsFile = args[++i];
+    } else if (arg.startsWith('--vars-file=')) {
+      flags.varsFile = arg.slice('--vars-file='.length);
+    }
+  }
+  return flags;
+}
+
+async function readVarsFile(kit: VariableSchema, file: string): Promise<Record<string, unknown>> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(file, 'utf-8');
+  } catch {
+    throw new KitVariableError(kit.name, [`--vars-file: cannot read ${file}`]);
+  }
+  let parsed: unknown;
+  try {
+    parsed = parseYaml(raw);
+  } catch (error) {
+    throw new KitVariableError(kit.name, [`--vars-file: ${(error as Error).message}`]);
+  }
+  if (parsed === null || parsed === undefined) return {};
+  if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new KitVariableError(kit.name, [`--vars-file: ${file} must contain a mapping`]);
+  }
+  return parsed as Record<string, unknown>;
+}
+
+function parseVarAssignments(kit: VariableSchema, vars: string[]): Record<string, string> {
+  const parsed: Record<string, string> = {};
+  const issues: string[] = [];
+  for (const assignment of vars) {
+    const eq = assignment.indexOf('=');
+    if (eq <= 0) {
+      issues.push(`--var ${assignment}: expected key=value`);
+      continue;
+    }
+    parsed[assignment.slice(0, eq).trim()] = assignment.slice(eq + 1);
+  }
+  if (issues.length > 0) throw new KitVariableError(kit.name, issues);
+  return parsed;
+}
+
+/** `--var` and `--vars-file` may only set variables the kit declares. */
+function rejectUndeclared(
+  kit: VariableSchema,
+  sources: Array<[label: string, values: Record<string, unknown>]>
+): void {
+  const declared = Object.keys(kit.variables ?? {});
+  const issues: string[] = [];
+  for (const [label, values] of sources) {
+    for (const name of Object.keys(values)) {
+      if (!declared.includes(name)) issues.push(`${label} ${name}: not declared by the kit`);
+    }
+  }
+  if (issues.length === 0) return;
+  issues.push(
+    declared.length > 0
+      ? `Declared variables: ${declared.join(', ')}`
+      : `${kit.name} declares no variables`
+  );
+  throw new KitVariableError(kit.name, issues);
+}
+
+function validateOne(kit: VariableSchema, name: string, spec: KitVariable, value: unknown) {
+  try {
+    resolveKitVariables({ name: kit.name, variables: { [name]: spec } }, { [name]: value });
+    return true;
+  } catch (error) {
+    return error instanceof KitVariableError
+      ? (error.details ?? error.message).split('\n')[0]
+      : (error as Error).message;
+  }
+}
+
+/** Ask for each declared variable that has no value yet, offering its default. */
+export async function promptKitVariables(
+  kit: VariableSchema,
+  provided: Record<string, unknown>,
+  defaults: Record<string, unknown> = {}
+): Promise<Record<string, unknown>> {
+  const answers: Record<string, unknown> = {};
+  for (const [name, spec] of Object.entries(kit.variables ?? {})) {
+    if (provided[name] !== undefined) continue;
+    const fallback = (defaults[name] ?? spec.default) as KitVariableValue | undefined;
+    const message = spec.description ? `${name} (${spec.description}):` : `${name}:`;
+
+    const question = spec.enum
+      ? {
+          type: 'list',
+          choices: spec.enum.map(String),
+          default: fallback === undefined ? undefined : String(fallback),
+        }
+      : spec.type === 'boolean'
+        ? { type: 'confirm', default: fallback === true || fallback === 'true' }
+        : {
+            type: 'input',
+            default: fallback === undefined ? undefined : String(fallback),
+            validate: (input: string) =>
+              input === '' && !spec.required ? true : validateOne(kit, name, spec, input),
+          };
+    const answer = (await inquirer.prompt([{ name: 'value', message, ...question }])) as {
+      value: unknown;
+    };
+    if (answer.value !== '') answers[name] = answer.value;
+  }
+  return answers;
+}
+
+/**
+ * Merge defaults, `--vars-file`, `--var` and prompted values (in increasing
+ * precedence; `values` always win) and validate them against the kit schema.
+ * Flags and the vars file must name declared variables; `values` and
+ * `defaults` are supplied by the CLI and may carry internal ones.
+ */
+export async function collectKitVariables(
+  kit: VariableSchema,
+  flags: KitVariableFlags,
+  options: CollectKitVariablesOptions = {}
+): Promise<Record<string, KitVariableValue>> {
+  const fromFile = flags.varsFile ? await readVarsFile(kit, flags.varsFile) : {};
+  const fromFlags = parseVarAssignments(kit, flags.vars);
+  rejectUndeclared(kit, [
+    ['--vars-file', fromFile],
+    ['--var', fromFlags],
+  ]);
+  const provided: Record<string, unknown> = {
+    ...fromFile,
+    ...fromFlags,
+    ...options.values,
+  };
+  const prompted = options.interactive
+    ? await promptKitVariables(kit, provided, options.defaults)
+    : {};
+  return resolveKitVariables(kit, { ...options.defaults, ...provided, ...prompted });
+}
@@ -0,0 +1,663 @@
+/**
+ * NestJS monorepo (nestjs.monorepo) scaffold generator.
+ *
+ * Runs entirely at npm level — no Python core engine required.
+ * Produces a Nest CLI monorepo (`nest-cli.json` with `"monorepo": true`):
+ *   - applications under apps/<name> (one port each, from 3000 up)
+ *   - libraries under libs/<name>, imported as <lib_prefix>/<name>
+ *   - one root package.json / node_modules shared by every app and lib
+ *   - Jest configured for all projects; `rapidkit test --app <name>` runs one
+ *   - .rapidkit/project.json listing the apps and libs
+ *
+ * The `apps` and `libs` variables are comma-separated lists, so adding a
+ * project to an existing monorepo (`rapidkit create project nestjs.app
+ * <name>`, see ../nest-monorepo.ts) is a re-render with one more entry.
+ * Dependencies are installed through the Node runtime adapter, which puts
+ * the package cache where the workspace `dependency_sharing_mode` says.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import chalk from 'chalk';
+import ora from 'ora';
+import { execa } from 'execa';
+import { KitVariableError } from '../errors.js';
+import { NodeRuntimeAdapter } from '../runtime-adapters/node.js';
+import { getVersion } from '../update-checker.js';
+import { generationTimestamp } from '../utils/reproducible.js';
+
+export const NEST_MONOREPO_KIT = 'nestjs.monorepo';
+
+export type NestPackageManager = 'npm' | 'yarn' | 'pnpm';
+
+export interface NestMonorepoVariables {
+  project_name: string;
+  author?: string;
+  description?: string;
+  app_version?: string;
+  license?: string;
+  node_version?: string;
+  package_manager?: NestPackageManager;
+  /** Applications, in order; the first is the default Nest CLI project. */
+  apps?: string[];
+  libs?: string[];
+  /** Import prefix for libraries (`@app` → `@app/shared`). */
+  lib_prefix?: string;
+  skipGit?: boolean;
+  skipInstall?: boolean;
+  /** Only write the files: no install, git or console output. */
+  renderOnly?: boolean;
+  /** Where the project ends up when `projectPath` is a staging directory. */
+  targetPath?: string;
+}
+
+type ResolvedVariables = Required<NestMonorepoVariables>;
+
+const NEST_PROJECT_NAME = /^[a-z][a-z0-9-]*$/;
+const FIRST_APP_PORT = 3000;
+
+// ─── helpers ─────────────────────────────────────────────────────────────────
+
+function toPascalCase(s: string): string {
+  return s
+    .split(/[-_\s]+/)
+    .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
+    .join('');
+}
+
+function json(value: unknown): string {
+  return `${JSON.stringify(value, null, 2)}\n`;
+}
+
+async function writeFile(filePath: string, content: string): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, content, 'utf8');
+}
+
+/** Split an `apps` / `libs` variable (`"api, billing"`) into project names. */
+export function parseNestProjectList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value !== 'string') return [];
+  return value
+    .split(',')
+    .map((name) => name.trim())
+    .filter((name) => name !== '');
+}
+
+/** Default port of an app: 3000 for the first, counting up in `apps` order. */
+export function nestAppPort(apps: string[], app: string): number {
+  return FIRST_APP_PORT + Math.max(apps.indexOf(app), 0);
+}
+
+// ─── root files ──────────────────────────────────────────────────────────────
+
+function packageJson(v: ResolvedVariables): string {
+  const moduleNameMapper = Object.fromEntries(
+    v.libs.map((lib) => [`^${v.lib_prefix}/${lib}(|/.*)$`, `<rootDir>/libs/${lib}/src/$1`])
+  );
+  return json({
+    name: v.project_name.replace(/_/g, '-').toLowerCase(),
+    version: v.app_version,
+    description: v.description,
+    author: v.author,
+    license: v.license,
+    private: true,
+    engines: { node: `>=${v.node_version}` },
+    scripts: {
+      build: 'nest build',
+      dev: 'nest start --watch',
+      start: 'nest start',
+      'start:prod': `node dist/apps/${v.apps[0]}/main`,
+      format: 'prettier --write "apps/**/*.ts" "libs/**/*.ts"',
+      test: 'jest',
+      'test:watch': 'jest --watch',
+      'test:cov': 'jest --coverage',
+    },
+    dependencies: {
+      '@nestjs/common': '^11.1.10',
+      '@nestjs/core': '^11.1.10',
+      '@nestjs/platform-express': '^11.1.10',
+      'reflect-metadata': '^0.2.2',
+      rxjs: '^7.8.2',
+    },
+    devDependencies: {
+      '@nestjs/cli': '^11.0.14',
+      '@nestjs/schematics': '^11.0.9',
+      '@nestjs/testing': '^11.1.10',
+      '@types/express': '^5.0.6',
+      '@types/jest': '^30.0.0',
+      '@types/node': '^20.19.0',
+      jest: '^30.2.0',
+      prettier: '^3.7.4',
+      'source-map-support': '^0.5.21',
+      'ts-jest': '^29.4.6',
+      'ts-loader': '^9.5.4',
+      'ts-node': '^10.9.2',
+      'tsconfig-paths': '^4.2.0',
+      typescript: '^5.9.3',
+    },
+    jest: {
+      moduleFileExtensions: ['js', 'json', 'ts'],
+      rootDir: '.',
+      testRegex: '.*\\.spec\\.ts$',
+      transform: { '^.+\\.(t|j)s$': 'ts-jest' },
+      collectCoverageFrom: ['**/*.(t|j)s'],
+      coverageDirectory: './coverage',
+      testEnvironment: 'node',
+      // Jest refuses roots that do not exist, so libs/ is only listed once there is a library.
+      roots: ['<rootDir>/apps/', ...(v.libs.length > 0 ? ['<rootDir>/libs/'] : [])],
+      moduleNameMapper,
+    },
+  });
+}
+
+function nestCliJson(v: ResolvedVariables): string {
+  const defaultApp = v.apps[0];
+  const projects: Record<string, unknown> = {};
+  for (const app of v.apps) {
+    projects[app] = {
+      type: 'application',
+      root: `apps/${app}`,
+      entryFile: 'main',
+      sourceRoot: `apps/${app}/src`,
+      compilerOptions: { tsConfigPath: `apps/${app}/tsconfig.app.json` },
+    };
+  }
+  for (const lib of v.libs) {
+    projects[lib] = {
+      type: 'library',
+      root: `libs/${lib}`,
+      entryFile: 'index',
+      sourceRoot: `libs/${lib}/src`,
+      compilerOptions: { tsConfigPath: `libs/${lib}/tsconfig.lib.json` },
+    };
+  }
+  return json({
+    $schema: 'https://json.schemastore.org/nest-cli',
+    collection: '@nestjs/schematics',
+    sourceRoot: `apps/${defaultApp}/src`,
+    monorepo: true,
+    root: `apps/${defaultApp}`,
+    compilerOptions: {
+      deleteOutDir: true,
+      // webpack bundles each app (and the libs it imports) to dist/apps/<app>/main.js.
+      webpack: true,
+      tsConfigPath: `apps/${defaultApp}/tsconfig.app.json`,
+    },
+    projects,
+  });
+}
+
+function tsconfigJson(v: ResolvedVariables): string {
+  const paths: Record<string, string[]> = {};
+  for (const lib of v.libs) {
+    paths[`${v.lib_prefix}/${lib}`] = [`libs/${lib}/src`];
+    paths[`${v.lib_prefix}/${lib}/*`] = [`libs/${lib}/src/*`];
+  }
+  return json({
+    compilerOptions: {
+      module: 'commonjs',
+      declaration: true,
+      removeComments: true,
+      emitDecoratorMetadata: true,
+      experimentalDecorators: true,
+      allowSyntheticDefaultImports: true,
+      target: 'es2021',
+      sourceMap: true,
+      outDir: './dist',
+      baseUrl: './',
+      incremental: true,
+      skipLibCheck: true,
+      strict: true,
+      paths,
+    },
+    exclude: ['node_modules', 'dist'],
+  });
+}
+
+function gitignore(): string {
+  return `# Node artifacts
+node_modules/
+dist/
+.env
+.env.*
+!.env.example
+
+# Logs
+*.log
+npm-debug.log*
+yarn-debug.log*
+yarn-error.log*
+pnpm-debug.log*
+
+# OS
+.DS_Store
+Thumbs.db
+
+# IDEs
+.idea/
+.vscode/
+
+# Coverage
+coverage/
+`;
+}
+
+function readmeMd(v: ResolvedVariables): string {
+  const pm = v.package_manager;
+  const appRows = v.apps
+    .map((app) => `| \`${app}\` | \`apps/${app}\` | ${nestAppPort(v.apps, app)} |`)
+    .join('\n');
+  const libRows =
+    v.libs.length > 0
+      ? v.libs
+          .map((lib) => `| \`${lib}\` | \`libs/${lib}\` | \`${v.lib_prefix}/${lib}\` |`)
+          .join('\n')
+      : '| — | — | — |';
+  const exampleLib = v.libs[0] ?? 'shared';
+  return `# ${v.project_name}
+
+${v.description}
+
+A NestJS monorepo generated by RapidKit (\`${NEST_MONOREPO_KIT}\`). Every app and
+library shares the root \`package.json\` and \`node_modules\`; \`nest-cli.json\`
+lists the projects.
+
+## Applications
+
+| App | Path | Port |
+| --- | --- | --- |
+${appRows}
+
+Each app reads \`PORT\` from the environment and falls back to the port above.
+
+## Libraries
+
+| Library | Path | Import |
+| --- | --- | --- |
+${libRows}
+
+Import a library from any app through its path alias:
+
+\`\`\`ts
+import { ${toPascalCase(exampleLib)}Module } from '${v.lib_prefix}/${exampleLib}';
+\`\`\`
+
+## Commands
+
+- \`rapidkit init\` — install dependencies with ${pm}
+- \`rapidkit dev --app ${v.apps[0]}\` — run one app in watch mode
+- \`rapidkit build --app ${v.apps[0]}\` — bundle it to \`dist/apps/${v.apps[0]}/main.js\`
+- \`rapidkit test\` — test every app and library
+- \`rapidkit test --app ${exampleLib}\` — test one project
+
+Without \`--app\`, \`dev\`, \`build\` and \`start\` use the default project (\`${v.apps[0]}\`).
+
+## Adding projects
+
+Run inside this directory:
+
+\`\`\`bash
+rapidkit create project nestjs.app billing    # apps/billing
+rapidkit create project nestjs.lib payments   # libs/payments → ${v.lib_prefix}/payments
+\`\`\`
+
+RapidKit merges the new project into \`nest-cli.json\`, \`tsconfig.json\` and the
+Jest config, keeping your own edits to those files.
+`;
+}
+
+function contextJson(): string {
+  return JSON.stringify({ engine: 'npm', runtime: 'node' }, null, 2);
+}
+
+function projectJson(v: ResolvedVariables, rapidkitVersion: string): string {
+  return JSON.stringify(
+    {
+      kit_name: NEST_MONOREPO_KIT,
+      runtime: 'node',
+      module_support: false,
+      project_name: v.project_name,
+      app_version: v.app_version,
+      package_manager: v.package_manager,
+      monorepo: true,
+      apps: v.apps,
+      libs: v.libs,
+      lib_prefix: v.lib_prefix,
+      created_by: 'rapidkit-npm',
+      rapidkit_version: rapidkitVersion,
+      created_at: generationTimestamp(),
+    },
+    null,
+    2
+  );
+}
+
+// ─── apps/<name> ─────────────────────────────────────────────────────────────
+
+function appMainTs(app: string, port: number): string {
+  return `import { Logger } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+
+import { AppModule } from './app.module';
+
+async function bootstrap() {
+  const app = await NestFactory.create(AppModule);
+  const port = parseInt(process.env.PORT ?? '${port}', 10);
+
+  await app.listen(port);
+  new Logger('Bootstrap').log(\`🚀 ${app} is running on http://localhost:\${port}\`);
+}
+
+bootstrap().catch((error) => {
+  // eslint-disable-next-line no-console
+  console.error('❌ Failed to bootstrap ${app}', error);
+  process.exit(1);
+});
+`;
+}
+
+function appModuleTs(): string {
+  return `import { Module } from '@nestjs/common';
+
+import { AppController } from './app.controller';
+import { AppService } from './app.service';
+
+@Module({
+  imports: [],
+  controllers: [AppController],
+  providers: [AppService],
+})
+export class AppModule {}
+`;
+}
+
+function appControllerTs(): string {
+  return `import { Controller, Get } from '@nestjs/common';
+
+import { AppService } from './app.service';
+
+@Controller()
+export class AppController {
+  constructor(private readonly appService: AppService) {}
+
+  @Get('health')
+  getHealth() {
+    return this.appService.getHealth();
+  }
+}
+`;
+}
+
+function appServiceTs(app: string): string {
+  return `import { Injectable } from '@nestjs/common';
+
+@Injectable()
+export class AppService {
+  getHealth() {
+    return { status: 'ok', service: '${app}' };
+  }
+}
+`;
+}
+
+function appControllerSpecTs(app: string): string {
+  return `import { Test, TestingModule } from '@nestjs/testing';
+
+import { AppController } from './app.controller';
+import { AppService } from './app.service';
+
+describe('${app} AppController', () => {
+  let appController: AppController;
+
+  beforeEach(async () => {
+    const moduleRef: TestingModule = await Test.createTestingModule({
+      controllers: [AppController],
+      providers: [AppService],
+    }).compile();
+
+    appController = moduleRef.get<AppController>(AppController);
+  });
+
+  it('reports the service as healthy', () => {
+    expect(appController.getHealth()).toEqual({ status: 'ok', service: '${app}' });
+  });
+});
+`;
+}
+
+function appTsconfigJson(app: string): string {
+  return json({
+    extends: '../../tsconfig.json',
+    compilerOptions: { declaration: false, outDir: `../../dist/apps/${app}` },
+    include: ['src/**/*'],
+    exclude: ['node_modules', 'dist', 'test', '**/*spec.ts'],
+  });
+}
+
+/** Files of one application; the same for a new monorepo and for `nestjs.app`. */
+export function renderNestAppFiles(app: string, port: number): Record<string, string> {
+  const dir = `apps/${app}`;
+  return {
+    [`${dir}/src/main.ts`]: appMainTs(app, port),
+    [`${dir}/src/app.module.ts`]: appModuleTs(),
+    [`${dir}/src/app.controller.ts`]: appControllerTs(),
+    [`${dir}/src/app.controller.spec.ts`]: appControllerSpecTs(app),
+    [`${dir}/src/app.service.ts`]: appServiceTs(app),
+    [`${dir}/tsconfig.app.json`]: appTsconfigJson(app),
+  };
+}
+
+// ─── libs/<name> ─────────────────────────────────────────────────────────────
+
+function libIndexTs(lib: string): string {
+  return `export * from './${lib}.module';
+export * from './${lib}.service';
+`;
+}
+
+function libModuleTs(lib: string): string {
+  const name = toPascalCase(lib);
+  return `import { Module } from '@nestjs/common';
+
+import { ${name}Service } from './${lib}.service';
+
+@Module({
+  providers: [${name}Service],
+  exports: [${name}Service],
+})
+export class ${name}Module {}
+`;
+}
+
+function libServiceTs(lib: string): string {
+  return `import { Injectable } from '@nestjs/common';
+
+@Injectable()
+export class ${toPascalCase(lib)}Service {}
+`;
+}
+
+function libServiceSpecTs(lib: string): string {
+  const name = `${toPascalCase(lib)}Service`;
+  return `import { Test, TestingModule } from '@nestjs/testing';
+
+import { ${name} } from './${lib}.service';
+
+describe('${name}', () => {
+  let service: ${name};
+
+  beforeEach(async () => {
+    const moduleRef: TestingModule = await Test.createTestingModule({
+      providers: [${name}],
+    }).compile();
+
+    service = moduleRef.get<${name}>(${name});
+  });
+
+  it('is defined', () => {
+    expect(service).toBeDefined();
+  });
+});
+`;
+}
+
+function libTsconfigJson(lib: string): string {
+  return json({
+    extends: '../../tsconfig.json',
+    compilerOptions: { declaration: true, outDir: `../../dist/libs/${lib}` },
+    include: ['src/**/*'],
+    exclude: ['node_modules', 'dist', 'test', '**/*spec.ts'],
+  });
+}
+
+/** Files of one library; the same for a new monorepo and for `nestjs.lib`. */
+export function renderNestLibFiles(lib: string): Record<string, string> {
+  const dir = `libs/${lib}`;
+  return {
+    [`${dir}/src/index.ts`]: libIndexTs(lib),
+    [`${dir}/src/${lib}.module.ts`]: libModuleTs(lib),
+    [`${dir}/src/${lib}.service.ts`]: libServiceTs(lib),
+    [`${dir}/src/${lib}.service.spec.ts`]: libServiceSpecTs(lib),
+    [`${dir}/tsconfig.lib.json`]: libTsconfigJson(lib),
+  };
+}
+
+// ─── main generator ───────────────────────────────────────────────────────────
+
+function resolveVariables(variables: NestMonorepoVariables): ResolvedVariables {
+  const apps = variables.apps && variables.apps.length > 0 ? variables.apps : ['api'];
+  const libs = variables.libs ?? [];
+
+  const issues: string[] = [];
+  const seen = new Set<string>();
+  for (const name of [...apps, ...libs]) {
+    if (!NEST_PROJECT_NAME.test(name)) {
+      issues.push(`${name}: project names must match ${NEST_PROJECT_NAME.source}`);
+    } else if (seen.has(name)) {
+      issues.push(`${name}: apps and libs need distinct names`);
+    }
+    seen.add(name);
+  }
+  if (issues.length > 0) throw new KitVariableError(NEST_MONOREPO_KIT, issues);
+
+  return {
+    project_name: variables.project_name,
+    author: variables.author || 'RapidKit User',
+    description: variables.description || `NestJS monorepo — ${variables.project_name}`,
+    app_version: variables.app_version || '0.1.0',
+    license: variables.license || 'MIT',
+    node_version: variables.node_version || '20.0.0',
+    package_manager: variables.package_manager ?? 'npm',
+    apps,
+    libs,
+    lib_prefix: variables.lib_prefix || '@app',
+    skipGit: variables.skipGit ?? false,
+    skipInstall: variables.skipInstall ?? false,
+    renderOnly: variables.renderOnly ?? false,
+    targetPath: variables.targetPath ?? '',
+  };
+}
+
+/**
+ * Render every project file in memory, keyed by project-relative path.
+ * `generateNestMonorepoKit` writes exactly this set; dry runs, kit baselines
+ * and `nestjs.app` / `nestjs.lib` merges use it directly.
+ */
+export function renderNestMonorepoFiles(variables: NestMonorepoVariables): Record<string, string> {
+  const v = resolveVariables(variables);
+  const files: Record<string, string> = {
+    'package.json': packageJson(v),
+    'nest-cli.json': nestCliJson(v),
+    'tsconfig.json': tsconfigJson(v),
+    '.gitignore': gitignore(),
+    'README.md': readmeMd(v),
+    '.rapidkit/project.json': projectJson(v, getVersion()),
+    '.rapidkit/context.json': contextJson(),
+  };
+  for (const app of v.apps) Object.assign(files, renderNestAppFiles(app, nestAppPort(v.apps, app)));
+  for (const lib of v.libs) Object.assign(files, renderNestLibFiles(lib));
+  return files;
+}
+
+export async function generateNestMonorepoKit(
+  projectPath: string,
+  variables: NestMonorepoVariables
+): Promise<void> {
+  const v = resolveVariables(variables);
+
+  const spinner = ora({
+    text: `Generating NestJS monorepo: ${v.project_name}…`,
+    isSilent: v.renderOnly,
+  }).start();
+
+  try {
+    await Promise.all(
+      Object.entries(renderNestMonorepoFiles(v)).map(([rel, content]) =>
+        writeFile(path.join(projectPath, rel), content)
+      )
+    );
+    spinner.succeed(chalk.green(`Project created at ${v.targetPath || projectPath}`));
+    if (v.renderOnly) return;
+
+    // Through the runtime adapter, so the install honours the workspace
+    // dependency_sharing_mode (shared package cache, --prefer-offline).
+    if (!v.skipInstall) {
+      spinner.start(`Installing dependencies with ${v.package_manager}…`);
+      const adapter = new NodeRuntimeAdapter(async (command, args, cwd) => {
+        const result = await execa(command, args, { cwd, reject: false });
+        return typeof result.exitCode === 'number' ? result.exitCode : 1;
+      });
+      const result = await adapter.initProject(projectPath, {
+        packageManager: v.package_manager,
+      });
+      if (result.exitCode === 0) {
+        spinner.succeed(chalk.gray(`✓ ${v.package_manager} install completed`));
+      } else {
+        spinner.warn(
+          chalk.yellow(`⚠  ${v.package_manager} install failed — run manually: rapidkit init`)
+        );
+      }
+    }
+
+    // git init
+    if (!v.skipGit) {
+      try {
+        await execa('git', ['init'], { cwd: projectPath });
+        await execa('git', ['add', '-A'], { cwd: projectPath });
+        await execa(
+          'git',
+          ['commit', '-m', `chore: initial scaffold (rapidkit ${NEST_MONOREPO_KIT})`],
+          {
+            cwd: projectPath,
+          }
+        );
+        console.log(chalk.gray('✓ git repository initialized'));
+      } catch {
+        console.log(chalk.gray('⚠  git init skipped (git not found or error)'));
+      }
+    }
+
+    console.log('');
+    console.log(chalk.bold('✅ NestJS monorepo ready!'));
+    console.log('');
+    console.log(chalk.cyan('Next steps:'));
+    console.log(chalk.white(`  cd ${v.project_name}`));
+    console.log(
+      chalk.white(`  ${`rapidkit dev --app ${v.apps[0]}`.padEnd(28)} # start one app in watch mode`)
+    );
+    console.log(chalk.white(`  ${'rapidkit test'.padEnd(28)} # test every app and library`));
+    console.log('');
+    console.log(chalk.gray(`Apps: ${v.apps.join(', ')}`));
+    console.log(chalk.gray(`Libs: ${v.libs.length > 0 ? v.libs.join(', ') : '(none)'}`));
+    console.log(
+      chalk.gray(
+        'ℹ  Add projects from inside the monorepo: rapidkit create project nestjs.app <name> (or nestjs.lib <name>).'
+      )
+    );
+    console.log('');
+  } catch (err) {
+    spinner.fail(chalk.red('Failed to generate NestJS monorepo'));
+    throw err;
+  }
+}
@@ -0,0 +1,579 @@
+/**
+ * Kit generator registry.
+ *
+ * Maps kit names (`gofiber.standard`, `go`, `acme.chi` …) to the generator
+ * that scaffolds them. The built-in Go and NestJS monorepo kits are registered
+ * here; teams add their own kits without forking the CLI by listing them under
+ * `kits` in `~/.rapidkitrc.json` or `rapidkit.config.js`, or in `RAPIDKIT_KITS`
+ * (path-delimited). Each entry is a local directory or an npm package that
+ * provides either:
+ *
+ *   - a `kit.yaml` / `kit.yml` / `kit.json` manifest declaring name, runtime,
+ *     variables and a file list rendered with Nunjucks, or
+ *   - a module (`package.json` `rapidkit.kit`, else `main`) exporting a
+ *     `KitGenerator` as `default`, `kit`, or an array as `kits`.
+ *
+ * A user kit named like a built-in replaces it (and inherits its aliases).
+ */
+
+import os from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { promises as fs } from 'fs';
+import nunjucks from 'nunjucks';
+import { parse as parseYaml } from 'yaml';
+import { execa } from 'execa';
+import { KitVariableError } from '../errors.js';
+import { getVersion } from '../update-checker.js';
+import { generationTimestamp } from '../utils/reproducible.js';
+import { readPluginSources, resolvePluginDirectory } from '../utils/plugin-sources.js';
+import { activateRuntimePlugins } from '../runtime-adapters/plugins.js';
+import type { RuntimeName } from '../runtime-adapters/types.js';
+import { generateGoFiberKit, renderGoFiberFiles } from './gofiber-standard.js';
+import { generateGoGinKit, renderGoGinFiles } from './gogin-standard.js';
+import { GO_FEATURES, GO_FEATURE_VARIABLES } from './go-features.js';
+import {
+  NEST_MONOREPO_KIT,
+  generateNestMonorepoKit,
+  parseNestProjectList,
+  renderNestMonorepoFiles,
+  type NestPackageManager,
+} from './nestjs-monorepo.js';
+import { KIT_STATE_FILES, snapshotKitFiles, writeKitBaseline } from './kit-baseline.js';
+
+/** A built-in runtime, or one provided by a runtime plugin. */
+export type KitRuntime = RuntimeName;
+
+export type KitVariableValue = string | number | boolean;
+
+export interface KitVariable {
+  type: 'string' | 'number' | 'boolean';
+  description?: string;
+  default?: KitVariableValue;
+  required?: boolean;
+  enum?: KitVariableValue[];
+  /** Regular expression string values must match. */
+  pattern?: string;
+}
+
+export interface KitFile {
+  /** Output path relative to the project; rendered as a Nunjucks string. */
+  path: string;
+  /** Inline Nunjucks template. */
+  template?: string;
+  /** Template file relative to the kit directory. */
+  source?: string;
+  executable?: boolean;
+}
+
+export interface KitGenerateOptions {
+  skipGit?: boolean;
+  /** Skip the dependency install kits run after writing their files. */
+  skipInstall?: boolean;
+  /**
+   * Only write the kit's files: no dependency fetch, git or console output.
+   * Used to render upgrade baselines into a scratch directory.
+   */
+  renderOnly?: boolean;
+  /** Final project location when generating into a staging directory; used in messages. */
+  targetPath?: string;
+}
+
+export interface KitGenerator {
+  name: string;
+  runtime: KitRuntime;
+  description?: string;
+  /** Other kit names routed to this kit; a trailing `*` matches any suffix. */
+  aliases?: string[];
+  variables?: Record<string, KitVariable>;
+  files?: KitFile[];
+  /** In-memory render of everything `generate` writes (used by dry runs and baselines). */
+  render?(
+    variables: Record<string, KitVariableValue>
+  ): Record<string, string> | Promise<Record<string, string>>;
+  generate?(
+    projectPath: string,
+    variables: Record<string, KitVariableValue>,
+    options: KitGenerateOptions
+  ): Promise<void>;
+}
+
+export interface RegisteredKit extends KitGenerator {
+  /** `builtin`, or the directory/package the kit was loaded from. */
+  origin: string;
+  /** Kit directory, used to resolve `files[].source`. */
+  root: string | null;
+}
+
+export interface KitRegistry {
+  kits: RegisteredKit[];
+  errors: Array<{ source: string; error: string }>;
+}
+
+const KIT_RUNTIMES: KitRuntime[] = ['python', 'node', 'go'];
+const KIT_MANIFEST_FILES = ['kit.yaml', 'kit.yml', 'kit.json'];
+
+const GO_KIT_VARIABLES: Record<string, KitVariable> = {
+  project_name: { type: 'string', required: true, pattern: '^[A-Za-z0-9._-]+$' },
+  module_path: { type: 'string', description: 'Go module path (defaults to project_name)' },
+  author: { type: 'string', default: 'RapidKit User' },
+  description: { type: 'string' },
+  go_version: { type: 'string', default: '1.24' },
+  app_version: { type: 'string', default: '0.1.0' },
+  port: { type: 'string', default: '3000', pattern: '^[0-9]+$' },
+  ...GO_FEATURE_VARIABLES,
+};
+
+function goKitVariables(v: Record<string, KitVariableValue>) {
+  return {
+    project_name: String(v.project_name),
+    module_path: v.module_path ? String(v.module_path) : undefined,
+    author: v.author ? String(v.author) : undefined,
+    description: v.description ? String(v.description) : undefined,
+    go_version: v.go_version ? String(v.go_version) : undefined,
+    app_version: v.app_version ? String(v.app_version) : undefined,
+    port: v.port ? String(v.port) : undefined,
+    features: Object.fromEntries(GO_FEATURES.map((feature) => [feature, v[feature] === true])),
+  };
+}
+
+const NEST_PROJECT_LIST = '^\\s*([a-z][a-z0-9-]*\\s*(,\\s*[a-z][a-z0-9-]*\\s*)*)?$';
+
+const NEST_MONOREPO_VARIABLES: Record<string, KitVariable> = {
+  project_name: { type: 'string', required: true, pattern: '^[A-Za-z0-9._-]+$' },
+  author: { type: 'string', default: 'RapidKit User' },
+  description: { type: 'string' },
+  app_version: { type: 'string', default: '0.1.0' },
+  license: { type: 'string', default: 'MIT' },
+  node_version: { type: 'string', default: '20.0.0' },
+  package_manager: { type: 'string', enum: ['npm', 'yarn', 'pnpm'], default: 'npm' },
+  apps: {
+    type: 'string',
+    description: 'Applications under apps/, comma-separated; the first is the default',
+    default: 'api',
+    pattern: NEST_PROJECT_LIST,
+  },
+  libs: {
+    type: 'string',
+    description: 'Libraries under libs/, comma-separated',
+    default: 'shared',
+    pattern: NEST_PROJECT_LIST,
+  },
+  lib_prefix: {
+    type: 'string',
+    description: 'Import prefix for libraries (@app → @app/shared)',
+    default: '@app',
+    pattern: '^@[a-z0-9][a-z0-9._-]*$',
+  },
+};
+
+function nestMonorepoVariables(v: Record<string, KitVariableValue>) {
+  return {
+    project_name: String(v.project_name),
+    author: v.author ? String(v.author) : undefined,
+    description: v.description ? String(v.description) : undefined,
+    app_version: v.app_version ? String(v.app_version) : undefined,
+    license: v.license ? String(v.license) : undefined,
+    node_version: v.node_version ? String(v.node_version) : undefined,
+    package_manager: v.package_manager
+      ? (String(v.package_manager) as NestPackageManager)
+      : undefined,
+    apps: parseNestProjectList(v.apps),
+    libs: parseNestProjectList(v.libs),
+    lib_prefix: v.lib_prefix ? String(v.lib_prefix) : undefined,
+  };
+}
+
+export const BUILTIN_KITS: KitGenerator[] = [
+  {
+    name: 'gofiber.standard',
+    runtime: 'go',
+    description: 'Go Fiber Standard Kit',
+    aliases: ['gofiber*', 'go', 'go.standard', 'fiber'],
+    variables: GO_KIT_VARIABLES,
+    render: (variables) => renderGoFiberFiles(goKitVariables(variables)),
+    generate: (projectPath, variables, options) =>
+      generateGoFiberKit(projectPath, {
+        ...goKitVariables(variables),
+        skipGit: options.skipGit,
+        renderOnly: options.renderOnly,
+        targetPath: options.targetPath,
+      }),
+  },
+  {
+    name: 'gogin.standard',
+    runtime: 'go',
+    description: 'Go Gin Standard Kit',
+    aliases: ['gogin*', 'gin'],
+    variables: GO_KIT_VARIABLES,
+    render: (variables) => renderGoGinFiles(goKitVariables(variables)),
+    generate: (projectPath, variables, options) =>
+      generateGoGinKit(projectPath, {
+        ...goKitVariables(variables),
+        skipGit: options.skipGit,
+        renderOnly: options.renderOnly,
+        targetPath: options.targetPath,
+      }),
+  },
+  {
+    name: NEST_MONOREPO_KIT,
+    runtime: 'node',
+    description: 'NestJS Monorepo Kit (apps + libs)',
+    aliases: ['nest.monorepo', 'nestjs-monorepo'],
+    variables: NEST_MONOREPO_VARIABLES,
+    render: (variables) => renderNestMonorepoFiles(nestMonorepoVariables(variables)),
+    generate: (projectPath, variables, options) =>
+      generateNestMonorepoKit(projectPath, {
+        ...nestMonorepoVariables(variables),
+        skipGit: options.skipGit,
+        skipInstall: options.skipInstall,
+        renderOnly: options.renderOnly,
+        targetPath: options.targetPath,
+      }),
+  },
+];
+
+// ─── Loading ─────────────────────────────────────────────────────────────────
+
+function validateKit(value: unknown, runtimes: KitRuntime[]): string | null {
+  if (!value || typeof value !== 'object') return 'kit definition must be an object';
+  const kit = value as Partial<KitGenerator>;
+  if (typeof kit.name !== 'string' || !kit.name.trim()) return 'kit is missing a name';
+  if (!runtimes.includes(kit.runtime as KitRuntime)) {
+    return `kit ${kit.name} has invalid runtime ${String(kit.runtime)} (expected ${runtimes.join(', ')})`;
+  }
+  if (typeof kit.generate !== 'function' && !Array.isArray(kit.files)) {
+    return `kit ${kit.name} must declare files or a generate function`;
+  }
+  for (const file of kit.files ?? []) {
+    if (!file || typeof file.path !== 'string' || (!file.template && !file.source)) {
+      return `kit ${kit.name} has a file entry without path and template/source`;
+    }
+  }
+  return null;
+}
+
+async function loadKitsFromDirectory(kitDir: string): Promise<KitGenerator[]> {
+  for (const manifestName of KIT_MANIFEST_FILES) {
+    const manifestPath = path.join(kitDir, manifestName);
+    let raw: string;
+    try {
+      raw = await fs.readFile(manifestPath, 'utf-8');
+    } catch {
+      continue;
+    }
+    return [parseYaml(raw) as KitGenerator];
+  }
+
+  const packageJson = JSON.parse(await fs.readFile(path.join(kitDir, 'package.json'), 'utf-8')) as {
+    main?: string;
+    rapidkit?: { kit?: string };
+  };
+  const entry = packageJson.rapidkit?.kit ?? packageJson.main;
+  if (!entry) throw new Error('package.json declares neither rapidkit.kit nor main');
+  const loaded = (await import(pathToFileURL(path.resolve(kitDir, entry)).href)) as {
+    default?: KitGenerator | KitGenerator[];
+    kit?: KitGenerator;
+    kits?: KitGenerator[];
+  };
+  const exported = loaded.kits ?? loaded.kit ?? loaded.default;
+  if (!exported) throw new Error(`${entry} exports no kit (default, kit or kits)`);
+  return Array.isArray(exported) ? exported : [exported];
+}
+
+/** Collect kit sources from `RAPIDKIT_KITS`, `~/.rapidkitrc.json` and `rapidkit.config.js`. */
+export async function readKitSources(cwd: string = process.cwd()): Promise<string[]> {
+  return readPluginSources('kits', 'RAPIDKIT_KITS', cwd);
+}
+
+/**
+ * Build the registry from built-ins plus the given sources. A source that
+ * fails to load is reported in `errors` and skipped, so one broken kit never
+ * blocks creating projects from the others.
+ */
+export async function loadKitRegistry(
+  options: { cwd?: string; sources?: string[] } = {}
+): Promise<KitRegistry> {
+  const cwd = options.cwd ?? process.cwd();
+  const sources = options.sources ?? (await readKitSources(cwd));
+  const registry: KitRegistry = { kits: [], errors: [] };
+  // Kits may scaffold projects for runtimes added by plugins.
+  const runtimes = [
+    ...KIT_RUNTIMES,
+    ...(await activateRuntimePlugins(cwd)).plugins.map((plugin) => plugin.runtime),
+  ];
+
+  for (const source of sources) {
+    try {
+      const kitDir = await resolvePluginDirectory(source, cwd);
+      for (const kit of await loadKitsFromDirectory(kitDir)) {
+        const problem = validateKit(kit, runtimes);
+        if (problem) {
+          registry.errors.push({ source, error: problem });
+          continue;
+        }
+        registry.kits.push({ ...kit, origin: source, root: kitDir });
+      }
+    } catch (error) {
+      registry.errors.push({ source, error: (error as Error).message });
+    }
+  }
+
+  for (const kit of BUILTIN_KITS) {
+    const override = registry.kits.find((userKit) => userKit.name === kit.name);
+    if (override) {
+      // A user kit replacing a built-in keeps answering to the built-in's aliases.
+      override.aliases ??= kit.aliases;
+      continue;
+    }
+    registry.kits.push({ ...kit, origin: 'builtin', root: null });
+  }
+  return registry;
+}
+
+function matchesKitName(pattern: string, kitName: string): boolean {
+  const p = pattern.toLowerCase();
+  return p.endsWith('*') ? kitName.startsWith(p.slice(0, -1)) : kitName === p;
+}
+
+/** Find the kit for a name: exact names first, then aliases, in registry order. */
+export function findKit<T extends Pick<KitGenerator, 'name' | 'aliases'> = RegisteredKit>(
+  registry: { kits: T[] },
+  kitName: string
+): T | null {
+  const wanted = kitName.trim().toLowerCase();
+  if (!wanted) return null;
+  return (
+    registry.kits.find((kit) => kit.name.toLowerCase() === wanted) ??
+    registry.kits.find((kit) => (kit.aliases ?? []).some((a) => matchesKitName(a, wanted))) ??
+    null
+  );
+}
+
+// ─── Variables ───────────────────────────────────────────────────────────────
+
+function coerceVariable(
+  name: string,
+  spec: KitVariable,
+  value: unknown
+): { value?: KitVariableValue; issue?: string } {
+  if (spec.type === 'boolean') {
+    if (typeof value === 'boolean') return { value };
+    if (value === 'true' || value === '1' || value === 'yes') return { value: true };
+    if (value === 'false' || value === '0' || value === 'no') return { value: false };
+    return { issue: `${name}: expected a boolean, got ${JSON.stringify(value)}` };
+  }
+  if (spec.type === 'number') {
+    const parsed = typeof value === 'number' ? value : Number(value);
+    if (typeof value === 'boolean' || value === '' || !Number.isFinite(parsed)) {
+      return { issue: `${name}: expected a number, got ${JSON.stringify(value)}` };
+    }
+    return { value: parsed };
+  }
+  if (typeof value === 'object') {
+    return { issue: `${name}: expected a string, got ${JSON.stringify(value)}` };
+  }
+  return { value: String(value) };
+}
+
+/**
+ * Apply defaults, coerce strings from flags to the declared types and check
+ * required/enum/pattern constraints. Undeclared variables pass through as-is.
+ */
+export function resolveKitVariables(
+  kit: Pick<KitGenerator, 'name' | 'variables'>,
+  provided: Record<string, unknown>
+): Record<string, KitVariableValue> {
+  const resolved: Record<string, KitVariableValue> = {};
+  const issues: string[] = [];
+
+  for (const [name, value] of Object.entries(provided)) {
+    if (value === undefined || kit.variables?.[name]) continue;
+    resolved[name] = value as KitVariableValue;
+  }
+
+  for (const [name, spec] of Object.entries(kit.variables ?? {})) {
+    const raw = provided[name] ?? spec.default;
+    if (raw === undefined || raw === '') {
+      if (spec.required) issues.push(`${name}: required`);
+      continue;
+    }
+    const coerced = coerceVariable(name, spec, raw);
+    if (coerced.issue) {
+      issues.push(coerced.issue);
+      continue;
+    }
+    const value = coerced.value as KitVariableValue;
+    if (spec.enum && !spec.enum.includes(value)) {
+      issues.push(`${name}: must be one of ${spec.enum.join(', ')} (got ${String(value)})`);
+      continue;
+    }
+    if (spec.pattern && typeof value === 'string' && !new RegExp(spec.pattern).test(value)) {
+      issues.push(`${name}: ${JSON.stringify(value)} does not match ${spec.pattern}`);
+      continue;
+    }
+    resolved[name] = value;
+  }
+
+  if (issues.length > 0) throw new KitVariableError(kit.name, issues);
+  return resolved;
+}
+
+// ─── Generation ──────────────────────────────────────────────────────────────
+
+interface RenderedKitFile {
+  path: string;
+  content: string;
+  executable?: boolean;
+}
+
+/** Render a declarative kit's files in memory, adding the project marker unless the kit has one. */
+function renderDeclarativeKit(
+  kit: RegisteredKit,
+  variables: Record<string, KitVariableValue>
+): RenderedKitFile[] {
+  const env = new nunjucks.Environment(
+    kit.root ? new nunjucks.FileSystemLoader(kit.root) : undefined,
+    { autoescape: false, trimBlocks: true, lstripBlocks: true }
+  );
+  const context = { ...variables, kit_name: kit.name, rapidkit_version: getVersion() };
+  const rendered: RenderedKitFile[] = (kit.files ?? []).map((file) => ({
+    path: env.renderString(file.path, context).split(path.sep).join('/'),
+    content:
+      file.template !== undefined
+        ? env.renderString(file.template, context)
+        : env.render(file.source as string, context),
+    executable: file.executable,
+  }));
+
+  // Workspaces discover projects through this marker; write one unless the kit does.
+  if (!rendered.some((file) => file.path === '.rapidkit/project.json')) {
+    rendered.push({
+      path: '.rapidkit/project.json',
+      content: `${JSON.stringify(
+        {
+          kit_name: kit.name,
+          runtime: kit.runtime,
+          project_name: variables.project_name,
+          created_by: 'rapidkit-npm',
+          rapidkit_version: getVersion(),
+          created_at: generationTimestamp(),
+        },
+        null,
+        2
+      )}\n`,
+    });
+  }
+  return rendered;
+}
+
+/**
+ * Absolute path of a project-relative kit file, or null when it resolves to
+ * the project directory itself or outside it (`../`, absolute paths).
+ */
+export function resolveProjectFile(projectPath: string, file: string): string | null {
+  const root = path.resolve(projectPath);
+  const target = path.resolve(root, file);
+  return target.startsWith(`${root}${path.sep}`) ? target : null;
+}
+
+async function renderKitFiles(
+  kit: RegisteredKit,
+  projectPath: string,
+  variables: Record<string, KitVariableValue>
+): Promise<void> {
+  const files = renderDeclarativeKit(kit, variables);
+  const escaping = files.filter((file) => !resolveProjectFile(projectPath, file.path));
+  if (escaping.length > 0) {
+    throw new KitVariableError(
+      kit.name,
+      escaping.map((file) => `${file.path}: resolves outside the project directory`)
+    );
+  }
+  for (const file of files) {
+    const outputPath = resolveProjectFile(projectPath, file.path) as string;
+    await fs.mkdir(path.dirname(outputPath), { recursive: true });
+    await fs.writeFile(outputPath, file.content, 'utf-8');
+    if (file.executable) await fs.chmod(outputPath, 0o755);
+  }
+}
+
+/**
+ * Every file the kit would write, kit state (`.rapidkit/project.json`)
+ * included, keyed by `/`-separated project-relative path. Built-in and
+ * declarative kits render in memory; module kits without `render` are run
+ * against a scratch directory.
+ */
+export async function renderKitTree(
+  kit: RegisteredKit,
+  variables: Record<string, KitVariableValue>
+): Promise<Record<string, string>> {
+  let files: Record<string, string>;
+  if (kit.render) {
+    files = await kit.render(variables);
+  } else if (!kit.generate) {
+    files = Object.fromEntries(
+      renderDeclarativeKit(kit, variables).map((file) => [file.path, file.content])
+    );
+  } else {
+    const scratch = await fs.mkdtemp(path.join(os.tmpdir(), 'rapidkit-kit-render-'));
+    try {
+      await kit.generate(scratch, variables, { skipGit: true, renderOnly: true });
+      files = await snapshotKitFiles(scratch, { includeState: true });
+    } finally {
+      await fs.rm(scratch, { recursive: true, force: true });
+    }
+  }
+  return Object.fromEntries(Object.entries(files).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/** The kit's output without kit state files: what baselines record and upgrades merge. */
+export async function renderKitOutput(
+  kit: RegisteredKit,
+  variables: Record<string, KitVariableValue>
+): Promise<Record<string, string>> {
+  const files = await renderKitTree(kit, variables);
+  return Object.fromEntries(
+    Object.entries(files).filter(([file]) => !KIT_STATE_FILES.includes(file))
+  );
+}
+
+/**
+ * Validate variables and run the kit's generator (or render its declared
+ * files), then record the upgrade baseline and make the initial commit.
+ */
+export async function generateKitProject(
+  kit: RegisteredKit,
+  projectPath: string,
+  provided: Record<string, unknown>,
+  options: KitGenerateOptions = {}
+): Promise<void> {
+  const variables = resolveKitVariables(kit, provided);
+  if (kit.generate) {
+    // Git runs below, once the baseline is in place to be committed with the scaffold.
+    await kit.generate(projectPath, variables, { ...options, skipGit: true });
+  } else {
+    await fs.mkdir(projectPath, { recursive: true });
+    await renderKitFiles(kit, projectPath, variables);
+  }
+  if (options.renderOnly) return;
+
+  await writeKitBaseline(projectPath, {
+    kit_name: kit.name,
+    rapidkit_version: getVersion(),
+    variables,
+    files: await renderKitOutput(kit, variables),
+  });
+
+  if (!options.skipGit) {
+    try {
+      await execa('git', ['init'], { cwd: projectPath });
+      await execa('git', ['add', '-A'], { cwd: projectPath });
+      await execa('git', ['commit', '-m', `chore: initial scaffold (rapidkit ${kit.name})`], {
+        cwd: projectPath,
+      });
+    } catch {
+      // git is optional for scaffolding.
+    }
+  }
+}
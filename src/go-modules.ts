@@ -0,0 +1,179 @@
+/**
+ * `rapidkit add module <id>` for Go projects.
+ *
+ * Go modules are the optional features of the Go kits (see
+ * `generators/go-features.ts`). Adding one renders the project's kit twice —
+ * with the recorded variables and with the module switched on — and merges
+ * the difference into the project the same way `upgrade-kit` does: new
+ * packages under `internal/` are added, and route registration, config
+ * fields, go.mod requires, docker-compose services and `.env.example`
+ * entries are patched into the existing files. Installed modules are listed
+ * under `modules` in `.rapidkit/project.json`.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { GoModuleError } from './errors.js';
+import {
+  GO_FEATURE_VARIABLES,
+  GO_FEATURES,
+  goFeatureFilePaths,
+  type GoFeature,
+  type GoFramework,
+} from './generators/go-features.js';
+import { readKitBaseline } from './generators/kit-baseline.js';
+import { findKit, loadKitRegistry } from './generators/registry.js';
+import {
+  PROJECT_JSON_PATH,
+  advanceKitBaseline,
+  applyKitWrites,
+  mergeKitFiles,
+  readProjectJson,
+  renderKit,
+  variablesFromProjectJson,
+  type KitUpgradeFile,
+} from './kit-upgrade.js';
+
+export interface GoModuleInfo {
+  id: GoFeature;
+  description: string;
+}
+
+export interface GoModuleAddResult {
+  project_path: string;
+  kit_name: string;
+  module: GoFeature;
+  /** The module was already recorded; the merge only restores what is missing. */
+  already_installed: boolean;
+  files: KitUpgradeFile[];
+  conflicts: string[];
+  applied: boolean;
+}
+
+export interface GoModuleAddOptions {
+  dryRun?: boolean;
+}
+
+export function listGoModules(): GoModuleInfo[] {
+  return GO_FEATURES.map((id) => ({
+    id,
+    description: GO_FEATURE_VARIABLES[id].description ?? id,
+  }));
+}
+
+export function isGoModule(id: string): id is GoFeature {
+  return (GO_FEATURES as readonly string[]).includes(id);
+}
+
+/** Framework of a Go kit project, from its kit name. */
+function goFrameworkForKit(kitName: string): GoFramework {
+  return kitName.startsWith('gogin') ? 'gin' : 'fiber';
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+}
+
+/** Modules a Go project has: features chosen at create time plus modules added since. */
+export function installedGoModules(projectJson: Record<string, unknown> | null): GoFeature[] {
+  const names = new Set([
+    ...stringList(projectJson?.features),
+    ...stringList(projectJson?.modules),
+  ]);
+  return GO_FEATURES.filter((id) => names.has(id));
+}
+
+/** Files of installed modules that are missing from the project. */
+export async function missingGoModuleFiles(
+  projectPath: string,
+  projectJson: Record<string, unknown> | null
+): Promise<Array<{ module: GoFeature; file: string }>> {
+  const kitName = typeof projectJson?.kit_name === 'string' ? projectJson.kit_name : '';
+  const framework = goFrameworkForKit(kitName);
+  const missing: Array<{ module: GoFeature; file: string }> = [];
+  for (const id of installedGoModules(projectJson)) {
+    for (const file of goFeatureFilePaths(framework, id)) {
+      try {
+        await fs.access(path.join(projectPath, file));
+      } catch {
+        missing.push({ module: id, file });
+      }
+    }
+  }
+  return missing;
+}
+
+/** Merge module `id` into the Go project at `projectPath` and record it. */
+export async function addGoModule(
+  projectPath: string,
+  id: string,
+  options: GoModuleAddOptions = {}
+): Promise<GoModuleAddResult> {
+  if (!isGoModule(id)) {
+    throw new GoModuleError(
+      `Unknown Go module "${id}"`,
+      `Available modules: ${GO_FEATURES.join(', ')}`
+    );
+  }
+
+  const recorded = await readKitBaseline(projectPath);
+  const projectJson = await readProjectJson(projectPath);
+  if (projectJson?.runtime !== 'go') {
+    throw new GoModuleError(
+      'Not a Go project',
+      `Run this inside a project generated from a Go kit (${PROJECT_JSON_PATH} with runtime "go").`
+    );
+  }
+  const kitName =
+    recorded?.kit_name ??
+    (typeof projectJson.kit_name === 'string' ? projectJson.kit_name : undefined);
+  const kit = kitName ? findKit(await loadKitRegistry(), kitName) : null;
+  if (!kitName || !kit) {
+    throw new GoModuleError(
+      `Kit "${kitName ?? 'unknown'}" is not available`,
+      'Go modules are rendered from the kit that generated the project; check `rapidkit list`.'
+    );
+  }
+  if (!kit.variables?.[id]) {
+    throw new GoModuleError(`Kit "${kit.name}" does not provide the "${id}" module`);
+  }
+
+  const variables = recorded?.variables ?? variablesFromProjectJson(projectPath, projectJson);
+  const alreadyInstalled = installedGoModules(projectJson).includes(id);
+  const without = await renderKit(kit.name, { ...variables, [id]: false });
+  const withModule = await renderKit(kit.name, { ...variables, [id]: true });
+
+  const { files, writes } = await mergeKitFiles(without.files, withModule.files, (file) =>
+    fs.readFile(path.join(projectPath, file), 'utf-8').catch(() => undefined)
+  );
+  const result: GoModuleAddResult = {
+    project_path: projectPath,
+    kit_name: kit.name,
+    module: id,
+    already_installed: alreadyInstalled,
+    files,
+    conflicts: files.filter((f) => f.status === 'conflict').map((f) => f.path),
+    applied: false,
+  };
+  if (options.dryRun) return result;
+
+  await applyKitWrites(projectPath, writes);
+
+  if (recorded) {
+    await advanceKitBaseline(projectPath, recorded, without.files, withModule.files, {
+      ...recorded.variables,
+      [id]: true,
+    });
+  }
+
+  if (!alreadyInstalled) {
+    const modules = [...stringList(projectJson.modules), id];
+    await fs.writeFile(
+      path.join(projectPath, PROJECT_JSON_PATH),
+      `${JSON.stringify({ ...projectJson, modules }, null, 2)}\n`,
+      'utf-8'
+    );
+  }
+
+  return { ...result, applied: true };
+}
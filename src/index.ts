@@ -3,14 +3,41 @@
 import { Command, Option } from 'commander';
 import chalk from 'chalk';
 import inquirer, { type Question } from 'inquirer';
+import os from 'os';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { spawn } from 'child_process';
+import { createHash } from 'crypto';
 import { logger } from './logger.js';
 import { checkForUpdates, getVersion } from './update-checker.js';
 import { loadUserConfig, loadRapidKitConfig, mergeConfigs } from './config.js';
 import { validateProjectName } from './validation.js';
-import { RapidKitError } from './errors.js';
+import {
+  NestMonorepoError,
+  RapidKitError,
+  TaskCacheError,
+  ToolchainError,
+  WorkspaceDevError,
+} from './errors.js';
+import {
+  findKitProjectRoot,
+  upgradeKitProject,
+  type KitUpgradeFile,
+  type KitUpgradeResult,
+} from './kit-upgrade.js';
+import {
+  addGoModule,
+  installedGoModules,
+  listGoModules,
+  type GoModuleAddResult,
+} from './go-modules.js';
+import {
+  addNestMonorepoProject,
+  findNestMonorepoRoot,
+  nestMonorepoMemberKind,
+  type NestProjectKind,
+} from './nest-monorepo.js';
+import { NEST_MONOREPO_KIT } from './generators/nestjs-monorepo.js';
 import * as fsExtra from 'fs-extra';
 import fs from 'fs';
 import { detectRapidkitProject } from './core-bridge/pythonRapidkit.js';
@@ -26,22 +53,138 @@ import {
   registerWorkspaceAtPath,
   syncWorkspaceFoundationFiles,
 } from './create.js';
-import { generateDemoKit } from './demo-kit.js';
-import { generateGoFiberKit } from './generators/gofiber-standard.js';
-import { generateGoGinKit } from './generators/gogin-standard.js';
+import { generateDemoKit, renderDemoKit } from './demo-kit.js';
+import { buildKitPreview, formatKitTree, type KitPreview } from './kit-preview.js';
+import { enableReproducibleMode } from './utils/reproducible.js';
+import { runProjectTransaction, type ProjectTransaction } from './project-transaction.js';
+import { loadTemplateKits } from './template-kits.js';
+import {
+  WORKSPACE_RUN_ACTIONS,
+  cliTaskRunner,
+  defaultWorkspaceConcurrency,
+  isWorkspaceRunAction,
+  matchesProjectFilter,
+  runWorkspaceTask,
+  selectWorkspaceProjects,
+} from './workspace-run.js';
+import {
+  declaresCachedTask,
+  isCacheableTask,
+  pruneTaskCache,
+  readTaskGraph,
+  resolveCachedTask,
+  restoreTaskOutputs,
+  storeTaskOutputs,
+  type CachedTask,
+} from './task-cache.js';
+import {
+  defaultToolchainSources,
+  detectToolchainVersion,
+  formatToolchainMismatch,
+  isToolchainRuntime,
+  provisionToolchain,
+  readToolchainPins,
+  toolchainPathEnv,
+  verifyToolchains,
+  withToolchainPath,
+} from './toolchains.js';
+import {
+  healthUrl,
+  loadDevServiceConfig,
+  planDevServices,
+  selectDevProjects,
+  superviseDevServices,
+  type DevService,
+  type DevServiceState,
+} from './workspace-dev.js';
+import {
+  findKit,
+  generateKitProject,
+  renderKitTree,
+  loadKitRegistry,
+  type KitRegistry,
+  type RegisteredKit,
+} from './generators/registry.js';
+import { collectKitVariables, readKitVariableFlags } from './generators/kit-variables.js';
 import { runDoctor } from './doctor.js';
 import { registerConfigCommands } from './commands/config.js';
 import { registerAICommands } from './commands/ai.js';
 import { getRuntimeAdapter } from './runtime-adapters/index.js';
-import type { CommandResult } from './runtime-adapters/types.js';
-import { Cache } from './utils/cache.js';
+import type { CommandResult, RuntimeName } from './runtime-adapters/types.js';
+import type { NodeRunOptions } from './runtime-adapters/node.js';
+import { PluginRuntimeAdapter } from './runtime-adapters/plugin.js';
+import {
+  activateRuntimePlugins,
+  detectRuntimePlugin,
+  findRuntimePlugin,
+  probeRuntimePlugin,
+  runtimePluginLabel,
+  runtimePlugins,
+  type RuntimePlugin,
+  type RuntimePluginRegistry,
+} from './runtime-adapters/plugins.js';
+import { Cache, loadWorkspaceCacheConfig, toCacheLimits } from './utils/cache.js';
 import {
   isGoProject,
   isNodeProject,
   isPythonProject,
   readRapidkitProjectJson,
 } from './utils/runtime-detection.js';
-import { runMirrorLifecycle } from './utils/mirror.js';
+import {
+  appendPolicyAuditEntry,
+  getPolicyAuditLogPath,
+  hashWorkspacePolicy,
+  readPolicyAuditLog,
+  readWorkspacePolicyAtRef,
+  recordPolicyHashChange,
+  resolvePolicyActor,
+} from './utils/policy-audit.js';
+import { evaluateCustomPolicyRules } from './utils/policy-rules.js';
+import {
+  addMirrorArtifact,
+  appendMirrorArtifacts,
+  isMirrorEnabled,
+  listMirrorArtifacts,
+  loadMirrorArtifacts,
+  loadTrustedHosts,
+  removeMirrorArtifact,
+  runMirrorLifecycle,
+} from './utils/mirror.js';
+import { collectMirrorStoreGarbage, getMirrorStoreRoot } from './utils/mirror-store.js';
+import {
+  planMirrorArtifacts,
+  poetryLockRequirements,
+  toMirrorArtifacts,
+} from './utils/mirror-plan.js';
+import {
+  getMirrorPackageEnv,
+  startMirrorPackageServer,
+  withMirrorPackageIndex,
+} from './utils/mirror-server.js';
+import {
+  TOOLCHAIN_RUNTIMES,
+  WORKSPACE_POLICY_RULE_DEFAULTS,
+  WORKSPACE_POLICY_RULE_KEYS,
+  defaultWorkspacePolicy,
+  defaultWorkspacePolicyYaml,
+  diffWorkspacePolicies,
+  flattenWorkspacePolicy,
+  formatPolicyIssue,
+  getWorkspacePolicyPath,
+  isDependencySharingMode,
+  loadEffectiveWorkspacePolicy,
+  loadWorkspacePolicy,
+  mergeProjectPolicy,
+  parseWorkspacePolicy,
+  partitionPolicyIssues,
+  setWorkspacePolicyValue,
+  type DependencySharingMode,
+  type EffectiveWorkspacePolicy,
+  type LoadedWorkspacePolicy,
+  type ToolchainRuntime,
+  type WorkspacePolicy,
+  type WorkspacePolicyRuleKey,
+} from './utils/workspace-policy.js';
 import {
   getDefaultPythonCommand,
   getPythonCommandCandidates,
@@ -61,24 +204,22 @@ function bridgeFailureCode(err: unknown): BridgeFailureCode | null {
   return null;
 }
 
-function normalizeFallbackTemplate(kit: string): 'fastapi' | 'nestjs' | null {
-  const k = kit.trim().toLowerCase();
-  if (!k) return null;
-  if (k.startsWith('fastapi')) return 'fastapi';
-  if (k.startsWith('nestjs')) return 'nestjs';
-  return null;
-}
-
-/** Returns true when the kit slug targets the Go/Fiber generator (no Python needed). */
-function isGoFiberKit(kit: string): boolean {
-  const k = kit.trim().toLowerCase();
-  return k.startsWith('gofiber') || k === 'go' || k === 'go.standard' || k === 'fiber';
+/** Load the kit registry, reporting kits that failed to load without aborting. */
+async function loadKitRegistryWithWarnings(): Promise<KitRegistry> {
+  const registry = await loadKitRegistry();
+  for (const failure of registry.errors) {
+    console.log(chalk.yellow(`⚠️  Skipping kit ${failure.source}: ${failure.error}`));
+  }
+  return registry;
 }
 
-/** Returns true when the kit slug targets the Go/Gin generator (no Python needed). */
-function isGoGinKit(kit: string): boolean {
-  const k = kit.trim().toLowerCase();
-  return k.startsWith('gogin') || k === 'gin';
+/** Activate runtime plugins, reporting plugins that failed to load without aborting. */
+async function activateRuntimePluginsWithWarnings(cwd: string): Promise<RuntimePluginRegistry> {
+  const registry = await activateRuntimePlugins(cwd);
+  for (const failure of registry.errors) {
+    console.log(chalk.yellow(`⚠️  Skipping runtime plugin ${failure.source}: ${failure.error}`));
+  }
+  return registry;
 }
 
 function readFlagValue(argv: string[], flag: string): string | undefined {
@@ -89,6 +230,25 @@ function readFlagValue(argv: string[], flag: string): string | undefined {
   return undefined;
 }
 
+/** Why `add module` is refused in a project whose project.json sets `module_support: false`. */
+function moduleUnsupportedHint(kitName: unknown): string {
+  if (kitName === NEST_MONOREPO_KIT) {
+    return `A ${NEST_MONOREPO_KIT} project takes no modules; add apps and libraries with \`rapidkit create project nestjs.app|nestjs.lib <name>\`.`;
+  }
+  const kit = typeof kitName === 'string' ? `The ${kitName} kit` : 'This project';
+  return `${kit} has no module support. Modules are available for FastAPI, NestJS and Go projects.`;
+}
+
+/** `--port` / `--host` of a lifecycle command, forwarded to a Python project's server. */
+function pythonServerArgs(argv: string[]): string[] {
+  const forwarded: string[] = [];
+  const port = readFlagValue(argv, '--port') ?? readFlagValue(argv, '-p');
+  if (port) forwarded.push('--port', port);
+  const host = readFlagValue(argv, '--host');
+  if (host) forwarded.push('--host', host);
+  return forwarded;
+}
+
 function hostPythonCandidates(): string[] {
   return getPythonCommandCandidates();
 }
@@ -280,14 +440,126 @@ async function handleNodeInitSmart(projectPath: string): Promise<number> {
   return primary;
 }
 
-async function runGoFiberCreate(args: string[]): Promise<number> {
+/** Prompt for kit variables only when a user is at the terminal and did not pass --yes. */
+function isInteractiveCreate(args: string[]): boolean {
+  return !!process.stdin.isTTY && !args.includes('--yes') && !args.includes('-y');
+}
+
+/** Install method recorded in the workspace marker; `pip` outside a workspace. */
+async function detectWorkspaceEngine(
+  workspacePath: string | null
+): Promise<'poetry' | 'venv' | 'pipx' | 'pip'> {
+  if (!workspacePath) {
+    logger.debug('No workspace found, using default engine: pip');
+    return 'pip';
+  }
+  try {
+    const { readWorkspaceMarker } = await import('./workspace-marker.js');
+    const marker = await readWorkspaceMarker(workspacePath);
+    if (marker?.metadata?.npm?.installMethod) {
+      logger.debug(`Detected workspace engine: ${marker.metadata.npm.installMethod}`);
+      return marker.metadata.npm.installMethod;
+    }
+  } catch (err) {
+    logger.debug('Failed to read workspace marker', err);
+    // Ignore errors, use default 'pip'
+  }
+  return 'pip';
+}
+
+/**
+ * Report a `create project --dry-run`: the file tree with sizes and, when the
+ * target exists, a unified diff per changed file. `--output-json <file>`
+ * also writes the manifest there; `--output-json` alone prints only the
+ * manifest, on stdout.
+ */
+async function reportKitDryRun(preview: KitPreview, args: string[]): Promise<number> {
+  const manifest = {
+    command: 'create',
+    action: 'dry-run',
+    result: 'ok',
+    timestamp: new Date().toISOString(),
+    ...preview,
+  };
+  if (args.includes('--output-json') || args.some((a) => a.startsWith('--output-json='))) {
+    const target = readFlagValue(args, '--output-json');
+    if (!target || target.startsWith('-')) {
+      process.stdout.write(`${JSON.stringify(manifest, null, 2)}\n`);
+      return 0;
+    }
+    await fsExtra.outputFile(path.resolve(target), `${JSON.stringify(manifest, null, 2)}\n`);
+  }
+
+  const counts = { create: 0, modify: 0, unchanged: 0 };
+  for (const file of preview.files) counts[file.status]++;
+
+  console.log(chalk.cyan(`\n🔍 Dry run: ${preview.kit_name} → ${preview.project_path}\n`));
+  for (const line of formatKitTree(
+    path.basename(preview.project_path),
+    preview.files,
+    formatCacheBytes
+  )) {
+    console.log(chalk.gray(line));
+  }
+  console.log(
+    `\n${preview.files.length} file(s), ${formatCacheBytes(preview.total_bytes)}: ` +
+      `${chalk.green(`${counts.create} new`)}, ${chalk.yellow(`${counts.modify} changed`)}, ` +
+      `${chalk.gray(`${counts.unchanged} unchanged`)}`
+  );
+
+  for (const file of preview.files) {
+    if (!file.diff) continue;
+    console.log('');
+    for (const line of file.diff.trimEnd().split('\n')) {
+      console.log(
+        line.startsWith('@@')
+          ? chalk.cyan(line)
+          : line.startsWith('+')
+            ? chalk.green(line)
+            : line.startsWith('-')
+              ? chalk.red(line)
+              : line
+      );
+    }
+  }
+
+  if (preview.exists) {
+    console.log(
+      chalk.yellow(`\n⚠️  ${preview.project_path} already exists; create refuses to overwrite it.`)
+    );
+  }
+  console.log(chalk.white('\n💡 To proceed with actual creation, run without --dry-run flag\n'));
+  return 0;
+}
+
+/**
+ * Register a freshly published project with the enclosing workspace; the
+ * entry is removed again if the creation transaction rolls back.
+ */
+async function registerCreatedProject(transaction: ProjectTransaction, name: string) {
+  const workspacePath = findWorkspaceUp(path.dirname(transaction.targetPath));
+  if (!workspacePath) return;
+  const { registerProjectInWorkspace, syncWorkspaceProjects, unregisterProjectFromWorkspace } =
+    await import('./workspace.js');
+  if (await registerProjectInWorkspace(workspacePath, name, transaction.targetPath)) {
+    transaction.onRollback(() =>
+      unregisterProjectFromWorkspace(workspacePath, transaction.targetPath)
+    );
+  }
+  await syncWorkspaceProjects(workspacePath, true); // silent sync
+}
+
+/**
+ * Scaffold a project from a registered kit generator at npm level, bypassing
+ * the Python engine: `rapidkit create project <kit> <name> [--output <dir>]`.
+ */
+async function runKitGeneratorCreate(kit: RegisteredKit, args: string[]): Promise<number> {
   if (args[0] !== 'create' || args[1] !== 'project') return 1;
 
-  const kit = args[2];
   const name = args[3];
-  if (!kit || !name) {
+  if (!args[2] || !name) {
     process.stderr.write(
-      'Usage: rapidkit create project gofiber.standard <name> [--output <dir>]\n'
+      `Usage: rapidkit create project ${kit.name} <name> [--output <dir>] [--var key=value] [--vars-file <file>]\n`
     );
     return 1;
   }
@@ -295,81 +567,118 @@ async function runGoFiberCreate(args: string[]): Promise<number> {
   const outputDir = readFlagValue(args, '--output') || process.cwd();
   const projectPath = path.resolve(outputDir, name);
   const skipGit = args.includes('--skip-git') || args.includes('--no-git');
+  const skipInstall = args.includes('--skip-install');
 
   try {
-    const { default: fsExtra } = await import('fs-extra');
-    await fsExtra.ensureDir(path.dirname(projectPath));
+    // Validate before touching the filesystem so bad input leaves no directory behind.
+    const variables = await collectKitVariables(kit, readKitVariableFlags(args), {
+      values: { project_name: name },
+      defaults: { module_path: name },
+      interactive: isInteractiveCreate(args),
+    });
+
+    if (args.includes('--dry-run')) {
+      return await reportKitDryRun(
+        await buildKitPreview(projectPath, kit.name, await renderKitTree(kit, variables)),
+        args
+      );
+    }
+
     if (await fsExtra.pathExists(projectPath)) {
       process.stderr.write(`❌ Directory "${projectPath}" already exists\n`);
       return 1;
     }
-    await fsExtra.ensureDir(projectPath);
 
-    await generateGoFiberKit(projectPath, {
-      project_name: name,
-      module_path: name,
-      skipGit,
+    // Generate into a staging directory; a failure leaves nothing at projectPath.
+    await runProjectTransaction(projectPath, async (transaction) => {
+      await generateKitProject(kit, transaction.workPath, variables, {
+        skipGit,
+        skipInstall,
+        targetPath: projectPath,
+      });
+      await transaction.publish();
+      await registerCreatedProject(transaction, name);
     });
 
-    const workspacePath = findWorkspaceUp(process.cwd());
-    if (workspacePath) {
-      const { syncWorkspaceProjects } = await import('./workspace.js');
-      await syncWorkspaceProjects(workspacePath, true);
-    }
-
     return 0;
   } catch (e) {
-    process.stderr.write(`RapidKit Go/Fiber generator failed: ${(e as Error)?.message ?? e}\n`);
+    if (e instanceof RapidKitError) {
+      process.stderr.write(`❌ ${e.message}\n${e.details ?? ''}\n`);
+    } else {
+      process.stderr.write(
+        `RapidKit ${kit.name} generator failed: ${(e as Error)?.message ?? e}\n`
+      );
+    }
     return 1;
   }
 }
 
-async function runGoGinCreate(args: string[]): Promise<number> {
-  if (args[0] !== 'create' || args[1] !== 'project') return 1;
-
-  const kit = args[2];
+/**
+ * `rapidkit create project nestjs.app|nestjs.lib <name>` inside a NestJS
+ * monorepo: merge a new app or library into it instead of creating a project.
+ */
+async function runNestMonorepoMemberCreate(kind: NestProjectKind, args: string[]): Promise<number> {
   const name = args[3];
-  if (!kit || !name) {
-    process.stderr.write('Usage: rapidkit create project gogin.standard <name> [--output <dir>]\n');
+  if (!name || name.startsWith('-')) {
+    process.stderr.write(
+      `Usage: rapidkit create project nestjs.${kind} <name> [--dry-run]  (inside a ${NEST_MONOREPO_KIT} project)\n`
+    );
     return 1;
   }
-
-  const outputDir = readFlagValue(args, '--output') || process.cwd();
-  const projectPath = path.resolve(outputDir, name);
-  const skipGit = args.includes('--skip-git') || args.includes('--no-git');
+  const dryRun = args.includes('--dry-run');
+  const label = kind === 'app' ? 'app' : 'library';
 
   try {
-    const { default: fsExtra } = await import('fs-extra');
-    await fsExtra.ensureDir(path.dirname(projectPath));
-    if (await fsExtra.pathExists(projectPath)) {
-      process.stderr.write(`❌ Directory "${projectPath}" already exists\n`);
-      return 1;
+    const root = await findNestMonorepoRoot(process.cwd());
+    if (!root) {
+      throw new NestMonorepoError(
+        'Not inside a NestJS monorepo',
+        `Create one with \`rapidkit create project ${NEST_MONOREPO_KIT} <name>\` and run this inside it.`
+      );
     }
-    await fsExtra.ensureDir(projectPath);
-
-    await generateGoGinKit(projectPath, {
-      project_name: name,
-      module_path: name,
-      skipGit,
-    });
+    const result = await addNestMonorepoProject(root, kind, name, { dryRun });
 
-    const workspacePath = findWorkspaceUp(process.cwd());
-    if (workspacePath) {
-      const { syncWorkspaceProjects } = await import('./workspace.js');
-      await syncWorkspaceProjects(workspacePath, true);
+    console.log(chalk.cyan(`${kind === 'app' ? 'App' : 'Library'} ${name} (${result.root})`));
+    printKitFileChanges(result.files);
+    if (dryRun) {
+      console.log(chalk.gray(`Dry run: ${result.files.length} file(s) would change.`));
+      return 0;
     }
-
+    if (result.conflicts.length > 0) {
+      console.log(
+        chalk.red(
+          `❌ ${result.conflicts.length} conflict(s): resolve the <<<<<<< project / >>>>>>> kit markers and commit.`
+        )
+      );
+      return 1;
+    }
+    console.log(chalk.green(`✅ Added ${label} ${name} to ${root}`));
+    console.log(
+      chalk.gray(
+        kind === 'app'
+          ? `💡 Run it with: rapidkit dev --app ${name}`
+          : `💡 Test it with: rapidkit test --app ${name}`
+      )
+    );
     return 0;
   } catch (e) {
-    process.stderr.write(`RapidKit Go/Gin generator failed: ${(e as Error)?.message ?? e}\n`);
+    if (!(e instanceof RapidKitError)) throw e;
+    process.stderr.write(`❌ ${e.message}\n${e.details ?? ''}\n`);
     return 1;
   }
 }
 
-async function runCreateFallback(args: string[], reasonCode: BridgeFailureCode): Promise<number> {
+/**
+ * `reasonCode` is why the core engine could not run; `null` for dry runs and
+ * reproducible runs, which use the bundled templates by choice.
+ */
+async function runCreateFallback(
+  args: string[],
+  reasonCode: BridgeFailureCode | null
+): Promise<number> {
   // Supported offline fallback:
   //   rapidkit create project <kit> <name> [--output <dir>]
-  // for kits that have embedded templates (fastapi*, nestjs*).
+  // for kits that have bundled templates (templates/kits/*/kit.yaml).
   const hasJson = args.includes('--json');
   if (hasJson) {
     process.stderr.write(
@@ -391,23 +700,26 @@ async function runCreateFallback(args: string[], reasonCode: BridgeFailureCode):
     return 1;
   }
 
+  const templateKits = await loadTemplateKits();
+  const available = templateKits.map((templateKit) => templateKit.name).join(', ');
+
   const kit = args[2];
   const name = args[3];
   if (!kit || !name) {
     process.stderr.write(
-      'Usage: rapidkit create project <kit> <name> [--output <dir>]\n' +
-        'Tip: offline fallback supports only fastapi* and nestjs* kits.\n'
+      'Usage: rapidkit create project <kit> <name> [--output <dir>] [--var key=value] [--vars-file <file>]\n' +
+        `Tip: offline fallback supports: ${available}.\n`
     );
     return 1;
   }
 
-  const template = normalizeFallbackTemplate(kit);
-  if (!template) {
+  const templateKit = findKit({ kits: templateKits }, kit);
+  if (!templateKit) {
     process.stderr.write(
       'RapidKit (npm) could not run the Python core engine to create this kit.\n' +
         `Reason: ${reasonCode}.\n` +
         `Requested kit: ${kit}\n` +
-        'Offline fallback only supports: fastapi.standard, nestjs.standard (and their shorthands).\n' +
+        `Offline fallback only supports: ${available} (and their shorthands).\n` +
         'Install Python 3.10+ to access all kits.\n'
     );
     return 1;
@@ -421,49 +733,55 @@ async function runCreateFallback(args: string[], reasonCode: BridgeFailureCode):
   const skipInstall = args.includes('--skip-install');
 
   try {
-    await fsExtra.ensureDir(path.dirname(projectPath));
+    const workspacePath = findWorkspaceUp(process.cwd());
+    const engine = await detectWorkspaceEngine(workspacePath);
+
+    // Validate before touching the filesystem so bad input leaves no directory behind.
+    const vars = await collectKitVariables(templateKit, readKitVariableFlags(args), {
+      values: { project_name: name },
+      defaults: { engine },
+      interactive: isInteractiveCreate(args),
+    });
+
+    if (args.includes('--dry-run')) {
+      const rendered = await renderDemoKit({
+        project_name: name,
+        kit_name: templateKit.name,
+        engine,
+        vars,
+      });
+      return await reportKitDryRun(
+        await buildKitPreview(projectPath, rendered.kitName, rendered.files),
+        args
+      );
+    }
+
     if (await fsExtra.pathExists(projectPath)) {
       process.stderr.write(`❌ Directory "${projectPath}" already exists\n`);
       return 1;
     }
 
-    // Try to detect workspace engine from marker
-    let engine: 'poetry' | 'venv' | 'pipx' | 'pip' = 'pip';
-    const workspacePath = findWorkspaceUp(process.cwd());
-    if (workspacePath) {
-      try {
-        const { readWorkspaceMarker } = await import('./workspace-marker.js');
-        const marker = await readWorkspaceMarker(workspacePath);
-        if (marker?.metadata?.npm?.installMethod) {
-          engine = marker.metadata.npm.installMethod;
-          logger.debug(`Detected workspace engine: ${engine}`);
-        }
-      } catch (err) {
-        logger.debug('Failed to read workspace marker', err);
-        // Ignore errors, use default 'pip'
-      }
-    } else {
-      logger.debug('No workspace found, using default engine: pip');
-    }
-
-    await fsExtra.ensureDir(projectPath);
-    await generateDemoKit(projectPath, {
-      project_name: name,
-      template,
-      kit_name: kit, // Pass full kit name (e.g., 'fastapi.ddd')
-      skipGit,
-      skipInstall,
-      engine,
+    // Generate into a staging directory; a failure leaves nothing at projectPath.
+    await runProjectTransaction(projectPath, async (transaction) => {
+      await generateDemoKit(transaction.workPath, {
+        project_name: name,
+        kit_name: templateKit.name,
+        skipGit,
+        skipInstall,
+        engine,
+        vars,
+        targetPath: projectPath,
+      });
+      await transaction.publish();
+      await registerCreatedProject(transaction, name);
     });
 
-    // Sync workspace to register the new project
-    if (workspacePath) {
-      const { syncWorkspaceProjects } = await import('./workspace.js');
-      await syncWorkspaceProjects(workspacePath, true); // silent sync
-    }
-
     return 0;
   } catch (e) {
+    if (e instanceof RapidKitError) {
+      process.stderr.write(`❌ ${e.message}\n${e.details ?? ''}\n`);
+      return 1;
+    }
     process.stderr.write(`RapidKit (npm) offline fallback failed: ${(e as Error)?.message ?? e}\n`);
     return 1;
   }
@@ -472,7 +790,7 @@ async function runCreateFallback(args: string[], reasonCode: BridgeFailureCode):
 export async function handleCreateOrFallback(args: string[]): Promise<number> {
   // Supported offline fallback:
   //   rapidkit create project <kit> <name> [--output <dir>]
-  // for kits that have embedded templates (fastapi*, nestjs*).
+  // for kits that have bundled templates (templates/kits/*/kit.yaml).
 
   // If this is a create project invocation, handle wrapper-level flags
   // (workspace creation UX) **before** attempting to run the Python core.
@@ -630,7 +948,22 @@ export async function handleCreateOrFallback(args: string[]): Promise<number> {
         }
       }
 
-      // No kit specified — show npm-level interactive selector that includes Go/Fiber
+      const reproducible =
+        args.includes('--reproducible') || readFlagValue(args, '--seed') !== undefined;
+      if (reproducible) {
+        // Timestamps from SOURCE_DATE_EPOCH and seeded secrets: same inputs, same bytes.
+        try {
+          enableReproducibleMode({ seed: readFlagValue(args, '--seed') });
+        } catch (e) {
+          if (!(e instanceof RapidKitError)) throw e;
+          process.stderr.write(`❌ ${e.message}\n${e.details ?? ''}\n`);
+          return 1;
+        }
+      }
+
+      const kitRegistry = await loadKitRegistryWithWarnings();
+
+      // No kit specified — show npm-level interactive selector that includes registered kits
       if (!args[2] || args[2].startsWith('-')) {
         console.log(chalk.bold('\n🚀 RapidKit\n'));
         const { kitChoice } = (await inquirer.prompt([
@@ -642,13 +975,18 @@ export async function handleCreateOrFallback(args: string[]): Promise<number> {
               { name: 'fastapi  — FastAPI Standard Kit', value: 'fastapi.standard' },
               { name: 'fastapi  — FastAPI DDD Kit', value: 'fastapi.ddd' },
               { name: 'nestjs   — NestJS Standard Kit', value: 'nestjs.standard' },
-              { name: 'go/fiber — Go Fiber Standard Kit', value: 'gofiber.standard' },
-              { name: 'go/gin   — Go Gin Standard Kit', value: 'gogin.standard' },
+              ...kitRegistry.kits
+                .filter((kit, index, kits) => kits.findIndex((k) => k.name === kit.name) === index)
+                .map((kit) => ({
+                  name: `${kit.name} — ${kit.description ?? `${kit.runtime} kit`}`,
+                  value: kit.name,
+                })),
             ],
           } as Question<{ kitChoice: string }>,
         ])) as { kitChoice: string };
 
-        if (isGoFiberKit(kitChoice) || isGoGinKit(kitChoice)) {
+        const chosenKit = findKit(kitRegistry, kitChoice);
+        if (chosenKit) {
           const { projectName } = (await inquirer.prompt([
             {
               type: 'input',
@@ -657,22 +995,12 @@ export async function handleCreateOrFallback(args: string[]): Promise<number> {
               validate: (v: string) => v.trim().length > 0 || 'Project name is required',
             } as Question<{ projectName: string }>,
           ])) as { projectName: string };
-          const flags = args.slice(2).filter((a) => a.startsWith('-'));
-          if (isGoGinKit(kitChoice)) {
-            return await runGoGinCreate([
-              'create',
-              'project',
-              kitChoice,
-              projectName.trim(),
-              ...flags,
-            ]);
-          }
-          return await runGoFiberCreate([
+          return await runKitGeneratorCreate(chosenKit, [
             'create',
             'project',
             kitChoice,
             projectName.trim(),
-            ...flags,
+            ...args.slice(2),
           ]);
         }
 
@@ -696,7 +1024,7 @@ export async function handleCreateOrFallback(args: string[]): Promise<number> {
         const kitName = (args[2] || '').toLowerCase();
         if (wsRoot && kitName) {
           const wsJsonPath = path.join(wsRoot, '.rapidkit', 'workspace.json');
-          const policyFilePath = path.join(wsRoot, '.rapidkit', 'policies.yml');
+          const policyFilePath = getWorkspacePolicyPath(wsRoot);
           try {
             const [wsJsonRaw, policyRaw] = await Promise.all([
               fsExtra
@@ -709,25 +1037,28 @@ export async function handleCreateOrFallback(args: string[]): Promise<number> {
             const wsProfile = (JSON.parse(wsJsonRaw) as Record<string, unknown>).profile as
               | string
               | undefined;
-            const modeMatch = policyRaw.match(/^\s*mode:\s*(warn|strict)\s*(?:#.*)?$/m);
-            const mode = modeMatch?.[1] ?? 'warn';
-
-            // Classify kit by type
-            const isGoKit =
-              isGoFiberKit(kitName) || isGoGinKit(kitName) || kitName.startsWith('go');
-            const isNodeKit = [
-              'nestjs',
-              'react',
-              'vue',
-              'nextjs',
-              'next',
-              'vite',
-              'angular',
-              'svelte',
-              'express',
-              'koa',
-              'fastify',
-            ].some((n) => kitName.includes(n));
+            const mode = parseWorkspacePolicy(policyRaw).policy.mode;
+
+            // Classify kit by type: registered kits declare their runtime, others by name
+            const registeredRuntime = findKit(kitRegistry, kitName)?.runtime;
+            const isGoKit = registeredRuntime
+              ? registeredRuntime === 'go'
+              : kitName.startsWith('go');
+            const isNodeKit = registeredRuntime
+              ? registeredRuntime === 'node'
+              : [
+                  'nestjs',
+                  'react',
+                  'vue',
+                  'nextjs',
+                  'next',
+                  'vite',
+                  'angular',
+                  'svelte',
+                  'express',
+                  'koa',
+                  'fastify',
+                ].some((n) => kitName.includes(n));
             const isPyKit = !isGoKit && !isNodeKit;
 
             let mismatch: string | null = null;
@@ -763,14 +1094,29 @@ export async function handleCreateOrFallback(args: string[]): Promise<number> {
         }
       }
 
-      // Go/Fiber: handle entirely at npm level, bypass Python engine
-      if (isGoFiberKit(args[2] || '')) {
-        return await runGoFiberCreate(args);
+      // Apps and libraries of a NestJS monorepo are merged into the enclosing monorepo
+      const nestMemberKind = nestMonorepoMemberKind(args[2] || '');
+      if (nestMemberKind) {
+        return await runNestMonorepoMemberCreate(nestMemberKind, args);
+      }
+
+      // Registered kits (built-in Go and NestJS monorepo kits, user kits) run at npm level, bypassing Python
+      const registeredKit = findKit(kitRegistry, args[2] || '');
+      if (registeredKit) {
+        return await runKitGeneratorCreate(registeredKit, args);
       }
 
-      // Go/Gin: handle entirely at npm level, bypass Python engine
-      if (isGoGinKit(args[2] || '')) {
-        return await runGoGinCreate(args);
+      // The core engine has no dry run or reproducible mode; render the bundled
+      // template of the same kit instead.
+      if (args.includes('--dry-run') || reproducible) {
+        if (!findKit({ kits: await loadTemplateKits() }, args[2] || '')) {
+          const mode = args.includes('--dry-run') ? 'dry-run preview' : 'reproducible render';
+          process.stderr.write(
+            `❌ No ${mode} for kit "${args[2]}": only registered kits and bundled templates render without the Python core engine.\n`
+          );
+          return 1;
+        }
+        return await runCreateFallback(args, null);
       }
 
       const hasCreateWorkspace = args.includes('--create-workspace');
@@ -841,12 +1187,27 @@ export async function handleCreateOrFallback(args: string[]): Promise<number> {
           }
         : undefined;
 
+      // The core engine writes the project in place; if it fails, remove what it
+      // left behind so the next attempt does not hit "directory already exists".
+      const coreProjectPath =
+        args[3] && !args[3].startsWith('-')
+          ? path.resolve(process.cwd(), readFlagValue(args, '--output') || '.', args[3])
+          : null;
+      const coreProjectExisted = coreProjectPath ? await fsExtra.pathExists(coreProjectPath) : true;
+      const removePartialCoreProject = async () => {
+        if (!coreProjectPath || coreProjectExisted) return;
+        if (!(await fsExtra.pathExists(coreProjectPath))) return;
+        await fsExtra.remove(coreProjectPath);
+        process.stderr.write(`Removed the partially created project at ${coreProjectPath}\n`);
+      };
+
       try {
         await resolveRapidkitPython();
         const exitCode = await runCoreRapidkit(forwardedArgs, {
           cwd: process.cwd(),
           env: createEnv,
         });
+        if (exitCode !== 0) await removePartialCoreProject();
 
         if (exitCode === 0 && workspacePathForCreate && !args.includes('--skip-install')) {
           console.log(chalk.gray('ℹ️  Fast create mode (workspace): dependencies were deferred.'));
@@ -888,6 +1249,7 @@ export async function handleCreateOrFallback(args: string[]): Promise<number> {
 
         return exitCode;
       } catch (e) {
+        await removePartialCoreProject();
         const code = bridgeFailureCode(e);
         if (code) return await runCreateFallback(forwardedArgs, code);
         process.stderr.write(
@@ -960,7 +1322,10 @@ export const NPM_ONLY_TOP_LEVEL_COMMANDS = [
   'bootstrap',
   'setup',
   'cache',
+  'toolchain',
   'mirror',
+  'upgrade-kit',
+  'run',
   'ai',
   'config',
   'shell',
@@ -968,7 +1333,15 @@ export const NPM_ONLY_TOP_LEVEL_COMMANDS = [
 
 const NPM_ONLY_PARSE_DIRECT_COMMANDS = ['doctor', 'workspace', 'ai', 'config', 'shell'] as const;
 
-const NPM_ONLY_MANUAL_HANDLER_COMMANDS = ['bootstrap', 'setup', 'cache', 'mirror'] as const;
+const NPM_ONLY_MANUAL_HANDLER_COMMANDS = [
+  'bootstrap',
+  'setup',
+  'cache',
+  'toolchain',
+  'mirror',
+  'upgrade-kit',
+  'run',
+] as const;
 
 // Project-scoped commands that should never fall through to the workspace
 // creation parser when local delegation is unavailable.
@@ -978,13 +1351,20 @@ const PROJECT_COMMANDS_CORE_FALLBACK = ['lint', 'format', 'docs'] as const;
 // (runtime-aware + policy-aware + fallback-aware), even inside Python projects.
 export const WRAPPER_ORCHESTRATED_PROJECT_COMMANDS = ['init'] as const;
 
-const RUNTIME_LIFECYCLE_COMMANDS = ['build', 'dev', 'start', 'test'] as const;
+const RUNTIME_LIFECYCLE_COMMANDS = ['build', 'dev', 'start', 'test', 'lint'] as const;
 
 const STRICT_POLICY_PROJECT_COMMANDS = [
   ...RUNTIME_LIFECYCLE_COMMANDS,
   ...PROJECT_COMMANDS_CORE_FALLBACK,
 ] as const;
 
+// Commands that run the workspace's toolchains, with provisioned ones first on PATH.
+const TOOLCHAIN_PATH_COMMANDS: readonly string[] = [
+  'init',
+  'setup',
+  ...STRICT_POLICY_PROJECT_COMMANDS,
+];
+
 function isNpmOnlyTopLevelCommand(command: string | undefined): boolean {
   return !!command && (NPM_ONLY_TOP_LEVEL_COMMANDS as readonly string[]).includes(command);
 }
@@ -1077,112 +1457,8 @@ function findLegacyWorkspaceUp(start: string): string | null {
   return null;
 }
 
-type DependencySharingMode = 'isolated' | 'shared-runtime-caches' | 'shared-node-deps';
-type PolicyMode = 'warn' | 'strict';
-type WorkspacePolicyRuleKey =
-  | 'enforce_workspace_marker'
-  | 'enforce_toolchain_lock'
-  | 'disallow_untrusted_tool_sources'
-  | 'enforce_compatibility_matrix'
-  | 'require_mirror_lock_for_offline';
-
-const WORKSPACE_POLICY_RULE_DEFAULTS: Record<WorkspacePolicyRuleKey, boolean> = {
-  enforce_workspace_marker: true,
-  enforce_toolchain_lock: false,
-  disallow_untrusted_tool_sources: false,
-  enforce_compatibility_matrix: false,
-  require_mirror_lock_for_offline: true,
-};
-
-function parsePolicyMode(policyContent: string | null | undefined): PolicyMode {
-  if (!policyContent) return 'warn';
-  const modeMatch = policyContent.match(/^[\t ]*mode:\s*(warn|strict)\s*(?:#.*)?$/m);
-  return modeMatch?.[1] === 'strict' ? 'strict' : 'warn';
-}
-
-function parsePolicyRule(content: string, key: WorkspacePolicyRuleKey): boolean {
-  const line = content.match(new RegExp(`^[\\t ]*${key}:\\s*(true|false)\\s*(?:#.*)?$`, 'm'));
-  if (!line) return WORKSPACE_POLICY_RULE_DEFAULTS[key];
-  return line[1] === 'true';
-}
-
-function parseWorkspacePolicy(content: string | null | undefined): {
-  mode: PolicyMode;
-  dependency_sharing_mode: DependencySharingMode;
-  rules: Record<WorkspacePolicyRuleKey, boolean>;
-} {
-  const raw = content ?? '';
-  return {
-    mode: parsePolicyMode(raw),
-    dependency_sharing_mode: parseDependencySharingMode(raw),
-    rules: {
-      enforce_workspace_marker: parsePolicyRule(raw, 'enforce_workspace_marker'),
-      enforce_toolchain_lock: parsePolicyRule(raw, 'enforce_toolchain_lock'),
-      disallow_untrusted_tool_sources: parsePolicyRule(raw, 'disallow_untrusted_tool_sources'),
-      enforce_compatibility_matrix: parsePolicyRule(raw, 'enforce_compatibility_matrix'),
-      require_mirror_lock_for_offline: parsePolicyRule(raw, 'require_mirror_lock_for_offline'),
-    },
-  };
-}
-
-function replaceOrInsertTopLevelPolicyLine(content: string, key: string, value: string): string {
-  const line = `${key}: ${value}`;
-  const escaped = key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-  const topLevelRegex = new RegExp(`^[\\t ]*${escaped}:\\s*.*$`, 'm');
-
-  if (topLevelRegex.test(content)) {
-    return content.replace(topLevelRegex, line);
-  }
-
-  const rulesRegex = /^[\t ]*rules:\s*(?:#.*)?$/m;
-  if (rulesRegex.test(content)) {
-    return content.replace(rulesRegex, `${line}\nrules:`);
-  }
-
-  const normalized = content.endsWith('\n') ? content : `${content}\n`;
-  return `${normalized}${line}\n`;
-}
-
-function replaceOrInsertRulePolicyLine(
-  content: string,
-  key: WorkspacePolicyRuleKey,
-  value: boolean
-): string {
-  const line = `  ${key}: ${value ? 'true' : 'false'}`;
-  const escaped = key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-  const ruleRegex = new RegExp(`^[\\t ]+${escaped}:\\s*.*$`, 'm');
-  if (ruleRegex.test(content)) {
-    return content.replace(ruleRegex, line);
-  }
-
-  const rulesRegex = /^[\t ]*rules:\s*(?:#.*)?$/m;
-  if (rulesRegex.test(content)) {
-    return content.replace(rulesRegex, `rules:\n${line}`);
-  }
-
-  const normalized = content.endsWith('\n') ? content : `${content}\n`;
-  return `${normalized}rules:\n${line}\n`;
-}
-
-function defaultWorkspacePolicyYaml(): string {
-  return [
-    'version: "1.0"',
-    'mode: warn # "warn" or "strict"',
-    'dependency_sharing_mode: isolated # "isolated" or "shared-runtime-caches" or "shared-node-deps"',
-    '# change profile (recommended): npx rapidkit bootstrap --profile polyglot',
-    '# change mode/dependency manually: edit this file and rerun npx rapidkit init',
-    'rules:',
-    '  enforce_workspace_marker: true',
-    '  enforce_toolchain_lock: false',
-    '  disallow_untrusted_tool_sources: false',
-    '  enforce_compatibility_matrix: false',
-    '  require_mirror_lock_for_offline: true',
-    '',
-  ].join('\n');
-}
-
 async function readWorkspacePolicyFile(workspacePath: string): Promise<string> {
-  const policyPath = path.join(workspacePath, '.rapidkit', 'policies.yml');
+  const policyPath = getWorkspacePolicyPath(workspacePath);
   if (!(await fsExtra.pathExists(policyPath))) {
     return defaultWorkspacePolicyYaml();
   }
@@ -1190,9 +1466,8 @@ async function readWorkspacePolicyFile(workspacePath: string): Promise<string> {
 }
 
 async function writeWorkspacePolicyFile(workspacePath: string, content: string): Promise<void> {
-  const rapidkitDir = path.join(workspacePath, '.rapidkit');
-  const policyPath = path.join(rapidkitDir, 'policies.yml');
-  await fsExtra.ensureDir(rapidkitDir);
+  const policyPath = getWorkspacePolicyPath(workspacePath);
+  await fsExtra.ensureDir(path.dirname(policyPath));
   const normalized = content.endsWith('\n') ? content : `${content}\n`;
   await fs.promises.writeFile(policyPath, normalized, 'utf-8');
 }
@@ -1204,24 +1479,12 @@ function parsePolicyBooleanLiteral(value: string): boolean | null {
   return null;
 }
 
-function parseDependencySharingMode(
-  policyContent: string | null | undefined
-): DependencySharingMode {
-  if (!policyContent) return 'isolated';
-  const match = policyContent.match(/^\s*dependency_sharing_mode:\s*([a-zA-Z\-]+)\s*(?:#.*)?$/m);
-  const mode = match?.[1]?.toLowerCase();
-  if (mode === 'shared-runtime-caches' || mode === 'shared-node-deps' || mode === 'isolated') {
-    return mode;
-  }
-  return 'isolated';
-}
-
-function validateDependencySharingMode(policyContent: string | null | undefined): {
+function validateDependencySharingMode(loaded: LoadedWorkspacePolicy | null): {
   mode: DependencySharingMode;
   status: 'passed' | 'skipped' | 'failed';
   message: string;
 } {
-  if (!policyContent) {
+  if (!loaded || !loaded.exists) {
     return {
       mode: 'isolated',
       status: 'skipped',
@@ -1229,58 +1492,86 @@ function validateDependencySharingMode(policyContent: string | null | undefined)
     };
   }
 
-  const match = policyContent.match(/^\s*dependency_sharing_mode:\s*([a-zA-Z\-]+)\s*(?:#.*)?$/m);
-  if (!match) {
+  const issue = loaded.issues.find((entry) => entry.path === 'dependency_sharing_mode');
+  if (issue) {
     return {
       mode: 'isolated',
-      status: 'skipped',
-      message: 'dependency_sharing_mode is not set; defaulting to isolated.',
+      status: 'failed',
+      message: `${issue.message} (policies.yml:${issue.line}:${issue.column})`,
     };
   }
 
-  const rawValue = match[1].toLowerCase();
-  if (
-    rawValue === 'isolated' ||
-    rawValue === 'shared-runtime-caches' ||
-    rawValue === 'shared-node-deps'
-  ) {
+  if (typeof loaded.data.dependency_sharing_mode === 'undefined') {
     return {
-      mode: rawValue,
-      status: 'passed',
-      message: `dependency_sharing_mode is valid: ${rawValue}.`,
+      mode: 'isolated',
+      status: 'skipped',
+      message: 'dependency_sharing_mode is not set; defaulting to isolated.',
     };
   }
 
+  const mode = loaded.policy.dependency_sharing_mode;
   return {
-    mode: 'isolated',
-    status: 'failed',
-    message:
-      `Invalid dependency_sharing_mode: ${rawValue}. ` +
-      'Use one of: isolated, shared-runtime-caches, shared-node-deps.',
+    mode,
+    status: 'passed',
+    message: `dependency_sharing_mode is valid: ${mode}.`,
   };
 }
 
+function printRejectedPolicyOverrides(
+  workspacePath: string,
+  effective: EffectiveWorkspacePolicy
+): void {
+  if (!effective.project || effective.rejected.length === 0) return;
+  const projectPolicyLabel = path.relative(workspacePath, effective.project.filePath);
+  console.log(chalk.yellow('⚠️  Ignored project policy overrides (workspace policy applies):'));
+  for (const issue of effective.rejected) {
+    console.log(chalk.yellow(`  • ${formatPolicyIssue(issue, projectPolicyLabel)}`));
+  }
+}
+
+/** Policy values lifecycle commands act on; issues anywhere else only warn. */
+const LIFECYCLE_POLICY_PATHS = [
+  'mode',
+  'enforcement_mode',
+  'dependency_sharing_mode',
+  ...WORKSPACE_POLICY_RULE_KEYS.map((key) => `rules.${key}`),
+];
+
+/** Bootstrap also evaluates custom rules, so invalid ones block it too. */
+const BOOTSTRAP_POLICY_PATHS = [...LIFECYCLE_POLICY_PATHS, 'custom_rules'];
+
 async function withWorkspaceDependencyPolicyContext<T>(
   cwd: string,
   run: () => Promise<T>
 ): Promise<{ ok: true; value: T } | { ok: false; code: number }> {
   const workspacePath = findWorkspaceUp(cwd);
-  const policyPath = workspacePath ? path.join(workspacePath, '.rapidkit', 'policies.yml') : null;
 
   let dependencySharingMode: DependencySharingMode = 'isolated';
-  if (policyPath && (await fsExtra.pathExists(policyPath))) {
-    try {
-      const policyContent = await fs.promises.readFile(policyPath, 'utf-8');
-      const validation = validateDependencySharingMode(policyContent);
-      if (validation.status === 'failed') {
-        console.log(chalk.red(`❌ ${validation.message}`));
+  if (workspacePath) {
+    const effective = await loadEffectiveWorkspacePolicy(workspacePath, cwd);
+    const sources = [{ loaded: effective.workspace, label: '.rapidkit/policies.yml' }];
+    if (effective.project) {
+      sources.push({
+        loaded: effective.project,
+        label: path.relative(workspacePath, effective.project.filePath),
+      });
+    }
+    for (const { loaded, label } of sources) {
+      const { blocking, warnings } = partitionPolicyIssues(loaded.issues, LIFECYCLE_POLICY_PATHS);
+      if (blocking.length > 0) {
+        const kind = loaded === effective.workspace ? 'workspace' : 'project';
+        console.log(chalk.red(`❌ Invalid ${kind} policy (${label}):`));
+        for (const issue of blocking) {
+          console.log(chalk.red(`  • ${formatPolicyIssue(issue, label)}`));
+        }
         return { ok: false, code: 1 };
       }
-      dependencySharingMode = validation.mode;
-    } catch {
-      console.log(chalk.red('❌ Failed to read workspace policy file (.rapidkit/policies.yml).'));
-      return { ok: false, code: 1 };
+      for (const issue of warnings) {
+        console.log(chalk.yellow(`⚠️  ${formatPolicyIssue(issue, label)}`));
+      }
     }
+    printRejectedPolicyOverrides(workspacePath, effective);
+    dependencySharingMode = effective.policy.dependency_sharing_mode;
   }
 
   const prevMode = process.env.RAPIDKIT_DEP_SHARING_MODE;
@@ -1292,7 +1583,7 @@ async function withWorkspaceDependencyPolicyContext<T>(
   }
 
   try {
-    const value = await run();
+    const value = await withToolchainPath(workspacePath, run);
     return { ok: true, value };
   } finally {
     if (typeof prevMode === 'undefined') delete process.env.RAPIDKIT_DEP_SHARING_MODE;
@@ -1324,6 +1615,38 @@ async function writeJsonFile(filePath: string, payload: unknown): Promise<void>
   await fsExtra.outputFile(filePath, `${JSON.stringify(payload, null, 2)}\n`, 'utf-8');
 }
 
+/**
+ * Install the packages pinned in the workspace poetry.lock with pip, which
+ * resolves them through PIP_INDEX_URL (Poetry ignores it). Returns null when
+ * there is no lockfile.
+ */
+async function installPoetryLockWithPip(
+  workspacePath: string,
+  venvBin: string
+): Promise<number | null> {
+  let lock: string;
+  try {
+    lock = await fs.promises.readFile(path.join(workspacePath, 'poetry.lock'), 'utf-8');
+  } catch {
+    return null;
+  }
+  const requirements = poetryLockRequirements(lock);
+  if (requirements.length === 0) return 0;
+
+  const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'rapidkit-poetry-lock-'));
+  const requirementsPath = path.join(tempDir, 'requirements.txt');
+  try {
+    await fs.promises.writeFile(requirementsPath, `${requirements.join('\n')}\n`, 'utf-8');
+    return await runCommandInCwd(
+      venvBin,
+      ['-m', 'pip', 'install', '-r', requirementsPath, '--quiet', '--disable-pip-version-check'],
+      workspacePath
+    );
+  } finally {
+    await fs.promises.rm(tempDir, { recursive: true, force: true });
+  }
+}
+
 async function installWorkspaceDependencies(workspacePath: string): Promise<number> {
   // ── Profile gate ─────────────────────────────────────────────────────────
   // Only go-only is truly Python-free: Go kits (gofiber/gogin) run entirely
@@ -1372,29 +1695,53 @@ async function installWorkspaceDependencies(workspacePath: string): Promise<numb
     const testLocalPath = process.env.RAPIDKIT_DEV_PATH;
     const hasLocalRapidKitPath = testLocalPath ? await fsExtra.pathExists(testLocalPath) : false;
 
-    if (hasStub) {
-      // Fast path: create .venv if needed, then install with pip (~3x faster than poetry).
-      const venvBin = workspaceVenvPythonBin(workspacePath);
-      if (!(await fsExtra.pathExists(venvBin))) {
-        const venvCode = await createWorkspaceVenv(workspacePath);
-        if (venvCode !== 0) return venvCode;
-      }
+    // Resolve packages from the workspace mirror when it runs offline-first/offline-only.
+    const depsCode = await withMirrorPackageIndex(workspacePath, async (mirrorUrl) => {
+      // Poetry only resolves from pyproject.toml sources, so mirrored installs
+      // go through the venv and pip, which honor PIP_INDEX_URL.
+      if (hasStub || mirrorUrl) {
+        // Fast path: create .venv if needed, then install with pip (~3x faster than poetry).
+        const venvBin = workspaceVenvPythonBin(workspacePath);
+        if (!(await fsExtra.pathExists(venvBin))) {
+          const venvCode = await createWorkspaceVenv(workspacePath);
+          if (venvCode !== 0) return venvCode;
+        }
 
-      const pipArgs =
-        hasLocalRapidKitPath && testLocalPath
-          ? ['-m', 'pip', 'install', testLocalPath, '--quiet', '--disable-pip-version-check']
-          : ['-m', 'pip', 'install', 'rapidkit-core', '--quiet', '--disable-pip-version-check'];
-      const pipCode = await runCommandInCwd(venvBin, pipArgs, workspacePath);
-      if (pipCode !== 0) return pipCode;
-    } else {
-      // Legacy / no stub: use Poetry to install (original behaviour).
-      const installCode = await runCommandInCwd('poetry', ['install', '--no-root'], workspacePath);
-      if (installCode !== 0) return installCode;
+        if (mirrorUrl) {
+          // What `poetry install --no-root` would install, pinned by the lockfile.
+          const lockCode = await installPoetryLockWithPip(workspacePath, venvBin);
+          if (lockCode === null && !hasStub) {
+            console.log(
+              chalk.yellow(
+                '⚠️  No poetry.lock: only rapidkit-core is installed from the mirror. Run `poetry lock` with network access to install the other dependencies offline.'
+              )
+            );
+          }
+          if (lockCode) return lockCode;
+        }
 
-      // Also add rapidkit-core explicitly if it isn't already installed.
-      const addCode = await runCommandInCwd('poetry', ['add', 'rapidkit-core'], workspacePath);
-      if (addCode !== 0) return addCode;
-    }
+        const pipArgs =
+          hasLocalRapidKitPath && testLocalPath
+            ? ['-m', 'pip', 'install', testLocalPath, '--quiet', '--disable-pip-version-check']
+            : ['-m', 'pip', 'install', 'rapidkit-core', '--quiet', '--disable-pip-version-check'];
+        const pipCode = await runCommandInCwd(venvBin, pipArgs, workspacePath);
+        if (pipCode !== 0) return pipCode;
+      } else {
+        // Legacy / no stub: use Poetry to install (original behaviour).
+        const installCode = await runCommandInCwd(
+          'poetry',
+          ['install', '--no-root'],
+          workspacePath
+        );
+        if (installCode !== 0) return installCode;
+
+        // Also add rapidkit-core explicitly if it isn't already installed.
+        const addCode = await runCommandInCwd('poetry', ['add', 'rapidkit-core'], workspacePath);
+        if (addCode !== 0) return addCode;
+      }
+      return 0;
+    });
+    if (depsCode !== 0) return depsCode;
 
     // Write launcher scripts (rapidkit / rapidkit.cmd) now that .venv exists.
     // For python-only/polyglot/enterprise these are written during workspace
@@ -1465,32 +1812,84 @@ async function handleGoInit(projectPath: string): Promise<number> {
  * or falls back to `go run ./main.go`.
  */
 async function handleNodeCommand(
-  action: 'init' | 'dev' | 'test' | 'build' | 'start',
-  projectPath: string
+  action: 'init' | 'dev' | 'test' | 'build' | 'start' | 'lint',
+  projectPath: string,
+  options: NodeRunOptions = {}
 ): Promise<number> {
   const adapter = getRuntimeAdapter('node', { runCommandInCwd, runCoreRapidkit });
 
-  if (action === 'init') {
-    const result = await adapter.initProject(projectPath);
-    return result.exitCode;
-  }
-  if (action === 'dev') {
-    const result = await adapter.runDev(projectPath);
-    return result.exitCode;
-  }
-  if (action === 'test') {
-    const result = await adapter.runTest(projectPath);
-    return result.exitCode;
+  const result =
+    action === 'init'
+      ? await adapter.initProject(projectPath, options)
+      : action === 'dev'
+        ? await adapter.runDev(projectPath, options)
+        : action === 'test'
+          ? await adapter.runTest(projectPath, options)
+          : action === 'build'
+            ? await adapter.runBuild(projectPath, options)
+            : action === 'lint'
+              ? await adapter.runLint(projectPath)
+              : await adapter.runStart(projectPath, options);
+
+  if (result.message) {
+    console.log(chalk.red(`❌ ${result.message}`));
   }
-  if (action === 'build') {
-    const result = await adapter.runBuild(projectPath);
-    return result.exitCode;
+
+  return result.exitCode;
+}
+
+/** Lifecycle commands of a project owned by a runtime plugin (Rust, Java, ...). */
+async function handlePluginCommand(
+  plugin: RuntimePlugin,
+  action: 'init' | 'dev' | 'test' | 'build' | 'start' | 'lint',
+  projectPath: string
+): Promise<number> {
+  const adapter = new PluginRuntimeAdapter(plugin, runCommandInCwd);
+
+  const result =
+    action === 'init'
+      ? await adapter.initProject(projectPath)
+      : action === 'dev'
+        ? await adapter.runDev(projectPath)
+        : action === 'test'
+          ? await adapter.runTest(projectPath)
+          : action === 'build'
+            ? await adapter.runBuild(projectPath)
+            : action === 'lint'
+              ? await adapter.runLint(projectPath)
+              : await adapter.runStart(projectPath);
+
+  if (result.message) {
+    console.log(chalk.red(`❌ ${result.message}`));
   }
 
-  const result = await adapter.runStart(projectPath);
   return result.exitCode;
 }
 
+/**
+ * Strict-policy violations for a project owned by a runtime plugin: its
+ * version must be pinned in toolchain.lock (when `runtimes` is given) and
+ * single-runtime profiles do not allow it (when `profile` is given).
+ */
+function runtimePluginPolicyViolations(
+  plugin: RuntimePlugin,
+  state: { runtimes?: Record<string, { version?: unknown } | undefined>; profile?: string }
+): string[] {
+  const violations: string[] = [];
+  const label = runtimePluginLabel(plugin);
+  if (state.runtimes && !state.runtimes[plugin.runtime]?.version) {
+    violations.push(
+      `${label} runtime version is not pinned in toolchain.lock — run \`rapidkit setup ${plugin.runtime}\` first.`
+    );
+  }
+  if (state.profile && ['python-only', 'node-only', 'go-only'].includes(state.profile)) {
+    violations.push(
+      `Workspace profile is "${state.profile}" but this project is ${label}. Update the workspace profile or use a polyglot workspace.`
+    );
+  }
+  return violations;
+}
+
 export async function handleBootstrapCommand(
   args: string[],
   initRunner: (nextArgs: string[]) => Promise<number> = handleInitCommand
@@ -1515,18 +1914,6 @@ export async function handleBootstrapCommand(
       message: string;
     }
 
-    interface BootstrapPolicy {
-      mode: 'warn' | 'strict';
-      dependency_sharing_mode: DependencySharingMode;
-      rules: {
-        enforce_workspace_marker: boolean;
-        enforce_toolchain_lock: boolean;
-        disallow_untrusted_tool_sources: boolean;
-        enforce_compatibility_matrix: boolean;
-        require_mirror_lock_for_offline: boolean;
-      };
-    }
-
     interface MirrorConfig {
       enabled?: boolean;
       mode?: 'online' | 'offline-first' | 'offline-only';
@@ -1548,30 +1935,6 @@ export async function handleBootstrapCommand(
       return null;
     }
 
-    function parsePolicyYaml(content: string): BootstrapPolicy {
-      const modeMatch = content.match(/^\s*mode:\s*([a-zA-Z]+)\s*(?:#.*)?$/m);
-      const modeValue = modeMatch?.[1]?.toLowerCase();
-      const mode: 'warn' | 'strict' = modeValue === 'strict' ? 'strict' : 'warn';
-
-      const readRule = (key: string, fallback: boolean): boolean => {
-        const match = content.match(new RegExp(`^\\s*${key}:\\s*(true|false)\\s*(?:#.*)?$`, 'm'));
-        if (!match) return fallback;
-        return match[1].toLowerCase() === 'true';
-      };
-
-      return {
-        mode,
-        dependency_sharing_mode: parseDependencySharingMode(content),
-        rules: {
-          enforce_workspace_marker: readRule('enforce_workspace_marker', true),
-          enforce_toolchain_lock: readRule('enforce_toolchain_lock', false),
-          disallow_untrusted_tool_sources: readRule('disallow_untrusted_tool_sources', false),
-          enforce_compatibility_matrix: readRule('enforce_compatibility_matrix', false),
-          require_mirror_lock_for_offline: readRule('require_mirror_lock_for_offline', true),
-        },
-      };
-    }
-
     const initArgs: string[] = ['init'];
     let profileArg: string | undefined;
     let ciMode = false;
@@ -1758,39 +2121,57 @@ export async function handleBootstrapCommand(
       }
     }
 
-    let policy: {
-      mode: 'warn' | 'strict';
-      dependency_sharing_mode: string;
-      rules: Record<string, boolean>;
-    } = {
-      mode: 'warn',
-      dependency_sharing_mode: 'isolated',
-      rules: {
-        enforce_workspace_marker: true,
-        enforce_toolchain_lock: false,
-        disallow_untrusted_tool_sources: false,
-        enforce_compatibility_matrix: false,
-        require_mirror_lock_for_offline: true,
-      },
-    };
-
-    let policyContentRaw: string | null = null;
+    let policy: WorkspacePolicy = defaultWorkspacePolicy();
+    let loadedPolicy: LoadedWorkspacePolicy | null = null;
 
     if (workspacePath) {
+      loadedPolicy = await loadWorkspacePolicy(workspacePath);
+      policy = loadedPolicy.policy;
       try {
-        const policyContent = await fs.promises.readFile(
-          path.join(workspacePath, '.rapidkit', 'policies.yml'),
-          'utf-8'
-        );
-        policyContentRaw = policyContent;
-        policy = parsePolicyYaml(policyContent);
-      } catch {
+        const recorded = await recordPolicyHashChange(workspacePath, loadedPolicy, 'bootstrap');
+        if (recorded?.old_value) {
+          checks.push({
+            id: 'policy.audit',
+            status: 'passed',
+            message:
+              'Workspace policy changed outside `workspace policy set`; recorded in the policy audit log.',
+          });
+        }
+      } catch (error) {
+        checks.push({
+          id: 'policy.audit',
+          status: 'skipped',
+          message: `Could not write policy audit log: ${(error as Error).message}`,
+        });
+      }
+      if (!loadedPolicy.exists) {
         checks.push({
           id: 'policy.file',
           status: 'skipped',
           message: 'No workspace policy file found; using default bootstrap policy.',
         });
       }
+      // Invalid values bootstrap acts on block it; other issues (unknown keys,
+      // anchor holders) are failed `policy.schema_warning.*` checks, which only
+      // block in strict mode.
+      const { blocking, warnings } = partitionPolicyIssues(
+        loadedPolicy.issues.filter((issue) => issue.path !== 'dependency_sharing_mode'),
+        BOOTSTRAP_POLICY_PATHS
+      );
+      for (const issue of blocking) {
+        checks.push({
+          id: issue.path === '$' ? 'policy.schema.syntax' : `policy.schema.${issue.path}`,
+          status: 'failed',
+          message: formatPolicyIssue(issue),
+        });
+      }
+      for (const issue of warnings) {
+        checks.push({
+          id: `policy.schema_warning.${issue.path}`,
+          status: 'failed',
+          message: formatPolicyIssue(issue),
+        });
+      }
     } else {
       checks.push({
         id: 'workspace.detect',
@@ -1800,7 +2181,7 @@ export async function handleBootstrapCommand(
     }
 
     if (workspacePath) {
-      const dependencyModeValidation = validateDependencySharingMode(policyContentRaw);
+      const dependencyModeValidation = validateDependencySharingMode(loadedPolicy);
       policy.dependency_sharing_mode = dependencyModeValidation.mode;
       checks.push({
         id: 'policy.schema.dependency_sharing_mode',
@@ -1918,6 +2299,27 @@ export async function handleBootstrapCommand(
         }
       }
 
+      const bootstrapCacheConfig = await loadWorkspaceCacheConfig(workspacePath);
+      if (bootstrapCacheConfig.prune_on_bootstrap) {
+        try {
+          const cache = Cache.getInstance();
+          cache.configure(toCacheLimits(bootstrapCacheConfig));
+          const pruned = await cache.prune();
+          const quota = await cache.enforceQuota();
+          checks.push({
+            id: 'cache.prune_on_bootstrap',
+            status: 'passed',
+            message: `Cache pruned on bootstrap: ${pruned.removed} of ${pruned.scanned} entries removed, ${quota.evicted} evicted to fit quota.`,
+          });
+        } catch (error) {
+          checks.push({
+            id: 'cache.prune_on_bootstrap',
+            status: 'failed',
+            message: `Cache prune on bootstrap failed: ${(error as Error).message}`,
+          });
+        }
+      }
+
       const lifecycleResult = await runMirrorLifecycle(workspacePath, {
         ciMode,
         offlineMode,
@@ -1936,8 +2338,7 @@ export async function handleBootstrapCommand(
       }
 
       if (offlineMode) {
-        const mirrorEnabled =
-          process.env.RAPIDKIT_MIRROR_ENABLED === '1' || mirrorConfig.enabled === true;
+        const mirrorEnabled = isMirrorEnabled(mirrorConfig);
         checks.push({
           id: 'offline.mirror.enabled',
           status: mirrorEnabled ? 'passed' : 'failed',
@@ -1964,10 +2365,16 @@ export async function handleBootstrapCommand(
       }
 
       const projectPaths = await collectWorkspaceProjects(workspacePath);
-      const runtimes = new Set<'python' | 'node' | 'go' | 'unknown'>();
+      const runtimes = new Set<RuntimeName | 'unknown'>();
 
+      await activateRuntimePlugins(workspacePath);
       for (const projectPath of projectPaths) {
         const projectJson = readRapidkitProjectJson(projectPath);
+        const plugin = detectRuntimePlugin(projectJson, projectPath);
+        if (plugin) {
+          runtimes.add(plugin.runtime);
+          continue;
+        }
         if (isGoProject(projectJson, projectPath)) {
           runtimes.add('go');
           continue;
@@ -1983,6 +2390,49 @@ export async function handleBootstrapCommand(
         runtimes.add('unknown');
       }
 
+      // enforce_toolchain_lock also requires the active toolchains to match the pins.
+      if (policy.rules.enforce_toolchain_lock && lockExists) {
+        const toolchains = await verifyToolchains(
+          workspacePath,
+          [...runtimes].filter(isToolchainRuntime)
+        );
+        const mismatched = toolchains.filter((check) => !check.matches);
+        checks.push({
+          id: 'policy.enforce_toolchain_lock.versions',
+          status: mismatched.length === 0 ? 'passed' : 'failed',
+          message:
+            mismatched.length === 0
+              ? 'Active toolchains match the versions pinned in toolchain.lock.'
+              : `Toolchain lock policy failed: ${mismatched.map(formatToolchainMismatch).join(' ')}`,
+        });
+      }
+
+      if (policy.custom_rules.length > 0) {
+        checks.push(
+          ...(await evaluateCustomPolicyRules(workspacePath, policy.custom_rules, projectPaths))
+        );
+      }
+
+      // Project-level policies may add custom rules; evaluate them against their own project.
+      if (loadedPolicy) {
+        for (const projectPath of projectPaths) {
+          const projectPolicy = await loadWorkspacePolicy(projectPath);
+          if (!projectPolicy.exists) continue;
+          const effective = mergeProjectPolicy(loadedPolicy, projectPolicy, projectPath);
+          const projectRules = effective.policy.custom_rules.filter(
+            (rule) => effective.origins[`custom_rules.${rule.id}`] === 'project'
+          );
+          if (projectRules.length === 0) continue;
+          const projectLabel = path.relative(workspacePath, projectPath);
+          const projectChecks = await evaluateCustomPolicyRules(workspacePath, projectRules, [
+            projectPath,
+          ]);
+          checks.push(
+            ...projectChecks.map((check) => ({ ...check, id: `${check.id}@${projectLabel}` }))
+          );
+        }
+      }
+
       if (profile === 'go-only') {
         const onlyGo = runtimes.size === 0 || [...runtimes].every((runtime) => runtime === 'go');
         checks.push({
@@ -2143,16 +2593,42 @@ export async function handleBootstrapCommand(
   }
 }
 
+const WARMUP_MANIFESTS = [
+  'package.json',
+  'package-lock.json',
+  'pnpm-lock.yaml',
+  'yarn.lock',
+  'go.mod',
+  'go.sum',
+];
+
+/**
+ * `runtime-warmup` cache key for a dependency warm-up: the runtime, the
+ * directory and the content of its manifests and lockfiles, so a warm-up is
+ * repeated only after dependencies change or the entry expires.
+ */
+async function dependencyWarmupKey(runtime: string, targetPath: string): Promise<string> {
+  const hash = createHash('sha256').update(`${runtime}\0${path.resolve(targetPath)}`);
+  for (const file of WARMUP_MANIFESTS) {
+    const content = await fs.promises.readFile(path.join(targetPath, file)).catch(() => null);
+    if (content) hash.update(`\0${file}\0`).update(content);
+  }
+  return hash.digest('hex');
+}
+
 export async function handleSetupCommand(args: string[]): Promise<number> {
   const runtime = (args[1] || '').toLowerCase();
   const warmDeps = args.includes('--warm-deps') || args.includes('--warm-dependencies');
-  if (!runtime || !['python', 'node', 'go'].includes(runtime)) {
-    console.log(chalk.yellow('Usage: rapidkit setup <python|node|go> [--warm-deps]'));
+  await activateRuntimePluginsWithWarnings(process.cwd());
+  const knownRuntimes = ['python', 'node', 'go', ...runtimePlugins().map((p) => p.runtime)];
+  if (!runtime || !knownRuntimes.includes(runtime)) {
+    console.log(chalk.yellow(`Usage: rapidkit setup <${knownRuntimes.join('|')}> [--warm-deps]`));
     return 1;
   }
+  const plugin = findRuntimePlugin(runtime);
 
   const warmRuntimeDependencies = async (
-    targetRuntime: 'python' | 'node' | 'go',
+    targetRuntime: RuntimeName,
     targetPath: string
   ): Promise<CommandResult> => {
     if (targetRuntime === 'node') {
@@ -2214,7 +2690,7 @@ export async function handleSetupCommand(args: string[]): Promise<number> {
   // Use system Python (no cwd) to bypass workspace-venv runner discovery.
   // Workspace-local venv rapidkit versions may have a double-print bug in doctor check;
   // system-level rapidkit is always preferred for host environment diagnostics.
-  const adapter = getRuntimeAdapter(runtime as 'python' | 'node' | 'go', {
+  const adapter = getRuntimeAdapter(runtime, {
     runCommandInCwd,
     runCoreRapidkit: (adapterArgs, opts) =>
       runCoreRapidkit(adapterArgs, { ...opts, cwd: undefined }),
@@ -2226,7 +2702,7 @@ export async function handleSetupCommand(args: string[]): Promise<number> {
 
   if (prereq.exitCode === 0) {
     console.log(chalk.green(`\u2705 ${runtime} prerequisites look good.`));
-    const otherRuntimes = ['python', 'node', 'go'].filter((r) => r !== runtime).join('/');
+    const otherRuntimes = knownRuntimes.filter((r) => r !== runtime).join('/');
     console.log(
       chalk.gray(
         `  Scope: validated ${runtime} runtime only. ${otherRuntimes} checks are optional unless your workspace profile uses them.`
@@ -2250,18 +2726,29 @@ export async function handleSetupCommand(args: string[]): Promise<number> {
     }
 
     if (warmDeps) {
-      const depsWarmResult = await warmRuntimeDependencies(
-        runtime as 'python' | 'node' | 'go',
-        runtimePath
-      );
-      const skipped = /skipped/i.test(depsWarmResult.message || '');
-      if (depsWarmResult.message) {
-        console.log(chalk.gray(`  ${depsWarmResult.message}`));
-      }
-      if (depsWarmResult.exitCode === 0 && !skipped) {
-        console.log(chalk.gray(`  ${runtime} dependency warm-up completed (--warm-deps).`));
-      } else if (depsWarmResult.exitCode !== 0) {
-        console.log(chalk.yellow(`  ${runtime} dependency warm-up failed (non-fatal).`));
+      const cache = Cache.getInstance();
+      const warmupKey = await dependencyWarmupKey(runtime, runtimePath);
+      if (await cache.get(warmupKey, '1', { namespace: 'runtime-warmup' })) {
+        console.log(
+          chalk.gray(`  ${runtime} dependencies already warmed for these lockfiles (cached).`)
+        );
+      } else {
+        const depsWarmResult = await warmRuntimeDependencies(runtime, runtimePath);
+        const skipped = /skipped/i.test(depsWarmResult.message || '');
+        if (depsWarmResult.message) {
+          console.log(chalk.gray(`  ${depsWarmResult.message}`));
+        }
+        if (depsWarmResult.exitCode === 0 && !skipped) {
+          await cache.set(
+            warmupKey,
+            { runtime, path: runtimePath, completed_at: new Date().toISOString() },
+            '1',
+            { namespace: 'runtime-warmup' }
+          );
+          console.log(chalk.gray(`  ${runtime} dependency warm-up completed (--warm-deps).`));
+        } else if (depsWarmResult.exitCode !== 0) {
+          console.log(chalk.yellow(`  ${runtime} dependency warm-up failed (non-fatal).`));
+        }
       }
     }
 
@@ -2278,54 +2765,20 @@ export async function handleSetupCommand(args: string[]): Promise<number> {
         if (!lock.runtime || typeof lock.runtime !== 'object') lock.runtime = {};
         const rt = lock.runtime as Record<string, unknown>;
 
-        if (runtime === 'python') {
-          // Use execa with stdio:pipe so we capture output without double-printing
-          let pyVersion: string | null = null;
-          try {
-            const { execa } = await import('execa');
-            for (const candidate of hostPythonCandidates()) {
-              const args = candidate === 'py' ? ['-3', '--version'] : ['--version'];
-              const r = await execa(candidate, args, {
-                cwd: workspacePath,
-                stdio: 'pipe',
-                reject: false,
-                timeout: 3000,
-              });
-              if (r.exitCode === 0) {
-                const raw = r.stdout || r.stderr || '';
-                const m = raw.match(/Python\s+(\S+)/);
-                pyVersion = m ? m[1] : null;
-                if (pyVersion) break;
-              }
-            }
-          } catch {
-            /* non-fatal */
-          }
-          rt.python = {
-            ...((rt.python as object) || {}),
-            version: pyVersion,
-            last_setup: new Date().toISOString(),
-          };
-        } else if (runtime === 'node') {
-          rt.node = {
-            ...((rt.node as object) || {}),
-            version: process.version,
+        if (isToolchainRuntime(runtime)) {
+          // Record what lifecycle commands run: provisioned toolchains come first on PATH.
+          // Probed quietly, since the adapter already printed the prereq output.
+          rt[runtime] = {
+            ...((rt[runtime] as object) || {}),
+            version: await detectToolchainVersion(runtime, { cwd: workspacePath }),
             last_setup: new Date().toISOString(),
           };
-        } else if (runtime === 'go') {
-          // Use execa with stdio:pipe — avoids double-printing since go adapter already printed via inherit
-          let goVersion: string | null = null;
-          try {
-            const { execa } = await import('execa');
-            const r = await execa('go', ['version'], { cwd: workspacePath, stdio: 'pipe' });
-            const m = (r.stdout || '').match(/go(\d+\.\d+(?:\.\d+)?)/i);
-            goVersion = m ? m[1] : null;
-          } catch {
-            /* non-fatal */
-          }
-          rt.go = {
-            ...((rt.go as object) || {}),
-            version: goVersion,
+        } else if (plugin) {
+          // The adapter already printed the prereq output; probe again quietly for the version.
+          const { version } = await probeRuntimePlugin(plugin, workspacePath);
+          rt[plugin.runtime] = {
+            ...((rt[plugin.runtime] as object) || {}),
+            version,
             last_setup: new Date().toISOString(),
           };
         }
@@ -2349,30 +2802,10 @@ export async function handleSetupCommand(args: string[]): Promise<number> {
   return prereq.exitCode;
 }
 
-function parseCacheConfig(content: string): {
-  strategy: string;
-  prune_on_bootstrap: boolean;
-  self_heal: boolean;
-  verify_integrity: boolean;
-} {
-  const cfg = {
-    strategy: 'shared',
-    prune_on_bootstrap: false,
-    self_heal: true,
-    verify_integrity: false,
-  };
-  for (const line of content.split('\n')) {
-    const t = line.trim();
-    const stratMatch = t.match(/^strategy:\s*(\S+)/);
-    if (stratMatch) cfg.strategy = stratMatch[1].replace(/['"]]/g, '');
-    const pruneMatch = t.match(/^prune_on_bootstrap:\s*(true|false)/);
-    if (pruneMatch) cfg.prune_on_bootstrap = pruneMatch[1] === 'true';
-    const healMatch = t.match(/^self_heal:\s*(true|false)/);
-    if (healMatch) cfg.self_heal = healMatch[1] === 'true';
-    const verifyMatch = t.match(/^verify_integrity:\s*(true|false)/);
-    if (verifyMatch) cfg.verify_integrity = verifyMatch[1] === 'true';
-  }
-  return cfg;
+function formatCacheBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 }
 
 export async function handleCacheCommand(args: string[]): Promise<number> {
@@ -2381,23 +2814,8 @@ export async function handleCacheCommand(args: string[]): Promise<number> {
   const workspacePath = findWorkspaceUp(process.cwd());
 
   // Read cache-config.yml for workspace-aware settings
-  let cacheConfig = {
-    strategy: 'shared',
-    prune_on_bootstrap: false,
-    self_heal: true,
-    verify_integrity: false,
-  };
-  if (workspacePath) {
-    try {
-      const configContent = await fs.promises.readFile(
-        path.join(workspacePath, '.rapidkit', 'cache-config.yml'),
-        'utf-8'
-      );
-      cacheConfig = parseCacheConfig(configContent);
-    } catch {
-      /* use defaults */
-    }
-  }
+  const cacheConfig = await loadWorkspaceCacheConfig(workspacePath);
+  cache.configure(toCacheLimits(cacheConfig));
 
   if (action === 'status') {
     console.log(chalk.cyan('RapidKit cache is enabled'));
@@ -2409,9 +2827,31 @@ export async function handleCacheCommand(args: string[]): Promise<number> {
       console.log(chalk.gray(`  Prune on bootstrap:${cacheConfig.prune_on_bootstrap}`));
       console.log(chalk.gray(`  Verify integrity:  ${cacheConfig.verify_integrity}`));
     } else {
-      console.log(chalk.gray('  (not inside a workspace — showing in-memory cache only)'));
+      console.log(chalk.gray('  (not inside a workspace — using default cache settings)'));
+    }
+    const stats = await cache.stats();
+    const quota =
+      cacheConfig.max_size_bytes === null
+        ? 'unbounded'
+        : `${formatCacheBytes(cacheConfig.max_size_bytes)} max`;
+    console.log(chalk.gray(`  Directory: ${stats.directory}`));
+    console.log(
+      chalk.gray(
+        `  Disk usage: ${formatCacheBytes(stats.bytes)} in ${stats.entries} entries (${quota})`
+      )
+    );
+    for (const [namespace, ns] of Object.entries(stats.namespaces).sort(([a], [b]) =>
+      a.localeCompare(b)
+    )) {
+      const lookups = ns.hits + ns.misses;
+      const hitRate = lookups > 0 ? ` (${Math.round((ns.hits / lookups) * 100)}% hit rate)` : '';
+      const ttlHours = Math.round((cache.getNamespaceTtl(namespace) / 3_600_000) * 10) / 10;
+      console.log(
+        chalk.gray(
+          `    ${namespace}: ${ns.entries} entries, ${formatCacheBytes(ns.bytes)}, ${ns.expired} expired, TTL ${ttlHours}h — ${ns.hits} hits / ${ns.misses} misses${hitRate}`
+        )
+      );
     }
-    console.log(chalk.gray('  In-memory cache: enabled'));
     console.log(chalk.gray('  Use: rapidkit cache clear|prune|repair'));
     return 0;
   }
@@ -2425,9 +2865,49 @@ export async function handleCacheCommand(args: string[]): Promise<number> {
   }
 
   if (action === 'prune') {
-    // Prune stale entries only (honour cache-config strategy)
-    await cache.clear();
-    console.log(chalk.green('\u2705 Cache pruned (stale entries removed).'));
+    // Prune stale entries only: expired, corrupt or written by an older cache format
+    const result = await cache.prune();
+    const quota = await cache.enforceQuota();
+    console.log(
+      chalk.green(
+        `\u2705 Cache pruned (${result.removed} of ${result.scanned} entries removed, ${formatCacheBytes(result.freedBytes)} freed).`
+      )
+    );
+    if (result.removed > 0) {
+      console.log(
+        chalk.gray(
+          `  expired: ${result.reasons.expired}, version mismatch: ${result.reasons.versionMismatch}, corrupt: ${result.reasons.corrupt}`
+        )
+      );
+    }
+    if (quota.evicted > 0) {
+      console.log(
+        chalk.gray(
+          `  Evicted ${quota.evicted} least recently used entries (${formatCacheBytes(quota.freedBytes)}) to fit max_size.`
+        )
+      );
+    }
+
+    // Task caches (build/test outputs) of the workspace and its projects, or of this project
+    const taskCacheDirs = workspacePath
+      ? [workspacePath, ...(await collectWorkspaceProjects(workspacePath))]
+      : [(await findKitProjectRoot(process.cwd())) ?? process.cwd()];
+    const tasks = { removed: 0, freedBytes: 0 };
+    for (const root of taskCacheDirs) {
+      const pruned = await pruneTaskCache(
+        path.join(root, '.rapidkit', 'cache', 'tasks'),
+        cacheConfig.task_max_size_bytes
+      );
+      tasks.removed += pruned.removed;
+      tasks.freedBytes += pruned.freedBytes;
+    }
+    if (tasks.removed > 0) {
+      console.log(
+        chalk.gray(
+          `  Task cache: removed ${tasks.removed} interrupted or least recently used entries (${formatCacheBytes(tasks.freedBytes)}).`
+        )
+      );
+    }
     if (!cacheConfig.prune_on_bootstrap) {
       console.log(
         chalk.gray(
@@ -2439,7 +2919,7 @@ export async function handleCacheCommand(args: string[]): Promise<number> {
   }
 
   if (action === 'repair') {
-    // Self-heal: attempt to restore a consistent cache state
+    // Self-heal: drop unreadable entries; with verify_integrity also rehash and drop corrupt ones
     if (!cacheConfig.self_heal) {
       console.log(
         chalk.yellow(
@@ -2448,10 +2928,18 @@ export async function handleCacheCommand(args: string[]): Promise<number> {
       );
       return 0;
     }
-    await cache.clear();
-    console.log(chalk.green('\u2705 Cache repaired (self-heal applied, stale entries evicted).'));
-    if (cacheConfig.verify_integrity) {
-      console.log(chalk.gray('  Integrity verification is enabled in cache-config.yml.'));
+    const result = await cache.repair({ verifyIntegrity: cacheConfig.verify_integrity });
+    console.log(
+      chalk.green(
+        `\u2705 Cache repaired (${result.scanned} entries scanned, ${result.removed} corrupt removed, ${result.rehashed} rehashed).`
+      )
+    );
+    if (!cacheConfig.verify_integrity) {
+      console.log(
+        chalk.gray(
+          '  Tip: set verify_integrity: true in .rapidkit/cache-config.yml to verify entry hashes.'
+        )
+      );
     }
     return 0;
   }
@@ -2460,39 +2948,186 @@ export async function handleCacheCommand(args: string[]): Promise<number> {
   return 1;
 }
 
+/**
+ * `rapidkit toolchain status` compares the toolchains lifecycle commands run
+ * with toolchain.lock; `rapidkit toolchain install [runtime...]` provisions
+ * the pinned versions into `.rapidkit/toolchains`.
+ */
+export async function handleToolchainCommand(args: string[]): Promise<number> {
+  const action = (args[1] || 'status').toLowerCase();
+  const workspacePath = findWorkspaceUp(process.cwd());
+  if (!workspacePath) {
+    console.log(chalk.red('❌ rapidkit toolchain must run inside a RapidKit workspace.'));
+    return 1;
+  }
+  const rel = (target: string) => path.relative(workspacePath, target) || '.';
+
+  if (action === 'status') {
+    const checks = await verifyToolchains(workspacePath);
+    if (args.includes('--json')) {
+      console.log(JSON.stringify({ workspace: workspacePath, toolchains: checks }, null, 2));
+      return checks.every((check) => check.matches) ? 0 : 1;
+    }
+    if (checks.length === 0) {
+      console.log(chalk.yellow('No toolchain versions are pinned in .rapidkit/toolchain.lock.'));
+      console.log(chalk.gray('💡 Run: rapidkit setup python|node|go'));
+      return 0;
+    }
+    console.log(chalk.cyan('Toolchains pinned in .rapidkit/toolchain.lock'));
+    for (const check of checks) {
+      const source = check.provisioned ? rel(check.provisioned.root) : 'host';
+      const line = `${check.runtime.padEnd(7)} pinned ${check.pinned.padEnd(10)} active ${(check.active ?? 'none').padEnd(10)} (${source})`;
+      console.log(check.matches ? chalk.green(`  ✅ ${line}`) : chalk.red(`  ❌ ${line}`));
+    }
+    const mismatched = checks.filter((check) => !check.matches);
+    if (mismatched.length > 0) {
+      console.log(
+        chalk.gray(
+          `💡 Run: rapidkit toolchain install ${mismatched.map((check) => check.runtime).join(' ')}`
+        )
+      );
+      return 1;
+    }
+    return 0;
+  }
+
+  if (action === 'install') {
+    const requested = args
+      .slice(2)
+      .filter((arg, index, all) => !arg.startsWith('--') && all[index - 1] !== '--from');
+    const unknown = requested.filter((runtime) => !isToolchainRuntime(runtime));
+    if (unknown.length > 0) {
+      console.log(
+        chalk.red(`❌ Unknown runtime: ${unknown.join(', ')} (expected python, node or go)`)
+      );
+      return 1;
+    }
+    const pins = readToolchainPins(workspacePath);
+    const runtimes =
+      requested.length > 0
+        ? (requested as ToolchainRuntime[])
+        : TOOLCHAIN_RUNTIMES.filter((runtime) => pins[runtime]);
+    if (runtimes.length === 0) {
+      console.log(chalk.yellow('No toolchain versions are pinned in .rapidkit/toolchain.lock.'));
+      console.log(chalk.gray('💡 Run: rapidkit setup python|node|go'));
+      return 1;
+    }
+    const from = readFlagValue(args, '--from');
+    const sources = [
+      ...(from ? [path.resolve(process.cwd(), from)] : []),
+      ...defaultToolchainSources(workspacePath),
+    ];
+
+    let failed = 0;
+    for (const runtime of runtimes) {
+      const pinned = pins[runtime];
+      if (!pinned) {
+        console.log(
+          chalk.red(
+            `❌ ${runtime} is not pinned in toolchain.lock — run \`rapidkit setup ${runtime}\` first.`
+          )
+        );
+        failed += 1;
+        continue;
+      }
+      try {
+        const provisioned = await provisionToolchain(workspacePath, runtime, pinned, sources);
+        console.log(
+          chalk.green(
+            provisioned.archive
+              ? `✅ ${runtime} ${provisioned.version} provisioned from ${path.basename(provisioned.archive)} (${rel(provisioned.root)})`
+              : `✅ ${runtime} ${provisioned.version} is already provisioned (${rel(provisioned.root)})`
+          )
+        );
+      } catch (error) {
+        if (!(error instanceof ToolchainError)) throw error;
+        console.log(chalk.red(`❌ ${error.message}`));
+        if (error.details) console.log(chalk.gray(`  ${error.details}`));
+        failed += 1;
+      }
+    }
+    if (failed === 0) {
+      console.log(
+        chalk.gray('  Lifecycle commands in this workspace now run the pinned toolchains.')
+      );
+    }
+    return failed === 0 ? 0 : 1;
+  }
+
+  console.log(
+    chalk.yellow(
+      'Usage: rapidkit toolchain <status|install> [python|node|go] [--from <archive|dir>] [--json]'
+    )
+  );
+  return 1;
+}
+
 async function handleWorkspacePolicyCommand(
   workspacePath: string,
   subaction?: string,
   key?: string,
-  value?: string
+  value?: string,
+  options: { json?: boolean; cwd?: string } = {}
 ): Promise<number> {
   const action = (subaction || 'show').toLowerCase();
-  const policyPath = path.join(workspacePath, '.rapidkit', 'policies.yml');
+  const policyPath = getWorkspacePolicyPath(workspacePath);
+  const cwd = options.cwd ?? process.cwd();
 
   if (action === 'show' || action === 'status' || action === 'get') {
-    const rawPolicy = await readWorkspacePolicyFile(workspacePath);
-    const policy = parseWorkspacePolicy(rawPolicy);
+    const effective = await loadEffectiveWorkspacePolicy(workspacePath, cwd);
+    const { policy, origins } = effective;
+    const showOrigins = !!effective.project?.exists;
+    const withOrigin = (label: string, originKey: string) =>
+      showOrigins ? `${label} (${origins[originKey] ?? 'default'})` : label;
+
     console.log(chalk.cyan(`Policy file: ${policyPath}`));
-    console.log(chalk.gray(`  mode: ${policy.mode}`));
-    console.log(chalk.gray(`  dependency_sharing_mode: ${policy.dependency_sharing_mode}`));
-    console.log(chalk.gray('  rules:'));
-    console.log(
-      chalk.gray(`    enforce_workspace_marker: ${policy.rules.enforce_workspace_marker}`)
-    );
-    console.log(chalk.gray(`    enforce_toolchain_lock: ${policy.rules.enforce_toolchain_lock}`));
-    console.log(
-      chalk.gray(
-        `    disallow_untrusted_tool_sources: ${policy.rules.disallow_untrusted_tool_sources}`
-      )
-    );
-    console.log(
-      chalk.gray(`    enforce_compatibility_matrix: ${policy.rules.enforce_compatibility_matrix}`)
-    );
+    if (effective.project?.exists) {
+      console.log(chalk.cyan(`Project policy: ${effective.project.filePath}`));
+      console.log(chalk.gray('Effective policy (value origin in parentheses):'));
+    }
+    console.log(chalk.gray(withOrigin(`  mode: ${policy.mode}`, 'mode')));
     console.log(
       chalk.gray(
-        `    require_mirror_lock_for_offline: ${policy.rules.require_mirror_lock_for_offline}`
+        withOrigin(
+          `  dependency_sharing_mode: ${policy.dependency_sharing_mode}`,
+          'dependency_sharing_mode'
+        )
       )
     );
+    console.log(chalk.gray('  rules:'));
+    for (const ruleKey of Object.keys(WORKSPACE_POLICY_RULE_DEFAULTS) as WorkspacePolicyRuleKey[]) {
+      console.log(
+        chalk.gray(withOrigin(`    ${ruleKey}: ${policy.rules[ruleKey]}`, `rules.${ruleKey}`))
+      );
+    }
+    if (policy.custom_rules.length > 0) {
+      console.log(chalk.gray('  custom_rules:'));
+      for (const rule of policy.custom_rules) {
+        const state = rule.enabled === false ? ' (disabled)' : '';
+        console.log(
+          chalk.gray(withOrigin(`    ${rule.id}: ${rule.type}${state}`, `custom_rules.${rule.id}`))
+        );
+      }
+    }
+    const issues = effective.workspace.issues;
+    if (issues.length > 0) {
+      console.log(chalk.yellow(`⚠️  ${issues.length} policy issue(s) — defaults apply to:`));
+      for (const issue of issues) {
+        console.log(chalk.yellow(`  • ${formatPolicyIssue(issue)}`));
+      }
+    }
+    if (effective.project && effective.project.issues.length > 0) {
+      const projectPolicyLabel = path.relative(workspacePath, effective.project.filePath);
+      console.log(
+        chalk.yellow(
+          `⚠️  ${effective.project.issues.length} project policy issue(s) — workspace values apply to:`
+        )
+      );
+      for (const issue of effective.project.issues) {
+        console.log(chalk.yellow(`  • ${formatPolicyIssue(issue, projectPolicyLabel)}`));
+      }
+    }
+    printRejectedPolicyOverrides(workspacePath, effective);
     console.log(chalk.gray('Examples:'));
     console.log(chalk.gray('  npx rapidkit workspace policy set mode strict'));
     console.log(
@@ -2506,16 +3141,98 @@ async function handleWorkspacePolicyCommand(
     return 0;
   }
 
-  if (action !== 'set') {
-    console.log(chalk.red(`Unknown workspace policy action: ${subaction || ''}`));
-    console.log(chalk.gray('Available: show, set'));
-    return 1;
-  }
+  if (action === 'diff') {
+    const ref = key?.trim();
+    let baseContent: string | null = defaultWorkspacePolicyYaml();
+    let baseLabel = 'defaults';
+    if (ref) {
+      const atRef = await readWorkspacePolicyAtRef(workspacePath, ref);
+      if (!atRef.ok) {
+        console.log(chalk.red(`❌ ${atRef.error}`));
+        return 1;
+      }
+      baseContent = atRef.content;
+      baseLabel = atRef.content === null ? `${ref} (file missing, defaults)` : ref;
+    }
 
-  if (!key || typeof value === 'undefined') {
-    console.log(chalk.yellow('Usage: rapidkit workspace policy set <key> <value>'));
-    console.log(chalk.gray('Allowed keys:'));
-    console.log(chalk.gray('  mode (warn|strict)'));
+    const rawPolicy = await readWorkspacePolicyFile(workspacePath);
+    const base = parseWorkspacePolicy(baseContent ?? defaultWorkspacePolicyYaml());
+    const current = parseWorkspacePolicy(rawPolicy);
+    const changes = diffWorkspacePolicies(base.policy, current.policy);
+
+    if (options.json) {
+      process.stdout.write(
+        `${JSON.stringify(
+          {
+            base: ref ?? 'defaults',
+            baseExists: baseContent !== null,
+            file: policyPath,
+            changes,
+            issues: current.issues,
+          },
+          null,
+          2
+        )}\n`
+      );
+      return 0;
+    }
+
+    console.log(chalk.cyan(`Policy diff: ${baseLabel} → ${policyPath}`));
+    if (changes.length === 0) {
+      console.log(chalk.gray(`  No differences from ${ref ?? 'defaults'}.`));
+    }
+    for (const change of changes) {
+      if (change.change === 'added') {
+        console.log(chalk.green(`  + ${change.key}: ${String(change.to)}`));
+      } else if (change.change === 'removed') {
+        console.log(chalk.red(`  - ${change.key}: ${String(change.from)}`));
+      } else {
+        console.log(
+          chalk.yellow(`  ~ ${change.key}: ${String(change.from)} → ${String(change.to)}`)
+        );
+      }
+    }
+    for (const issue of current.issues) {
+      console.log(chalk.yellow(`  ⚠️  ${formatPolicyIssue(issue)}`));
+    }
+    return 0;
+  }
+
+  if (action === 'audit' || action === 'log') {
+    const filterKey = key?.trim();
+    const entries = (await readPolicyAuditLog(workspacePath)).filter(
+      (entry) => !filterKey || entry.key === filterKey
+    );
+
+    if (options.json) {
+      process.stdout.write(`${JSON.stringify({ entries }, null, 2)}\n`);
+      return 0;
+    }
+
+    console.log(chalk.cyan(`Policy audit log: ${getPolicyAuditLogPath(workspacePath)}`));
+    if (entries.length === 0) {
+      console.log(chalk.gray('  No recorded policy changes.'));
+    }
+    for (const entry of entries) {
+      console.log(
+        chalk.gray(
+          `  ${entry.timestamp}  ${entry.actor}  ${entry.key}: ${String(entry.old_value)} → ${String(entry.new_value)}`
+        )
+      );
+    }
+    return 0;
+  }
+
+  if (action !== 'set') {
+    console.log(chalk.red(`Unknown workspace policy action: ${subaction || ''}`));
+    console.log(chalk.gray('Available: show, set, diff, audit'));
+    return 1;
+  }
+
+  if (!key || typeof value === 'undefined') {
+    console.log(chalk.yellow('Usage: rapidkit workspace policy set <key> <value>'));
+    console.log(chalk.gray('Allowed keys:'));
+    console.log(chalk.gray('  mode (warn|strict)'));
     console.log(
       chalk.gray('  dependency_sharing_mode (isolated|shared-runtime-caches|shared-node-deps)')
     );
@@ -2528,8 +3245,7 @@ async function handleWorkspacePolicyCommand(
   }
 
   const normalizedKey = key.trim();
-  const rawPolicy = await readWorkspacePolicyFile(workspacePath);
-  let nextPolicy = rawPolicy;
+  let nextValue: string | boolean;
 
   if (normalizedKey === 'mode') {
     const normalizedMode = value.trim().toLowerCase();
@@ -2537,18 +3253,10 @@ async function handleWorkspacePolicyCommand(
       console.log(chalk.red('❌ Invalid mode. Use: warn | strict'));
       return 1;
     }
-    nextPolicy = replaceOrInsertTopLevelPolicyLine(
-      nextPolicy,
-      'mode',
-      `${normalizedMode} # "warn" or "strict"`
-    );
+    nextValue = normalizedMode;
   } else if (normalizedKey === 'dependency_sharing_mode') {
     const normalizedMode = value.trim().toLowerCase();
-    if (
-      normalizedMode !== 'isolated' &&
-      normalizedMode !== 'shared-runtime-caches' &&
-      normalizedMode !== 'shared-node-deps'
-    ) {
+    if (!isDependencySharingMode(normalizedMode)) {
       console.log(
         chalk.red(
           '❌ Invalid dependency_sharing_mode. Use: isolated | shared-runtime-caches | shared-node-deps'
@@ -2556,11 +3264,7 @@ async function handleWorkspacePolicyCommand(
       );
       return 1;
     }
-    nextPolicy = replaceOrInsertTopLevelPolicyLine(
-      nextPolicy,
-      'dependency_sharing_mode',
-      `${normalizedMode} # "isolated" or "shared-runtime-caches" or "shared-node-deps"`
-    );
+    nextValue = normalizedMode;
   } else if (normalizedKey.startsWith('rules.')) {
     const ruleKey = normalizedKey.slice('rules.'.length) as WorkspacePolicyRuleKey;
     if (!(ruleKey in WORKSPACE_POLICY_RULE_DEFAULTS)) {
@@ -2572,26 +3276,589 @@ async function handleWorkspacePolicyCommand(
       console.log(chalk.red('❌ Rule values must be boolean: true | false'));
       return 1;
     }
-    nextPolicy = replaceOrInsertRulePolicyLine(nextPolicy, ruleKey, parsedBool);
+    nextValue = parsedBool;
   } else {
     console.log(chalk.red(`❌ Unknown policy key: ${normalizedKey}`));
     return 1;
   }
 
+  const rawPolicy = await readWorkspacePolicyFile(workspacePath);
+  let nextPolicy: string;
+  try {
+    nextPolicy = setWorkspacePolicyValue(rawPolicy, normalizedKey, nextValue);
+  } catch (error) {
+    if (error instanceof RapidKitError) {
+      console.log(chalk.red(`❌ ${error.message}`));
+      if (error.details) console.log(chalk.gray(error.details));
+      return 1;
+    }
+    throw error;
+  }
+
   await writeWorkspacePolicyFile(workspacePath, nextPolicy);
-  const updated = parseWorkspacePolicy(nextPolicy);
+  const { policy: updated, issues } = parseWorkspacePolicy(nextPolicy);
+
+  const previousValue = flattenWorkspacePolicy(parseWorkspacePolicy(rawPolicy).policy)[
+    normalizedKey
+  ];
+  if (previousValue !== nextValue) {
+    try {
+      await appendPolicyAuditEntry(workspacePath, {
+        timestamp: new Date().toISOString(),
+        actor: await resolvePolicyActor(workspacePath),
+        command: `workspace policy set ${normalizedKey} ${String(nextValue)}`,
+        file: path.relative(workspacePath, policyPath),
+        key: normalizedKey,
+        old_value: previousValue ?? null,
+        new_value: nextValue,
+        policy_hash: hashWorkspacePolicy(updated),
+      });
+    } catch (error) {
+      console.log(
+        chalk.yellow(`⚠️  Could not write policy audit log: ${(error as Error).message}`)
+      );
+    }
+  }
   console.log(chalk.green(`✅ Updated ${normalizedKey} in .rapidkit/policies.yml`));
   console.log(chalk.gray(`  mode: ${updated.mode}`));
   console.log(chalk.gray(`  dependency_sharing_mode: ${updated.dependency_sharing_mode}`));
+  for (const issue of issues) {
+    console.log(chalk.yellow(`  ⚠️  ${formatPolicyIssue(issue)}`));
+  }
   console.log(chalk.gray('  Tip: run `npx rapidkit workspace policy show` to inspect all values.'));
   return 0;
 }
 
+async function handleMirrorGcCommand(
+  workspacePath: string | null,
+  options: { jsonMode: boolean; dryRun: boolean }
+): Promise<number> {
+  // The store is user-level, so gc also works outside a workspace; inside one,
+  // honor its configured store.path.
+  let configuredStorePath: string | undefined;
+  if (workspacePath) {
+    try {
+      const config = JSON.parse(
+        await fs.promises.readFile(
+          path.join(workspacePath, '.rapidkit', 'mirror-config.json'),
+          'utf-8'
+        )
+      ) as { store?: { path?: string } };
+      configuredStorePath = config.store?.path;
+    } catch {
+      // No or invalid mirror config: use the default store location.
+    }
+  }
+
+  const result = await collectMirrorStoreGarbage(getMirrorStoreRoot(configuredStorePath), {
+    dryRun: options.dryRun,
+  });
+  const blocked = result.unreadableLocks.length > 0;
+  const payload = {
+    command: 'mirror',
+    action: 'gc',
+    result: blocked ? 'failed' : 'ok',
+    timestamp: new Date().toISOString(),
+    store: result,
+  };
+
+  if (options.jsonMode) {
+    process.stdout.write(`${JSON.stringify(payload, null, 2)}\n`);
+    return blocked ? 1 : 0;
+  }
+
+  console.log(chalk.cyan(`Mirror store: ${result.root}`));
+  console.log(
+    chalk.gray(
+      `Workspaces: ${result.workspaces.length} registered` +
+        (result.forgottenWorkspaces.length > 0
+          ? `, ${result.forgottenWorkspaces.length} missing ${options.dryRun ? 'would be forgotten' : 'forgotten'}`
+          : '')
+    )
+  );
+  if (blocked) {
+    console.log(chalk.red('❌ Mirror gc aborted: cannot read mirror.lock for'));
+    for (const lockPath of result.unreadableLocks) {
+      console.log(chalk.gray(`- ${lockPath}`));
+    }
+    return 1;
+  }
+
+  const verb = options.dryRun ? 'Would remove' : 'Removed';
+  console.log(
+    chalk.green(
+      `✅ ${verb} ${result.removedBlobs.length} of ${result.scannedBlobs} blob(s), ${formatCacheBytes(result.freedBytes)} ${options.dryRun ? 'reclaimable' : 'freed'}. ${result.referencedBlobs} still referenced.`
+    )
+  );
+  return 0;
+}
+
+function printKitFileChanges(files: KitUpgradeFile[]): void {
+  const marks: Record<string, string> = {
+    updated: chalk.green('updated '),
+    added: chalk.green('added   '),
+    removed: chalk.yellow('removed '),
+    merged: chalk.green('merged  '),
+    conflict: chalk.red('conflict'),
+    kept: chalk.gray('kept    '),
+  };
+  for (const file of files) {
+    console.log(
+      `  ${marks[file.status]} ${file.path}${file.reason ? chalk.gray(` (${file.reason})`) : ''}`
+    );
+  }
+}
+
+export async function handleUpgradeKitCommand(args: string[]): Promise<number> {
+  const jsonMode = args.includes('--json');
+  const dryRun = args.includes('--dry-run');
+  const kitName = readFlagValue(args, '--kit');
+  const projectPath = await findKitProjectRoot(process.cwd());
+
+  if (!projectPath) {
+    console.log(chalk.red('❌ Not inside a RapidKit project'));
+    console.log(chalk.gray('💡 Run this command from a project generated by `rapidkit create`'));
+    return 1;
+  }
+
+  let upgrade: KitUpgradeResult;
+  try {
+    upgrade = await upgradeKitProject(projectPath, {
+      kitName,
+      dryRun,
+      allowNoBaseline: args.includes('--no-baseline'),
+    });
+  } catch (error) {
+    if (!(error instanceof RapidKitError)) throw error;
+    if (jsonMode) {
+      const payload = {
+        command: 'upgrade-kit',
+        result: 'failed',
+        timestamp: new Date().toISOString(),
+        error: { code: error.code, message: error.message, details: error.details },
+      };
+      process.stdout.write(`${JSON.stringify(payload, null, 2)}\n`);
+    } else {
+      console.log(chalk.red(`❌ ${error.message}`));
+      if (error.details) console.log(chalk.gray(error.details));
+    }
+    return 1;
+  }
+
+  const conflicted = upgrade.conflicts.length > 0;
+  if (jsonMode) {
+    const payload = {
+      command: 'upgrade-kit',
+      result: conflicted ? 'conflicts' : 'ok',
+      timestamp: new Date().toISOString(),
+      upgrade,
+    };
+    process.stdout.write(`${JSON.stringify(payload, null, 2)}\n`);
+    return conflicted ? 1 : 0;
+  }
+
+  console.log(
+    chalk.cyan(
+      `Kit ${upgrade.kit_name}: ${upgrade.from_version ?? 'unknown version'} → ${upgrade.to_version}`
+    )
+  );
+  if (upgrade.baseline === 'git') {
+    console.log(chalk.gray('No kit baseline recorded; merging against the first git commit.'));
+  } else if (upgrade.baseline === 'none') {
+    console.log(
+      chalk.yellow(
+        '⚠️  No kit baseline recorded; every locally changed file is a conflict against an empty ancestor.'
+      )
+    );
+  }
+
+  printKitFileChanges(upgrade.files);
+
+  if (upgrade.files.length === 0) {
+    console.log(chalk.green('✅ Project already matches the kit'));
+  } else if (dryRun) {
+    console.log(chalk.gray(`Dry run: ${upgrade.files.length} file(s) would change.`));
+  } else if (conflicted) {
+    console.log(
+      chalk.red(
+        `❌ ${upgrade.conflicts.length} conflict(s): resolve the <<<<<<< project / >>>>>>> kit markers and commit.`
+      )
+    );
+  } else {
+    console.log(chalk.green(`✅ Upgraded ${upgrade.files.length} file(s)`));
+  }
+  return conflicted ? 1 : 0;
+}
+
+/**
+ * `rapidkit run <test|build|lint> --all|--filter <glob>|--changed-since <ref>`
+ * from anywhere in a workspace: runs the command in each selected project.
+ */
+export async function handleRunCommand(args: string[]): Promise<number> {
+  const action = args[1];
+  const jsonMode = args.includes('--json');
+  const all = args.includes('--all');
+  const filter = readFlagValue(args, '--filter');
+  const changedSince = readFlagValue(args, '--changed-since');
+  const concurrencyFlag = readFlagValue(args, '--concurrency');
+  const concurrency = concurrencyFlag ? Number(concurrencyFlag) : defaultWorkspaceConcurrency();
+
+  if (!isWorkspaceRunAction(action) || (!all && !filter && !changedSince)) {
+    console.log(
+      chalk.red(
+        `Usage: rapidkit run <${WORKSPACE_RUN_ACTIONS.join('|')}> --all | --filter <glob> | --changed-since <git-ref> [--concurrency <n>] [--json]`
+      )
+    );
+    return 1;
+  }
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    console.log(
+      chalk.red(`❌ --concurrency must be a positive integer (got "${concurrencyFlag}")`)
+    );
+    return 1;
+  }
+
+  const workspacePath = findWorkspaceUp(process.cwd());
+  if (!workspacePath) {
+    console.log(chalk.red('❌ Not inside a RapidKit workspace'));
+    console.log(chalk.gray('💡 Run this command from within a workspace directory'));
+    return 1;
+  }
+
+  const projectPaths = await collectWorkspaceProjects(workspacePath);
+  const { projects, unchecked } = await selectWorkspaceProjects(workspacePath, projectPaths, {
+    filter,
+    changedSince,
+  });
+  let dependencies: Record<string, string[]>;
+  try {
+    dependencies = readTaskGraph(
+      workspacePath,
+      projects.map((project) => project.path)
+    );
+  } catch (error) {
+    if (!(error instanceof TaskCacheError)) throw error;
+    console.log(chalk.red(`❌ ${error.message}`));
+    return 1;
+  }
+  // Project output goes to stderr in JSON mode so stdout stays parseable.
+  const log = (line: string) => (jsonMode ? process.stderr.write(`${line}\n`) : console.log(line));
+
+  for (const name of unchecked) {
+    log(chalk.yellow(`⚠️  Could not compare ${name} with ${changedSince}; running it anyway`));
+  }
+  if (projects.length > 0) {
+    log(
+      chalk.cyan(
+        `▶ rapidkit ${action} in ${projects.length} project(s), ${Math.min(concurrency, projects.length)} at a time`
+      )
+    );
+  }
+
+  const palette = [chalk.cyan, chalk.magenta, chalk.yellow, chalk.blue, chalk.green];
+  const width = Math.max(0, ...projects.map((project) => project.name.length));
+  const started = Date.now();
+  const results = await runWorkspaceTask(projects, action, {
+    concurrency,
+    dependencies,
+    runner: cliTaskRunner(process.argv[1], { color: !jsonMode && chalk.level > 0 }),
+    onLine: (project, _stream, line) => {
+      const color = palette[projects.indexOf(project) % palette.length];
+      log(`${color(project.name.padEnd(width))} │ ${line}`);
+    },
+  });
+
+  const failed = results.filter((result) => result.status === 'failed');
+  const skipped = results.filter((result) => result.status === 'skipped');
+  const ok = failed.length === 0 && skipped.length === 0;
+  const report = {
+    command: 'run',
+    action,
+    result: ok ? 'ok' : 'failed',
+    timestamp: new Date().toISOString(),
+    workspace: workspacePath,
+    selection: { all, filter: filter ?? null, changed_since: changedSince ?? null },
+    concurrency,
+    summary: {
+      total: results.length,
+      passed: results.length - failed.length - skipped.length,
+      failed: failed.length,
+      skipped: skipped.length,
+      duration_ms: Date.now() - started,
+    },
+    projects: results,
+  };
+
+  const reportsDir = path.join(workspacePath, '.rapidkit', 'reports');
+  const reportTimestamp = report.timestamp.replace(/[:.]/g, '-');
+  const reportPath = path.join(reportsDir, `run-${action}-${reportTimestamp}.json`);
+  await writeJsonFile(reportPath, report);
+  await writeJsonFile(path.join(reportsDir, `run-${action}.latest.json`), report);
+
+  if (jsonMode) {
+    process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+    return ok ? 0 : 1;
+  }
+
+  if (results.length === 0) {
+    console.log(chalk.gray('No projects selected; nothing to run.'));
+    return 0;
+  }
+
+  const nameWidth = Math.max('Project'.length, width);
+  console.log('');
+  console.log(chalk.bold(`${'Project'.padEnd(nameWidth)}  ${'Runtime'.padEnd(8)}  Status   Time`));
+  for (const result of results) {
+    const status = (
+      result.status === 'passed'
+        ? chalk.green
+        : result.status === 'skipped'
+          ? chalk.yellow
+          : chalk.red
+    )(result.status.padEnd(7));
+    console.log(
+      `${result.project.padEnd(nameWidth)}  ${result.runtime.padEnd(8)}  ${status}  ${(result.duration_ms / 1000).toFixed(1)}s`
+    );
+  }
+  console.log('');
+  if (ok) {
+    console.log(chalk.green(`✅ ${action} passed in ${results.length} project(s)`));
+  } else {
+    console.log(chalk.red(`❌ ${failed.length} of ${results.length} project(s) failed ${action}`));
+    if (skipped.length > 0) {
+      console.log(chalk.yellow(`   ${skipped.length} skipped because a dependency did not pass`));
+    }
+  }
+  console.log(chalk.gray(`Report: ${path.relative(process.cwd(), reportPath) || reportPath}`));
+  return ok ? 0 : 1;
+}
+
+/** `dev --all` / `dev --filter <glob>` starts workspace services instead of one project. */
+function isWorkspaceDevCommand(args: string[]): boolean {
+  return args[0] === 'dev' && (args.includes('--all') || !!readFlagValue(args, '--filter'));
+}
+
+/**
+ * `rapidkit dev --all|--filter <glob>` from anywhere in a workspace: starts the
+ * dev server of every service, each on its own port, and keeps them running
+ * until Ctrl-C.
+ */
+export async function handleDevAllCommand(args: string[]): Promise<number> {
+  const filter = readFlagValue(args, '--filter');
+  const readyTimeoutFlag = readFlagValue(args, '--ready-timeout');
+  const readyTimeout = readyTimeoutFlag ? Number(readyTimeoutFlag) : 120;
+  if (!Number.isFinite(readyTimeout) || readyTimeout <= 0) {
+    console.log(
+      chalk.red(
+        `❌ --ready-timeout must be a positive number of seconds (got "${readyTimeoutFlag}")`
+      )
+    );
+    return 1;
+  }
+
+  const workspacePath = findWorkspaceUp(process.cwd());
+  if (!workspacePath) {
+    console.log(chalk.red('❌ Not inside a RapidKit workspace'));
+    console.log(chalk.gray('💡 Run this command from within a workspace directory'));
+    return 1;
+  }
+
+  let services: DevService[];
+  try {
+    const config = await loadDevServiceConfig(workspacePath);
+    const { projects } = await selectWorkspaceProjects(
+      workspacePath,
+      await collectWorkspaceProjects(workspacePath)
+    );
+    const selected = selectDevProjects(projects, config).filter(
+      (project) => !filter || matchesProjectFilter(project.name, filter)
+    );
+    services = await planDevServices(selected, config);
+  } catch (error) {
+    if (!(error instanceof WorkspaceDevError)) throw error;
+    console.log(chalk.red(`❌ ${error.message}`));
+    return 1;
+  }
+
+  if (services.length === 0) {
+    console.log(chalk.gray('No services selected; nothing to start.'));
+    return 0;
+  }
+
+  const width = Math.max('Service'.length, ...services.map((service) => service.name.length));
+  console.log(chalk.bold(`${'Service'.padEnd(width)}  ${'Runtime'.padEnd(8)}  Port   Health`));
+  for (const service of services) {
+    console.log(
+      `${service.name.padEnd(width)}  ${service.runtime.padEnd(8)}  ${String(service.port).padEnd(5)}  ${service.healthPath ?? chalk.gray('-')}`
+    );
+  }
+  console.log('');
+
+  const palette = [chalk.cyan, chalk.magenta, chalk.yellow, chalk.blue, chalk.green];
+  const label = (name: string) => {
+    const index = services.findIndex((service) => service.name === name);
+    return palette[index % palette.length](name.padEnd(width));
+  };
+  const describeStatus = (state: DevServiceState): string | null => {
+    const { service } = state;
+    switch (state.status) {
+      case 'ready':
+      case 'running':
+        return chalk.green(`✅ ready on http://localhost:${service.port}`);
+      case 'unhealthy':
+        return chalk.yellow(
+          `⚠️  ${healthUrl(service)} did not answer within ${readyTimeout}s; still running`
+        );
+      case 'restarting':
+        return chalk.yellow(
+          `↻ exited with code ${state.exit_code}; restarting (restart ${state.restarts})`
+        );
+      case 'failed':
+        return chalk.red(`❌ exited with code ${state.exit_code}; not restarting`);
+      case 'exited':
+        return chalk.gray('exited');
+      default:
+        return null;
+    }
+  };
+
+  const supervisor = superviseDevServices(services, {
+    readyTimeoutMs: readyTimeout * 1000,
+    color: chalk.level > 0,
+    onLine: (service, _stream, line) => console.log(`${label(service.name)} │ ${line}`),
+    onStatus: (state) => {
+      const message = describeStatus(state);
+      if (message) console.log(`${label(state.service.name)} │ ${message}`);
+    },
+  });
+  interruptCleanup = async () => {
+    console.log(chalk.gray(`Stopping ${services.length} service(s)...`));
+    await supervisor.stop();
+  };
+
+  void supervisor.ready.then((ready) => {
+    if (ready) {
+      console.log(
+        chalk.green(`\n✅ All ${services.length} service(s) ready. Press Ctrl-C to stop.\n`)
+      );
+    }
+  });
+
+  await supervisor.done;
+  // Stopped by Ctrl-C / SIGTERM: the signal handler exits with its own code.
+  if (cleanupInProgress) await new Promise<never>(() => {});
+  interruptCleanup = null;
+  return supervisor.states.some((state) => state.status === 'failed') ? 1 : 0;
+}
+
+/** `rapidkit add module <id...>` / `rapidkit module add <id...>` inside a Go project. */
+export async function handleGoModuleAddCommand(args: string[]): Promise<number> {
+  const jsonMode = args.includes('--json');
+  const dryRun = args.includes('--dry-run');
+  const ids = args
+    .slice(args[0] === 'module' ? 2 : 1)
+    .filter((arg) => !arg.startsWith('--'))
+    .filter((arg, index) => !(index === 0 && arg === 'module'));
+  const projectPath = (await findKitProjectRoot(process.cwd())) ?? process.cwd();
+
+  if (ids.length === 0) {
+    const installed = installedGoModules(readRapidkitProjectJson(projectPath));
+    const modules = listGoModules().map((m) => ({ ...m, installed: installed.includes(m.id) }));
+    if (jsonMode) {
+      const payload = {
+        command: 'add',
+        action: 'module',
+        result: 'ok',
+        timestamp: new Date().toISOString(),
+        modules,
+      };
+      process.stdout.write(`${JSON.stringify(payload, null, 2)}\n`);
+      return 0;
+    }
+    console.log(chalk.cyan('Go modules:'));
+    for (const m of modules) {
+      const mark = m.installed ? chalk.green('✔') : ' ';
+      console.log(`  ${mark} ${m.id.padEnd(12)} ${chalk.gray(m.description)}`);
+    }
+    console.log(chalk.gray('\nAdd one with: rapidkit add module <id>'));
+    return 0;
+  }
+
+  const added: GoModuleAddResult[] = [];
+  for (const id of ids) {
+    try {
+      added.push(await addGoModule(projectPath, id, { dryRun }));
+    } catch (error) {
+      if (!(error instanceof RapidKitError)) throw error;
+      if (jsonMode) {
+        const payload = {
+          command: 'add',
+          action: 'module',
+          result: 'failed',
+          timestamp: new Date().toISOString(),
+          modules: added,
+          error: { code: error.code, message: error.message, details: error.details },
+        };
+        process.stdout.write(`${JSON.stringify(payload, null, 2)}\n`);
+      } else {
+        console.log(chalk.red(`❌ ${error.message}`));
+        if (error.details) console.log(chalk.gray(error.details));
+      }
+      return 1;
+    }
+  }
+
+  const conflicts = added.flatMap((m) => m.conflicts);
+  if (jsonMode) {
+    const payload = {
+      command: 'add',
+      action: 'module',
+      result: conflicts.length > 0 ? 'conflicts' : 'ok',
+      timestamp: new Date().toISOString(),
+      modules: added,
+    };
+    process.stdout.write(`${JSON.stringify(payload, null, 2)}\n`);
+    return conflicts.length > 0 ? 1 : 0;
+  }
+
+  for (const module of added) {
+    console.log(chalk.cyan(`Module ${module.module} (${module.kit_name})`));
+    printKitFileChanges(module.files);
+    if (module.files.length === 0) {
+      console.log(chalk.green(`✅ Module ${module.module} is already installed`));
+    } else if (dryRun) {
+      console.log(chalk.gray(`Dry run: ${module.files.length} file(s) would change.`));
+    } else if (module.conflicts.length === 0) {
+      console.log(chalk.green(`✅ Added module ${module.module}`));
+    }
+  }
+
+  if (conflicts.length > 0) {
+    console.log(
+      chalk.red(
+        `❌ ${conflicts.length} conflict(s): resolve the <<<<<<< project / >>>>>>> kit markers and commit.`
+      )
+    );
+    return 1;
+  }
+  if (!dryRun && added.some((m) => m.files.length > 0)) {
+    console.log(chalk.gray('💡 Run `go mod tidy` to fetch the new dependencies.'));
+  }
+  return 0;
+}
+
 export async function handleMirrorCommand(args: string[]): Promise<number> {
   const action = (args[1] || 'status').toLowerCase();
   const jsonMode = args.includes('--json');
   const workspacePath = findWorkspaceUp(process.cwd());
 
+  if (action === 'gc') {
+    return handleMirrorGcCommand(workspacePath, {
+      jsonMode,
+      dryRun: args.includes('--dry-run'),
+    });
+  }
+
   if (!workspacePath) {
     console.log(chalk.red('❌ Not inside a RapidKit workspace'));
     console.log(chalk.gray('💡 Run this command from within a workspace directory'));
@@ -2641,43 +3908,335 @@ export async function handleMirrorCommand(args: string[]): Promise<number> {
         /* non-fatal */
       }
     }
-    // Re-read after potential auto-create so the display reflects the actual state
-    const configNowExists = await fsExtra.pathExists(mirrorConfigPath);
+    // Re-read after potential auto-create so the display reflects the actual state
+    const configNowExists = await fsExtra.pathExists(mirrorConfigPath);
+
+    const artifactsExists = await fsExtra.pathExists(artifactsDir);
+    const lockExists = await fsExtra.pathExists(mirrorLockPath);
+    const artifactsCount = artifactsExists
+      ? (await fs.promises.readdir(artifactsDir, { withFileTypes: true })).filter((e) => e.isFile())
+          .length
+      : 0;
+
+    const statusPayload = {
+      command: 'mirror',
+      action,
+      result: 'ok',
+      timestamp: new Date().toISOString(),
+      workspacePath,
+      mirror: {
+        configExists: configNowExists,
+        lockExists,
+        artifactsCount,
+      },
+    };
+
+    await writeMirrorReport(statusPayload);
+
+    if (jsonMode) {
+      process.stdout.write(`${JSON.stringify(statusPayload, null, 2)}\n`);
+      return 0;
+    }
+
+    console.log(chalk.cyan('RapidKit mirror status'));
+    console.log(chalk.gray(`Workspace: ${workspacePath}`));
+    console.log(
+      chalk.gray(`Config: ${configNowExists ? 'present' : 'missing'} (${mirrorConfigPath})`)
+    );
+    console.log(chalk.gray(`Lock: ${lockExists ? 'present' : 'missing'} (${mirrorLockPath})`));
+    console.log(chalk.gray(`Artifacts: ${artifactsCount}`));
+    return 0;
+  }
+
+  if (action === 'add') {
+    const reference = args[2];
+    if (!reference || reference.startsWith('--')) {
+      console.log(
+        chalk.yellow(
+          'Usage: rapidkit mirror add <url|path> [--id <id>] [--target <file>] [--required] [--pin] [--json]'
+        )
+      );
+      return 1;
+    }
+    const result = await addMirrorArtifact(workspacePath, reference, {
+      id: readFlagValue(args, '--id'),
+      target: readFlagValue(args, '--target'),
+      required: args.includes('--required'),
+      pin: args.includes('--pin'),
+    });
+    const payload = {
+      command: 'mirror',
+      action,
+      result: result.ok ? 'ok' : 'failed',
+      timestamp: new Date().toISOString(),
+      workspacePath,
+      ...(result.ok
+        ? { artifact: result.artifact, sha256: result.sha256 }
+        : { error: result.error }),
+    };
+    await writeMirrorReport(payload);
+
+    if (jsonMode) {
+      process.stdout.write(`${JSON.stringify(payload, null, 2)}\n`);
+      return result.ok ? 0 : 1;
+    }
+    if (!result.ok) {
+      console.log(chalk.red(`❌ ${result.error}`));
+      return 1;
+    }
+    console.log(chalk.green(`✅ Added mirror artifact ${result.artifact.id}.`));
+    console.log(
+      chalk.gray(`  sha256: ${result.sha256}${result.artifact.sha256 ? ' (pinned)' : ''}`)
+    );
+    console.log(chalk.gray(`  Mirrored to: ${path.relative(workspacePath, result.targetPath)}`));
+    if (!result.artifact.sha256) {
+      console.log(chalk.gray('  Tip: re-add with --pin to fail syncs when the artifact changes.'));
+    }
+    return 0;
+  }
 
-    const artifactsExists = await fsExtra.pathExists(artifactsDir);
-    const lockExists = await fsExtra.pathExists(mirrorLockPath);
-    const artifactsCount = artifactsExists
-      ? (await fs.promises.readdir(artifactsDir, { withFileTypes: true })).filter((e) => e.isFile())
-          .length
-      : 0;
+  if (action === 'remove' || action === 'rm') {
+    const id = args[2];
+    if (!id || id.startsWith('--')) {
+      console.log(chalk.yellow('Usage: rapidkit mirror remove <id> [--json]'));
+      return 1;
+    }
+    const result = await removeMirrorArtifact(workspacePath, id);
+    const payload = {
+      command: 'mirror',
+      action: 'remove',
+      result: result.ok ? 'ok' : 'failed',
+      timestamp: new Date().toISOString(),
+      workspacePath,
+      ...(result.ok ? { artifact: result.artifact } : { error: result.error }),
+    };
+    await writeMirrorReport(payload);
 
-    const statusPayload = {
+    if (jsonMode) {
+      process.stdout.write(`${JSON.stringify(payload, null, 2)}\n`);
+      return result.ok ? 0 : 1;
+    }
+    if (!result.ok) {
+      console.log(chalk.red(`❌ ${result.error}`));
+      return 1;
+    }
+    console.log(chalk.green(`✅ Removed mirror artifact ${id}.`));
+    console.log(chalk.gray('  Run `rapidkit mirror sync` to refresh mirror.lock.'));
+    return 0;
+  }
+
+  if (action === 'plan') {
+    const write = args.includes('--write');
+    const plan = await planMirrorArtifacts(
+      workspacePath,
+      await collectWorkspaceProjects(workspacePath),
+      { allFiles: args.includes('--all-files') }
+    );
+    const trustedHosts = await loadTrustedHosts(workspacePath);
+    const untrustedHosts = plan.hosts.filter((host) => !trustedHosts.has(host));
+    const merge = write
+      ? await appendMirrorArtifacts(workspacePath, toMirrorArtifacts(plan))
+      : null;
+
+    const payload = {
       command: 'mirror',
       action,
-      result: 'ok',
+      result: merge && !merge.ok ? 'failed' : 'ok',
       timestamp: new Date().toISOString(),
       workspacePath,
-      mirror: {
-        configExists: configNowExists,
-        lockExists,
-        artifactsCount,
-      },
+      plan,
+      untrustedHosts,
+      ...(merge
+        ? merge.ok
+          ? { merged: { added: merge.added, existing: merge.existing } }
+          : { error: merge.error }
+        : {}),
     };
-
-    await writeMirrorReport(statusPayload);
+    await writeMirrorReport(payload);
 
     if (jsonMode) {
-      process.stdout.write(`${JSON.stringify(statusPayload, null, 2)}\n`);
+      process.stdout.write(`${JSON.stringify(payload, null, 2)}\n`);
+      return merge && !merge.ok ? 1 : 0;
+    }
+
+    if (plan.sources.length === 0) {
+      console.log(
+        chalk.yellow(
+          'No lockfiles found in workspace projects (poetry.lock, package-lock.json, pnpm-lock.yaml, yarn.lock, go.sum).'
+        )
+      );
       return 0;
     }
+    console.log(chalk.cyan('RapidKit mirror plan'));
+    for (const source of plan.sources) {
+      console.log(
+        chalk.gray(`  ${path.join(source.project, source.lockfile)}: ${source.packages} package(s)`)
+      );
+    }
+    const pinned = plan.artifacts.filter((a) => a.sha256 || a.integrity).length;
+    console.log(
+      chalk.white(
+        `Proposed artifacts: ${plan.artifacts.length} (${pinned} with lockfile hashes, ${plan.artifacts.length - pinned} unpinned)`
+      )
+    );
+    if (plan.skipped.length > 0) {
+      console.log(chalk.yellow(`Skipped: ${plan.skipped.length}`));
+      for (const skip of plan.skipped.slice(0, 10)) {
+        console.log(
+          chalk.gray(
+            `  ${path.join(skip.project, skip.lockfile)}${skip.package ? ` ${skip.package}` : ''}: ${skip.reason}`
+          )
+        );
+      }
+      if (plan.skipped.length > 10) {
+        console.log(chalk.gray(`  … and ${plan.skipped.length - 10} more (see --json)`));
+      }
+    }
+    if (untrustedHosts.length > 0) {
+      console.log(
+        chalk.yellow(
+          `Hosts not in .rapidkit/trusted-sources.lock: ${untrustedHosts.join(', ')} (sync will refuse them until trusted)`
+        )
+      );
+    }
 
-    console.log(chalk.cyan('RapidKit mirror status'));
-    console.log(chalk.gray(`Workspace: ${workspacePath}`));
+    if (!merge) {
+      console.log(
+        chalk.gray('Run `rapidkit mirror plan --write` to merge into mirror-config.json.')
+      );
+      return 0;
+    }
+    if (!merge.ok) {
+      console.log(chalk.red(`❌ ${merge.error}`));
+      return 1;
+    }
     console.log(
-      chalk.gray(`Config: ${configNowExists ? 'present' : 'missing'} (${mirrorConfigPath})`)
+      chalk.green(
+        `✅ Merged into mirror-config.json: ${merge.added.length} added, ${merge.existing.length} already present.`
+      )
     );
-    console.log(chalk.gray(`Lock: ${lockExists ? 'present' : 'missing'} (${mirrorLockPath})`));
-    console.log(chalk.gray(`Artifacts: ${artifactsCount}`));
+    return 0;
+  }
+
+  if (action === 'serve') {
+    const portValue = readFlagValue(args, '--port');
+    const port = portValue === undefined ? 7439 : Number(portValue);
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+      console.log(chalk.red(`❌ Invalid --port value: ${portValue}`));
+      return 1;
+    }
+    const host = readFlagValue(args, '--host') || '127.0.0.1';
+    const loaded = await loadMirrorArtifacts(workspacePath);
+    const mode = loaded?.mode === 'offline-only' ? 'offline-only' : 'offline-first';
+
+    let started: Awaited<ReturnType<typeof startMirrorPackageServer>>;
+    try {
+      started = await startMirrorPackageServer(workspacePath, {
+        host,
+        port,
+        upstreamFallback: mode === 'offline-first',
+      });
+    } catch (error) {
+      console.log(chalk.red(`❌ Could not start mirror server: ${(error as Error).message}`));
+      return 1;
+    }
+    const env = getMirrorPackageEnv(started.url, mode);
+
+    if (jsonMode) {
+      process.stdout.write(
+        `${JSON.stringify(
+          {
+            command: 'mirror',
+            action,
+            result: 'ok',
+            timestamp: new Date().toISOString(),
+            workspacePath,
+            url: started.url,
+            mode,
+            env,
+          },
+          null,
+          2
+        )}\n`
+      );
+    } else {
+      console.log(chalk.cyan(`RapidKit mirror serving ${started.url} (${mode})`));
+      console.log(chalk.gray(`  PyPI simple index: ${started.url}/pypi/simple/`));
+      console.log(chalk.gray(`  npm registry:      ${started.url}/npm/`));
+      console.log(chalk.gray(`  GOPROXY:           ${started.url}/go`));
+      console.log(chalk.white('Point other shells at it with:'));
+      for (const [key, value] of Object.entries(env)) {
+        console.log(chalk.gray(`  export ${key}=${value}`));
+      }
+      console.log(chalk.white('Poetry projects need it as a source:'));
+      console.log(
+        chalk.gray(
+          `  poetry source add --priority=primary rapidkit-mirror ${started.url}/pypi/simple/`
+        )
+      );
+      console.log(chalk.gray('Press Ctrl+C to stop.'));
+    }
+
+    await new Promise<void>((resolve) => {
+      const stop = () => {
+        process.off('SIGINT', stop);
+        process.off('SIGTERM', stop);
+        started.server.close(() => resolve());
+      };
+      process.once('SIGINT', stop);
+      process.once('SIGTERM', stop);
+    });
+    return 0;
+  }
+
+  if (action === 'list' || action === 'ls') {
+    const result = await listMirrorArtifacts(workspacePath);
+    if (jsonMode) {
+      process.stdout.write(
+        `${JSON.stringify(
+          {
+            command: 'mirror',
+            action: 'list',
+            result: result.ok ? 'ok' : 'failed',
+            timestamp: new Date().toISOString(),
+            workspacePath,
+            ...(result.ok ? { artifacts: result.artifacts } : { error: result.error }),
+          },
+          null,
+          2
+        )}\n`
+      );
+      return result.ok ? 0 : 1;
+    }
+    if (!result.ok) {
+      console.log(chalk.red(`❌ ${result.error}`));
+      return 1;
+    }
+    if (result.artifacts.length === 0) {
+      console.log(
+        chalk.gray('No mirror artifacts configured. Add one with `rapidkit mirror add`.')
+      );
+      return 0;
+    }
+    const statusColor = {
+      locked: chalk.green,
+      unlocked: chalk.yellow,
+      missing: chalk.red,
+      modified: chalk.red,
+      mismatch: chalk.red,
+    } as const;
+    console.log(chalk.cyan(`Mirror artifacts (${result.artifacts.length})`));
+    for (const artifact of result.artifacts) {
+      const flags = [
+        artifact.required ? 'required' : null,
+        artifact.pinnedSha256 ? 'pinned' : null,
+      ].filter(Boolean);
+      console.log(
+        `  ${statusColor[artifact.status](artifact.status.padEnd(8))} ${artifact.id}` +
+          chalk.gray(` → ${artifact.target}${flags.length > 0 ? ` [${flags.join(', ')}]` : ''}`)
+      );
+      console.log(chalk.gray(`           ${artifact.url ?? artifact.source ?? 'no source'}`));
+    }
     return 0;
   }
 
@@ -2785,7 +4344,11 @@ export async function handleMirrorCommand(args: string[]): Promise<number> {
     return 0;
   }
 
-  console.log(chalk.yellow('Usage: rapidkit mirror <status|sync|verify|rotate> [--json]'));
+  console.log(
+    chalk.yellow(
+      'Usage: rapidkit mirror <status|list|add|remove|plan|serve|sync|verify|rotate|gc> [--json]'
+    )
+  );
   return 1;
 }
 
@@ -2797,6 +4360,7 @@ export async function handleInitCommand(args: string[]): Promise<number> {
 
   try {
     const cwd = process.cwd();
+    await activateRuntimePlugins(cwd);
     const lifecycle = await withWorkspaceDependencyPolicyContext(cwd, async () => {
       const workspacePathForPolicy = findWorkspaceUp(cwd);
       const pythonAdapter = getRuntimeAdapter('python', { runCommandInCwd, runCoreRapidkit });
@@ -2806,7 +4370,11 @@ export async function handleInitCommand(args: string[]): Promise<number> {
         const targetPath = path.resolve(cwd, args[1]);
         const targetJson = readRapidkitProjectJson(targetPath);
         const inferredRuntime = await inferRuntimeByFiles(targetPath);
+        const targetPlugin = detectRuntimePlugin(targetJson, targetPath);
 
+        if (targetPlugin) {
+          return await handlePluginCommand(targetPlugin, 'init', targetPath);
+        }
         if (isGoProject(targetJson, targetPath) || inferredRuntime === 'go') {
           return await handleGoInit(targetPath);
         }
@@ -2822,7 +4390,11 @@ export async function handleInitCommand(args: string[]): Promise<number> {
       // Check if cwd is a Go project
       const projectJsonNow = readRapidkitProjectJson(cwd);
       const cwdIsWorkspaceRoot = !!findWorkspaceUp(cwd) && cwd === findWorkspaceUp(cwd);
+      const cwdPlugin = cwdIsWorkspaceRoot ? null : detectRuntimePlugin(projectJsonNow, cwd);
 
+      if (cwdPlugin) {
+        return await handlePluginCommand(cwdPlugin, 'init', cwd);
+      }
       if (!cwdIsWorkspaceRoot && isGoProject(projectJsonNow, cwd)) {
         return await handleGoInit(cwd);
       }
@@ -2848,7 +4420,11 @@ export async function handleInitCommand(args: string[]): Promise<number> {
       if (projectRoot && projectRoot !== workspacePath) {
         const projectRootJson = readRapidkitProjectJson(projectRoot);
         const inferredRootRuntime = await inferRuntimeByFiles(projectRoot);
+        const rootPlugin = detectRuntimePlugin(projectRootJson, projectRoot);
 
+        if (rootPlugin) {
+          return await handlePluginCommand(rootPlugin, 'init', projectRoot);
+        }
         if (isGoProject(projectRootJson, projectRoot) || inferredRootRuntime === 'go') {
           return await handleGoInit(projectRoot);
         }
@@ -2901,7 +4477,11 @@ export async function handleInitCommand(args: string[]): Promise<number> {
 
         for (const projectPath of projectPaths) {
           const projJson = readRapidkitProjectJson(projectPath);
-          if (isGoProject(projJson, projectPath)) {
+          const projectPlugin = detectRuntimePlugin(projJson, projectPath);
+          if (projectPlugin) {
+            const code = await handlePluginCommand(projectPlugin, 'init', projectPath);
+            if (code !== 0) return code;
+          } else if (isGoProject(projJson, projectPath)) {
             const code = await handleGoInit(projectPath);
             if (code !== 0) return code;
           } else {
@@ -2952,25 +4532,61 @@ export async function handleInitCommand(args: string[]): Promise<number> {
   }
 }
 
+/** Built-in runtime of a project, whose toolchain version toolchain.lock pins. */
+function projectToolchainRuntime(
+  projectJson: ReturnType<typeof readRapidkitProjectJson>,
+  cwd: string
+): ToolchainRuntime | null {
+  if (detectRuntimePlugin(projectJson, cwd)) return null;
+  if (isGoProject(projectJson, cwd)) return 'go';
+  if (isNodeProject(projectJson, cwd)) return 'node';
+  if (isPythonProject(projectJson, cwd)) return 'python';
+  return null;
+}
+
+/** Differences between the project's active toolchain and toolchain.lock, one line each. */
+async function projectToolchainMismatches(
+  workspacePath: string,
+  cwd: string,
+  projectJson: ReturnType<typeof readRapidkitProjectJson>
+): Promise<string[]> {
+  const runtime = projectToolchainRuntime(projectJson, cwd);
+  if (!runtime) return [];
+  return (await verifyToolchains(workspacePath, [runtime]))
+    .filter((check) => !check.matches)
+    .map(formatToolchainMismatch);
+}
+
+/** Outside strict mode a toolchain that drifted from toolchain.lock is reported, not blocked. */
+async function warnToolchainMismatches(cwd: string): Promise<void> {
+  const workspacePath = findWorkspaceUp(cwd);
+  if (!workspacePath) return;
+  const effective = await loadEffectiveWorkspacePolicy(workspacePath, cwd);
+  if (effective.policy.mode === 'strict') return;
+  for (const mismatch of await projectToolchainMismatches(
+    workspacePath,
+    cwd,
+    readRapidkitProjectJson(cwd)
+  )) {
+    process.stderr.write(chalk.yellow(`⚠️  ${mismatch}`) + '\n');
+  }
+}
+
 async function checkStrictPolicyPreflightForDelegation(cwd: string): Promise<string[]> {
   const workspacePath = findWorkspaceUp(cwd);
   if (!workspacePath) return [];
 
-  // Read policy mode — skip all checks if not strict
-  let mode: 'warn' | 'strict' = 'warn';
-  try {
-    const policyRaw = await fs.promises.readFile(
-      path.join(workspacePath, '.rapidkit', 'policies.yml'),
-      'utf-8'
-    );
-    const m = policyRaw.match(/^\s*mode:\s*(warn|strict)\s*(?:#.*)?$/m);
-    if (m?.[1] === 'strict') mode = 'strict';
-  } catch {
-    return [];
-  }
-  if (mode !== 'strict') return [];
+  // Read effective (workspace + project) policy mode — skip all checks if not strict
+  const effective = await loadEffectiveWorkspacePolicy(workspacePath, cwd);
+  if (!effective.workspace.exists && !effective.project?.exists) return [];
+  if (effective.policy.mode !== 'strict') return [];
 
-  const violations: string[] = [];
+  const violations: string[] = effective.rejected.map((issue) =>
+    formatPolicyIssue(
+      issue,
+      effective.project ? path.relative(workspacePath, effective.project.filePath) : undefined
+    )
+  );
 
   // 1. toolchain.lock must exist
   const lockPath = path.join(workspacePath, '.rapidkit', 'toolchain.lock');
@@ -2986,12 +4602,15 @@ async function checkStrictPolicyPreflightForDelegation(cwd: string): Promise<str
   try {
     lock = JSON.parse(await fs.promises.readFile(lockPath, 'utf-8'));
   } catch {
-    return [];
+    return violations;
   }
   const rt = (lock.runtime ?? {}) as Record<string, { version?: string | null }>;
 
   const projectJson = readRapidkitProjectJson(cwd);
-  if (isGoProject(projectJson, cwd) && !rt.go?.version) {
+  const plugin = detectRuntimePlugin(projectJson, cwd);
+  if (plugin) {
+    violations.push(...runtimePluginPolicyViolations(plugin, { runtimes: rt }));
+  } else if (isGoProject(projectJson, cwd) && !rt.go?.version) {
     violations.push('go.version is not pinned in toolchain.lock — run `rapidkit setup go` first.');
   } else if (isNodeProject(projectJson, cwd) && !rt.node?.version) {
     violations.push(
@@ -3003,13 +4622,18 @@ async function checkStrictPolicyPreflightForDelegation(cwd: string): Promise<str
     );
   }
 
-  // 3. Workspace profile must be compatible with project type
+  // 3. The toolchain the command would run must match the pinned version
+  violations.push(...(await projectToolchainMismatches(workspacePath, cwd, projectJson)));
+
+  // 4. Workspace profile must be compatible with project type
   try {
     const wsJson = JSON.parse(
       await fs.promises.readFile(path.join(workspacePath, '.rapidkit', 'workspace.json'), 'utf-8')
     ) as { profile?: string };
     const wsProfile = wsJson.profile ?? '';
-    if (
+    if (plugin) {
+      violations.push(...runtimePluginPolicyViolations(plugin, { profile: wsProfile }));
+    } else if (
       wsProfile === 'python-only' &&
       (isGoProject(projectJson, cwd) || isNodeProject(projectJson, cwd))
     ) {
@@ -3057,16 +4681,29 @@ async function delegateToLocalCLI(): Promise<boolean> {
   const cwd = process.cwd();
   const args = process.argv.slice(2);
   const firstArg = args[0];
+  await activateRuntimePlugins(cwd);
+  // Provisioned toolchains go first on PATH for everything the command runs,
+  // including the local CLI or core it may be delegated to.
+  const toolchainWorkspace = findWorkspaceUp(cwd);
+  if (toolchainWorkspace && firstArg && TOOLCHAIN_PATH_COMMANDS.includes(firstArg)) {
+    Object.assign(process.env, toolchainPathEnv(toolchainWorkspace));
+  }
   const isInitCommand = firstArg === 'init';
-  const runtimeLifecycleCommands = new Set(['dev', 'start', 'build', 'test']);
+  const runtimeLifecycleCommands = new Set(['dev', 'start', 'build', 'test', 'lint']);
   const isHelpLike = !firstArg || firstArg === '--help' || firstArg === '-h' || firstArg === 'help';
   const isWorkspaceRoot = hasWorkspaceRootMarkers(cwd);
   const hasProjectJsonInCwd = fs.existsSync(path.join(cwd, '.rapidkit', 'project.json'));
   const cwdProjectJson = readRapidkitProjectJson(cwd);
-  const isGoOrNodeProjectInCwd =
-    isGoProject(cwdProjectJson, cwd) || isNodeProject(cwdProjectJson, cwd);
+  // Go, Node and plugin runtime projects run through their adapter on the wrapper.
+  const hasWrapperAdapterInCwd =
+    isGoProject(cwdProjectJson, cwd) ||
+    isNodeProject(cwdProjectJson, cwd) ||
+    !!detectRuntimePlugin(cwdProjectJson, cwd);
+  // Cached build/test run on the wrapper for every runtime, so the cache applies.
   const shouldKeepLifecycleOnWrapper =
-    !!firstArg && runtimeLifecycleCommands.has(firstArg) && isGoOrNodeProjectInCwd;
+    !!firstArg &&
+    runtimeLifecycleCommands.has(firstArg) &&
+    (hasWrapperAdapterInCwd || declaresCachedTask(cwdProjectJson, firstArg));
 
   // CRITICAL: npm-only commands must NEVER be delegated to the Python core CLI.
   // These commands are implemented exclusively in the npm wrapper.
@@ -3079,6 +4716,11 @@ async function delegateToLocalCLI(): Promise<boolean> {
     return false;
   }
 
+  // `dev --all` runs each project's own `dev` as a child; the wrapper orchestrates them.
+  if (isWorkspaceDevCommand(args)) {
+    return false;
+  }
+
   // Keep workspace-root `init` on npm wrapper orchestration.
   // This preserves expected behavior for workspace dependency init + child project init.
   if (args[0] === 'init' && isWorkspaceRoot && !hasProjectJsonInCwd) {
@@ -3117,6 +4759,7 @@ async function delegateToLocalCLI(): Promise<boolean> {
             for (const v of violations) process.stderr.write(chalk.red(`  • ${v}`) + '\n');
             process.exit(1);
           }
+          await warnToolchainMismatches(cwd).catch(() => undefined);
         }
         const code = await runCoreRapidkit(process.argv.slice(2), { cwd });
         process.exit(code);
@@ -3171,6 +4814,7 @@ async function delegateToLocalCLI(): Promise<boolean> {
       for (const v of violations) process.stderr.write(chalk.red(`  • ${v}`) + '\n');
       process.exit(1);
     }
+    await warnToolchainMismatches(cwd).catch(() => undefined);
   }
 
   // If we have a local script AND the command is a local command, delegate immediately
@@ -3296,6 +4940,8 @@ async function delegateToLocalCLI(): Promise<boolean> {
 // Track current project path for cleanup on interrupt
 let currentProjectPath: string | null = null;
 let cleanupInProgress = false;
+/** Set while long-running commands own child processes that must go down with us. */
+let interruptCleanup: (() => Promise<void>) | null = null;
 
 const program = new Command();
 
@@ -3399,6 +5045,7 @@ program.addHelpText(
 Workspace Setup Commands
   rapidkit bootstrap         Bootstrap projects in workspace (--profile python-only|node-only|go-only|polyglot|enterprise)
   rapidkit setup <runtime>   Set up runtime toolchain  (runtime: python | node | go)
+  rapidkit toolchain         Pinned toolchain versions (toolchain status | install [runtime] --from <archive>)
   rapidkit workspace list    List registered workspaces on this system
   rapidkit mirror            Manage registry mirrors   (mirror status --json | sync | verify | rotate)
   rapidkit cache             Manage package cache      (cache status | clear | prune | repair)
@@ -3466,6 +5113,14 @@ program
       'When creating a project outside a workspace: do not create a workspace'
     ).hideHelp()
   )
+  .addOption(
+    new Option('--var <key=value>', 'Set a kit variable (repeatable, template mode)')
+      .argParser((value: string, previous: string[] = []) => [...previous, value])
+      .hideHelp()
+  )
+  .addOption(
+    new Option('--vars-file <file>', 'Read kit variables from a YAML/JSON file').hideHelp()
+  )
   .option('--no-update-check', 'Skip checking for updates')
   .action(async (name, options) => {
     try {
@@ -3570,30 +5225,26 @@ program
             ? 'fastapi.standard'
             : lowered === 'nestjs'
               ? 'nestjs.standard'
-              : lowered === 'go' || lowered === 'fiber'
-                ? 'gofiber.standard'
-                : lowered === 'gin'
-                  ? 'gogin.standard'
-                  : raw;
-
-        // Go/Fiber: handled entirely at npm level — bypass Python engine
-        if (isGoFiberKit(kit)) {
-          const projectPath = path.resolve(process.cwd(), name);
-          await generateGoFiberKit(projectPath, {
-            project_name: name,
-            module_path: name,
-            skipGit: options.skipGit,
-          });
-          return;
-        }
-
-        // Go/Gin: handled entirely at npm level — bypass Python engine
-        if (isGoGinKit(kit)) {
+              : raw;
+
+        // Registered kits (built-in Go kits and user kits): handled at npm level — bypass Python engine
+        const registeredKit = findKit(await loadKitRegistryWithWarnings(), kit);
+        if (registeredKit) {
+          const variables = await collectKitVariables(
+            registeredKit,
+            { vars: options.var ?? [], varsFile: options.varsFile },
+            {
+              values: { project_name: name },
+              defaults: { module_path: name },
+              interactive: !!process.stdin.isTTY && !options.yes,
+            }
+          );
           const projectPath = path.resolve(process.cwd(), name);
-          await generateGoGinKit(projectPath, {
-            project_name: name,
-            module_path: name,
-            skipGit: options.skipGit,
+          await runProjectTransaction(projectPath, async (transaction) => {
+            await generateKitProject(registeredKit, transaction.workPath, variables, {
+              skipGit: options.skipGit,
+              targetPath: projectPath,
+            });
           });
           return;
         }
@@ -3857,35 +5508,46 @@ program
 program
   .command('workspace <action> [subaction] [key] [value]')
   .description('Manage RapidKit workspaces (list, sync, policy)')
-  .action(async (action: string, subaction?: string, key?: string, value?: string) => {
-    if (action === 'list') {
-      const { listWorkspaces } = await import('./workspace.js');
-      await listWorkspaces();
-    } else if (action === 'sync') {
-      const workspacePath = findWorkspaceUp(process.cwd());
-      if (!workspacePath) {
-        console.log(chalk.red('❌ Not inside a RapidKit workspace'));
-        console.log(chalk.gray('💡 Run this command from within a workspace directory'));
-        process.exit(1);
-      }
-      const { syncWorkspaceProjects } = await import('./workspace.js');
-      console.log(chalk.cyan(`📂 Scanning workspace: ${path.basename(workspacePath)}`));
-      await syncWorkspaceProjects(workspacePath);
-    } else if (action === 'policy') {
-      const workspacePath = findWorkspaceUp(process.cwd());
-      if (!workspacePath) {
-        console.log(chalk.red('❌ Not inside a RapidKit workspace'));
-        console.log(chalk.gray('💡 Run this command from within a workspace directory'));
+  .option('--json', 'Output JSON (policy diff/audit)')
+  .action(
+    async (
+      action: string,
+      subaction: string | undefined,
+      key: string | undefined,
+      value: string | undefined,
+      options: { json?: boolean }
+    ) => {
+      if (action === 'list') {
+        const { listWorkspaces } = await import('./workspace.js');
+        await listWorkspaces();
+      } else if (action === 'sync') {
+        const workspacePath = findWorkspaceUp(process.cwd());
+        if (!workspacePath) {
+          console.log(chalk.red('❌ Not inside a RapidKit workspace'));
+          console.log(chalk.gray('💡 Run this command from within a workspace directory'));
+          process.exit(1);
+        }
+        const { syncWorkspaceProjects } = await import('./workspace.js');
+        console.log(chalk.cyan(`📂 Scanning workspace: ${path.basename(workspacePath)}`));
+        await syncWorkspaceProjects(workspacePath);
+      } else if (action === 'policy') {
+        const workspacePath = findWorkspaceUp(process.cwd());
+        if (!workspacePath) {
+          console.log(chalk.red('❌ Not inside a RapidKit workspace'));
+          console.log(chalk.gray('💡 Run this command from within a workspace directory'));
+          process.exit(1);
+        }
+        const code = await handleWorkspacePolicyCommand(workspacePath, subaction, key, value, {
+          json: options.json,
+        });
+        if (code !== 0) process.exit(code);
+      } else {
+        console.log(chalk.red(`Unknown workspace action: ${action}`));
+        console.log(chalk.gray('Available: list, sync, policy'));
         process.exit(1);
       }
-      const code = await handleWorkspacePolicyCommand(workspacePath, subaction, key, value);
-      if (code !== 0) process.exit(code);
-    } else {
-      console.log(chalk.red(`Unknown workspace action: ${action}`));
-      console.log(chalk.gray('Available: list, sync, policy'));
-      process.exit(1);
     }
-  });
+  );
 
 function printHelp() {
   const quickStartInitDev = isWindowsPlatform()
@@ -3934,6 +5596,15 @@ function printHelp() {
       '  npx rapidkit setup python|node|go [--warm-deps]  Set up runtime (+ optional deps warm-up)'
     )
   );
+  console.log(
+    chalk.gray('  npx rapidkit toolchain [status|install]   Check/provision pinned toolchains')
+  );
+  console.log(
+    chalk.gray('  npx rapidkit run test|build|lint --all    Run a task in every project')
+  );
+  console.log(
+    chalk.gray('  npx rapidkit dev --all                    Start every service together')
+  );
   console.log(
     chalk.gray('  npx rapidkit mirror [status|sync|verify|rotate] Registry mirror management')
   );
@@ -3947,6 +5618,19 @@ function printHelp() {
   console.log(chalk.gray('  --skip-git                 Skip git initialization'));
   console.log(chalk.gray('  --debug                    Enable debug logging'));
   console.log(chalk.gray('  --dry-run                  Show what would be created'));
+  console.log(
+    chalk.gray(
+      '  --output-json [file]       With --dry-run: manifest of the files a kit would write'
+    )
+  );
+  console.log(
+    chalk.gray(
+      '  --reproducible             Deterministic kit output (SOURCE_DATE_EPOCH, seeded secrets)'
+    )
+  );
+  console.log(
+    chalk.gray('  --seed <value>             With --reproducible: seed for generated secrets')
+  );
   console.log(
     chalk.gray(
       '  --create-workspace         When creating a project outside a workspace: create and register a workspace in the current directory'
@@ -3965,7 +5649,18 @@ function printHelp() {
   console.log(chalk.gray('  npx rapidkit init               Install project dependencies'));
   console.log(chalk.gray('  npx rapidkit dev                Start dev server'));
   console.log(chalk.gray('  npx rapidkit build              Build for production'));
-  console.log(chalk.gray('  npx rapidkit test               Run tests\n'));
+  console.log(chalk.gray('  npx rapidkit test               Run tests'));
+  console.log(
+    chalk.gray('  npx rapidkit dev --app <name>   Target one app/lib of a NestJS monorepo')
+  );
+  console.log(
+    chalk.gray('  npx rapidkit upgrade-kit      Merge the latest kit templates into the project')
+  );
+  console.log(
+    chalk.gray(
+      '  npx rapidkit add module <id>    Add a module (Go: postgres, redis, jwt, otel, ...)\n'
+    )
+  );
 
   console.log(chalk.bold('Flags clarification:'));
   console.log(chalk.gray('  --skip-install              npm fast-path for lock/dependency steps'));
@@ -4015,6 +5710,7 @@ if (!signalRegistry[SIGNAL_HANDLER_REGISTRY_KEY]) {
         logger.debug('Cleanup failed:', error);
       }
     }
+    if (interruptCleanup) await interruptCleanup();
 
     process.exit(130);
   });
@@ -4033,6 +5729,7 @@ if (!signalRegistry[SIGNAL_HANDLER_REGISTRY_KEY]) {
         logger.debug('Cleanup failed:', error);
       }
     }
+    if (interruptCleanup) await interruptCleanup();
 
     process.exit(143);
   });
@@ -4117,6 +5814,11 @@ if (shouldBootstrapCli) {
           process.exit(code);
         }
 
+        if (isWorkspaceDevCommand(args)) {
+          const code = await handleDevAllCommand(args);
+          process.exit(code);
+        }
+
         if (isNpmOnlyManualHandlerCommand(args[0])) {
           if (args[0] === 'bootstrap') {
             const code = await handleBootstrapCommand(args);
@@ -4133,31 +5835,48 @@ if (shouldBootstrapCli) {
             process.exit(code);
           }
 
+          if (args[0] === 'toolchain') {
+            const code = await handleToolchainCommand(args);
+            process.exit(code);
+          }
+
+          if (args[0] === 'upgrade-kit') {
+            const code = await handleUpgradeKitCommand(args);
+            process.exit(code);
+          }
+
+          if (args[0] === 'run') {
+            const code = await handleRunCommand(args);
+            process.exit(code);
+          }
+
           const code = await handleMirrorCommand(args);
           process.exit(code);
         }
 
         // lifecycle commands: enforce workspace dependency policy context and strict policy
         if ((RUNTIME_LIFECYCLE_COMMANDS as readonly string[]).includes(args[0])) {
-          const action = args[0] as 'dev' | 'test' | 'build' | 'start';
+          const action = args[0] as (typeof RUNTIME_LIFECYCLE_COMMANDS)[number];
           const projectJson = readRapidkitProjectJson(process.cwd());
+          const runtimePlugin = detectRuntimePlugin(projectJson, process.cwd());
           const wsPath = findWorkspaceUp(process.cwd());
 
           // Strict policy pre-flight: before any lifecycle command, check mandatory
           // workspace invariants when enforcement_mode is strict.
           if (wsPath) {
-            const policyFile = path.join(wsPath, '.rapidkit', 'policies.yml');
-            if (await fsExtra.pathExists(policyFile)) {
+            const effectivePolicy = await loadEffectiveWorkspacePolicy(wsPath, process.cwd());
+            if (effectivePolicy.workspace.exists || effectivePolicy.project?.exists) {
               try {
-                const policyContent = await fs.promises.readFile(policyFile, 'utf-8');
-                const modeMatch =
-                  policyContent.match(/^\s*enforcement_mode:\s*(warn|strict)\s*(?:#.*)?$/m) ??
-                  policyContent.match(/^\s*mode:\s*(warn|strict)\s*(?:#.*)?$/m);
-                const policyEnforcementMode = modeMatch?.[1] ?? 'warn';
+                const policyEnforcementMode = effectivePolicy.policy.mode;
 
                 if (policyEnforcementMode === 'strict') {
                   const lockPath = path.join(wsPath, '.rapidkit', 'toolchain.lock');
-                  const violations: string[] = [];
+                  const projectPolicyLabel = effectivePolicy.project
+                    ? path.relative(wsPath, effectivePolicy.project.filePath)
+                    : undefined;
+                  const violations: string[] = effectivePolicy.rejected.map((issue) =>
+                    formatPolicyIssue(issue, projectPolicyLabel)
+                  );
 
                   // Strict requirement: toolchain.lock must exist
                   if (!(await fsExtra.pathExists(lockPath))) {
@@ -4172,21 +5891,32 @@ if (shouldBootstrapCli) {
                       const rt = (lock.runtime ?? {}) as Record<string, Record<string, unknown>>;
 
                       // Strict requirement: runtime version must be pinned for the project type
-                      if (isGoProject(projectJson, process.cwd()) && !rt.go?.version) {
-                        violations.push(
-                          'Go runtime version is not pinned in toolchain.lock — run `rapidkit setup go` first.'
-                        );
-                      }
-                      if (isNodeProject(projectJson, process.cwd()) && !rt.node?.version) {
-                        violations.push(
-                          'Node runtime version is not pinned in toolchain.lock — run `rapidkit setup node` first.'
-                        );
-                      }
-                      if (isPythonProject(projectJson, process.cwd()) && !rt.python?.version) {
+                      if (runtimePlugin) {
                         violations.push(
-                          'Python runtime version is not pinned in toolchain.lock — run `rapidkit setup python` first.'
+                          ...runtimePluginPolicyViolations(runtimePlugin, { runtimes: rt })
                         );
+                      } else {
+                        if (isGoProject(projectJson, process.cwd()) && !rt.go?.version) {
+                          violations.push(
+                            'Go runtime version is not pinned in toolchain.lock — run `rapidkit setup go` first.'
+                          );
+                        }
+                        if (isNodeProject(projectJson, process.cwd()) && !rt.node?.version) {
+                          violations.push(
+                            'Node runtime version is not pinned in toolchain.lock — run `rapidkit setup node` first.'
+                          );
+                        }
+                        if (isPythonProject(projectJson, process.cwd()) && !rt.python?.version) {
+                          violations.push(
+                            'Python runtime version is not pinned in toolchain.lock — run `rapidkit setup python` first.'
+                          );
+                        }
                       }
+
+                      // Strict requirement: the active toolchain must match the pin
+                      violations.push(
+                        ...(await projectToolchainMismatches(wsPath, process.cwd(), projectJson))
+                      );
                     } catch {
                       /* non-fatal parse error — warn only */
                     }
@@ -4200,7 +5930,11 @@ if (shouldBootstrapCli) {
                         await fs.promises.readFile(wsJsonPath, 'utf-8')
                       ) as Record<string, unknown>;
                       const wsProfile = (wsJson.profile as string | undefined) ?? '';
-                      if (
+                      if (runtimePlugin) {
+                        violations.push(
+                          ...runtimePluginPolicyViolations(runtimePlugin, { profile: wsProfile })
+                        );
+                      } else if (
                         wsProfile === 'python-only' &&
                         (isGoProject(projectJson, process.cwd()) ||
                           isNodeProject(projectJson, process.cwd()))
@@ -4208,8 +5942,7 @@ if (shouldBootstrapCli) {
                         violations.push(
                           `Workspace profile is "python-only" but this project is not Python. Update the workspace profile or use a polyglot workspace.`
                         );
-                      }
-                      if (
+                      } else if (
                         wsProfile === 'node-only' &&
                         (isGoProject(projectJson, process.cwd()) ||
                           isPythonProject(projectJson, process.cwd()))
@@ -4217,8 +5950,7 @@ if (shouldBootstrapCli) {
                         violations.push(
                           `Workspace profile is "node-only" but this project is not Node. Update the workspace profile or use a polyglot workspace.`
                         );
-                      }
-                      if (
+                      } else if (
                         wsProfile === 'go-only' &&
                         (isPythonProject(projectJson, process.cwd()) ||
                           isNodeProject(projectJson, process.cwd()))
@@ -4244,12 +5976,47 @@ if (shouldBootstrapCli) {
                   }
                 }
               } catch {
-                /* non-fatal — policies.yml unreadable, skip pre-flight */
+                /* non-fatal — skip pre-flight on unexpected errors */
               }
             }
           }
 
+          // `build` / `test` with declared inputs are skipped when a successful
+          // run with the same input hash is cached; its outputs are restored.
+          let cachedTask: CachedTask | null = null;
+          if (isCacheableTask(action) && !readFlagValue(args, '--app')) {
+            try {
+              cachedTask = await resolveCachedTask(
+                wsPath,
+                (await findKitProjectRoot(process.cwd())) ?? process.cwd(),
+                action
+              );
+            } catch (error) {
+              if (!(error instanceof TaskCacheError)) throw error;
+              console.log(chalk.red(`❌ ${error.message}`));
+              process.exit(1);
+            }
+            const hit =
+              cachedTask && !args.includes('--no-cache')
+                ? await restoreTaskOutputs(cachedTask)
+                : null;
+            if (cachedTask && hit) {
+              console.log(
+                chalk.green(
+                  `✅ ${action} cached (${cachedTask.hash.slice(0, 12)}): restored ${hit.outputs.length} output file(s) from ${hit.created_at}`
+                )
+              );
+              console.log(chalk.gray('💡 Pass --no-cache to run it anyway'));
+              process.exit(0);
+            }
+          }
+          const taskStarted = Date.now();
+
           const lifecycle = await withWorkspaceDependencyPolicyContext(process.cwd(), async () => {
+            if (runtimePlugin) {
+              return await handlePluginCommand(runtimePlugin, action, process.cwd());
+            }
+
             if (isGoProject(projectJson, process.cwd())) {
               const adapter = getRuntimeAdapter('go', { runCommandInCwd, runCoreRapidkit });
               const result =
@@ -4259,7 +6026,9 @@ if (shouldBootstrapCli) {
                     ? await adapter.runTest(process.cwd())
                     : action === 'build'
                       ? await adapter.runBuild(process.cwd())
-                      : await adapter.runStart(process.cwd());
+                      : action === 'lint'
+                        ? await adapter.runLint(process.cwd())
+                        : await adapter.runStart(process.cwd());
 
               if (result.message) {
                 console.log(chalk.red(`❌ ${result.message}`));
@@ -4269,18 +6038,23 @@ if (shouldBootstrapCli) {
             }
 
             if (isNodeProject(projectJson, process.cwd())) {
-              if (action === 'dev') return await handleNodeCommand('dev', process.cwd());
-              if (action === 'test') return await handleNodeCommand('test', process.cwd());
-              if (action === 'build') return await handleNodeCommand('build', process.cwd());
-              return await handleNodeCommand('start', process.cwd());
+              // `--app <name>` narrows the command to one project of a NestJS monorepo.
+              return await handleNodeCommand(action, process.cwd(), {
+                app: readFlagValue(args, '--app'),
+              });
             }
 
             if (isPythonProject(projectJson, process.cwd())) {
               const adapter = getRuntimeAdapter('python', { runCommandInCwd, runCoreRapidkit });
-              if (action === 'dev') return (await adapter.runDev(process.cwd())).exitCode;
+              // `rapidkit dev --port N` (also how `workspace dev` starts each
+              // Python service) has to reach the project's own dev server.
+              const serverArgs = { args: pythonServerArgs(args) };
+              if (action === 'dev')
+                return (await adapter.runDev(process.cwd(), serverArgs)).exitCode;
               if (action === 'test') return (await adapter.runTest(process.cwd())).exitCode;
               if (action === 'build') return (await adapter.runBuild(process.cwd())).exitCode;
-              return (await adapter.runStart(process.cwd())).exitCode;
+              if (action === 'lint') return (await adapter.runLint(process.cwd())).exitCode;
+              return (await adapter.runStart(process.cwd(), serverArgs)).exitCode;
             }
 
             return -1;
@@ -4290,21 +6064,32 @@ if (shouldBootstrapCli) {
             process.exit(lifecycle.code);
           }
 
+          if (cachedTask && lifecycle.value === 0) {
+            try {
+              const { task_max_size_bytes } = await loadWorkspaceCacheConfig(wsPath);
+              await storeTaskOutputs(cachedTask, Date.now() - taskStarted, task_max_size_bytes);
+            } catch (error) {
+              console.log(
+                chalk.yellow(`⚠️  Could not cache ${action} outputs: ${(error as Error).message}`)
+              );
+            }
+          }
+
           if (lifecycle.value >= 0) {
             process.exit(lifecycle.value);
           }
         }
 
-        // Block module commands for Go projects (module system is Python-only)
+        // Go projects use the Node-side module installer; other projects without
+        // module support have no module system at all.
         if (args[0] === 'add' || (args[0] === 'module' && args[1] === 'add')) {
           const projectJson = readRapidkitProjectJson(process.cwd());
-          if (projectJson?.runtime === 'go' || projectJson?.module_support === false) {
-            console.error(chalk.red('❌ RapidKit modules are not available for Go projects.'));
-            console.error(
-              chalk.gray(
-                '   The module system requires Python and is only supported for FastAPI and NestJS projects.'
-              )
-            );
+          if (projectJson?.runtime === 'go') {
+            process.exit(await handleGoModuleAddCommand(args));
+          }
+          if (projectJson?.module_support === false) {
+            console.error(chalk.red('❌ RapidKit modules are not available for this project.'));
+            console.error(chalk.gray(`   ${moduleUnsupportedHint(projectJson.kit_name)}`));
             process.exit(1);
           }
         }
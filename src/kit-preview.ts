@@ -0,0 +1,228 @@
+/**
+ * Kit dry runs.
+ *
+ * `rapidkit create project <kit> <name> --dry-run` renders the kit in memory
+ * and compares the result with whatever is already at the target path:
+ * every file is reported as created, modified or unchanged, with its size
+ * and (for modified files) a unified diff. `--output-json` emits the same
+ * information as a manifest so scaffolds can be reviewed before they exist.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export type KitPreviewStatus = 'create' | 'modify' | 'unchanged';
+
+export interface KitPreviewFile {
+  path: string;
+  /** Size in bytes of the rendered file. */
+  size: number;
+  status: KitPreviewStatus;
+  /** Unified diff against the existing file (`modify` only). */
+  diff?: string;
+}
+
+export interface KitPreview {
+  kit_name: string;
+  project_path: string;
+  /** Whether the target directory already exists. */
+  exists: boolean;
+  files: KitPreviewFile[];
+  total_bytes: number;
+}
+
+const DIFF_CONTEXT = 3;
+/** Above this many line pairs the diff falls back to replacing the whole file. */
+const MAX_DIFF_CELLS = 4_000_000;
+
+async function readFileIfExists(target: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(target, 'utf-8');
+  } catch {
+    return undefined;
+  }
+}
+
+/** Compare rendered kit files with the target directory. */
+export async function buildKitPreview(
+  projectPath: string,
+  kitName: string,
+  files: Record<string, string>
+): Promise<KitPreview> {
+  let exists = false;
+  try {
+    exists = (await fs.stat(projectPath)).isDirectory();
+  } catch {
+    exists = false;
+  }
+
+  const preview: KitPreviewFile[] = [];
+  for (const file of Object.keys(files).sort((a, b) => a.localeCompare(b))) {
+    const content = files[file];
+    const size = Buffer.byteLength(content, 'utf-8');
+    const current = exists ? await readFileIfExists(path.join(projectPath, file)) : undefined;
+    if (current === undefined) {
+      preview.push({ path: file, size, status: 'create' });
+    } else if (current === content) {
+      preview.push({ path: file, size, status: 'unchanged' });
+    } else {
+      preview.push({
+        path: file,
+        size,
+        status: 'modify',
+        diff: unifiedDiff(file, current, content),
+      });
+    }
+  }
+
+  return {
+    kit_name: kitName,
+    project_path: projectPath,
+    exists,
+    files: preview,
+    total_bytes: preview.reduce((sum, file) => sum + file.size, 0),
+  };
+}
+
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+type DiffOp = { kind: ' ' | '-' | '+'; line: string };
+
+/** Line-level edit script: common prefix/suffix trimmed, LCS over the rest. */
+function diffLines(before: string[], after: string[]): DiffOp[] {
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--;
+    endAfter--;
+  }
+
+  const ops: DiffOp[] = before.slice(0, start).map((line) => ({ kind: ' ', line }));
+  const a = before.slice(start, endBefore);
+  const b = after.slice(start, endAfter);
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    ops.push(...a.map((line): DiffOp => ({ kind: '-', line })));
+    ops.push(...b.map((line): DiffOp => ({ kind: '+', line })));
+  } else {
+    // lcs[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+    const lcs = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        ops.push({ kind: ' ', line: a[i++] });
+        j++;
+      } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+        ops.push({ kind: '-', line: a[i++] });
+      } else {
+        ops.push({ kind: '+', line: b[j++] });
+      }
+    }
+  }
+
+  ops.push(...before.slice(endBefore).map((line): DiffOp => ({ kind: ' ', line })));
+  return ops;
+}
+
+/** `diff -u` style patch turning `before` into `after`, labelled a/<file> and b/<file>. */
+export function unifiedDiff(file: string, before: string, after: string): string {
+  const ops = diffLines(splitLines(before), splitLines(after));
+  const out = [`--- a/${file}`, `+++ b/${file}`];
+
+  let index = 0;
+  while (index < ops.length) {
+    while (index < ops.length && ops[index].kind === ' ') index++;
+    if (index >= ops.length) break;
+
+    // Grow the hunk while changes are closer than two context windows apart.
+    const hunkStart = Math.max(0, index - DIFF_CONTEXT);
+    let hunkEnd = index;
+    let lastChange = index;
+    while (hunkEnd < ops.length && hunkEnd - lastChange <= DIFF_CONTEXT * 2 + 1) {
+      if (ops[hunkEnd].kind !== ' ') lastChange = hunkEnd;
+      hunkEnd++;
+    }
+    hunkEnd = Math.min(ops.length, lastChange + DIFF_CONTEXT + 1);
+
+    let oldLine = 1;
+    let newLine = 1;
+    for (const op of ops.slice(0, hunkStart)) {
+      if (op.kind !== '+') oldLine++;
+      if (op.kind !== '-') newLine++;
+    }
+    const hunk = ops.slice(hunkStart, hunkEnd);
+    const oldCount = hunk.filter((op) => op.kind !== '+').length;
+    const newCount = hunk.filter((op) => op.kind !== '-').length;
+    out.push(
+      `@@ -${oldCount === 0 ? oldLine - 1 : oldLine},${oldCount} +${newCount === 0 ? newLine - 1 : newLine},${newCount} @@`
+    );
+    for (const op of hunk) out.push(`${op.kind}${op.line}`);
+    index = hunkEnd;
+  }
+  return `${out.join('\n')}\n`;
+}
+
+/** Directory tree of the previewed files, one line per entry; files carry a status mark and size. */
+export function formatKitTree(
+  rootName: string,
+  files: KitPreviewFile[],
+  formatSize: (bytes: number) => string
+): string[] {
+  interface Node {
+    children: Map<string, Node>;
+    file?: KitPreviewFile;
+  }
+  const root: Node = { children: new Map() };
+  for (const file of files) {
+    let node = root;
+    for (const part of file.path.split('/')) {
+      let child = node.children.get(part);
+      if (!child) {
+        child = { children: new Map() };
+        node.children.set(part, child);
+      }
+      node = child;
+    }
+    node.file = file;
+  }
+
+  const marks: Record<KitPreviewStatus, string> = { create: '+', modify: '~', unchanged: '=' };
+  const lines = [`${rootName}/`];
+  const walk = (node: Node, indent: string): void => {
+    // Directories first, then files, each alphabetically.
+    const entries = [...node.children.entries()].sort(([a, x], [b, y]) =>
+      x.file === undefined && y.file !== undefined
+        ? -1
+        : x.file !== undefined && y.file === undefined
+          ? 1
+          : a.localeCompare(b)
+    );
+    entries.forEach(([name, child], position) => {
+      const last = position === entries.length - 1;
+      const branch = last ? '└── ' : '├── ';
+      if (child.file) {
+        lines.push(
+          `${indent}${branch}${marks[child.file.status]} ${name} (${formatSize(child.file.size)})`
+        );
+      } else {
+        lines.push(`${indent}${branch}${name}/`);
+        walk(child, `${indent}${last ? '    ' : '│   '}`);
+      }
+    });
+  };
+  walk(root, '');
+  return lines;
+}
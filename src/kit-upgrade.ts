@@ -0,0 +1,446 @@
+/**
+ * `rapidkit upgrade-kit`.
+ *
+ * Re-renders the kit a project was generated from, with the variables
+ * recorded at generation time, and three-way merges every kit file: the
+ * recorded baseline (`.rapidkit/kit-baseline.json`) is the common ancestor,
+ * the project's working copy is "ours" and the new render is "theirs".
+ * Conflicting hunks are written with git-style markers; the baseline then
+ * moves to the new render so the next upgrade only merges what changed since.
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { execa } from 'execa';
+import { KitUpgradeError } from './errors.js';
+import {
+  KIT_BASELINE_PATH,
+  KIT_STATE_FILES,
+  readKitBaseline,
+  writeKitBaseline,
+  type KitBaseline,
+} from './generators/kit-baseline.js';
+import {
+  findKit,
+  loadKitRegistry,
+  renderKitOutput,
+  resolveKitVariables,
+  resolveProjectFile,
+  type KitVariableValue,
+} from './generators/registry.js';
+import {
+  createTemplateKitEnvironment,
+  loadTemplateKits,
+  renderTemplateKitFiles,
+  templateKitContext,
+} from './template-kits.js';
+import { getVersion } from './update-checker.js';
+
+export type KitUpgradeStatus = 'updated' | 'added' | 'removed' | 'merged' | 'conflict' | 'kept';
+
+export interface KitUpgradeFile {
+  path: string;
+  status: KitUpgradeStatus;
+  /** Why a kit change was not applied (`kept`). */
+  reason?: string;
+}
+
+export interface KitUpgradeResult {
+  project_path: string;
+  kit_name: string;
+  from_version: string | null;
+  to_version: string;
+  /** Where the common ancestor came from: the recorded baseline, the first git commit, or nothing. */
+  baseline: 'recorded' | 'git' | 'none';
+  /** Kit files the upgrade touches or deliberately leaves alone; untouched files are omitted. */
+  files: KitUpgradeFile[];
+  conflicts: string[];
+  applied: boolean;
+}
+
+export interface KitUpgradeOptions {
+  /** Kit to upgrade to when the project does not record one (or to switch kits). */
+  kitName?: string;
+  dryRun?: boolean;
+  /**
+   * Merge against an empty ancestor when neither a recorded baseline nor a
+   * first git commit exists. Only honoured together with `kitName`.
+   */
+  allowNoBaseline?: boolean;
+}
+
+export const PROJECT_JSON_PATH = '.rapidkit/project.json';
+
+/** Nearest directory (from `start` upwards) holding a kit baseline or `.rapidkit/project.json`. */
+export async function findKitProjectRoot(start: string): Promise<string | null> {
+  let current = path.resolve(start);
+  while (true) {
+    for (const marker of [KIT_BASELINE_PATH, PROJECT_JSON_PATH]) {
+      if (await pathExists(path.join(current, marker))) return current;
+    }
+    const parent = path.dirname(current);
+    if (parent === current) return null;
+    current = parent;
+  }
+}
+
+async function pathExists(target: string): Promise<boolean> {
+  try {
+    await fs.access(target);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function readFileIfExists(target: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(target, 'utf-8');
+  } catch {
+    return undefined;
+  }
+}
+
+export async function readProjectJson(
+  projectPath: string
+): Promise<Record<string, unknown> | null> {
+  const raw = await readFileIfExists(path.join(projectPath, PROJECT_JSON_PATH));
+  if (raw === undefined) return null;
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Variables for projects generated before baselines were recorded. */
+export function variablesFromProjectJson(
+  projectPath: string,
+  projectJson: Record<string, unknown> | null
+): Record<string, unknown> {
+  const variables: Record<string, unknown> = {
+    project_name: projectJson?.project_name ?? path.basename(projectPath),
+  };
+  for (const key of ['module_path', 'app_version', 'package_manager']) {
+    if (projectJson?.[key] !== undefined) variables[key] = projectJson[key];
+  }
+  // Go kits list their enabled features (and modules added since) as boolean variables.
+  for (const key of ['features', 'modules']) {
+    const names = projectJson?.[key];
+    if (!Array.isArray(names)) continue;
+    for (const name of names) if (typeof name === 'string') variables[name] = true;
+  }
+  return variables;
+}
+
+export interface RenderedKit {
+  name: string;
+  variables: Record<string, KitVariableValue>;
+  files: Record<string, string>;
+}
+
+/**
+ * Render `kitName` from the kit registry, else the bundled template kits.
+ * `secretSeed` is the baseline's recorded seed for template-kit secrets.
+ */
+export async function renderKit(
+  kitName: string,
+  provided: Record<string, unknown>,
+  options: { secretSeed?: string } = {}
+): Promise<RenderedKit> {
+  const kit = findKit(await loadKitRegistry(), kitName);
+  if (kit) {
+    const variables = resolveKitVariables(kit, provided);
+    return { name: kit.name, variables, files: await renderKitOutput(kit, variables) };
+  }
+
+  const templateKits = await loadTemplateKits();
+  const templateKit = findKit({ kits: templateKits }, kitName);
+  if (!templateKit) {
+    throw new KitUpgradeError(
+      `Kit "${kitName}" is not available`,
+      'Check `rapidkit list`, or pass --kit <name> to upgrade to a different kit.'
+    );
+  }
+  const variables = resolveKitVariables(templateKit, provided);
+  const files = await renderTemplateKitFiles(
+    templateKit,
+    createTemplateKitEnvironment(templateKit, { secretSeed: options.secretSeed }),
+    templateKitContext(templateKit, variables)
+  );
+  return { name: templateKit.name, variables, files };
+}
+
+/**
+ * Best-effort ancestor for projects without a recorded baseline: the files as
+ * they were in the project's first commit, when the project is its own repo.
+ */
+async function readGitBaseline(
+  projectPath: string,
+  paths: string[]
+): Promise<Record<string, string> | null> {
+  try {
+    const { stdout: topLevel } = await execa('git', ['rev-parse', '--show-toplevel'], {
+      cwd: projectPath,
+    });
+    if (path.resolve(topLevel) !== (await fs.realpath(projectPath))) return null;
+    const { stdout: roots } = await execa('git', ['rev-list', '--max-parents=0', 'HEAD'], {
+      cwd: projectPath,
+    });
+    const root = roots.split('\n')[0];
+    const files: Record<string, string> = {};
+    for (const file of paths) {
+      const shown = await execa('git', ['show', `${root}:${file}`], {
+        cwd: projectPath,
+        reject: false,
+        stripFinalNewline: false,
+      });
+      if (shown.exitCode === 0) files[file] = shown.stdout;
+    }
+    return files;
+  } catch {
+    return null;
+  }
+}
+
+/** `git merge-file` of one path; markers are labelled project / baseline / kit. */
+async function mergeFile(
+  scratch: string,
+  ours: string,
+  base: string,
+  theirs: string
+): Promise<{ content: string; conflicted: boolean }> {
+  const [oursPath, basePath, theirsPath] = ['ours', 'base', 'theirs'].map((name) =>
+    path.join(scratch, name)
+  );
+  await fs.writeFile(oursPath, ours);
+  await fs.writeFile(basePath, base);
+  await fs.writeFile(theirsPath, theirs);
+
+  const result = await execa(
+    'git',
+    [
+      'merge-file',
+      '-p',
+      '-L',
+      'project',
+      '-L',
+      'baseline',
+      '-L',
+      'kit',
+      oursPath,
+      basePath,
+      theirsPath,
+    ],
+    { reject: false, stripFinalNewline: false }
+  );
+  // merge-file exits with the number of conflicts (capped at 127); higher codes are errors.
+  if (typeof result.exitCode !== 'number' || result.exitCode > 127) {
+    throw new KitUpgradeError(
+      'git merge-file failed',
+      result.stderr || 'upgrade-kit needs git on PATH to merge kit changes.'
+    );
+  }
+  return { content: result.stdout, conflicted: result.exitCode > 0 };
+}
+
+/**
+ * Plan how a new kit render (`theirs`) lands on a working copy, with `base`
+ * as the common ancestor. `writes` maps paths to new contents (`null`
+ * deletes); paths the merge leaves alone are omitted from both.
+ */
+export async function mergeKitFiles(
+  baseFiles: Record<string, string>,
+  theirsFiles: Record<string, string>,
+  readOurs: (file: string) => Promise<string | undefined>
+): Promise<{ files: KitUpgradeFile[]; writes: Map<string, string | null> }> {
+  const paths = [...new Set([...Object.keys(baseFiles), ...Object.keys(theirsFiles)])]
+    .filter((file) => !KIT_STATE_FILES.includes(file))
+    .sort((a, b) => a.localeCompare(b));
+
+  const files: KitUpgradeFile[] = [];
+  const writes = new Map<string, string | null>();
+  let scratch: string | undefined;
+
+  try {
+    for (const file of paths) {
+      const base = baseFiles[file];
+      const theirs = theirsFiles[file];
+      const ours = await readOurs(file);
+
+      if (theirs === undefined) {
+        // Dropped by the kit: delete it only if the project never touched it.
+        if (ours === undefined) continue;
+        if (ours === base) {
+          files.push({ path: file, status: 'removed' });
+          writes.set(file, null);
+        } else {
+          files.push({
+            path: file,
+            status: 'kept',
+            reason: 'removed from the kit, edited locally',
+          });
+        }
+        continue;
+      }
+      if (ours === theirs || base === theirs) continue;
+      if (ours === undefined) {
+        if (base === undefined) {
+          files.push({ path: file, status: 'added' });
+          writes.set(file, theirs);
+        } else {
+          files.push({ path: file, status: 'kept', reason: 'deleted locally' });
+        }
+        continue;
+      }
+      if (ours === base) {
+        files.push({ path: file, status: 'updated' });
+        writes.set(file, theirs);
+        continue;
+      }
+
+      scratch ??= await fs.mkdtemp(path.join(os.tmpdir(), 'rapidkit-kit-merge-'));
+      const merged = await mergeFile(scratch, ours, base ?? '', theirs);
+      files.push({ path: file, status: merged.conflicted ? 'conflict' : 'merged' });
+      writes.set(file, merged.content);
+    }
+  } finally {
+    if (scratch) await fs.rm(scratch, { recursive: true, force: true });
+  }
+  return { files, writes };
+}
+
+/**
+ * Move a recorded baseline along with a kit change that was merged into the
+ * project outside `upgrade-kit` (a Go module, a monorepo app), so the next
+ * upgrade treats that output as kit code rather than as local edits.
+ */
+export async function advanceKitBaseline(
+  projectPath: string,
+  recorded: KitBaseline,
+  before: Record<string, string>,
+  after: Record<string, string>,
+  variables: Record<string, KitVariableValue>
+): Promise<void> {
+  const baselineFiles = { ...recorded.files };
+  const patched = await mergeKitFiles(before, after, async (file) =>
+    Object.prototype.hasOwnProperty.call(baselineFiles, file) ? baselineFiles[file] : undefined
+  );
+  for (const file of patched.files) {
+    const content = patched.writes.get(file.path);
+    if (file.status === 'conflict') baselineFiles[file.path] = after[file.path];
+    else if (content === null) delete baselineFiles[file.path];
+    else if (content !== undefined) baselineFiles[file.path] = content;
+  }
+  await writeKitBaseline(projectPath, { ...recorded, variables, files: baselineFiles });
+}
+
+export async function applyKitWrites(
+  projectPath: string,
+  writes: Map<string, string | null>
+): Promise<void> {
+  const escaping = [...writes.keys()].filter((file) => !resolveProjectFile(projectPath, file));
+  if (escaping.length > 0) {
+    throw new KitUpgradeError(
+      'Refusing to write outside the project directory',
+      escaping.map((file) => `${file}: resolves outside ${projectPath}`).join('\n')
+    );
+  }
+  for (const [file, content] of writes) {
+    const target = resolveProjectFile(projectPath, file) as string;
+    if (content === null) {
+      await fs.rm(target, { force: true });
+      continue;
+    }
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, content, 'utf-8');
+  }
+}
+
+/** Re-render the project's kit at the installed version and merge it into the project. */
+export async function upgradeKitProject(
+  projectPath: string,
+  options: KitUpgradeOptions = {}
+): Promise<KitUpgradeResult> {
+  const recorded = await readKitBaseline(projectPath);
+  const projectJson = await readProjectJson(projectPath);
+  const kitName =
+    options.kitName ??
+    recorded?.kit_name ??
+    (typeof projectJson?.kit_name === 'string' ? projectJson.kit_name : undefined);
+  if (!kitName) {
+    throw new KitUpgradeError(
+      'Cannot tell which kit generated this project',
+      `Neither ${KIT_BASELINE_PATH} nor ${PROJECT_JSON_PATH} names a kit. Pass --kit <name>.`
+    );
+  }
+
+  const rendered = await renderKit(
+    kitName,
+    recorded?.variables ?? variablesFromProjectJson(projectPath, projectJson),
+    { secretSeed: recorded?.secret_seed }
+  );
+  const theirsFiles = rendered.files;
+
+  let baseFiles: Record<string, string> = {};
+  let baseline: KitUpgradeResult['baseline'] = 'none';
+  if (recorded) {
+    baseFiles = recorded.files;
+    baseline = 'recorded';
+  } else {
+    const fromGit = await readGitBaseline(projectPath, Object.keys(theirsFiles));
+    if (fromGit && Object.keys(fromGit).length > 0) {
+      baseFiles = fromGit;
+      baseline = 'git';
+    }
+  }
+
+  // Against an empty ancestor every locally changed file conflicts, so
+  // applying that takes an explicit kit and opt-in.
+  if (baseline === 'none' && !options.dryRun && !(options.kitName && options.allowNoBaseline)) {
+    throw new KitUpgradeError(
+      'No kit baseline to merge against',
+      `Neither ${KIT_BASELINE_PATH} nor the project's first git commit has the generated files, so every locally changed file would conflict. Review with --dry-run, then pass --kit <name> --no-baseline to merge anyway.`
+    );
+  }
+
+  const { files, writes } = await mergeKitFiles(baseFiles, theirsFiles, (file) =>
+    readFileIfExists(path.join(projectPath, file))
+  );
+
+  const toVersion = getVersion();
+  const result: KitUpgradeResult = {
+    project_path: projectPath,
+    kit_name: rendered.name,
+    from_version:
+      recorded?.rapidkit_version ??
+      (typeof projectJson?.rapidkit_version === 'string' ? projectJson.rapidkit_version : null),
+    to_version: toVersion,
+    baseline,
+    files,
+    conflicts: files.filter((f) => f.status === 'conflict').map((f) => f.path),
+    applied: false,
+  };
+  if (options.dryRun) return result;
+
+  await applyKitWrites(projectPath, writes);
+
+  await writeKitBaseline(projectPath, {
+    kit_name: rendered.name,
+    rapidkit_version: toVersion,
+    variables: rendered.variables,
+    secret_seed: recorded?.secret_seed,
+    files: theirsFiles,
+  });
+  if (projectJson) {
+    await fs.writeFile(
+      path.join(projectPath, PROJECT_JSON_PATH),
+      `${JSON.stringify({ ...projectJson, kit_name: rendered.name, rapidkit_version: toVersion }, null, 2)}\n`,
+      'utf-8'
+    );
+  }
+
+  return { ...result, applied: true };
+}
@@ -0,0 +1,159 @@
+/**
+ * Apps and libraries of a NestJS monorepo.
+ *
+ * `rapidkit create project nestjs.app <name>` (or `nestjs.lib`) inside a
+ * project generated from `nestjs.monorepo` renders the kit twice — with the
+ * recorded `apps` / `libs` and with the new project appended — and merges
+ * the difference the same way `add module` does for Go: the project's files
+ * are added under apps/ or libs/, and `nest-cli.json`, the `tsconfig.json`
+ * path aliases, the Jest config and the README are patched, keeping local
+ * edits. The lists in `.rapidkit/project.json` and the kit baseline follow.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { NestMonorepoError } from './errors.js';
+import { readKitBaseline } from './generators/kit-baseline.js';
+import { NEST_MONOREPO_KIT } from './generators/nestjs-monorepo.js';
+import {
+  PROJECT_JSON_PATH,
+  advanceKitBaseline,
+  applyKitWrites,
+  findKitProjectRoot,
+  mergeKitFiles,
+  readProjectJson,
+  renderKit,
+  variablesFromProjectJson,
+  type KitUpgradeFile,
+} from './kit-upgrade.js';
+
+export type NestProjectKind = 'app' | 'lib';
+
+export interface NestProjectAddResult {
+  /** The monorepo root. */
+  project_path: string;
+  kind: NestProjectKind;
+  name: string;
+  /** Where the project's files go, relative to the monorepo root. */
+  root: string;
+  files: KitUpgradeFile[];
+  conflicts: string[];
+  applied: boolean;
+}
+
+export interface NestProjectAddOptions {
+  dryRun?: boolean;
+}
+
+/** Kit names `create project` routes into the enclosing monorepo. */
+const MEMBER_KITS: Record<string, NestProjectKind> = {
+  'nestjs.app': 'app',
+  'nestjs.lib': 'lib',
+};
+
+const PROJECT_NAME = /^[a-z][a-z0-9-]*$/;
+
+export function nestMonorepoMemberKind(kitName: string): NestProjectKind | null {
+  return MEMBER_KITS[kitName.trim().toLowerCase()] ?? null;
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+}
+
+async function pathExists(target: string): Promise<boolean> {
+  try {
+    await fs.access(target);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Root of the `nestjs.monorepo` project containing `start`, if any. */
+export async function findNestMonorepoRoot(start: string): Promise<string | null> {
+  const root = await findKitProjectRoot(start);
+  if (!root) return null;
+  return (await readProjectJson(root))?.kit_name === NEST_MONOREPO_KIT ? root : null;
+}
+
+/** Merge a new app or library `name` into the monorepo at `projectPath` and record it. */
+export async function addNestMonorepoProject(
+  projectPath: string,
+  kind: NestProjectKind,
+  name: string,
+  options: NestProjectAddOptions = {}
+): Promise<NestProjectAddResult> {
+  const label = kind === 'app' ? 'app' : 'library';
+  if (!PROJECT_NAME.test(name)) {
+    throw new NestMonorepoError(
+      `Invalid ${label} name "${name}"`,
+      'Use lowercase letters, digits and dashes, starting with a letter.'
+    );
+  }
+
+  const projectJson = await readProjectJson(projectPath);
+  if (projectJson?.kit_name !== NEST_MONOREPO_KIT) {
+    throw new NestMonorepoError(
+      'Not a NestJS monorepo',
+      `Run this inside a project generated from ${NEST_MONOREPO_KIT} (rapidkit create project ${NEST_MONOREPO_KIT} <name>).`
+    );
+  }
+
+  const apps = stringList(projectJson.apps);
+  const libs = stringList(projectJson.libs);
+  if (apps.includes(name) || libs.includes(name)) {
+    throw new NestMonorepoError(`"${name}" is already a project of this monorepo`);
+  }
+  const root = `${kind === 'app' ? 'apps' : 'libs'}/${name}`;
+  if (await pathExists(path.join(projectPath, root))) {
+    throw new NestMonorepoError(
+      `${root} already exists`,
+      'Pick another name, or move the directory out of the way.'
+    );
+  }
+
+  const recorded = await readKitBaseline(projectPath);
+  const variables = {
+    ...(recorded?.variables ?? variablesFromProjectJson(projectPath, projectJson)),
+    ...(typeof projectJson.lib_prefix === 'string' ? { lib_prefix: projectJson.lib_prefix } : {}),
+    // An empty list renders as "none"; see resolveKitVariables.
+    apps: apps.join(','),
+    libs: libs.join(','),
+  };
+  const nextApps = kind === 'app' ? [...apps, name] : apps;
+  const nextLibs = kind === 'lib' ? [...libs, name] : libs;
+
+  const before = await renderKit(NEST_MONOREPO_KIT, variables);
+  const after = await renderKit(NEST_MONOREPO_KIT, {
+    ...variables,
+    apps: nextApps.join(','),
+    libs: nextLibs.join(','),
+  });
+
+  const { files, writes } = await mergeKitFiles(before.files, after.files, (file) =>
+    fs.readFile(path.join(projectPath, file), 'utf-8').catch(() => undefined)
+  );
+  const result: NestProjectAddResult = {
+    project_path: projectPath,
+    kind,
+    name,
+    root,
+    files,
+    conflicts: files.filter((f) => f.status === 'conflict').map((f) => f.path),
+    applied: false,
+  };
+  if (options.dryRun) return result;
+
+  await applyKitWrites(projectPath, writes);
+  if (recorded) {
+    await advanceKitBaseline(projectPath, recorded, before.files, after.files, after.variables);
+  }
+  await fs.writeFile(
+    path.join(projectPath, PROJECT_JSON_PATH),
+    `${JSON.stringify({ ...projectJson, apps: nextApps, libs: nextLibs }, null, 2)}\n`,
+    'utf-8'
+  );
+
+  return { ...result, applied: true };
+}
@@ -0,0 +1,129 @@
+/**
+ * Transactional project creation.
+ *
+ * A half-written project directory blocks the next attempt with "directory
+ * already exists", so creation runs as a transaction: files are generated
+ * into a hidden staging directory next to the target and renamed into place
+ * (a single atomic rename on the same filesystem) only once generation has
+ * succeeded. Steps with side effects outside the project, such as workspace
+ * registry entries, register an undo step; `rollback` runs them in reverse
+ * order and removes the staged or published tree.
+ *
+ * Trees that cannot move after creation (virtualenvs embed absolute paths)
+ * are built in place instead, and rollback removes the target directory.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DirectoryExistsError } from './errors.js';
+
+const STAGING_SUFFIX = '.rapidkit-staging-';
+
+export interface ProjectTransactionOptions {
+  /** Build directly in the target directory instead of staging it. */
+  inPlace?: boolean;
+}
+
+export interface ProjectTransaction {
+  /** Where the project ends up. */
+  readonly targetPath: string;
+  /** Where to generate: the staging directory, or `targetPath` when building in place. */
+  readonly workPath: string;
+  /** Record how to undo a side effect; undo steps run in reverse order on rollback. */
+  onRollback(step: () => Promise<void>): void;
+  /** Move the staged tree to `targetPath`. Later failures still roll it back. */
+  publish(): Promise<void>;
+  /** Publish if needed and forget the undo steps: the project is complete. */
+  commit(): Promise<void>;
+  /** Undo everything since `beginProjectTransaction`. Never throws. */
+  rollback(): Promise<void>;
+}
+
+async function pathExists(target: string): Promise<boolean> {
+  try {
+    await fs.lstat(target);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Start creating the project at `targetPath`; fails if something is already there. */
+export async function beginProjectTransaction(
+  targetPath: string,
+  options: ProjectTransactionOptions = {}
+): Promise<ProjectTransaction> {
+  const resolved = path.resolve(targetPath);
+  const name = path.basename(resolved);
+  if (await pathExists(resolved)) throw new DirectoryExistsError(name);
+
+  const parent = path.dirname(resolved);
+  await fs.mkdir(parent, { recursive: true });
+
+  let workPath: string;
+  if (options.inPlace) {
+    await fs.mkdir(resolved);
+    workPath = resolved;
+  } else {
+    workPath = await fs.mkdtemp(path.join(parent, `.${name}${STAGING_SUFFIX}`));
+  }
+
+  let undo: Array<() => Promise<void>> = [];
+  let published = options.inPlace === true;
+  let finished = false;
+
+  const publish = async (): Promise<void> => {
+    if (published) return;
+    // Something may have been created at the target while we were generating.
+    if (await pathExists(resolved)) throw new DirectoryExistsError(name);
+    await fs.rename(workPath, resolved);
+    published = true;
+  };
+
+  return {
+    targetPath: resolved,
+    workPath,
+    onRollback(step) {
+      undo.push(step);
+    },
+    publish,
+    async commit() {
+      await publish();
+      undo = [];
+      finished = true;
+    },
+    async rollback() {
+      if (finished) return;
+      finished = true;
+      for (const step of undo.reverse()) {
+        try {
+          await step();
+        } catch {
+          // Keep undoing; one failed step must not strand the rest.
+        }
+      }
+      await fs.rm(published ? resolved : workPath, { recursive: true, force: true });
+    },
+  };
+}
+
+/**
+ * Run `build` inside a project transaction: commit when it resolves, roll
+ * back and rethrow when it throws. `build` may publish early to run steps
+ * that need the final path, such as registering the project.
+ */
+export async function runProjectTransaction<T>(
+  targetPath: string,
+  build: (transaction: ProjectTransaction) => Promise<T>,
+  options: ProjectTransactionOptions = {}
+): Promise<T> {
+  const transaction = await beginProjectTransaction(targetPath, options);
+  try {
+    const result = await build(transaction);
+    await transaction.commit();
+    return result;
+  } catch (error) {
+    await transaction.rollback();
+    throw error;
+  }
+}
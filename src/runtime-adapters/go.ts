@@ -1,6 +1,11 @@
 import path from 'path';
 import fs from 'fs';
 import type { CommandResult, RuntimeAdapter } from './types.js';
+import {
+  resolveDependencySharingMode,
+  type DependencySharingMode,
+} from '../utils/workspace-policy.js';
+import { withMirrorPackageIndex } from '../utils/mirror-server.js';
 import { isWindowsPlatform } from '../utils/platform-capabilities.js';
 
 export type GoCommandRunner = (command: string, args: string[], cwd: string) => Promise<number>;
@@ -39,36 +44,8 @@ export class GoRuntimeAdapter implements RuntimeAdapter {
     return null;
   }
 
-  private resolveDependencyMode(
-    projectPath: string
-  ): 'isolated' | 'shared-runtime-caches' | 'shared-node-deps' {
-    const raw = process.env.RAPIDKIT_DEP_SHARING_MODE?.toLowerCase();
-    if (raw === 'shared-runtime-caches' || raw === 'shared-node-deps' || raw === 'isolated') {
-      return raw;
-    }
-
-    const workspace = this.findWorkspaceRoot(projectPath);
-    if (!workspace) return 'isolated';
-
-    const policyPath = path.join(workspace, '.rapidkit', 'policies.yml');
-    if (!fs.existsSync(policyPath)) return 'isolated';
-
-    try {
-      const policyRaw = fs.readFileSync(policyPath, 'utf-8');
-      const match = policyRaw.match(/^\s*dependency_sharing_mode:\s*([a-zA-Z\-]+)\s*(?:#.*)?$/m);
-      const value = match?.[1]?.toLowerCase();
-      if (
-        value === 'shared-runtime-caches' ||
-        value === 'shared-node-deps' ||
-        value === 'isolated'
-      ) {
-        return value;
-      }
-    } catch {
-      // Fallback to isolated.
-    }
-
-    return 'isolated';
+  private resolveDependencyMode(projectPath: string): DependencySharingMode {
+    return resolveDependencySharingMode(projectPath);
   }
 
   private withGoCacheEnv<T>(projectPath: string, fn: () => Promise<T>): Promise<T> {
@@ -115,11 +92,15 @@ export class GoRuntimeAdapter implements RuntimeAdapter {
   }
 
   async initProject(projectPath: string): Promise<CommandResult> {
-    return this.withGoCacheEnv(projectPath, async () => {
-      const prereq = await this.ensureGoInstalled(projectPath);
-      if (prereq) return prereq;
-      return this.run('go', ['mod', 'tidy'], projectPath);
-    });
+    const workspace =
+      process.env.RAPIDKIT_WORKSPACE_PATH || this.findWorkspaceRoot(projectPath) || projectPath;
+    return withMirrorPackageIndex(workspace, () =>
+      this.withGoCacheEnv(projectPath, async () => {
+        const prereq = await this.ensureGoInstalled(projectPath);
+        if (prereq) return prereq;
+        return this.run('go', ['mod', 'tidy'], projectPath);
+      })
+    );
   }
 
   async runDev(projectPath: string): Promise<CommandResult> {
@@ -171,6 +152,20 @@ export class GoRuntimeAdapter implements RuntimeAdapter {
     });
   }
 
+  async runLint(projectPath: string): Promise<CommandResult> {
+    return this.withGoCacheEnv(projectPath, async () => {
+      const makefilePath = path.join(projectPath, 'Makefile');
+      // The Go kits' `make lint` runs golangci-lint with the project's .golangci.yml.
+      if (fs.existsSync(makefilePath) && /^lint:/m.test(fs.readFileSync(makefilePath, 'utf-8'))) {
+        return this.run('make', ['lint'], projectPath);
+      }
+
+      const prereq = await this.ensureGoInstalled(projectPath);
+      if (prereq) return prereq;
+      return this.run('go', ['vet', './...'], projectPath);
+    });
+  }
+
   async doctorHints(_projectPath: string): Promise<string[]> {
     return [
       'Install Go from https://go.dev/dl/ if missing.',
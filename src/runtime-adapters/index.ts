@@ -2,6 +2,8 @@ import type { RuntimeAdapter, RuntimeName } from './types.js';
 import { GoRuntimeAdapter } from './go.js';
 import { NodeRuntimeAdapter } from './node.js';
 import { PythonRuntimeAdapter } from './python.js';
+import { PluginRuntimeAdapter } from './plugin.js';
+import { findRuntimePlugin } from './plugins.js';
 import path from 'path';
 import { getDefaultPythonCommand } from '../utils/platform-capabilities.js';
 
@@ -43,6 +45,10 @@ function buildPythonCoreEnv(): NodeJS.ProcessEnv {
   return env;
 }
 
+export function getRuntimeAdapter(runtime: 'go', deps: AdapterDeps): GoRuntimeAdapter;
+export function getRuntimeAdapter(runtime: 'node', deps: AdapterDeps): NodeRuntimeAdapter;
+export function getRuntimeAdapter(runtime: 'python', deps: AdapterDeps): PythonRuntimeAdapter;
+export function getRuntimeAdapter(runtime: RuntimeName, deps: AdapterDeps): RuntimeAdapter;
 export function getRuntimeAdapter(runtime: RuntimeName, deps: AdapterDeps): RuntimeAdapter {
   if (runtime === 'go') {
     return new GoRuntimeAdapter((command, args, cwd) => deps.runCommandInCwd(command, args, cwd));
@@ -52,6 +58,13 @@ export function getRuntimeAdapter(runtime: RuntimeName, deps: AdapterDeps): Runt
     return new NodeRuntimeAdapter((command, args, cwd) => deps.runCommandInCwd(command, args, cwd));
   }
 
+  const plugin = runtime === 'python' ? null : findRuntimePlugin(runtime);
+  if (plugin) {
+    return new PluginRuntimeAdapter(plugin, (command, args, cwd) =>
+      deps.runCommandInCwd(command, args, cwd)
+    );
+  }
+
   return new PythonRuntimeAdapter((args, cwd) =>
     deps.runCoreRapidkit(args, { cwd, env: buildPythonCoreEnv() })
   );
@@ -1,11 +1,28 @@
 import fs from 'fs';
 import path from 'path';
 import type { CommandResult, RuntimeAdapter } from './types.js';
+import {
+  resolveDependencySharingMode,
+  type DependencySharingMode,
+} from '../utils/workspace-policy.js';
+import { withMirrorPackageIndex } from '../utils/mirror-server.js';
 
 export type NodeCommandRunner = (command: string, args: string[], cwd: string) => Promise<number>;
 
 type PackageManager = 'npm' | 'pnpm' | 'yarn';
 
+export interface NodeRunOptions {
+  /**
+   * Project of a Nest monorepo (a `projects` entry of `nest-cli.json` with
+   * `"monorepo": true`) to run instead of the default one.
+   */
+  app?: string;
+  /** Package manager to use while the project has no lockfile yet. */
+  packageManager?: PackageManager;
+}
+
+type NestProject = { type: 'application' | 'library'; root: string };
+
 export class NodeRuntimeAdapter implements RuntimeAdapter {
   readonly runtime = 'node' as const;
 
@@ -29,35 +46,8 @@ export class NodeRuntimeAdapter implements RuntimeAdapter {
     return null;
   }
 
-  private resolveDependencyMode(
-    projectPath: string
-  ): 'isolated' | 'shared-runtime-caches' | 'shared-node-deps' {
-    const raw = process.env.RAPIDKIT_DEP_SHARING_MODE?.toLowerCase();
-    if (raw === 'shared-runtime-caches' || raw === 'shared-node-deps' || raw === 'isolated') {
-      return raw;
-    }
-    const workspace = this.findWorkspaceRoot(projectPath);
-    if (!workspace) return 'isolated';
-
-    const policyPath = path.join(workspace, '.rapidkit', 'policies.yml');
-    if (!fs.existsSync(policyPath)) return 'isolated';
-
-    try {
-      const policyRaw = fs.readFileSync(policyPath, 'utf-8');
-      const match = policyRaw.match(/^\s*dependency_sharing_mode:\s*([a-zA-Z\-]+)\s*(?:#.*)?$/m);
-      const value = match?.[1]?.toLowerCase();
-      if (
-        value === 'shared-runtime-caches' ||
-        value === 'shared-node-deps' ||
-        value === 'isolated'
-      ) {
-        return value;
-      }
-    } catch {
-      // Fallback to isolated.
-    }
-
-    return 'isolated';
+  private resolveDependencyMode(projectPath: string): DependencySharingMode {
+    return resolveDependencySharingMode(projectPath);
   }
 
   private withDependencyEnv<T>(
@@ -93,19 +83,72 @@ export class NodeRuntimeAdapter implements RuntimeAdapter {
     });
   }
 
-  private detectPackageManager(projectPath: string): PackageManager {
+  private detectPackageManager(projectPath: string, fallback?: PackageManager): PackageManager {
     if (fs.existsSync(path.join(projectPath, 'pnpm-lock.yaml'))) return 'pnpm';
     if (fs.existsSync(path.join(projectPath, 'yarn.lock'))) return 'yarn';
-    return 'npm';
+    if (fs.existsSync(path.join(projectPath, 'package-lock.json'))) return 'npm';
+    return fallback ?? 'npm';
   }
 
-  private scriptArgs(pm: PackageManager, scriptName: string): string[] {
+  private scriptArgs(pm: PackageManager, scriptName: string, extra: string[] = []): string[] {
     if (pm === 'npm') {
-      return ['run', scriptName];
+      // npm only forwards arguments to the script after `--`.
+      return extra.length > 0 ? ['run', scriptName, '--', ...extra] : ['run', scriptName];
     }
 
     // pnpm/yarn support `run` consistently across versions.
-    return ['run', scriptName];
+    return ['run', scriptName, ...extra];
+  }
+
+  /** The `--app` project from `nest-cli.json`, or why it cannot be used. */
+  private resolveNestProject(projectPath: string, app: string): NestProject | string {
+    let config: { monorepo?: unknown; projects?: Record<string, Partial<NestProject>> };
+    try {
+      config = JSON.parse(fs.readFileSync(path.join(projectPath, 'nest-cli.json'), 'utf-8'));
+    } catch {
+      config = {};
+    }
+    if (config.monorepo !== true) {
+      return '--app needs a NestJS monorepo (nest-cli.json with "monorepo": true)';
+    }
+    const projects = config.projects ?? {};
+    const project = Object.prototype.hasOwnProperty.call(projects, app) ? projects[app] : undefined;
+    if (!project) {
+      return `Unknown app "${app}" (available: ${Object.keys(projects).join(', ') || 'none'})`;
+    }
+    return {
+      type: project.type === 'library' ? 'library' : 'application',
+      root: project.root ?? `apps/${app}`,
+    };
+  }
+
+  /**
+   * Run a package script, narrowed to one monorepo project with `--app`:
+   * Nest CLI scripts take the project name, Jest a path under its root.
+   */
+  private runScript(
+    projectPath: string,
+    scriptName: 'dev' | 'test' | 'build' | 'start',
+    options: NodeRunOptions
+  ): Promise<CommandResult> {
+    const pm = this.detectPackageManager(projectPath, options.packageManager);
+    let extra: string[] = [];
+    if (options.app) {
+      const project = this.resolveNestProject(projectPath, options.app);
+      if (typeof project === 'string') {
+        return Promise.resolve({ exitCode: 1, message: project });
+      }
+      if (project.type === 'library' && (scriptName === 'dev' || scriptName === 'start')) {
+        return Promise.resolve({
+          exitCode: 1,
+          message: `"${options.app}" is a library; only applications can be started`,
+        });
+      }
+      extra = scriptName === 'test' ? [`${project.root}/`] : [options.app];
+    }
+    return this.withDependencyEnv(projectPath, pm, () =>
+      this.run(pm, this.scriptArgs(pm, scriptName, extra), projectPath)
+    );
   }
 
   async checkPrereqs(): Promise<CommandResult> {
@@ -129,41 +172,50 @@ export class NodeRuntimeAdapter implements RuntimeAdapter {
     });
   }
 
-  async initProject(projectPath: string): Promise<CommandResult> {
-    const pm = this.detectPackageManager(projectPath);
+  async initProject(projectPath: string, options: NodeRunOptions = {}): Promise<CommandResult> {
+    const pm = this.detectPackageManager(projectPath, options.packageManager);
     const mode = this.resolveDependencyMode(projectPath);
     const installArgs =
       mode === 'shared-runtime-caches' || mode === 'shared-node-deps'
         ? ['install', '--prefer-offline']
         : ['install'];
-    return this.withDependencyEnv(projectPath, pm, () => this.run(pm, installArgs, projectPath));
+    const workspace =
+      process.env.RAPIDKIT_WORKSPACE_PATH || this.findWorkspaceRoot(projectPath) || projectPath;
+    return withMirrorPackageIndex(workspace, () =>
+      this.withDependencyEnv(projectPath, pm, () => this.run(pm, installArgs, projectPath))
+    );
   }
 
-  async runDev(projectPath: string): Promise<CommandResult> {
-    const pm = this.detectPackageManager(projectPath);
-    return this.withDependencyEnv(projectPath, pm, () =>
-      this.run(pm, this.scriptArgs(pm, 'dev'), projectPath)
-    );
+  async runDev(projectPath: string, options: NodeRunOptions = {}): Promise<CommandResult> {
+    return this.runScript(projectPath, 'dev', options);
   }
 
-  async runTest(projectPath: string): Promise<CommandResult> {
-    const pm = this.detectPackageManager(projectPath);
-    return this.withDependencyEnv(projectPath, pm, () =>
-      this.run(pm, this.scriptArgs(pm, 'test'), projectPath)
-    );
+  async runTest(projectPath: string, options: NodeRunOptions = {}): Promise<CommandResult> {
+    return this.runScript(projectPath, 'test', options);
   }
 
-  async runBuild(projectPath: string): Promise<CommandResult> {
-    const pm = this.detectPackageManager(projectPath);
-    return this.withDependencyEnv(projectPath, pm, () =>
-      this.run(pm, this.scriptArgs(pm, 'build'), projectPath)
-    );
+  async runBuild(projectPath: string, options: NodeRunOptions = {}): Promise<CommandResult> {
+    return this.runScript(projectPath, 'build', options);
+  }
+
+  async runStart(projectPath: string, options: NodeRunOptions = {}): Promise<CommandResult> {
+    return this.runScript(projectPath, 'start', options);
   }
 
-  async runStart(projectPath: string): Promise<CommandResult> {
+  async runLint(projectPath: string): Promise<CommandResult> {
+    let scripts: Record<string, unknown> = {};
+    try {
+      const pkg = JSON.parse(fs.readFileSync(path.join(projectPath, 'package.json'), 'utf-8'));
+      scripts = pkg.scripts ?? {};
+    } catch {
+      // Reported below as a missing script.
+    }
+    if (typeof scripts.lint !== 'string') {
+      return { exitCode: 1, message: 'No "lint" script in package.json' };
+    }
     const pm = this.detectPackageManager(projectPath);
     return this.withDependencyEnv(projectPath, pm, () =>
-      this.run(pm, this.scriptArgs(pm, 'start'), projectPath)
+      this.run(pm, this.scriptArgs(pm, 'lint'), projectPath)
     );
   }
 
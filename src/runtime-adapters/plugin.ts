@@ -0,0 +1,143 @@
+import path from 'path';
+import fs from 'fs';
+import type { CommandResult, RuntimeAdapter, RuntimeName } from './types.js';
+import { runtimePluginLabel, type RuntimePlugin, type RuntimePluginCommand } from './plugins.js';
+import { resolveDependencySharingMode } from '../utils/workspace-policy.js';
+
+export type PluginCommandRunner = (command: string, args: string[], cwd: string) => Promise<number>;
+
+function findWorkspaceRoot(startPath: string): string | null {
+  let current = startPath;
+  while (true) {
+    if (fs.existsSync(path.join(current, '.rapidkit-workspace'))) return current;
+    const parent = path.dirname(current);
+    if (parent === current) break;
+    current = parent;
+  }
+  return null;
+}
+
+/**
+ * The plugin's cache variables for a project: directories under
+ * `.rapidkit/cache/<runtime>` of the project, or of the workspace in
+ * `shared-runtime-caches` mode.
+ */
+export function pluginCacheEnv(plugin: RuntimePlugin, projectPath: string): Record<string, string> {
+  const workspace = process.env.RAPIDKIT_WORKSPACE_PATH || findWorkspaceRoot(projectPath);
+  const cacheBase =
+    resolveDependencySharingMode(projectPath) === 'shared-runtime-caches'
+      ? path.join(workspace || projectPath, '.rapidkit', 'cache', plugin.runtime)
+      : path.join(projectPath, '.rapidkit', 'cache', plugin.runtime);
+  return Object.fromEntries(
+    Object.entries(plugin.cacheEnv ?? {}).map(([variable, dir]) => [
+      variable,
+      path.join(cacheBase, dir),
+    ])
+  );
+}
+
+/** Adapter running the commands a runtime plugin declares. */
+export class PluginRuntimeAdapter implements RuntimeAdapter {
+  readonly runtime: RuntimeName;
+
+  constructor(
+    private readonly plugin: RuntimePlugin,
+    private readonly runCommand: PluginCommandRunner
+  ) {
+    this.runtime = plugin.runtime;
+  }
+
+  private withCacheEnv<T>(projectPath: string, fn: () => Promise<T>): Promise<T> {
+    const cacheEnv = pluginCacheEnv(this.plugin, projectPath);
+    const original = Object.fromEntries(
+      Object.keys(cacheEnv).map((variable) => [variable, process.env[variable]])
+    );
+    Object.assign(process.env, cacheEnv);
+
+    return fn().finally(() => {
+      for (const [variable, value] of Object.entries(original)) {
+        if (typeof value === 'undefined') delete process.env[variable];
+        else process.env[variable] = value;
+      }
+    });
+  }
+
+  private async ensureInstalled(projectPath: string): Promise<CommandResult | null> {
+    const { command, args = [], install } = this.plugin.prereq;
+    if ((await this.runCommand(command, args, projectPath)) === 0) return null;
+    return {
+      exitCode: 1,
+      message: [
+        `${runtimePluginLabel(this.plugin)} toolchain is not installed or not available on PATH (\`${command}\` failed).`,
+        install,
+      ]
+        .filter(Boolean)
+        .join(' '),
+    };
+  }
+
+  private async run(step: RuntimePluginCommand, projectPath: string): Promise<CommandResult> {
+    const argv = this.plugin.commands[step];
+    if (!argv) {
+      return {
+        exitCode: 1,
+        message: `The ${this.plugin.runtime} runtime plugin declares no ${step} command (commands.${step}).`,
+      };
+    }
+    return this.withCacheEnv(projectPath, async () => {
+      const prereq = await this.ensureInstalled(projectPath);
+      if (prereq) return prereq;
+      const [command, ...args] = argv;
+      return { exitCode: await this.runCommand(command, args, projectPath) };
+    });
+  }
+
+  async checkPrereqs(): Promise<CommandResult> {
+    const { command, args = [] } = this.plugin.prereq;
+    return { exitCode: await this.runCommand(command, args, process.cwd()) };
+  }
+
+  async warmSetupCache(projectPath: string): Promise<CommandResult> {
+    try {
+      for (const dir of Object.values(pluginCacheEnv(this.plugin, projectPath))) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+      return { exitCode: 0 };
+    } catch {
+      return {
+        exitCode: 1,
+        message: `Failed to prepare ${runtimePluginLabel(this.plugin)} cache directories`,
+      };
+    }
+  }
+
+  async initProject(projectPath: string): Promise<CommandResult> {
+    if (!this.plugin.commands.init) return { exitCode: 0 };
+    return this.run('init', projectPath);
+  }
+
+  async runDev(projectPath: string): Promise<CommandResult> {
+    return this.run('dev', projectPath);
+  }
+
+  async runTest(projectPath: string): Promise<CommandResult> {
+    return this.run('test', projectPath);
+  }
+
+  async runBuild(projectPath: string): Promise<CommandResult> {
+    return this.run('build', projectPath);
+  }
+
+  async runStart(projectPath: string): Promise<CommandResult> {
+    return this.run('start', projectPath);
+  }
+
+  async runLint(projectPath: string): Promise<CommandResult> {
+    return this.run('lint', projectPath);
+  }
+
+  async doctorHints(_projectPath: string): Promise<string[]> {
+    const { install } = this.plugin.prereq;
+    return [...(install ? [install] : []), ...(this.plugin.doctorHints ?? [])];
+  }
+}
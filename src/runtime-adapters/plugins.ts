@@ -0,0 +1,282 @@
+/**
+ * Runtime adapter plugins.
+ *
+ * Python, Node and Go are built in. Other languages (Rust, Java, ...) are
+ * added by listing plugins under `runtimes` in `~/.rapidkitrc.json` or
+ * `rapidkit.config.js`, or in `RAPIDKIT_RUNTIMES` (path-delimited). Each entry
+ * is a local directory or an npm package that provides either:
+ *
+ *   - a `runtime.yaml` / `runtime.yml` / `runtime.json` manifest, or
+ *   - a module (`package.json` `rapidkit.runtime`, else `main`) exporting a
+ *     `RuntimePlugin` as `default`, `runtime`, or an array as `runtimes`.
+ *
+ * A plugin declares how its projects are recognised, the command proving the
+ * toolchain is installed, one command per lifecycle step, the cache variables
+ * to keep under `.rapidkit/cache/<runtime>` and doctor hints. Projects it
+ * claims then go through the same lifecycle commands, bootstrap profile
+ * checks, doctor and strict-policy pre-flight as the built-in runtimes.
+ */
+
+import fs, { promises as fsp } from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { parse as parseYaml } from 'yaml';
+import { execa } from 'execa';
+import { readPluginSources, resolvePluginDirectory } from '../utils/plugin-sources.js';
+import {
+  isGoProject,
+  isNodeProject,
+  isPythonProject,
+  type RapidkitProjectJson,
+} from '../utils/runtime-detection.js';
+
+export const RUNTIME_PLUGIN_COMMANDS = ['init', 'dev', 'test', 'build', 'start', 'lint'] as const;
+
+export type RuntimePluginCommand = (typeof RUNTIME_PLUGIN_COMMANDS)[number];
+
+export interface RuntimePlugin {
+  /** Name recorded as `runtime` in project.json and toolchain.lock (`rust`). */
+  runtime: string;
+  /** Shown in doctor and setup output; defaults to `runtime`. */
+  displayName?: string;
+  detect?: {
+    /** Files marking a project of this runtime (`Cargo.toml`). */
+    files?: string[];
+    /** Kit name prefixes (`axum` claims `axum.standard`). */
+    kits?: string[];
+  };
+  /** Exits 0 when the toolchain is installed; the version it prints goes to toolchain.lock. */
+  prereq: {
+    command: string;
+    args?: string[];
+    /** How to install the toolchain, shown when the check fails. */
+    install?: string;
+  };
+  /** Command line per lifecycle step. Without `init`, init has nothing to do. */
+  commands: Partial<Record<RuntimePluginCommand, string[]>>;
+  /** Environment variable → directory under the runtime cache (`CARGO_HOME: cargo`). */
+  cacheEnv?: Record<string, string>;
+  doctorHints?: string[];
+}
+
+export interface RegisteredRuntimePlugin extends RuntimePlugin {
+  /** The directory/package the plugin was loaded from. */
+  origin: string;
+}
+
+export interface RuntimePluginRegistry {
+  plugins: RegisteredRuntimePlugin[];
+  errors: Array<{ source: string; error: string }>;
+}
+
+const RUNTIME_MANIFEST_FILES = ['runtime.yaml', 'runtime.yml', 'runtime.json'];
+const RESERVED_RUNTIMES = ['python', 'node', 'go', 'typescript', 'unknown'];
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string' && item.length > 0);
+
+function validateRuntimePlugin(value: unknown): string | null {
+  if (!value || typeof value !== 'object') return 'runtime plugin must be an object';
+  const plugin = value as Partial<RuntimePlugin>;
+  const name = plugin.runtime;
+  if (typeof name !== 'string' || !name) return 'runtime plugin is missing a runtime name';
+  if (!/^[a-z][a-z0-9-]*$/.test(name)) {
+    return `runtime ${name} must be lowercase letters, digits and dashes`;
+  }
+  if (RESERVED_RUNTIMES.includes(name)) return `runtime ${name} is built in`;
+  if (!plugin.prereq || typeof plugin.prereq.command !== 'string' || !plugin.prereq.command) {
+    return `runtime ${name} must declare prereq.command`;
+  }
+  if (plugin.prereq.args !== undefined && !isStringList(plugin.prereq.args)) {
+    return `runtime ${name}: prereq.args must be a list of strings`;
+  }
+  if (!plugin.commands || typeof plugin.commands !== 'object') {
+    return `runtime ${name} must declare commands`;
+  }
+  for (const [step, argv] of Object.entries(plugin.commands)) {
+    if (!(RUNTIME_PLUGIN_COMMANDS as readonly string[]).includes(step)) {
+      return `runtime ${name} has unknown command "${step}" (expected ${RUNTIME_PLUGIN_COMMANDS.join(', ')})`;
+    }
+    if (!isStringList(argv) || argv.length === 0) {
+      return `runtime ${name}: commands.${step} must be a non-empty list of strings`;
+    }
+  }
+  for (const key of ['files', 'kits'] as const) {
+    if (plugin.detect?.[key] !== undefined && !isStringList(plugin.detect[key])) {
+      return `runtime ${name}: detect.${key} must be a list of strings`;
+    }
+  }
+  for (const [variable, dir] of Object.entries(plugin.cacheEnv ?? {})) {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(variable)) {
+      return `runtime ${name}: cacheEnv has invalid variable name ${variable}`;
+    }
+    if (
+      typeof dir !== 'string' ||
+      !dir ||
+      path.isAbsolute(dir) ||
+      dir.split(/[\\/]/).includes('..')
+    ) {
+      return `runtime ${name}: cacheEnv.${variable} must be a directory inside the runtime cache`;
+    }
+  }
+  if (plugin.doctorHints !== undefined && !isStringList(plugin.doctorHints)) {
+    return `runtime ${name}: doctorHints must be a list of strings`;
+  }
+  return null;
+}
+
+async function loadPluginsFromDirectory(pluginDir: string): Promise<RuntimePlugin[]> {
+  for (const manifestName of RUNTIME_MANIFEST_FILES) {
+    let raw: string;
+    try {
+      raw = await fsp.readFile(path.join(pluginDir, manifestName), 'utf-8');
+    } catch {
+      continue;
+    }
+    return [parseYaml(raw) as RuntimePlugin];
+  }
+
+  const packageJson = JSON.parse(
+    await fsp.readFile(path.join(pluginDir, 'package.json'), 'utf-8')
+  ) as { main?: string; rapidkit?: { runtime?: string } };
+  const entry = packageJson.rapidkit?.runtime ?? packageJson.main;
+  if (!entry) throw new Error('package.json declares neither rapidkit.runtime nor main');
+  const loaded = (await import(pathToFileURL(path.resolve(pluginDir, entry)).href)) as {
+    default?: RuntimePlugin | RuntimePlugin[];
+    runtime?: RuntimePlugin;
+    runtimes?: RuntimePlugin[];
+  };
+  const exported = loaded.runtimes ?? loaded.runtime ?? loaded.default;
+  if (!exported) throw new Error(`${entry} exports no runtime (default, runtime or runtimes)`);
+  return Array.isArray(exported) ? exported : [exported];
+}
+
+/** Collect plugin sources from `RAPIDKIT_RUNTIMES`, `~/.rapidkitrc.json` and `rapidkit.config.js`. */
+export async function readRuntimePluginSources(cwd: string = process.cwd()): Promise<string[]> {
+  return readPluginSources('runtimes', 'RAPIDKIT_RUNTIMES', cwd);
+}
+
+/**
+ * Load the plugins from the given sources. A source that fails to load or a
+ * plugin that fails validation is reported in `errors` and skipped, so one
+ * broken plugin never blocks the built-in runtimes or the other plugins.
+ */
+export async function loadRuntimePlugins(
+  options: { cwd?: string; sources?: string[] } = {}
+): Promise<RuntimePluginRegistry> {
+  const cwd = options.cwd ?? process.cwd();
+  const sources = options.sources ?? (await readRuntimePluginSources(cwd));
+  const registry: RuntimePluginRegistry = { plugins: [], errors: [] };
+
+  for (const source of sources) {
+    try {
+      const pluginDir = await resolvePluginDirectory(source, cwd);
+      for (const plugin of await loadPluginsFromDirectory(pluginDir)) {
+        const problem = validateRuntimePlugin(plugin);
+        const taken = registry.plugins.find((other) => other.runtime === plugin.runtime);
+        if (problem || taken) {
+          registry.errors.push({
+            source,
+            error: problem ?? `runtime ${plugin.runtime} is already provided by ${taken?.origin}`,
+          });
+          continue;
+        }
+        registry.plugins.push({ ...plugin, origin: source });
+      }
+    } catch (error) {
+      registry.errors.push({ source, error: (error as Error).message });
+    }
+  }
+  return registry;
+}
+
+// ─── Active plugins ──────────────────────────────────────────────────────────
+
+let activePlugins: RegisteredRuntimePlugin[] = [];
+let activation: Promise<RuntimePluginRegistry> | null = null;
+
+/**
+ * Load the configured plugins once per process and make them visible to
+ * detection and `getRuntimeAdapter`. Later calls return the same registry.
+ */
+export function activateRuntimePlugins(
+  cwd: string = process.cwd()
+): Promise<RuntimePluginRegistry> {
+  activation ??= loadRuntimePlugins({ cwd }).then((registry) => {
+    activePlugins = registry.plugins;
+    return registry;
+  });
+  return activation;
+}
+
+/** Replace the active plugins (embedding and tests); skips loading from configuration. */
+export function registerRuntimePlugins(plugins: RuntimePlugin[], origin = 'inline'): void {
+  activePlugins = plugins.map((plugin) => ({ origin, ...plugin }));
+  activation = Promise.resolve({ plugins: activePlugins, errors: [] });
+}
+
+export function runtimePlugins(): readonly RegisteredRuntimePlugin[] {
+  return activePlugins;
+}
+
+export function findRuntimePlugin(runtime: string): RegisteredRuntimePlugin | null {
+  return activePlugins.find((plugin) => plugin.runtime === runtime) ?? null;
+}
+
+export function runtimePluginLabel(plugin: RuntimePlugin): string {
+  return plugin.displayName ?? plugin.runtime;
+}
+
+/**
+ * The plugin owning a project. A `runtime` or kit prefix in project.json
+ * claiming a plugin wins; file rules only apply to projects none of the
+ * built-in runtimes recognise, so a Rust service with a `package.json` for
+ * tooling needs `"runtime": "rust"` to be treated as Rust.
+ */
+export function detectRuntimePlugin(
+  projectJson: RapidkitProjectJson,
+  projectPath: string
+): RegisteredRuntimePlugin | null {
+  if (activePlugins.length === 0) return null;
+  const runtime = (projectJson?.runtime as string | undefined)?.toLowerCase();
+  const kitName = (projectJson?.kit_name as string | undefined)?.toLowerCase();
+
+  const claimed =
+    activePlugins.find((plugin) => plugin.runtime === runtime) ??
+    activePlugins.find((plugin) =>
+      (plugin.detect?.kits ?? []).some((prefix) => kitName?.startsWith(prefix.toLowerCase()))
+    );
+  if (claimed) return claimed;
+
+  if (
+    runtime ||
+    isGoProject(projectJson, projectPath) ||
+    isNodeProject(projectJson, projectPath) ||
+    isPythonProject(projectJson, projectPath)
+  ) {
+    return null;
+  }
+  return (
+    activePlugins.find((plugin) =>
+      (plugin.detect?.files ?? []).some((file) => fs.existsSync(path.join(projectPath, file)))
+    ) ?? null
+  );
+}
+
+/**
+ * Run the plugin's prereq check quietly. `version` is the first dotted
+ * version in its output, or null when there is none.
+ */
+export async function probeRuntimePlugin(
+  plugin: RuntimePlugin,
+  cwd: string = process.cwd()
+): Promise<{ installed: boolean; version: string | null }> {
+  const result = await execa(plugin.prereq.command, plugin.prereq.args ?? [], {
+    cwd,
+    reject: false,
+    timeout: 15_000,
+  });
+  if (result.exitCode !== 0) return { installed: false, version: null };
+  const output = `${result.stdout}\n${result.stderr}`;
+  return { installed: true, version: output.match(/\d+\.\d+(?:\.\d+)?/)?.[0] ?? null };
+}
@@ -1,9 +1,19 @@
 import type { CommandResult, RuntimeAdapter } from './types.js';
+import {
+  resolveDependencySharingMode,
+  type DependencySharingMode,
+} from '../utils/workspace-policy.js';
+import { withMirrorPackageIndex } from '../utils/mirror-server.js';
 import fs from 'fs';
 import path from 'path';
 
 export type PythonCoreRunner = (args: string[], cwd: string) => Promise<number>;
 
+export interface PythonRunOptions {
+  /** Extra arguments for the core command, e.g. `['--port', '8001']` for `dev`. */
+  args?: string[];
+}
+
 export class PythonRuntimeAdapter implements RuntimeAdapter {
   readonly runtime = 'python' as const;
 
@@ -27,36 +37,8 @@ export class PythonRuntimeAdapter implements RuntimeAdapter {
     return null;
   }
 
-  private resolveDependencyMode(
-    projectPath: string
-  ): 'isolated' | 'shared-runtime-caches' | 'shared-node-deps' {
-    const raw = process.env.RAPIDKIT_DEP_SHARING_MODE?.toLowerCase();
-    if (raw === 'shared-runtime-caches' || raw === 'shared-node-deps' || raw === 'isolated') {
-      return raw;
-    }
-
-    const workspace = this.findWorkspaceRoot(projectPath);
-    if (!workspace) return 'isolated';
-
-    const policyPath = path.join(workspace, '.rapidkit', 'policies.yml');
-    if (!fs.existsSync(policyPath)) return 'isolated';
-
-    try {
-      const policyRaw = fs.readFileSync(policyPath, 'utf-8');
-      const match = policyRaw.match(/^\s*dependency_sharing_mode:\s*([a-zA-Z\-]+)\s*(?:#.*)?$/m);
-      const value = match?.[1]?.toLowerCase();
-      if (
-        value === 'shared-runtime-caches' ||
-        value === 'shared-node-deps' ||
-        value === 'isolated'
-      ) {
-        return value;
-      }
-    } catch {
-      // Fallback to isolated.
-    }
-
-    return 'isolated';
+  private resolveDependencyMode(projectPath: string): DependencySharingMode {
+    return resolveDependencySharingMode(projectPath);
   }
 
   private withPythonCacheEnv<T>(projectPath: string, fn: () => Promise<T>): Promise<T> {
@@ -91,11 +73,13 @@ export class PythonRuntimeAdapter implements RuntimeAdapter {
   }
 
   async initProject(projectPath: string): Promise<CommandResult> {
-    return this.run(['init'], projectPath);
+    const workspace =
+      process.env.RAPIDKIT_WORKSPACE_PATH || this.findWorkspaceRoot(projectPath) || projectPath;
+    return withMirrorPackageIndex(workspace, () => this.run(['init'], projectPath));
   }
 
-  async runDev(projectPath: string): Promise<CommandResult> {
-    return this.run(['dev'], projectPath);
+  async runDev(projectPath: string, options: PythonRunOptions = {}): Promise<CommandResult> {
+    return this.run(['dev', ...(options.args ?? [])], projectPath);
   }
 
   async runTest(projectPath: string): Promise<CommandResult> {
@@ -106,8 +90,12 @@ export class PythonRuntimeAdapter implements RuntimeAdapter {
     return this.run(['build'], projectPath);
   }
 
-  async runStart(projectPath: string): Promise<CommandResult> {
-    return this.run(['start'], projectPath);
+  async runStart(projectPath: string, options: PythonRunOptions = {}): Promise<CommandResult> {
+    return this.run(['start', ...(options.args ?? [])], projectPath);
+  }
+
+  async runLint(projectPath: string): Promise<CommandResult> {
+    return this.run(['lint'], projectPath);
   }
 
   async doctorHints(_projectPath: string): Promise<string[]> {
@@ -1,4 +1,7 @@
-export type RuntimeName = 'python' | 'node' | 'go';
+export type BuiltinRuntimeName = 'python' | 'node' | 'go';
+
+/** A built-in runtime or the name of a registered runtime plugin (`rust`, `java`, ...). */
+export type RuntimeName = BuiltinRuntimeName | (string & {});
 
 export type CommandResult = {
   exitCode: number;
@@ -14,5 +17,6 @@ export interface RuntimeAdapter {
   runTest(projectPath: string): Promise<CommandResult>;
   runBuild(projectPath: string): Promise<CommandResult>;
   runStart(projectPath: string): Promise<CommandResult>;
+  runLint?(projectPath: string): Promise<CommandResult>;
   doctorHints(projectPath: string): Promise<string[]>;
 }
@@ -0,0 +1,500 @@
+/**
+ * Task graph and incremental cache for `build` and `test`.
+ *
+ * Projects opt in through `.rapidkit/project.json`:
+ *
+ *   "depends_on": ["libs/shared"],
+ *   "tasks": { "build": { "inputs": ["src/**", "package.json"], "outputs": ["dist/**"] } }
+ *
+ * `depends_on` names other workspace projects (paths relative to the workspace
+ * root). `rapidkit run` starts a project only after the selected projects it
+ * depends on succeeded. A task with declared inputs is hashed before it runs:
+ * the input files, the task definition, the pinned toolchain for the runtime
+ * and the build inputs of every dependency. When a successful run with the
+ * same hash is cached, its outputs are restored and the task is skipped.
+ *
+ * Entries live in `.rapidkit/cache/tasks` of the project, or of the workspace
+ * in `shared-runtime-caches` mode, next to the runtime caches. Each store
+ * evicts the least recently used entries beyond `cache.tasks.max_size`.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, promises as fs } from 'fs';
+import path from 'path';
+import { TaskCacheError } from './errors.js';
+import { DEFAULT_TASK_CACHE_MAX_SIZE } from './utils/cache.js';
+import { globToRegExp } from './template-kits.js';
+import { resolveDependencySharingMode } from './utils/workspace-policy.js';
+import { readRapidkitProjectJson } from './utils/runtime-detection.js';
+import { describeWorkspaceProject } from './workspace-run.js';
+
+export const CACHEABLE_TASKS = ['build', 'test'] as const;
+
+export type CacheableTask = (typeof CACHEABLE_TASKS)[number];
+
+export interface TaskDefinition {
+  /** Globs relative to the project; files under `outputs` are never inputs. */
+  inputs: string[];
+  outputs: string[];
+}
+
+export interface ProjectTaskConfig {
+  dependsOn: string[];
+  tasks: Partial<Record<CacheableTask, TaskDefinition>>;
+}
+
+export interface CachedTask {
+  project: string;
+  projectPath: string;
+  task: CacheableTask;
+  definition: TaskDefinition;
+  hash: string;
+  /** Number of input files hashed, dependencies excluded. */
+  inputFiles: number;
+  cacheDir: string;
+}
+
+export interface TaskCachePruneResult {
+  scanned: number;
+  removed: number;
+  freedBytes: number;
+  totalBytes: number;
+}
+
+export interface TaskCacheEntry {
+  project: string;
+  task: CacheableTask;
+  hash: string;
+  created_at: string;
+  duration_ms: number;
+  outputs: string[];
+}
+
+const TASK_CACHE_FORMAT = 1;
+const ENTRY_FILE = 'entry.json';
+const OUTPUTS_DIR = 'outputs';
+/** Entries without entry.json younger than this may still be being stored. */
+const INCOMPLETE_ENTRY_GRACE_MS = 60 * 60 * 1000;
+/** Never hashed or cached: VCS data, installed dependencies and RapidKit state. */
+const SKIPPED_DIRECTORIES = new Set(['.git', 'node_modules', '.rapidkit', '.venv', '__pycache__']);
+
+export function isCacheableTask(value: string | undefined): value is CacheableTask {
+  return !!value && (CACHEABLE_TASKS as readonly string[]).includes(value);
+}
+
+/** Whether a project.json opts `task` into the cache (without validating it). */
+export function declaresCachedTask(
+  projectJson: Record<string, unknown> | null,
+  task: string | undefined
+): boolean {
+  const tasks = projectJson?.tasks as Record<string, unknown> | undefined;
+  return isCacheableTask(task) && !!tasks && typeof tasks === 'object' && !!tasks[task];
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+/** `depends_on` and `tasks` from a project.json, validated. */
+export function readProjectTaskConfig(
+  projectJson: Record<string, unknown> | null,
+  label = 'project.json'
+): ProjectTaskConfig {
+  const config: ProjectTaskConfig = { dependsOn: [], tasks: {} };
+  const dependsOn = projectJson?.depends_on;
+  if (dependsOn !== undefined) {
+    if (!isStringArray(dependsOn)) {
+      throw new TaskCacheError(`"depends_on" in ${label} must be a list of project names`);
+    }
+    config.dependsOn = dependsOn;
+  }
+
+  const tasks = projectJson?.tasks;
+  if (tasks === undefined) return config;
+  if (!tasks || typeof tasks !== 'object' || Array.isArray(tasks)) {
+    throw new TaskCacheError(`"tasks" in ${label} must be an object`);
+  }
+  for (const [name, raw] of Object.entries(tasks)) {
+    if (!isCacheableTask(name)) {
+      throw new TaskCacheError(
+        `Unknown task "${name}" in ${label}; use ${CACHEABLE_TASKS.join(' or ')}`
+      );
+    }
+    const definition = (raw ?? {}) as Record<string, unknown>;
+    if (!isStringArray(definition.inputs) || definition.inputs.length === 0) {
+      throw new TaskCacheError(
+        `tasks.${name}.inputs in ${label} must be a non-empty list of globs`
+      );
+    }
+    if (definition.outputs !== undefined && !isStringArray(definition.outputs)) {
+      throw new TaskCacheError(`tasks.${name}.outputs in ${label} must be a list of globs`);
+    }
+    config.tasks[name] = { inputs: definition.inputs, outputs: definition.outputs ?? [] };
+  }
+  return config;
+}
+
+function projectLabel(workspacePath: string | null, projectPath: string): string {
+  return workspacePath
+    ? path.relative(workspacePath, projectPath).split(path.sep).join('/')
+    : path.basename(projectPath);
+}
+
+function loadProjectTaskConfig(workspacePath: string | null, projectPath: string) {
+  const label = `${projectLabel(workspacePath, projectPath) || '.'}/.rapidkit/project.json`;
+  return readProjectTaskConfig(readRapidkitProjectJson(projectPath), label);
+}
+
+function resolveDependency(workspacePath: string | null, from: string, name: string): string {
+  const dependencyPath = workspacePath && path.resolve(workspacePath, name);
+  if (
+    !workspacePath ||
+    !dependencyPath ||
+    path.relative(workspacePath, dependencyPath).startsWith('..') ||
+    !existsSync(path.join(dependencyPath, '.rapidkit', 'project.json'))
+  ) {
+    throw new TaskCacheError(`${from} depends on "${name}", which is not a workspace project`);
+  }
+  return dependencyPath;
+}
+
+function cycleError(chain: string[], name: string): TaskCacheError {
+  return new TaskCacheError(
+    `Project dependencies form a cycle: ${[...chain.slice(chain.indexOf(name)), name].join(' → ')}`
+  );
+}
+
+/**
+ * Dependencies of `projectPaths` and of every project they transitively
+ * depend on, by project name, for scheduling. Other workspace projects are
+ * not read. Throws on unknown projects and on cycles.
+ */
+export function readTaskGraph(
+  workspacePath: string,
+  projectPaths: string[]
+): Record<string, string[]> {
+  const graph: Record<string, string[]> = {};
+  const pending = [...projectPaths];
+  while (pending.length > 0) {
+    const projectPath = pending.shift() as string;
+    const name = projectLabel(workspacePath, projectPath);
+    if (name in graph) continue;
+    const dependencyPaths = loadProjectTaskConfig(workspacePath, projectPath).dependsOn.map(
+      (dependency) => resolveDependency(workspacePath, name, dependency)
+    );
+    graph[name] = dependencyPaths.map((dependencyPath) =>
+      projectLabel(workspacePath, dependencyPath)
+    );
+    pending.push(...dependencyPaths);
+  }
+
+  const visiting: string[] = [];
+  const visited = new Set<string>();
+  const visit = (name: string) => {
+    if (visited.has(name)) return;
+    if (visiting.includes(name)) throw cycleError(visiting, name);
+    visiting.push(name);
+    for (const dependency of graph[name] ?? []) visit(dependency);
+    visiting.pop();
+    visited.add(name);
+  };
+  Object.keys(graph).forEach(visit);
+  return graph;
+}
+
+/** Files under `root` as sorted `/`-separated relative paths. */
+async function listProjectFiles(root: string): Promise<string[]> {
+  const files: string[] = [];
+  const walk = async (dir: string) => {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    for (const entry of entries) {
+      const absolute = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRECTORIES.has(entry.name)) await walk(absolute);
+      } else if (entry.isFile()) {
+        files.push(path.relative(root, absolute).split(path.sep).join('/'));
+      }
+    }
+  };
+  await walk(root);
+  return files.sort();
+}
+
+function matchesAny(file: string, globs: RegExp[]): boolean {
+  return globs.some((glob) => glob.test(file));
+}
+
+async function hashFiles(root: string, files: string[]): Promise<string> {
+  const hash = createHash('sha256');
+  for (const file of files) {
+    const content = await fs.readFile(path.join(root, file));
+    hash.update(`${file}\0${createHash('sha256').update(content).digest('hex')}\0`);
+  }
+  return hash.digest('hex');
+}
+
+async function readToolchainPin(workspacePath: string | null, runtime: string): Promise<unknown> {
+  if (!workspacePath) return null;
+  try {
+    const lock = JSON.parse(
+      await fs.readFile(path.join(workspacePath, '.rapidkit', 'toolchain.lock'), 'utf-8')
+    ) as { runtime?: Record<string, unknown> };
+    return lock.runtime?.[runtime] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * What a dependency contributes to its dependents' hashes: its build hash
+ * when it declares a build, otherwise every file it has.
+ */
+async function dependencyHash(
+  workspacePath: string | null,
+  projectPath: string,
+  stack: string[],
+  memo: TaskHashMemo
+): Promise<string> {
+  const config = loadProjectTaskConfig(workspacePath, projectPath);
+  const tasks = config.tasks.build ? config.tasks : { build: { inputs: ['**'], outputs: [] } };
+  return (await hashTask(workspacePath, projectPath, 'build', { ...config, tasks }, stack, memo))
+    .hash;
+}
+
+interface TaskHash {
+  hash: string;
+  inputFiles: number;
+}
+
+/** Hashes by project and task, so shared dependencies are hashed once per resolve. */
+type TaskHashMemo = Map<string, Promise<TaskHash>>;
+
+function hashTask(
+  workspacePath: string | null,
+  projectPath: string,
+  task: CacheableTask,
+  config: ProjectTaskConfig,
+  stack: string[],
+  memo: TaskHashMemo
+): Promise<TaskHash> {
+  const name = projectLabel(workspacePath, projectPath);
+  // Before the memo: a project on the stack is still being hashed.
+  if (stack.includes(name)) return Promise.reject(cycleError(stack, name));
+  const key = `${name}\0${task}`;
+  let hashed = memo.get(key);
+  if (!hashed) {
+    hashed = computeTaskHash(workspacePath, projectPath, task, config, stack, memo);
+    memo.set(key, hashed);
+  }
+  return hashed;
+}
+
+async function computeTaskHash(
+  workspacePath: string | null,
+  projectPath: string,
+  task: CacheableTask,
+  config: ProjectTaskConfig,
+  stack: string[],
+  memo: TaskHashMemo
+): Promise<TaskHash> {
+  const name = projectLabel(workspacePath, projectPath);
+  const definition = config.tasks[task] as TaskDefinition;
+  const inputs = definition.inputs.map(globToRegExp);
+  const outputs = definition.outputs.map(globToRegExp);
+  const files = (await listProjectFiles(projectPath)).filter(
+    (file) => matchesAny(file, inputs) && !matchesAny(file, outputs)
+  );
+  const runtime = workspacePath
+    ? describeWorkspaceProject(workspacePath, projectPath).runtime
+    : (readRapidkitProjectJson(projectPath)?.runtime ?? 'unknown');
+
+  const hash = createHash('sha256');
+  hash.update(
+    JSON.stringify({
+      format: TASK_CACHE_FORMAT,
+      task,
+      runtime,
+      definition,
+      toolchain: await readToolchainPin(workspacePath, String(runtime)),
+    })
+  );
+  hash.update(await hashFiles(projectPath, files));
+  for (const dependency of [...config.dependsOn].sort()) {
+    const dependencyPath = resolveDependency(workspacePath, name, dependency);
+    hash.update(
+      `\0${dependency}\0${await dependencyHash(workspacePath, dependencyPath, [...stack, name], memo)}`
+    );
+  }
+  return { hash: hash.digest('hex'), inputFiles: files.length };
+}
+
+export function taskCacheDir(workspacePath: string | null, projectPath: string): string {
+  const shared = resolveDependencySharingMode(projectPath) === 'shared-runtime-caches';
+  return path.join(
+    shared && workspacePath ? workspacePath : projectPath,
+    '.rapidkit',
+    'cache',
+    'tasks'
+  );
+}
+
+/** The cacheable task `task` of a project, hashed; `null` when the project declares no inputs for it. */
+export async function resolveCachedTask(
+  workspacePath: string | null,
+  projectPath: string,
+  task: CacheableTask
+): Promise<CachedTask | null> {
+  const config = loadProjectTaskConfig(workspacePath, projectPath);
+  const definition = config.tasks[task];
+  if (!definition) return null;
+  const { hash, inputFiles } = await hashTask(
+    workspacePath,
+    projectPath,
+    task,
+    config,
+    [],
+    new Map()
+  );
+  return {
+    project: projectLabel(workspacePath, projectPath),
+    projectPath,
+    task,
+    definition,
+    hash,
+    inputFiles,
+    cacheDir: taskCacheDir(workspacePath, projectPath),
+  };
+}
+
+function entryDir(task: CachedTask): string {
+  // Keyed by project too: two projects with identical inputs keep their own outputs.
+  const key = createHash('sha256').update(`${task.project}\0${task.task}\0${task.hash}`);
+  return path.join(task.cacheDir, key.digest('hex'));
+}
+
+async function listOutputs(task: CachedTask): Promise<string[]> {
+  const outputs = task.definition.outputs.map(globToRegExp);
+  if (outputs.length === 0) return [];
+  return (await listProjectFiles(task.projectPath)).filter((file) => matchesAny(file, outputs));
+}
+
+/**
+ * Restore the outputs of a cached successful run: files matching `outputs`
+ * are replaced by the cached ones. `null` on a cache miss.
+ */
+export async function restoreTaskOutputs(task: CachedTask): Promise<TaskCacheEntry | null> {
+  const dir = entryDir(task);
+  let entry: TaskCacheEntry;
+  try {
+    entry = JSON.parse(await fs.readFile(path.join(dir, ENTRY_FILE), 'utf-8')) as TaskCacheEntry;
+  } catch {
+    return null;
+  }
+  for (const file of await listOutputs(task)) {
+    await fs.rm(path.join(task.projectPath, file), { force: true });
+  }
+  for (const file of entry.outputs) {
+    const target = path.join(task.projectPath, file);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.copyFile(path.join(dir, OUTPUTS_DIR, file), target);
+  }
+  // A restore is a use: pruneTaskCache evicts by entry.json mtime.
+  const now = new Date();
+  await fs.utimes(path.join(dir, ENTRY_FILE), now, now);
+  return entry;
+}
+
+/**
+ * Record a successful run and copy its outputs into the cache, then prune
+ * the cache directory down to `maxSizeBytes` (null: unbounded).
+ */
+export async function storeTaskOutputs(
+  task: CachedTask,
+  durationMs: number,
+  maxSizeBytes: number | null = DEFAULT_TASK_CACHE_MAX_SIZE
+): Promise<TaskCacheEntry> {
+  const dir = entryDir(task);
+  await fs.rm(dir, { recursive: true, force: true });
+  const outputs = await listOutputs(task);
+  for (const file of outputs) {
+    const target = path.join(dir, OUTPUTS_DIR, file);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.copyFile(path.join(task.projectPath, file), target);
+  }
+  const entry: TaskCacheEntry = {
+    project: task.project,
+    task: task.task,
+    hash: task.hash,
+    created_at: new Date().toISOString(),
+    duration_ms: durationMs,
+    outputs,
+  };
+  // Written last: an entry without entry.json is an interrupted store and never restored.
+  await fs.writeFile(path.join(dir, ENTRY_FILE), `${JSON.stringify(entry, null, 2)}\n`, 'utf-8');
+  await pruneTaskCache(task.cacheDir, maxSizeBytes);
+  return entry;
+}
+
+async function directorySize(dir: string): Promise<number> {
+  let bytes = 0;
+  for (const entry of await fs.readdir(dir, { recursive: true, withFileTypes: true })) {
+    if (entry.isFile()) bytes += (await fs.stat(path.join(entry.parentPath, entry.name))).size;
+  }
+  return bytes;
+}
+
+/**
+ * Bound a task cache directory: drop interrupted stores (no entry.json), then
+ * evict the least recently stored or restored entries until the rest fits
+ * `maxSizeBytes`. A null size only drops interrupted stores.
+ */
+export async function pruneTaskCache(
+  cacheDir: string,
+  maxSizeBytes: number | null
+): Promise<TaskCachePruneResult> {
+  const result: TaskCachePruneResult = { scanned: 0, removed: 0, freedBytes: 0, totalBytes: 0 };
+  let names: string[];
+  try {
+    names = await fs.readdir(cacheDir);
+  } catch {
+    return result;
+  }
+
+  const entries: Array<{ dir: string; bytes: number; usedAt: number }> = [];
+  for (const name of names) {
+    const dir = path.join(cacheDir, name);
+    let dirStat;
+    try {
+      dirStat = await fs.stat(dir);
+    } catch {
+      continue; // removed by a concurrent prune
+    }
+    if (!dirStat.isDirectory()) continue;
+    result.scanned += 1;
+    const bytes = await directorySize(dir);
+    let usedAt: number;
+    try {
+      usedAt = (await fs.stat(path.join(dir, ENTRY_FILE))).mtimeMs;
+    } catch {
+      if (Date.now() - dirStat.mtimeMs > INCOMPLETE_ENTRY_GRACE_MS) {
+        await fs.rm(dir, { recursive: true, force: true });
+        result.removed += 1;
+        result.freedBytes += bytes;
+      }
+      continue;
+    }
+    entries.push({ dir, bytes, usedAt });
+    result.totalBytes += bytes;
+  }
+
+  if (maxSizeBytes === null) return result;
+  entries.sort((a, b) => a.usedAt - b.usedAt);
+  for (const entry of entries) {
+    if (result.totalBytes <= maxSizeBytes) break;
+    await fs.rm(entry.dir, { recursive: true, force: true });
+    result.removed += 1;
+    result.freedBytes += entry.bytes;
+    result.totalBytes -= entry.bytes;
+  }
+  return result;
+}
@@ -0,0 +1,317 @@
+/**
+ * Bundled template kits.
+ *
+ * Every directory under `templates/kits/` carries a `kit.yaml` manifest that
+ * declares the kit name, runtime, variables, which template files to render
+ * (globs, optionally guarded by a `when` expression), output renames and
+ * post-generate hooks. The offline fallback discovers kits from these
+ * manifests, so adding a template variant is a templates-only change.
+ * Templates shared by several kits live in `templates/kits/_shared/`.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import nunjucks from 'nunjucks';
+import { parse as parseYaml } from 'yaml';
+import type { KitRuntime, KitVariable, KitVariableValue } from './generators/registry.js';
+import { getVersion } from './update-checker.js';
+import { createSecretGenerator, generationTimestamp } from './utils/reproducible.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const KIT_RUNTIMES: KitRuntime[] = ['python', 'node', 'go'];
+
+/**
+ * A file rule: either `glob` (template files relative to the kit directory,
+ * rendered to the same path without `.j2`) or a `path` rendered from an
+ * inline `template` or a `source` file.
+ */
+export interface TemplateKitFileRule {
+  glob?: string;
+  exclude?: string[];
+  path?: string;
+  template?: string;
+  /** Template file relative to the kit directory, e.g. `../_shared/node.gitignore.j2`. */
+  source?: string;
+  /** Nunjucks expression; the rule only applies when it is truthy. */
+  when?: string;
+  executable?: boolean;
+}
+
+export interface TemplateKitHook {
+  /** Command line, rendered with the kit variables. */
+  run: string;
+  description?: string;
+  /** Nunjucks expression evaluated with the variables plus `skip_install`. */
+  when?: string;
+}
+
+export interface TemplateKitManifest {
+  name: string;
+  runtime: KitRuntime;
+  displayName?: string;
+  description?: string;
+  /** Other kit names routed to this kit; a trailing `*` matches any suffix. */
+  aliases?: string[];
+  variables?: Record<string, KitVariable>;
+  files: TemplateKitFileRule[];
+  /** Output path renames applied after `.j2` is stripped (e.g. `env.example`). */
+  rename?: Record<string, string>;
+  hooks?: { postGenerate?: TemplateKitHook[] };
+}
+
+export interface TemplateKit extends TemplateKitManifest {
+  /** Kit directory holding `kit.yaml` and the templates. */
+  root: string;
+}
+
+export interface TemplateKitFile {
+  /** Output path relative to the project. */
+  path: string;
+  /** Template file relative to the kit directory. */
+  source?: string;
+  template?: string;
+  executable: boolean;
+}
+
+/** `templates/kits` in the package (works from both `src/` and the `dist/` bundle). */
+export function getTemplateKitsDir(): string {
+  return path.join(path.resolve(__dirname, '..'), 'templates', 'kits');
+}
+
+function validateTemplateKit(value: unknown): string | null {
+  if (!value || typeof value !== 'object') return 'manifest must be an object';
+  const kit = value as Partial<TemplateKitManifest>;
+  if (typeof kit.name !== 'string' || !kit.name.trim()) return 'manifest is missing a name';
+  if (!KIT_RUNTIMES.includes(kit.runtime as KitRuntime)) {
+    return `invalid runtime ${String(kit.runtime)} (expected ${KIT_RUNTIMES.join(', ')})`;
+  }
+  if (!Array.isArray(kit.files) || kit.files.length === 0) return 'manifest declares no files';
+  for (const rule of kit.files) {
+    if (!rule || (typeof rule.glob !== 'string' && typeof rule.path !== 'string')) {
+      return 'file rules need a glob or a path';
+    }
+    if (
+      typeof rule.path === 'string' &&
+      typeof rule.template !== 'string' &&
+      typeof rule.source !== 'string'
+    ) {
+      return `file ${rule.path} has no template or source`;
+    }
+  }
+  for (const hook of kit.hooks?.postGenerate ?? []) {
+    if (!hook || typeof hook.run !== 'string') return 'postGenerate hooks need a run command';
+  }
+  return null;
+}
+
+/**
+ * Load every `<dir>/kit.yaml` under the kits directory, sorted by name.
+ * Directories without a manifest are ignored; an invalid manifest throws,
+ * since it is a packaging bug rather than user input.
+ */
+export async function loadTemplateKits(
+  kitsDir: string = getTemplateKitsDir()
+): Promise<TemplateKit[]> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(kitsDir);
+  } catch {
+    return [];
+  }
+
+  const kits: TemplateKit[] = [];
+  for (const entry of entries) {
+    const manifestPath = path.join(kitsDir, entry, 'kit.yaml');
+    let raw: string;
+    try {
+      raw = await fs.readFile(manifestPath, 'utf-8');
+    } catch {
+      continue;
+    }
+    const manifest = parseYaml(raw) as TemplateKitManifest;
+    const problem = validateTemplateKit(manifest);
+    if (problem) throw new Error(`${manifestPath}: ${problem}`);
+    kits.push({ ...manifest, root: path.join(kitsDir, entry) });
+  }
+  return kits.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Convert a `**` / `*` / `?` glob to an anchored regular expression on `/` paths. */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      if (glob[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+async function listKitFiles(root: string): Promise<string[]> {
+  const entries = await fs.readdir(root, { recursive: true, withFileTypes: true });
+  return entries
+    .filter((entry) => entry.isFile())
+    .map((entry) =>
+      path.relative(root, path.join(entry.parentPath, entry.name)).split(path.sep).join('/')
+    )
+    .filter((file) => file !== 'kit.yaml')
+    .sort();
+}
+
+/** Evaluate a manifest `when` expression against the render context. */
+export function evaluateKitCondition(
+  env: nunjucks.Environment,
+  expression: string,
+  context: Record<string, unknown>
+): boolean {
+  return env.renderString(`{% if ${expression} %}1{% endif %}`, context) === '1';
+}
+
+/**
+ * Resolve the manifest's file rules to the concrete files to write, in rule
+ * order. A later rule wins when two rules produce the same output path.
+ */
+export async function planTemplateKitFiles(
+  kit: TemplateKit,
+  env: nunjucks.Environment,
+  context: Record<string, unknown>
+): Promise<TemplateKitFile[]> {
+  const available = await listKitFiles(kit.root);
+  const planned = new Map<string, TemplateKitFile>();
+
+  for (const rule of kit.files) {
+    if (rule.when && !evaluateKitCondition(env, rule.when, context)) continue;
+    const executable = rule.executable === true;
+
+    if (rule.path !== undefined) {
+      const output = env.renderString(rule.path, context);
+      planned.set(output, {
+        path: output,
+        ...(rule.source !== undefined ? { source: rule.source } : { template: rule.template }),
+        executable,
+      });
+      continue;
+    }
+
+    const include = globToRegExp(rule.glob as string);
+    const excludes = (rule.exclude ?? []).map(globToRegExp);
+    for (const source of available) {
+      if (!include.test(source) || excludes.some((exclude) => exclude.test(source))) continue;
+      const stripped = source.replace(/\.j2$/, '');
+      const output = kit.rename?.[stripped] ?? stripped;
+      planned.set(output, { path: output, source, executable });
+    }
+  }
+  return [...planned.values()];
+}
+
+/**
+ * Nunjucks environment for a kit: templates resolve from its directory.
+ * `secretSeed` (recorded in the kit baseline) makes `generate_secret`
+ * deterministic, so re-renders for `upgrade-kit` match the original.
+ */
+export function createTemplateKitEnvironment(
+  kit: TemplateKit,
+  options: { secretSeed?: string } = {}
+): nunjucks.Environment {
+  const env = new nunjucks.Environment(new nunjucks.FileSystemLoader(kit.root), {
+    autoescape: false,
+    trimBlocks: true,
+    lstripBlocks: true,
+  });
+
+  // Random secrets, or seeded ones in reproducible mode or for a recorded seed.
+  const generateSecret =
+    options.secretSeed !== undefined
+      ? createSecretGenerator(kit.name, process.env, options.secretSeed)
+      : createSecretGenerator(kit.name);
+  env.addFilter('generate_secret', function (_value: unknown, length: number = 32) {
+    return generateSecret(length);
+  });
+  return env;
+}
+
+/** Render context: the resolved variables plus generation metadata. */
+export function templateKitContext(
+  kit: TemplateKit,
+  variables: Record<string, KitVariableValue>
+): Record<string, unknown> {
+  return {
+    ...variables,
+    kit_name: kit.name,
+    created_at: generationTimestamp(),
+    rapidkit_version: getVersion(),
+  };
+}
+
+async function renderPlannedFiles(
+  kit: TemplateKit,
+  env: nunjucks.Environment,
+  context: Record<string, unknown>
+): Promise<Array<{ file: TemplateKitFile; content: string }>> {
+  const rendered: Array<{ file: TemplateKitFile; content: string }> = [];
+  for (const file of await planTemplateKitFiles(kit, env, context)) {
+    try {
+      rendered.push({
+        file,
+        content:
+          file.template !== undefined
+            ? env.renderString(file.template, context)
+            : env.renderString(
+                await fs.readFile(path.join(kit.root, file.source as string), 'utf-8'),
+                context
+              ),
+      });
+    } catch (e) {
+      console.error(`Failed to render template: ${file.source ?? file.path}`);
+      throw e;
+    }
+  }
+  return rendered;
+}
+
+/** Render the kit's planned files in memory; returns their contents by path. */
+export async function renderTemplateKitFiles(
+  kit: TemplateKit,
+  env: nunjucks.Environment,
+  context: Record<string, unknown>
+): Promise<Record<string, string>> {
+  const rendered = await renderPlannedFiles(kit, env, context);
+  return Object.fromEntries(rendered.map(({ file, content }) => [file.path, content]));
+}
+
+/** Render the kit's planned files into `projectPath`; returns their contents by path. */
+export async function renderTemplateKit(
+  kit: TemplateKit,
+  projectPath: string,
+  env: nunjucks.Environment,
+  context: Record<string, unknown>
+): Promise<Record<string, string>> {
+  const written: Record<string, string> = {};
+  for (const { file, content } of await renderPlannedFiles(kit, env, context)) {
+    const outputPath = path.join(projectPath, file.path);
+    await fs.mkdir(path.dirname(outputPath), { recursive: true });
+    await fs.writeFile(outputPath, content);
+    if (file.executable) {
+      await fs.chmod(outputPath, 0o755);
+    }
+    written[file.path] = content;
+  }
+  return written;
+}
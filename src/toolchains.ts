@@ -0,0 +1,399 @@
+/**
+ * Toolchains pinned in `.rapidkit/toolchain.lock`.
+ *
+ * `rapidkit setup <runtime>` records the active Python, Node and Go versions.
+ * Lifecycle commands compare the toolchain they are about to run with that
+ * pin: `python3 --version`, `node --version` and `go version` must match it,
+ * where a shorter pin matches every release below it (`3.12` accepts 3.12.4,
+ * `v20.x` any Node 20). A mismatch is reported, and blocks the command in
+ * strict mode.
+ *
+ * `rapidkit toolchain install` provisions the pinned versions into
+ * `.rapidkit/toolchains/<runtime>/<version>` from official release archives
+ * (`go1.22.1.linux-amd64.tar.gz`, `node-v20.11.0-linux-x64.tar.xz`,
+ * python-build-standalone `cpython-3.12.1+...-install_only.tar.gz`) found in
+ * `--from`, in `RAPIDKIT_TOOLCHAIN_SOURCES` or among the artifacts synced by
+ * `rapidkit mirror sync`. Provisioned toolchains matching the lock go first on
+ * PATH for every lifecycle command, so the workspace runs the pinned versions
+ * whatever the host has installed.
+ */
+
+import fs, { promises as fsp } from 'fs';
+import path from 'path';
+import { execa } from 'execa';
+import { ToolchainError } from './errors.js';
+import { compareToolchainVersions } from './utils/policy-rules.js';
+import { getPythonCommandCandidates } from './utils/platform-capabilities.js';
+import { TOOLCHAIN_RUNTIMES, type ToolchainRuntime } from './utils/workspace-policy.js';
+
+export interface ProvisionedToolchain {
+  runtime: ToolchainRuntime;
+  version: string;
+  root: string;
+  binDir: string;
+}
+
+export interface ToolchainCheck {
+  runtime: ToolchainRuntime;
+  pinned: string;
+  /** Version the lifecycle commands would run, or null when none is on PATH. */
+  active: string | null;
+  /** Provisioned toolchain put first on PATH for this pin, if any. */
+  provisioned: ProvisionedToolchain | null;
+  matches: boolean;
+}
+
+interface ArchiveSpec {
+  pattern: RegExp;
+  os: Partial<Record<NodeJS.Platform, string>>;
+  arch: Partial<Record<string, string>>;
+  executables: string[];
+}
+
+const ARCHIVES: Record<ToolchainRuntime, ArchiveSpec> = {
+  go: {
+    pattern:
+      /^go(?<version>\d+\.\d+(?:\.\d+)?)\.(?<os>[a-z]+)-(?<arch>[a-z0-9]+)\.(?:tar\.gz|zip)$/,
+    os: { linux: 'linux', darwin: 'darwin', win32: 'windows' },
+    arch: { x64: 'amd64', arm64: 'arm64' },
+    executables: ['go'],
+  },
+  node: {
+    pattern:
+      /^node-v(?<version>\d+\.\d+\.\d+)-(?<os>[a-z]+)-(?<arch>[a-z0-9]+)\.(?:tar\.gz|tar\.xz|zip)$/,
+    os: { linux: 'linux', darwin: 'darwin', win32: 'win' },
+    arch: { x64: 'x64', arm64: 'arm64' },
+    executables: ['node'],
+  },
+  python: {
+    pattern:
+      /^cpython-(?<version>\d+\.\d+\.\d+)\+\d+-(?<arch>[a-z0-9_]+)-[a-z]+-(?<os>[a-z]+)(?:-[a-z]+)*-install_only\.tar\.gz$/,
+    os: { linux: 'linux', darwin: 'darwin', win32: 'windows' },
+    arch: { x64: 'x86_64', arm64: 'aarch64' },
+    executables: ['python3', 'python'],
+  },
+};
+
+export function isToolchainRuntime(runtime: string): runtime is ToolchainRuntime {
+  return (TOOLCHAIN_RUNTIMES as readonly string[]).includes(runtime);
+}
+
+/**
+ * Whether `active` satisfies the pin: every component of the pin must equal
+ * the same component of the active version, `x` and `*` match anything, and
+ * prefixes such as `v` and `go` are ignored.
+ */
+export function versionMatchesPin(pinned: string, active: string): boolean {
+  const components = (value: string) =>
+    value
+      .trim()
+      .replace(/^[^\d]+/, '')
+      .split('.');
+  const pin = components(pinned);
+  const actual = components(active);
+  if (!pin[0] || !actual[0]) return false;
+  return pin.every((part, index) => part === 'x' || part === '*' || part === actual[index]);
+}
+
+/** Versions pinned in toolchain.lock for the built-in runtimes; empty when there is no lock. */
+export function readToolchainPins(
+  workspacePath: string
+): Partial<Record<ToolchainRuntime, string>> {
+  let lock: { runtime?: Record<string, { version?: unknown }> };
+  try {
+    lock = JSON.parse(
+      fs.readFileSync(path.join(workspacePath, '.rapidkit', 'toolchain.lock'), 'utf-8')
+    );
+  } catch {
+    return {};
+  }
+  const pins: Partial<Record<ToolchainRuntime, string>> = {};
+  for (const runtime of TOOLCHAIN_RUNTIMES) {
+    const version = lock?.runtime?.[runtime]?.version;
+    if (typeof version === 'string' && version.trim()) pins[runtime] = version.trim();
+  }
+  return pins;
+}
+
+export function toolchainsDir(workspacePath: string): string {
+  return path.join(workspacePath, '.rapidkit', 'toolchains');
+}
+
+function isFile(target: string): boolean {
+  try {
+    return fs.statSync(target).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/** `root/bin` or `root` when it holds the runtime's executable file. */
+function findExecutableDir(root: string, runtime: ToolchainRuntime): string | null {
+  for (const dir of [path.join(root, 'bin'), root]) {
+    for (const executable of ARCHIVES[runtime].executables) {
+      if (isFile(path.join(dir, executable)) || isFile(path.join(dir, `${executable}.exe`))) {
+        return dir;
+      }
+    }
+  }
+  return null;
+}
+
+/** Toolchains under `.rapidkit/toolchains/<runtime>`, newest first. */
+export function listProvisionedToolchains(
+  workspacePath: string,
+  runtime: ToolchainRuntime
+): ProvisionedToolchain[] {
+  const runtimeDir = path.join(toolchainsDir(workspacePath), runtime);
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(runtimeDir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  const provisioned: ProvisionedToolchain[] = [];
+  for (const entry of entries) {
+    if (!entry.isDirectory() || entry.name.startsWith('.')) continue;
+    const root = path.join(runtimeDir, entry.name);
+    const binDir = findExecutableDir(root, runtime);
+    if (binDir) provisioned.push({ runtime, version: entry.name, root, binDir });
+  }
+  return provisioned.sort((a, b) => compareToolchainVersions(b.version, a.version) ?? 0);
+}
+
+export function findProvisionedToolchain(
+  workspacePath: string,
+  runtime: ToolchainRuntime,
+  pinned: string
+): ProvisionedToolchain | null {
+  return (
+    listProvisionedToolchains(workspacePath, runtime).find((toolchain) =>
+      versionMatchesPin(pinned, toolchain.version)
+    ) ?? null
+  );
+}
+
+function pathKey(env: NodeJS.ProcessEnv): string {
+  return Object.keys(env).find((key) => key.toUpperCase() === 'PATH') ?? 'PATH';
+}
+
+function prependPath(env: NodeJS.ProcessEnv, dirs: string[]): NodeJS.ProcessEnv {
+  const key = pathKey(env);
+  const rest = (env[key] ?? '')
+    .split(path.delimiter)
+    .filter((segment) => segment && !dirs.includes(segment));
+  return { ...env, [key]: [...dirs, ...rest].join(path.delimiter) };
+}
+
+/** `env` with the provisioned toolchains matching toolchain.lock first on PATH. */
+export function toolchainPathEnv(
+  workspacePath: string,
+  env: NodeJS.ProcessEnv = process.env
+): NodeJS.ProcessEnv {
+  const dirs = Object.entries(readToolchainPins(workspacePath)).flatMap(
+    ([runtime, pinned]) =>
+      findProvisionedToolchain(workspacePath, runtime as ToolchainRuntime, pinned)?.binDir ?? []
+  );
+  return dirs.length > 0 ? prependPath(env, dirs) : env;
+}
+
+/** Run `fn` with the provisioned toolchains first on PATH, restoring PATH afterwards. */
+export async function withToolchainPath<T>(
+  workspacePath: string | null,
+  fn: () => Promise<T>
+): Promise<T> {
+  if (!workspacePath) return fn();
+  const key = pathKey(process.env);
+  const original = process.env[key];
+  process.env[key] = toolchainPathEnv(workspacePath)[key];
+  try {
+    return await fn();
+  } finally {
+    if (typeof original === 'undefined') delete process.env[key];
+    else process.env[key] = original;
+  }
+}
+
+/**
+ * Version of the toolchain `env` resolves for a runtime, as the tool prints
+ * it (`1.22.1` for Go, `v20.11.0` for Node, `3.12.1` for Python), or null
+ * when none runs.
+ */
+export async function detectToolchainVersion(
+  runtime: ToolchainRuntime,
+  options: { cwd?: string; env?: NodeJS.ProcessEnv } = {}
+): Promise<string | null> {
+  const probe = async (command: string, args: string[], pattern: RegExp) => {
+    const result = await execa(command, args, {
+      cwd: options.cwd,
+      env: options.env,
+      extendEnv: !options.env,
+      reject: false,
+      timeout: 15_000,
+    });
+    if (result.exitCode !== 0) return null;
+    return `${result.stdout}\n${result.stderr}`.match(pattern)?.[1] ?? null;
+  };
+
+  if (runtime === 'go') return probe('go', ['version'], /go(\d+\.\d+(?:\.\d+)?)/i);
+  if (runtime === 'node') {
+    const version = await probe('node', ['--version'], /v?(\d+\.\d+\.\d+)/);
+    return version ? `v${version}` : null;
+  }
+  for (const candidate of getPythonCommandCandidates()) {
+    const args = candidate === 'py' ? ['-3', '--version'] : ['--version'];
+    const version = await probe(candidate, args, /Python\s+(\S+)/);
+    if (version) return version;
+  }
+  return null;
+}
+
+/**
+ * Compare the toolchains lifecycle commands would run (provisioned ones
+ * first) with toolchain.lock. Runtimes the lock does not pin are skipped.
+ */
+export async function verifyToolchains(
+  workspacePath: string,
+  runtimes: readonly ToolchainRuntime[] = TOOLCHAIN_RUNTIMES
+): Promise<ToolchainCheck[]> {
+  const pins = readToolchainPins(workspacePath);
+  const env = toolchainPathEnv(workspacePath);
+  const checks: ToolchainCheck[] = [];
+  for (const runtime of runtimes) {
+    const pinned = pins[runtime];
+    if (!pinned) continue;
+    const active = await detectToolchainVersion(runtime, { cwd: workspacePath, env });
+    checks.push({
+      runtime,
+      pinned,
+      active,
+      provisioned: findProvisionedToolchain(workspacePath, runtime, pinned),
+      matches: active !== null && versionMatchesPin(pinned, active),
+    });
+  }
+  return checks;
+}
+
+export function formatToolchainMismatch(check: ToolchainCheck): string {
+  const active = check.active
+    ? `active ${check.runtime} is ${check.active}`
+    : `no ${check.runtime} is available on PATH`;
+  return `${check.runtime}: toolchain.lock pins ${check.pinned}, ${active} — run \`rapidkit toolchain install ${check.runtime}\` or \`rapidkit setup ${check.runtime}\` to re-pin.`;
+}
+
+/** Default archive locations: `RAPIDKIT_TOOLCHAIN_SOURCES`, then the synced mirror artifacts. */
+export function defaultToolchainSources(workspacePath: string): string[] {
+  return [
+    ...(process.env.RAPIDKIT_TOOLCHAIN_SOURCES ?? '').split(path.delimiter).filter(Boolean),
+    path.join(workspacePath, '.rapidkit', 'mirror', 'artifacts'),
+  ];
+}
+
+async function collectFiles(source: string, depth = 3): Promise<string[]> {
+  let stat: fs.Stats;
+  try {
+    stat = await fsp.stat(source);
+  } catch {
+    return [];
+  }
+  if (stat.isFile()) return [source];
+  if (!stat.isDirectory() || depth === 0) return [];
+  const files: string[] = [];
+  for (const entry of await fsp.readdir(source)) {
+    files.push(...(await collectFiles(path.join(source, entry), depth - 1)));
+  }
+  return files;
+}
+
+/** The newest release archive for this platform matching the pin, or null. */
+export async function findToolchainArchive(
+  runtime: ToolchainRuntime,
+  pinned: string,
+  sources: string[]
+): Promise<{ path: string; version: string } | null> {
+  const spec = ARCHIVES[runtime];
+  const matches: Array<{ path: string; version: string }> = [];
+  for (const source of sources) {
+    for (const file of await collectFiles(source)) {
+      const groups = path.basename(file).match(spec.pattern)?.groups;
+      if (
+        groups &&
+        groups.os === spec.os[process.platform] &&
+        groups.arch === spec.arch[process.arch] &&
+        versionMatchesPin(pinned, groups.version)
+      ) {
+        matches.push({ path: file, version: groups.version });
+      }
+    }
+  }
+  matches.sort((a, b) => compareToolchainVersions(b.version, a.version) ?? 0);
+  return matches[0] ?? null;
+}
+
+/**
+ * Provision the pinned version of a runtime into
+ * `.rapidkit/toolchains/<runtime>/<version>`. A toolchain already provisioned
+ * for the pin is reused. The extracted toolchain must report a version
+ * matching the pin, otherwise it is removed again.
+ */
+export async function provisionToolchain(
+  workspacePath: string,
+  runtime: ToolchainRuntime,
+  pinned: string,
+  sources: string[] = defaultToolchainSources(workspacePath)
+): Promise<ProvisionedToolchain & { archive: string | null }> {
+  const existing = findProvisionedToolchain(workspacePath, runtime, pinned);
+  if (existing) return { ...existing, archive: null };
+
+  const archive = await findToolchainArchive(runtime, pinned, sources);
+  if (!archive) {
+    throw new ToolchainError(
+      `No ${runtime} ${pinned} archive for ${process.platform}-${process.arch} found`,
+      `Searched ${sources.join(', ')}. Pass --from <archive|dir>, list directories in RAPIDKIT_TOOLCHAIN_SOURCES, or mirror the release archive with \`rapidkit mirror add <url>\` and \`rapidkit mirror sync\`.`
+    );
+  }
+
+  const runtimeDir = path.join(toolchainsDir(workspacePath), runtime);
+  await fsp.mkdir(runtimeDir, { recursive: true });
+  const staging = await fsp.mkdtemp(path.join(runtimeDir, '.staging-'));
+  const target = path.join(runtimeDir, archive.version);
+  try {
+    const extracted = await execa('tar', ['-xf', archive.path, '-C', staging], {
+      reject: false,
+      timeout: 600_000,
+    });
+    if (extracted.exitCode !== 0) {
+      throw new ToolchainError(
+        `Failed to extract ${path.basename(archive.path)}`,
+        extracted.stderr
+      );
+    }
+    const candidates = [
+      staging,
+      ...(await fsp.readdir(staging)).map((entry) => path.join(staging, entry)),
+    ];
+    const root = candidates.find((candidate) => findExecutableDir(candidate, runtime));
+    if (!root) {
+      throw new ToolchainError(
+        `${path.basename(archive.path)} does not contain a ${runtime} toolchain`
+      );
+    }
+    await fsp.rm(target, { recursive: true, force: true });
+    await fsp.rename(root, target);
+  } finally {
+    await fsp.rm(staging, { recursive: true, force: true });
+  }
+
+  const binDir = findExecutableDir(target, runtime) as string;
+  const version = await detectToolchainVersion(runtime, {
+    cwd: workspacePath,
+    env: prependPath(process.env, [binDir]),
+  });
+  if (!version || !versionMatchesPin(pinned, version)) {
+    await fsp.rm(target, { recursive: true, force: true });
+    throw new ToolchainError(
+      `${path.basename(archive.path)} provides ${runtime} ${version ?? '(not runnable)'}, not ${pinned}`
+    );
+  }
+  return { runtime, version: archive.version, root: target, binDir, archive: archive.path };
+}
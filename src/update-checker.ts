@@ -2,8 +2,10 @@ import { execa } from 'execa';
 import chalk from 'chalk';
 import { createRequire } from 'module';
 import { logger } from './logger.js';
+import { getCachedOrFetch } from './utils/cache.js';
 
 const PACKAGE_NAME = 'rapidkit';
+const UPDATE_CHECK_NAMESPACE = 'update-checks';
 
 // Get package version from package.json
 const require = createRequire(import.meta.url);
@@ -67,17 +69,24 @@ function compareVersions(aRaw: string, bRaw: string): number {
 }
 
 /**
- * Check if a newer version of rapidkit is available on npm
+ * Check if a newer version of rapidkit is available on npm. The published
+ * version is cached in the `update-checks` namespace, keyed to this version.
  */
 export async function checkForUpdates(): Promise<void> {
   try {
     logger.debug('Checking for updates...');
 
-    const { stdout } = await execa('npm', ['view', PACKAGE_NAME, 'version'], {
-      timeout: 3000, // 3 second timeout
-    });
-
-    const latestVersion = stdout.trim();
+    const latestVersion = await getCachedOrFetch(
+      PACKAGE_NAME,
+      async () => {
+        const { stdout } = await execa('npm', ['view', PACKAGE_NAME, 'version'], {
+          timeout: 3000, // 3 second timeout
+        });
+        return stdout.trim();
+      },
+      CURRENT_VERSION,
+      { namespace: UPDATE_CHECK_NAMESPACE }
+    );
 
     if (latestVersion && compareVersions(latestVersion, CURRENT_VERSION) > 0) {
       console.log(chalk.yellow(`\n⚠️  Update available: ${CURRENT_VERSION} → ${latestVersion}`));
@@ -1,12 +1,34 @@
 // src/utils/cache.ts
-import { promises as fs } from 'fs';
+import { promises as fs, readFileSync, renameSync, writeFileSync } from 'fs';
 import path from 'path';
 import os from 'os';
 import { createHash } from 'crypto';
+import { parse as parseYaml } from 'yaml';
 import { logger } from '../logger.js';
+import { loadUserConfig } from '../config.js';
+import { findPolicyWorkspaceRoot } from './workspace-policy.js';
 
 const BASE_CACHE_DIR = path.join(os.homedir(), '.rapidkit', 'cache');
 const CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours
+const CACHE_FORMAT_VERSION = 2;
+const STATS_FILE = '.stats.json';
+const DEFAULT_NAMESPACE = 'default';
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Well-known namespaces and their default TTLs. Any other namespace name is
+ * accepted and falls back to the global 24h TTL.
+ */
+export const CACHE_NAMESPACE_TTLS: Record<string, number> = {
+  [DEFAULT_NAMESPACE]: CACHE_TTL,
+  'core-commands': 24 * HOUR,
+  'modules-catalog': 6 * HOUR,
+  'update-checks': 12 * HOUR,
+  'runtime-warmup': 7 * 24 * HOUR,
+};
+
+/** Default bound of one `.rapidkit/cache/tasks` directory (build/test outputs). */
+export const DEFAULT_TASK_CACHE_MAX_SIZE = 1024 ** 3;
 
 function getCacheDir(): string {
   const configured = process.env.RAPIDKIT_CACHE_DIR?.trim();
@@ -26,11 +48,114 @@ interface CacheEntry<T> {
   data: T;
   timestamp: number;
   version: string;
+  /** Fields below are absent on entries written before format 2. */
+  format?: number;
+  key?: string;
+  namespace?: string;
+  expiresAt?: number;
+  hash?: string;
+}
+
+export interface CacheSetOptions {
+  namespace?: string;
+  ttlMs?: number;
+}
+
+export interface CacheNamespaceStats {
+  entries: number;
+  bytes: number;
+  expired: number;
+  hits: number;
+  misses: number;
+}
+
+export interface CacheStats {
+  directory: string;
+  entries: number;
+  bytes: number;
+  namespaces: Record<string, CacheNamespaceStats>;
+}
+
+export interface CachePruneResult {
+  scanned: number;
+  removed: number;
+  freedBytes: number;
+  reasons: { expired: number; versionMismatch: number; corrupt: number };
+}
+
+export interface CacheRepairResult {
+  scanned: number;
+  removed: number;
+  rehashed: number;
+}
+
+export interface CacheConfig {
+  strategy: string;
+  prune_on_bootstrap: boolean;
+  self_heal: boolean;
+  verify_integrity: boolean;
+  /** Disk quota in bytes; null means unbounded. */
+  max_size_bytes: number | null;
+  /** Per-namespace TTL overrides in milliseconds. */
+  namespace_ttls: Record<string, number>;
+  /** Bound of each `.rapidkit/cache/tasks` directory (`tasks.max_size`); null means unbounded. */
+  task_max_size_bytes: number | null;
+}
+
+export interface CacheLimits {
+  maxSizeBytes: number | null;
+  namespaceTtls: Record<string, number>;
+}
+
+export interface CacheEvictionResult {
+  evicted: number;
+  freedBytes: number;
+  totalBytes: number;
+}
+
+interface DiskEntry {
+  filePath: string;
+  bytes: number;
+  entry: CacheEntry<unknown> | null;
+}
+
+function hashData(data: unknown): string {
+  return createHash('sha256')
+    .update(JSON.stringify(data) ?? 'undefined')
+    .digest('hex');
+}
+
+function entryNamespace(entry: CacheEntry<unknown>): string {
+  return entry.namespace || DEFAULT_NAMESPACE;
+}
+
+function entryExpiresAt(entry: CacheEntry<unknown>): number {
+  return entry.expiresAt ?? entry.timestamp + CACHE_TTL;
+}
+
+function isCacheEntry(value: unknown): value is CacheEntry<unknown> {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    'data' in value &&
+    typeof (value as CacheEntry<unknown>).timestamp === 'number' &&
+    typeof (value as CacheEntry<unknown>).version === 'string'
+  );
 }
 
 export class Cache {
   private static instance: Cache;
   private memoryCache = new Map<string, CacheEntry<unknown>>();
+  private pendingStats = new Map<string, { hits: number; misses: number }>();
+  private statsWrite: Promise<void> = Promise.resolve();
+  /** Memory hits by entry file name; they count as use for LRU without touching the disk. */
+  private lastAccess = new Map<string, number>();
+  private readonly flushOnExit = () => this.flushStatsSync();
+  private limits: CacheLimits = { maxSizeBytes: null, namespaceTtls: {} };
+  /** Set once `configure` is called; explicit limits win over the workspace settings. */
+  private explicitlyConfigured = false;
+  /** Workspace whose settings `limits` hold ('' outside a workspace), and their load. */
+  private autoConfig: { workspacePath: string; loaded: Promise<void> } | null = null;
 
   private constructor() {}
 
@@ -41,34 +166,218 @@ export class Cache {
     return Cache.instance;
   }
 
-  private getCacheKey(key: string): string {
-    return createHash('md5').update(key).digest('hex');
+  private getCacheKey(key: string, namespace: string = DEFAULT_NAMESPACE): string {
+    const scoped = namespace === DEFAULT_NAMESPACE ? key : `${namespace}:${key}`;
+    return createHash('md5').update(scoped).digest('hex');
+  }
+
+  private getCachePath(key: string, namespace?: string): string {
+    return path.join(getCacheDir(), `${this.getCacheKey(key, namespace)}.json`);
+  }
+
+  /** Apply quota and TTL settings, usually from {@link loadWorkspaceCacheConfig}. */
+  configure(limits: Partial<CacheLimits>): void {
+    this.explicitlyConfigured = true;
+    this.applyLimits(limits);
+  }
+
+  private applyLimits(limits: Partial<CacheLimits>): void {
+    this.limits = {
+      maxSizeBytes:
+        limits.maxSizeBytes !== undefined ? limits.maxSizeBytes : this.limits.maxSizeBytes,
+      namespaceTtls: limits.namespaceTtls ?? this.limits.namespaceTtls,
+    };
+  }
+
+  /**
+   * Load the settings of the current workspace (`RAPIDKIT_WORKSPACE_PATH`,
+   * else the one containing the cwd) and `~/.rapidkitrc.json` before a write,
+   * so every writer honors `max_size` and namespace TTLs. Reloaded when the
+   * workspace changes; skipped once `configure` was called.
+   */
+  private ensureConfigured(): Promise<void> {
+    if (this.explicitlyConfigured) return Promise.resolve();
+    const workspacePath =
+      process.env.RAPIDKIT_WORKSPACE_PATH?.trim() || findPolicyWorkspaceRoot(process.cwd()) || '';
+    if (this.autoConfig?.workspacePath !== workspacePath) {
+      const loaded = loadWorkspaceCacheConfig(workspacePath || null)
+        .then((cfg) => {
+          if (!this.explicitlyConfigured && this.autoConfig?.loaded === loaded) {
+            this.applyLimits(toCacheLimits(cfg));
+          }
+        })
+        .catch(() => {});
+      this.autoConfig = { workspacePath, loaded };
+    }
+    return this.autoConfig.loaded;
   }
 
-  private getCachePath(key: string): string {
-    return path.join(getCacheDir(), `${this.getCacheKey(key)}.json`);
+  getLimits(): CacheLimits {
+    return { ...this.limits, namespaceTtls: { ...this.limits.namespaceTtls } };
   }
 
-  async get<T>(key: string, version: string = '1.0'): Promise<T | null> {
+  /** Effective TTL for a namespace: configured override, built-in default, then 24h. */
+  getNamespaceTtl(namespace: string = DEFAULT_NAMESPACE): number {
+    return this.limits.namespaceTtls[namespace] ?? CACHE_NAMESPACE_TTLS[namespace] ?? CACHE_TTL;
+  }
+
+  private async touch(filePath: string): Promise<void> {
+    // File mtime doubles as the LRU clock for quota eviction.
+    const now = new Date();
+    await fs.utimes(filePath, now, now).catch(() => {});
+  }
+
+  private memoryKey(key: string, namespace: string): string {
+    return `${namespace}\u0000${key}`;
+  }
+
+  /** Count a hit or miss in memory; counters reach disk on set, prune, stats or exit. */
+  private recordAccess(namespace: string, hit: boolean): void {
+    if (this.pendingStats.size === 0) process.once('exit', this.flushOnExit);
+    const pending = this.pendingStats.get(namespace) ?? { hits: 0, misses: 0 };
+    if (hit) pending.hits += 1;
+    else pending.misses += 1;
+    this.pendingStats.set(namespace, pending);
+  }
+
+  private takePendingStats(): Map<string, { hits: number; misses: number }> {
+    const pending = new Map(this.pendingStats);
+    this.pendingStats.clear();
+    process.removeListener('exit', this.flushOnExit);
+    return pending;
+  }
+
+  private mergeStats(
+    counters: Record<string, { hits: number; misses: number }>,
+    pending: Map<string, { hits: number; misses: number }>
+  ): string {
+    for (const [namespace, delta] of pending) {
+      const current = counters[namespace] ?? { hits: 0, misses: 0 };
+      counters[namespace] = {
+        hits: current.hits + delta.hits,
+        misses: current.misses + delta.misses,
+      };
+    }
+    return JSON.stringify({ namespaces: counters });
+  }
+
+  private parseStats(raw: string): Record<string, { hits: number; misses: number }> {
+    try {
+      const parsed = JSON.parse(raw) as {
+        namespaces?: Record<string, { hits: number; misses: number }>;
+      };
+      return parsed.namespaces ?? {};
+    } catch {
+      return {};
+    }
+  }
+
+  private async readStatsFile(): Promise<Record<string, { hits: number; misses: number }>> {
+    try {
+      return this.parseStats(await fs.readFile(path.join(getCacheDir(), STATS_FILE), 'utf-8'));
+    } catch {
+      return {};
+    }
+  }
+
+  /** Queue a write of the buffered counters behind any write already in flight. */
+  private flushStats(): Promise<void> {
+    this.statsWrite = this.statsWrite.then(() => this.writeStats()).catch(() => {});
+    return this.statsWrite;
+  }
+
+  private async writeStats(): Promise<void> {
+    if (this.pendingStats.size === 0) return;
+    const pending = this.takePendingStats();
+    const content = this.mergeStats(await this.readStatsFile(), pending);
+
+    // Write-then-rename so concurrent CLI runs never see a torn stats file.
+    const target = path.join(getCacheDir(), STATS_FILE);
+    const temp = `${target}.${process.pid}.tmp`;
+    await fs.mkdir(getCacheDir(), { recursive: true });
+    await fs.writeFile(temp, content, 'utf-8');
+    await fs.rename(temp, target);
+  }
+
+  private flushStatsSync(): void {
+    if (this.pendingStats.size === 0) return;
+    const pending = this.takePendingStats();
+    const target = path.join(getCacheDir(), STATS_FILE);
+    const temp = `${target}.${process.pid}.tmp`;
+    try {
+      let raw = '';
+      try {
+        raw = readFileSync(target, 'utf-8');
+      } catch {
+        // No stats yet.
+      }
+      writeFileSync(temp, this.mergeStats(this.parseStats(raw), pending), 'utf-8');
+      renameSync(temp, target);
+    } catch {
+      // Counters are best-effort; never fail process exit over them.
+    }
+  }
+
+  private async readDiskEntries(): Promise<DiskEntry[]> {
+    const cacheDir = getCacheDir();
+    let files: string[];
+    try {
+      files = await fs.readdir(cacheDir);
+    } catch {
+      return [];
+    }
+
+    const entries: DiskEntry[] = [];
+    for (const file of files) {
+      if (!file.endsWith('.json') || file.startsWith('.')) continue;
+      const filePath = path.join(cacheDir, file);
+      try {
+        const content = await fs.readFile(filePath, 'utf-8');
+        let entry: CacheEntry<unknown> | null = null;
+        try {
+          const parsed = JSON.parse(content) as unknown;
+          entry = isCacheEntry(parsed) ? parsed : null;
+        } catch {
+          entry = null;
+        }
+        entries.push({ filePath, bytes: Buffer.byteLength(content), entry });
+      } catch {
+        // Removed concurrently or unreadable; skip.
+      }
+    }
+    return entries;
+  }
+
+  async get<T>(
+    key: string,
+    version: string = '1.0',
+    options: CacheSetOptions = {}
+  ): Promise<T | null> {
+    const namespace = options.namespace ?? DEFAULT_NAMESPACE;
+
     // Check memory cache first
-    const memEntry = this.memoryCache.get(key);
+    const memEntry = this.memoryCache.get(this.memoryKey(key, namespace));
     if (memEntry && memEntry.version === version) {
-      if (Date.now() - memEntry.timestamp < CACHE_TTL) {
+      if (Date.now() < entryExpiresAt(memEntry)) {
         logger.debug(`Cache hit (memory): ${key}`);
+        this.lastAccess.set(`${this.getCacheKey(key, namespace)}.json`, Date.now());
+        this.recordAccess(namespace, true);
         return memEntry.data as T | null;
       }
     }
 
     // Check disk cache
     try {
-      const cachePath = this.getCachePath(key);
+      const cachePath = this.getCachePath(key, namespace);
       const content = await fs.readFile(cachePath, 'utf-8');
       const entry: CacheEntry<T> = JSON.parse(content);
 
-      if (entry.version === version && Date.now() - entry.timestamp < CACHE_TTL) {
+      if (entry.version === version && Date.now() < entryExpiresAt(entry)) {
         logger.debug(`Cache hit (disk): ${key}`);
+        await this.touch(cachePath);
         // Restore to memory cache
-        this.memoryCache.set(key, entry);
+        this.memoryCache.set(this.memoryKey(key, namespace), entry);
+        this.recordAccess(namespace, true);
         return entry.data;
       }
 
@@ -78,34 +387,115 @@ export class Cache {
       logger.debug(`Cache miss: ${key}`);
     }
 
+    this.recordAccess(namespace, false);
     return null;
   }
 
-  async set<T>(key: string, data: T, version: string = '1.0'): Promise<void> {
+  async set<T>(
+    key: string,
+    data: T,
+    version: string = '1.0',
+    options: CacheSetOptions = {}
+  ): Promise<void> {
+    await this.ensureConfigured();
+    const namespace = options.namespace ?? DEFAULT_NAMESPACE;
+    const timestamp = Date.now();
     const entry: CacheEntry<T> = {
       data,
-      timestamp: Date.now(),
+      timestamp,
       version,
+      format: CACHE_FORMAT_VERSION,
+      key,
+      namespace,
+      expiresAt: timestamp + (options.ttlMs ?? this.getNamespaceTtl(namespace)),
+      hash: hashData(data),
     };
 
     // Set in memory
-    this.memoryCache.set(key, entry);
+    this.memoryCache.set(this.memoryKey(key, namespace), entry);
 
     // Set on disk
     try {
       await fs.mkdir(getCacheDir(), { recursive: true });
-      const cachePath = this.getCachePath(key);
+      const cachePath = this.getCachePath(key, namespace);
       await fs.writeFile(cachePath, JSON.stringify(entry), 'utf-8');
       logger.debug(`Cache set: ${key}`);
     } catch (_error) {
       logger.debug(`Cache write failed: ${key}`, _error);
+      return;
+    }
+    await this.flushStats();
+
+    if (this.limits.maxSizeBytes !== null) {
+      await this.enforceQuota();
     }
   }
 
-  async invalidate(key: string): Promise<void> {
-    this.memoryCache.delete(key);
+  /**
+   * Evict least recently used entries until the disk cache fits the
+   * configured quota. Recency is the entry file's mtime, refreshed on disk
+   * hits, or the time of the last memory hit in this process.
+   */
+  async enforceQuota(
+    maxSizeBytes: number | null = this.limits.maxSizeBytes
+  ): Promise<CacheEvictionResult> {
+    const cacheDir = getCacheDir();
+    let files: string[];
     try {
-      const cachePath = this.getCachePath(key);
+      files = await fs.readdir(cacheDir);
+    } catch {
+      return { evicted: 0, freedBytes: 0, totalBytes: 0 };
+    }
+
+    const entries: { file: string; bytes: number; mtimeMs: number }[] = [];
+    for (const file of files) {
+      if (!file.endsWith('.json') || file.startsWith('.')) continue;
+      try {
+        const stat = await fs.stat(path.join(cacheDir, file));
+        const usedAt = Math.max(stat.mtimeMs, this.lastAccess.get(file) ?? 0);
+        entries.push({ file, bytes: stat.size, mtimeMs: usedAt });
+      } catch {
+        // Removed concurrently; skip.
+      }
+    }
+
+    let totalBytes = entries.reduce((sum, entry) => sum + entry.bytes, 0);
+    const result: CacheEvictionResult = { evicted: 0, freedBytes: 0, totalBytes };
+    if (maxSizeBytes === null || totalBytes <= maxSizeBytes) return result;
+
+    const evictedFiles = new Set<string>();
+    entries.sort((a, b) => a.mtimeMs - b.mtimeMs);
+    for (const entry of entries) {
+      if (totalBytes <= maxSizeBytes) break;
+      try {
+        await fs.unlink(path.join(cacheDir, entry.file));
+      } catch {
+        continue;
+      }
+      evictedFiles.add(entry.file);
+      totalBytes -= entry.bytes;
+      result.evicted += 1;
+      result.freedBytes += entry.bytes;
+    }
+
+    for (const [memoryKey, entry] of this.memoryCache) {
+      const namespace = entryNamespace(entry);
+      const key = entry.key ?? memoryKey.slice(namespace.length + 1);
+      if (evictedFiles.has(`${this.getCacheKey(key, namespace)}.json`)) {
+        this.memoryCache.delete(memoryKey);
+      }
+    }
+
+    result.totalBytes = totalBytes;
+    logger.debug(`Cache quota enforced: ${result.evicted} entries evicted`);
+    return result;
+  }
+
+  async invalidate(key: string, options: CacheSetOptions = {}): Promise<void> {
+    const namespace = options.namespace ?? DEFAULT_NAMESPACE;
+    this.memoryCache.delete(this.memoryKey(key, namespace));
+    try {
+      const cachePath = this.getCachePath(key, namespace);
       await fs.unlink(cachePath);
       logger.debug(`Cache invalidated: ${key}`);
     } catch {
@@ -115,6 +505,8 @@ export class Cache {
 
   async clear(): Promise<void> {
     this.memoryCache.clear();
+    this.takePendingStats();
+    this.lastAccess.clear();
     try {
       const cacheDir = getCacheDir();
       const files = await fs.readdir(cacheDir);
@@ -124,6 +516,251 @@ export class Cache {
       // Ignore errors
     }
   }
+
+  /** Disk usage, expiry and hit/miss counters grouped by namespace. */
+  async stats(): Promise<CacheStats> {
+    await this.flushStats();
+    const now = Date.now();
+    const counters = await this.readStatsFile();
+    const namespaces: Record<string, CacheNamespaceStats> = {};
+    const bucket = (namespace: string) =>
+      (namespaces[namespace] ??= {
+        entries: 0,
+        bytes: 0,
+        expired: 0,
+        hits: counters[namespace]?.hits ?? 0,
+        misses: counters[namespace]?.misses ?? 0,
+      });
+
+    let entries = 0;
+    let bytes = 0;
+    for (const disk of await this.readDiskEntries()) {
+      const stats = bucket(disk.entry ? entryNamespace(disk.entry) : DEFAULT_NAMESPACE);
+      stats.entries += 1;
+      stats.bytes += disk.bytes;
+      if (!disk.entry || now >= entryExpiresAt(disk.entry)) stats.expired += 1;
+      entries += 1;
+      bytes += disk.bytes;
+    }
+    for (const namespace of Object.keys(counters)) bucket(namespace);
+
+    return { directory: getCacheDir(), entries, bytes, namespaces };
+  }
+
+  /**
+   * Remove stale entries only: expired, unreadable, written in an older
+   * entry format, or (when `versions` maps a namespace to its current
+   * version) stored under a different version.
+   */
+  async prune(options: { versions?: Record<string, string> } = {}): Promise<CachePruneResult> {
+    const now = Date.now();
+    const result: CachePruneResult = {
+      scanned: 0,
+      removed: 0,
+      freedBytes: 0,
+      reasons: { expired: 0, versionMismatch: 0, corrupt: 0 },
+    };
+
+    for (const disk of await this.readDiskEntries()) {
+      result.scanned += 1;
+      let reason: keyof CachePruneResult['reasons'] | null = null;
+      if (!disk.entry) {
+        reason = 'corrupt';
+      } else if (now >= entryExpiresAt(disk.entry)) {
+        reason = 'expired';
+      } else {
+        const expected = options.versions?.[entryNamespace(disk.entry)];
+        if (
+          disk.entry.format !== CACHE_FORMAT_VERSION ||
+          (expected !== undefined && disk.entry.version !== expected)
+        ) {
+          reason = 'versionMismatch';
+        }
+      }
+      if (!reason) continue;
+
+      await fs.unlink(disk.filePath).catch(() => {});
+      result.removed += 1;
+      result.freedBytes += disk.bytes;
+      result.reasons[reason] += 1;
+    }
+
+    if (result.removed > 0) this.memoryCache.clear();
+    await this.flushStats();
+    logger.debug(`Cache pruned: ${result.removed}/${result.scanned} entries`);
+    return result;
+  }
+
+  /**
+   * Self-heal the disk cache. Unreadable entries are always removed; with
+   * `verifyIntegrity`, stored hashes are checked against the data (mismatches
+   * are deleted) and entries without a hash are rehashed in place.
+   */
+  async repair(options: { verifyIntegrity?: boolean } = {}): Promise<CacheRepairResult> {
+    const result: CacheRepairResult = { scanned: 0, removed: 0, rehashed: 0 };
+
+    for (const disk of await this.readDiskEntries()) {
+      result.scanned += 1;
+      if (!disk.entry) {
+        await fs.unlink(disk.filePath).catch(() => {});
+        result.removed += 1;
+        continue;
+      }
+      if (!options.verifyIntegrity) continue;
+
+      const actual = hashData(disk.entry.data);
+      if (disk.entry.hash && disk.entry.hash !== actual) {
+        await fs.unlink(disk.filePath).catch(() => {});
+        result.removed += 1;
+        continue;
+      }
+      if (!disk.entry.hash) {
+        const rehashed = { ...disk.entry, hash: actual };
+        await fs.writeFile(disk.filePath, JSON.stringify(rehashed), 'utf-8');
+        result.rehashed += 1;
+      }
+    }
+
+    if (result.removed > 0) this.memoryCache.clear();
+    logger.debug(
+      `Cache repaired: ${result.removed} removed, ${result.rehashed} rehashed of ${result.scanned}`
+    );
+    return result;
+  }
+}
+
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 ** 2,
+  gb: 1024 ** 3,
+  tb: 1024 ** 4,
+};
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: HOUR,
+  d: 24 * HOUR,
+  w: 7 * 24 * HOUR,
+};
+
+/** Parse a byte size such as `500MB`, `2 GiB` or a plain number of bytes. */
+export function parseCacheSize(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) && value >= 0 ? value : null;
+  if (typeof value !== 'string') return null;
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([kmgt]?)(i?b)?$/i);
+  if (!match) return null;
+  const unit = `${match[2]}b`.toLowerCase();
+  return Math.floor(Number(match[1]) * SIZE_UNITS[unit]);
+}
+
+/** Parse a TTL such as `30m`, `12h`, `7d` or a plain number of seconds. */
+export function parseCacheTtl(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) && value >= 0 ? value * 1000 : null;
+  if (typeof value !== 'string') return null;
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d|w)?$/i);
+  if (!match) return null;
+  const unit = (match[2] ?? 's').toLowerCase();
+  return Math.floor(Number(match[1]) * DURATION_UNITS[unit]);
+}
+
+function defaultCacheConfig(): CacheConfig {
+  return {
+    strategy: 'shared',
+    prune_on_bootstrap: false,
+    self_heal: true,
+    verify_integrity: false,
+    max_size_bytes: null,
+    namespace_ttls: {},
+    task_max_size_bytes: DEFAULT_TASK_CACHE_MAX_SIZE,
+  };
+}
+
+/** Layer one `cache` settings map over `cfg`; invalid values are ignored. */
+function applyCacheSection(cfg: CacheConfig, section: Record<string, unknown>): CacheConfig {
+  if (typeof section.strategy === 'string') cfg.strategy = section.strategy;
+  for (const flag of ['prune_on_bootstrap', 'self_heal', 'verify_integrity'] as const) {
+    if (typeof section[flag] === 'boolean') cfg[flag] = section[flag] as boolean;
+  }
+
+  const maxSize = parseCacheSize(section.max_size);
+  if (maxSize !== null) cfg.max_size_bytes = maxSize;
+
+  const tasks = section.tasks;
+  if (tasks && typeof tasks === 'object' && !Array.isArray(tasks)) {
+    const taskMaxSize = parseCacheSize((tasks as Record<string, unknown>).max_size);
+    if (taskMaxSize !== null) cfg.task_max_size_bytes = taskMaxSize;
+  }
+
+  const namespaces = section.namespaces;
+  if (namespaces && typeof namespaces === 'object' && !Array.isArray(namespaces)) {
+    for (const [name, settings] of Object.entries(namespaces as Record<string, unknown>)) {
+      const ttl =
+        settings && typeof settings === 'object'
+          ? parseCacheTtl((settings as Record<string, unknown>).ttl)
+          : parseCacheTtl(settings);
+      if (ttl !== null) cfg.namespace_ttls[name] = ttl;
+    }
+  }
+  return cfg;
+}
+
+function cacheSection(root: unknown): Record<string, unknown> | null {
+  if (!root || typeof root !== 'object') return null;
+  const record = root as Record<string, unknown>;
+  return record.cache && typeof record.cache === 'object'
+    ? (record.cache as Record<string, unknown>)
+    : record;
+}
+
+/**
+ * Parse `.rapidkit/cache-config.yml`. Settings may sit at the top level or
+ * under a `cache:` map; unknown or invalid values keep their defaults.
+ */
+export function parseCacheConfig(
+  content: string,
+  base: CacheConfig = defaultCacheConfig()
+): CacheConfig {
+  const cfg: CacheConfig = { ...base, namespace_ttls: { ...base.namespace_ttls } };
+
+  let parsed: unknown;
+  try {
+    parsed = parseYaml(content);
+  } catch {
+    return cfg;
+  }
+  const section = cacheSection(parsed);
+  return section ? applyCacheSection(cfg, section) : cfg;
+}
+
+/**
+ * Resolve cache settings: defaults, then the `cache` map in
+ * `~/.rapidkitrc.json`, then the workspace `.rapidkit/cache-config.yml`.
+ */
+export async function loadWorkspaceCacheConfig(workspacePath: string | null): Promise<CacheConfig> {
+  const userConfig = await loadUserConfig();
+  let cfg = defaultCacheConfig();
+  if (userConfig.cache && typeof userConfig.cache === 'object') {
+    cfg = applyCacheSection(cfg, userConfig.cache as Record<string, unknown>);
+  }
+
+  if (!workspacePath) return cfg;
+  try {
+    const content = await fs.readFile(
+      path.join(workspacePath, '.rapidkit', 'cache-config.yml'),
+      'utf-8'
+    );
+    return parseCacheConfig(content, cfg);
+  } catch {
+    return cfg;
+  }
+}
+
+/** Convert resolved settings into the limits understood by {@link Cache.configure}. */
+export function toCacheLimits(cfg: CacheConfig): CacheLimits {
+  return { maxSizeBytes: cfg.max_size_bytes, namespaceTtls: { ...cfg.namespace_ttls } };
 }
 
 /**
@@ -132,16 +769,17 @@ export class Cache {
 export async function getCachedOrFetch<T>(
   key: string,
   fetcher: () => Promise<T>,
-  version: string = '1.0'
+  version: string = '1.0',
+  options: CacheSetOptions = {}
 ): Promise<T> {
   const cache = Cache.getInstance();
 
-  const cached = await cache.get<T>(key, version);
+  const cached = await cache.get<T>(key, version, options);
   if (cached !== null) {
     return cached;
   }
 
   const data = await fetcher();
-  await cache.set(key, data, version);
+  await cache.set(key, data, version, options);
   return data;
 }
@@ -0,0 +1,498 @@
+import path from 'path';
+import { promises as fs } from 'fs';
+import { parse as parseYaml } from 'yaml';
+import type { MirrorArtifact } from './mirror.js';
+
+/**
+ * Propose mirror artifacts from project lockfiles.
+ *
+ * Reads poetry.lock, package-lock.json, pnpm-lock.yaml, yarn.lock and go.sum
+ * and maps every locked package to a download URL plus whatever hash the
+ * lockfile records (sha256 for Poetry, SRI integrity for npm/pnpm/yarn). go.sum
+ * only carries directory hashes, so Go modules are proposed unpinned.
+ */
+
+export type MirrorPlanEcosystem = 'pypi' | 'npm' | 'go';
+
+export interface MirrorPlanArtifact {
+  id: string;
+  ecosystem: MirrorPlanEcosystem;
+  name: string;
+  version: string;
+  url: string;
+  target: string;
+  sha256?: string;
+  integrity?: string;
+  projects: string[];
+}
+
+export interface MirrorPlanSource {
+  project: string;
+  lockfile: string;
+  packages: number;
+}
+
+export interface MirrorPlanSkip {
+  project: string;
+  lockfile: string;
+  package?: string;
+  reason: string;
+}
+
+export interface MirrorPlan {
+  artifacts: MirrorPlanArtifact[];
+  sources: MirrorPlanSource[];
+  skipped: MirrorPlanSkip[];
+  hosts: string[];
+}
+
+export interface MirrorPlanOptions {
+  /** Propose every file Poetry locked (all wheels + sdist) instead of one per package. */
+  allFiles?: boolean;
+}
+
+type LockedPackage = Omit<MirrorPlanArtifact, 'id' | 'target' | 'projects'> & {
+  file: string;
+};
+
+interface LockParseResult {
+  packages: LockedPackage[];
+  skipped: Array<{ package?: string; reason: string }>;
+}
+
+const NPM_REGISTRY = 'https://registry.npmjs.org';
+const PYPI_FILES = 'https://files.pythonhosted.org/packages';
+const GO_PROXY = 'https://proxy.golang.org';
+
+function sanitizeId(value: string): string {
+  return value
+    .replace(/^@/, '')
+    .replace(/[^A-Za-z0-9._-]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+// ─── Python (poetry.lock) ────────────────────────────────────────────────────
+
+interface PoetryPackage {
+  name: string;
+  version: string;
+  files: Array<{ file: string; hash: string }>;
+  source?: { type?: string; url?: string };
+  /** PEP 508 environment marker, when Poetry recorded one as a string. */
+  markers?: string;
+}
+
+const TOML_STRING = /^([A-Za-z0-9_-]+)\s*=\s*"((?:[^"\\]|\\.)*)"/;
+const POETRY_FILE_ENTRY = /\{\s*file\s*=\s*"([^"]+)"\s*,\s*hash\s*=\s*"([^"]+)"\s*\}/g;
+
+/**
+ * Minimal reader for the subset of TOML Poetry writes: `[[package]]` tables,
+ * their `[package.source]`, and `files` lists (inline since Poetry 1.5, under
+ * `[metadata.files]` before that).
+ */
+export function parsePoetryLock(content: string): PoetryPackage[] {
+  const packages: PoetryPackage[] = [];
+  const legacyFiles = new Map<string, Array<{ file: string; hash: string }>>();
+  let current: PoetryPackage | null = null;
+  let section: 'package' | 'source' | 'metadata-files' | 'other' = 'other';
+  let fileList: Array<{ file: string; hash: string }> | null = null;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    if (fileList) {
+      for (const match of line.matchAll(POETRY_FILE_ENTRY)) {
+        fileList.push({ file: match[1], hash: match[2] });
+      }
+      if (line.endsWith(']')) fileList = null;
+      continue;
+    }
+
+    if (line === '[[package]]') {
+      current = { name: '', version: '', files: [] };
+      packages.push(current);
+      section = 'package';
+      continue;
+    }
+    if (line.startsWith('[')) {
+      section =
+        line === '[package.source]'
+          ? 'source'
+          : line === '[metadata.files]'
+            ? 'metadata-files'
+            : 'other';
+      if (section === 'source' && current) current.source = {};
+      continue;
+    }
+
+    if (section === 'metadata-files') {
+      const match = line.match(/^"?([^"=\s]+)"?\s*=\s*\[/);
+      if (match) {
+        fileList = [];
+        legacyFiles.set(match[1].toLowerCase(), fileList);
+        for (const entry of line.matchAll(POETRY_FILE_ENTRY)) {
+          fileList.push({ file: entry[1], hash: entry[2] });
+        }
+        if (line.endsWith(']')) fileList = null;
+      }
+      continue;
+    }
+
+    if (!current) continue;
+    if (section === 'package' && /^files\s*=\s*\[/.test(line)) {
+      fileList = current.files;
+      for (const entry of line.matchAll(POETRY_FILE_ENTRY)) {
+        fileList.push({ file: entry[1], hash: entry[2] });
+      }
+      if (line.endsWith(']')) fileList = null;
+      continue;
+    }
+
+    const match = line.match(TOML_STRING);
+    if (!match) continue;
+    if (section === 'package' && (match[1] === 'name' || match[1] === 'version')) {
+      current[match[1]] = match[2];
+    } else if (section === 'package' && match[1] === 'markers') {
+      current.markers = match[2].replace(/\\(.)/g, '$1');
+    } else if (section === 'source' && current.source) {
+      if (match[1] === 'type' || match[1] === 'url') current.source[match[1]] = match[2];
+    }
+  }
+
+  for (const pkg of packages) {
+    if (pkg.files.length === 0) pkg.files = legacyFiles.get(pkg.name.toLowerCase()) ?? [];
+  }
+  return packages.filter((pkg) => pkg.name && pkg.version);
+}
+
+/**
+ * pip requirement lines (`name==version ; marker`) for every package of a
+ * poetry.lock that comes from a package index, so the locked set can be
+ * installed from a mirror. Path, git and URL packages are left out.
+ */
+export function poetryLockRequirements(content: string): string[] {
+  return parsePoetryLock(content)
+    .filter((pkg) => !pkg.source?.type)
+    .map((pkg) => `${pkg.name}==${pkg.version}${pkg.markers ? ` ; ${pkg.markers}` : ''}`);
+}
+
+/** PyPI's stable redirect URL: `/packages/<python tag|source>/<first letter>/<name>/<file>`. */
+function pypiFileUrl(name: string, file: string): string {
+  const wheel = file.match(/^[^-]+-[^-]+(?:-\d[^-]*)?-([^-]+)-[^-]+-[^-]+\.whl$/);
+  const pythonTag = wheel ? wheel[1] : 'source';
+  const projectName = file.endsWith('.whl') ? file.split('-')[0] : name;
+  return `${PYPI_FILES}/${pythonTag}/${projectName.charAt(0)}/${projectName}/${file}`;
+}
+
+function pickPoetryFiles(files: PoetryPackage['files'], allFiles: boolean): PoetryPackage['files'] {
+  if (allFiles || files.length <= 1) return files;
+  const universal = files.find((entry) => /-none-any\.whl$/.test(entry.file));
+  const sdist = files.find((entry) => /\.(tar\.gz|zip)$/.test(entry.file));
+  return [universal ?? sdist ?? files[0]];
+}
+
+function planPoetryLock(content: string, options: MirrorPlanOptions): LockParseResult {
+  const result: LockParseResult = { packages: [], skipped: [] };
+  for (const pkg of parsePoetryLock(content)) {
+    const label = `${pkg.name}@${pkg.version}`;
+    const sourceType = pkg.source?.type;
+    if (sourceType === 'url' && pkg.source?.url) {
+      const file = path.basename(new URL(pkg.source.url).pathname);
+      const sha = pkg.files.find((entry) => entry.file === file)?.hash;
+      result.packages.push({
+        ecosystem: 'pypi',
+        name: pkg.name,
+        version: pkg.version,
+        url: pkg.source.url,
+        file,
+        ...(sha?.startsWith('sha256:') ? { sha256: sha.slice(7) } : {}),
+      });
+      continue;
+    }
+    if (sourceType) {
+      result.skipped.push({ package: label, reason: `${sourceType} source is not mirrorable` });
+      continue;
+    }
+    if (pkg.files.length === 0) {
+      result.skipped.push({ package: label, reason: 'no files recorded in lockfile' });
+      continue;
+    }
+    for (const entry of pickPoetryFiles(pkg.files, options.allFiles === true)) {
+      result.packages.push({
+        ecosystem: 'pypi',
+        name: pkg.name,
+        version: pkg.version,
+        url: pypiFileUrl(pkg.name, entry.file),
+        file: entry.file,
+        ...(entry.hash.startsWith('sha256:') ? { sha256: entry.hash.slice(7) } : {}),
+      });
+    }
+  }
+  return result;
+}
+
+// ─── Node (package-lock.json, pnpm-lock.yaml, yarn.lock) ─────────────────────
+
+function npmTarballUrl(name: string, version: string): string {
+  const basename = name.includes('/') ? name.split('/')[1] : name;
+  return `${NPM_REGISTRY}/${name}/-/${basename}-${version}.tgz`;
+}
+
+function npmPackage(name: string, version: string, url: string, integrity: unknown): LockedPackage {
+  return {
+    ecosystem: 'npm',
+    name,
+    version,
+    // yarn classic appends `#<sha1>` to resolved URLs.
+    url: url.split('#')[0],
+    file: `${sanitizeId(name.replace('/', '-'))}-${sanitizeId(version)}.tgz`,
+    ...(typeof integrity === 'string' && integrity ? { integrity } : {}),
+  };
+}
+
+function planPackageLock(content: string): LockParseResult {
+  const result: LockParseResult = { packages: [], skipped: [] };
+  const lock = JSON.parse(content) as {
+    packages?: Record<
+      string,
+      { version?: string; resolved?: string; integrity?: string; link?: boolean }
+    >;
+    dependencies?: Record<string, unknown>;
+  };
+
+  const add = (
+    name: string,
+    entry: { version?: string; resolved?: string; integrity?: string }
+  ) => {
+    if (!entry.version) return;
+    if (!entry.resolved || !/^https?:\/\//.test(entry.resolved)) {
+      result.skipped.push({
+        package: `${name}@${entry.version}`,
+        reason: 'not resolved from a registry',
+      });
+      return;
+    }
+    result.packages.push(npmPackage(name, entry.version, entry.resolved, entry.integrity));
+  };
+
+  if (lock.packages) {
+    for (const [key, entry] of Object.entries(lock.packages)) {
+      if (!key || entry.link) continue;
+      const name = key.slice(key.lastIndexOf('node_modules/') + 'node_modules/'.length);
+      add(name, entry);
+    }
+    return result;
+  }
+
+  // lockfileVersion 1: nested `dependencies`.
+  const walk = (dependencies: Record<string, unknown> | undefined) => {
+    for (const [name, value] of Object.entries(dependencies ?? {})) {
+      const entry = value as {
+        version?: string;
+        resolved?: string;
+        integrity?: string;
+        dependencies?: Record<string, unknown>;
+      };
+      add(name, entry);
+      walk(entry.dependencies);
+    }
+  };
+  walk(lock.dependencies);
+  return result;
+}
+
+/** Split a pnpm package key (`/a@1.0.0`, `/@s/a/1.0.0`, `@s/a@1.0.0(peer@2)`) into name and version. */
+function parsePnpmKey(key: string): { name: string; version: string } | null {
+  const cleaned = key.replace(/^\//, '').replace(/\(.*$/, '').replace(/_.*$/, '');
+  const at = cleaned.lastIndexOf('@');
+  if (at > 0) return { name: cleaned.slice(0, at), version: cleaned.slice(at + 1) };
+  const slash = cleaned.lastIndexOf('/');
+  if (slash > 0) return { name: cleaned.slice(0, slash), version: cleaned.slice(slash + 1) };
+  return null;
+}
+
+function planPnpmLock(content: string): LockParseResult {
+  const result: LockParseResult = { packages: [], skipped: [] };
+  const lock = parseYaml(content) as {
+    packages?: Record<string, { resolution?: { integrity?: string; tarball?: string } }>;
+  };
+  for (const [key, entry] of Object.entries(lock?.packages ?? {})) {
+    const parsed = parsePnpmKey(key);
+    const resolution = entry?.resolution ?? {};
+    if (!parsed || !/^\d/.test(parsed.version)) {
+      result.skipped.push({ package: key, reason: 'not resolved from a registry' });
+      continue;
+    }
+    const url = resolution.tarball ?? npmTarballUrl(parsed.name, parsed.version);
+    result.packages.push(npmPackage(parsed.name, parsed.version, url, resolution.integrity));
+  }
+  return result;
+}
+
+function planYarnLock(content: string): LockParseResult {
+  const result: LockParseResult = { packages: [], skipped: [] };
+
+  if (/^__metadata:/m.test(content)) {
+    // Yarn Berry: YAML, `resolution: "name@npm:1.2.3"`; its checksum is not an SRI hash.
+    const lock = parseYaml(content) as Record<string, { resolution?: string; version?: string }>;
+    for (const [key, entry] of Object.entries(lock ?? {})) {
+      if (key === '__metadata' || !entry?.resolution) continue;
+      const match = entry.resolution.match(/^(@?[^@]+)@npm:(.+)$/);
+      if (!match) {
+        result.skipped.push({ package: entry.resolution, reason: 'not resolved from a registry' });
+        continue;
+      }
+      result.packages.push(
+        npmPackage(match[1], match[2], npmTarballUrl(match[1], match[2]), undefined)
+      );
+    }
+    return result;
+  }
+
+  // Yarn classic: indented blocks under comma-separated descriptors.
+  let name: string | null = null;
+  let fields: Record<string, string> = {};
+  const flush = () => {
+    if (name && fields.version) {
+      if (fields.resolved && /^https?:\/\//.test(fields.resolved)) {
+        result.packages.push(npmPackage(name, fields.version, fields.resolved, fields.integrity));
+      } else {
+        result.skipped.push({
+          package: `${name}@${fields.version}`,
+          reason: 'not resolved from a registry',
+        });
+      }
+    }
+    name = null;
+    fields = {};
+  };
+
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.trim() || line.startsWith('#')) continue;
+    if (!line.startsWith(' ')) {
+      flush();
+      const descriptor = line.replace(/:$/, '').split(',')[0].trim().replace(/^"|"$/g, '');
+      const at = descriptor.lastIndexOf('@');
+      name = at > 0 ? descriptor.slice(0, at) : descriptor;
+      continue;
+    }
+    const match = line.trim().match(/^(version|resolved|integrity)\s+"?([^"]+)"?$/);
+    if (match) fields[match[1]] = match[2];
+  }
+  flush();
+  return result;
+}
+
+// ─── Go (go.sum) ─────────────────────────────────────────────────────────────
+
+/** Module proxy path escaping: uppercase letters become `!` + lowercase. */
+function escapeGoModulePath(modulePath: string): string {
+  return modulePath.replace(/[A-Z]/g, (letter) => `!${letter.toLowerCase()}`);
+}
+
+function planGoSum(content: string): LockParseResult {
+  const result: LockParseResult = { packages: [], skipped: [] };
+  for (const line of content.split(/\r?\n/)) {
+    const [modulePath, version] = line.trim().split(/\s+/);
+    if (!modulePath || !version || version.endsWith('/go.mod')) continue;
+    result.packages.push({
+      ecosystem: 'go',
+      name: modulePath,
+      version,
+      url: `${GO_PROXY}/${escapeGoModulePath(modulePath)}/@v/${escapeGoModulePath(version)}.zip`,
+      file: `${sanitizeId(modulePath.replace(/\//g, '_'))}@${version}.zip`,
+    });
+  }
+  return result;
+}
+
+// ─── Plan assembly ───────────────────────────────────────────────────────────
+
+const LOCKFILE_PLANNERS: Array<{
+  file: string;
+  plan: (content: string, options: MirrorPlanOptions) => LockParseResult;
+}> = [
+  { file: 'poetry.lock', plan: planPoetryLock },
+  { file: 'package-lock.json', plan: planPackageLock },
+  { file: 'pnpm-lock.yaml', plan: planPnpmLock },
+  { file: 'yarn.lock', plan: planYarnLock },
+  { file: 'go.sum', plan: planGoSum },
+];
+
+function artifactId(pkg: LockedPackage): string {
+  if (pkg.ecosystem === 'pypi') {
+    return `pypi-${sanitizeId(pkg.file.replace(/(\.tar\.gz|\.whl|\.zip)$/, ''))}`;
+  }
+  return `${pkg.ecosystem}-${sanitizeId(pkg.name.replace(/\//g, '-'))}-${sanitizeId(pkg.version)}`;
+}
+
+export async function planMirrorArtifacts(
+  workspacePath: string,
+  projectPaths: string[],
+  options: MirrorPlanOptions = {}
+): Promise<MirrorPlan> {
+  const byId = new Map<string, MirrorPlanArtifact>();
+  const sources: MirrorPlanSource[] = [];
+  const skipped: MirrorPlanSkip[] = [];
+
+  for (const projectPath of projectPaths) {
+    const project = path.relative(workspacePath, projectPath) || '.';
+    for (const planner of LOCKFILE_PLANNERS) {
+      let content: string;
+      try {
+        content = await fs.readFile(path.join(projectPath, planner.file), 'utf-8');
+      } catch {
+        continue;
+      }
+
+      let parsed: LockParseResult;
+      try {
+        parsed = planner.plan(content, options);
+      } catch (error) {
+        skipped.push({
+          project,
+          lockfile: planner.file,
+          reason: `could not parse: ${(error as Error).message}`,
+        });
+        continue;
+      }
+
+      sources.push({ project, lockfile: planner.file, packages: parsed.packages.length });
+      for (const skip of parsed.skipped) skipped.push({ project, lockfile: planner.file, ...skip });
+      for (const pkg of parsed.packages) {
+        // The same package locked by several projects (or registries) is mirrored once.
+        const id = artifactId(pkg);
+        const existing = byId.get(id);
+        if (existing) {
+          if (!existing.projects.includes(project)) existing.projects.push(project);
+          existing.sha256 ??= pkg.sha256;
+          existing.integrity ??= pkg.integrity;
+          continue;
+        }
+        const { file, ...rest } = pkg;
+        byId.set(id, {
+          ...rest,
+          id,
+          target: `${pkg.ecosystem}/${file}`,
+          projects: [project],
+        });
+      }
+    }
+  }
+
+  const artifacts = [...byId.values()].sort((a, b) => a.id.localeCompare(b.id));
+  const hosts = [...new Set(artifacts.map((artifact) => new URL(artifact.url).hostname))].sort();
+  return { artifacts, sources, skipped, hosts };
+}
+
+/** Convert planned artifacts into mirror-config.json entries. */
+export function toMirrorArtifacts(plan: MirrorPlan): MirrorArtifact[] {
+  return plan.artifacts.map((artifact) => ({
+    id: artifact.id,
+    url: artifact.url,
+    target: artifact.target,
+    ...(artifact.sha256 ? { sha256: artifact.sha256 } : {}),
+    ...(artifact.integrity ? { integrity: artifact.integrity } : {}),
+  }));
+}
@@ -0,0 +1,589 @@
+import http, { type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import path from 'path';
+import zlib from 'zlib';
+import { createHash } from 'crypto';
+import { createReadStream, promises as fs } from 'fs';
+import { getTargetRelativePath, loadMirrorArtifacts, type MirrorMode } from './mirror.js';
+
+/**
+ * Local package index backed by `.rapidkit/mirror/artifacts`.
+ *
+ * Serves three read-only endpoints from the mirrored files:
+ *   - `/pypi/simple/`  PEP 503 simple index (wheels and sdists)
+ *   - `/npm/`          npm registry subset (packuments + tarballs)
+ *   - `/go/`           GOPROXY protocol (`@v/list`, `.info`, `.mod`, `.zip`)
+ *
+ * Artifacts are classified by their URL and target path, so entries written by
+ * `mirror plan` (`pypi/…`, `npm/…`, `go/…`) are picked up without extra config.
+ * In `offline-first` mode unknown npm packages redirect to the public registry;
+ * pip and go fall back through their own index/proxy lists instead.
+ */
+
+export type MirrorServeMode = Extract<MirrorMode, 'offline-first' | 'offline-only'>;
+
+export interface MirrorPackageFile {
+  target: string;
+  filePath: string;
+}
+
+export interface MirrorPackageIndex {
+  /** PEP 503 normalized project name → files. */
+  pypi: Map<string, MirrorPackageFile[]>;
+  /** Package name → version → tarball. */
+  npm: Map<string, Map<string, MirrorPackageFile & { manifest: Record<string, unknown> }>>;
+  /** Module path → version → module zip. */
+  go: Map<string, Map<string, MirrorPackageFile>>;
+}
+
+export interface MirrorPackageServerOptions {
+  /** Redirect unknown npm requests to the public registry (offline-first). */
+  upstreamFallback?: boolean;
+}
+
+const NPM_UPSTREAM = 'https://registry.npmjs.org';
+const PYPI_UPSTREAM = 'https://pypi.org/simple/';
+const GO_UPSTREAM = 'https://proxy.golang.org';
+
+/** PEP 503 name normalization. */
+export function normalizePypiName(name: string): string {
+  return name.toLowerCase().replace(/[-_.]+/g, '-');
+}
+
+function pypiProjectName(filename: string): string | null {
+  if (filename.endsWith('.whl')) return filename.split('-')[0] || null;
+  const stem = filename.replace(/(\.tar\.gz|\.tar\.bz2|\.zip)$/, '');
+  if (stem === filename) return null;
+  const dash = stem.lastIndexOf('-');
+  return dash > 0 ? stem.slice(0, dash) : null;
+}
+
+function unescapeGoPath(value: string): string {
+  return value.replace(/!([a-z])/g, (_match, letter: string) => letter.toUpperCase());
+}
+
+function parseUrlPath(url: string | undefined): string | null {
+  if (!url) return null;
+  try {
+    return decodeURIComponent(new URL(url).pathname);
+  } catch {
+    return null;
+  }
+}
+
+// ─── Archive readers ─────────────────────────────────────────────────────────
+
+/** Read `package/package.json` from an npm tarball. */
+function readTarballManifest(buffer: Buffer): Record<string, unknown> | null {
+  const tar = zlib.gunzipSync(buffer);
+  let offset = 0;
+  while (offset + 512 <= tar.length) {
+    const header = tar.subarray(offset, offset + 512);
+    if (header.every((byte) => byte === 0)) break;
+    const field = (start: number, end: number) =>
+      header.subarray(start, end).toString('utf-8').replace(/\0.*$/s, '');
+    const prefix = field(345, 500);
+    const name = prefix ? `${prefix}/${field(0, 100)}` : field(0, 100);
+    const size = parseInt(field(124, 136).trim() || '0', 8);
+    const dataStart = offset + 512;
+    if (/^[^/]+\/package\.json$/.test(name)) {
+      return JSON.parse(tar.subarray(dataStart, dataStart + size).toString('utf-8')) as Record<
+        string,
+        unknown
+      >;
+    }
+    offset = dataStart + Math.ceil(size / 512) * 512;
+  }
+  return null;
+}
+
+/** Read `<module>@<version>/go.mod` from a module zip. */
+function readZipGoMod(buffer: Buffer, modulePath: string, version: string): string | null {
+  const wanted = `${modulePath}@${version}/go.mod`;
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i -= 1) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) return null;
+
+  const entries = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  for (let i = 0; i < entries && buffer.readUInt32LE(offset) === 0x02014b50; i += 1) {
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.subarray(offset + 46, offset + 46 + nameLength).toString('utf-8');
+    if (name === wanted) {
+      const dataStart =
+        localOffset +
+        30 +
+        buffer.readUInt16LE(localOffset + 26) +
+        buffer.readUInt16LE(localOffset + 28);
+      const data = buffer.subarray(dataStart, dataStart + compressedSize);
+      if (method === 0) return data.toString('utf-8');
+      if (method === 8) return zlib.inflateRawSync(data).toString('utf-8');
+      return null;
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return null;
+}
+
+// ─── Index ───────────────────────────────────────────────────────────────────
+
+interface FileFacts {
+  key: string;
+  sha256: string;
+  sha1: string;
+  integrity: string;
+  mtime: Date;
+  manifest?: Record<string, unknown> | null;
+}
+
+// Hashes and npm manifests are memoized per file until its size or mtime changes.
+const factsCache = new Map<string, FileFacts>();
+
+async function fileFacts(filePath: string): Promise<FileFacts> {
+  const stat = await fs.stat(filePath);
+  const key = `${stat.size}:${stat.mtimeMs}`;
+  const cached = factsCache.get(filePath);
+  if (cached && cached.key === key) return cached;
+
+  const buffer = await fs.readFile(filePath);
+  const facts: FileFacts = {
+    key,
+    sha256: createHash('sha256').update(buffer).digest('hex'),
+    sha1: createHash('sha1').update(buffer).digest('hex'),
+    integrity: `sha512-${createHash('sha512').update(buffer).digest('base64')}`,
+    mtime: stat.mtime,
+  };
+  if (filePath.endsWith('.tgz')) {
+    try {
+      facts.manifest = readTarballManifest(buffer);
+    } catch {
+      facts.manifest = null;
+    }
+  }
+  factsCache.set(filePath, facts);
+  return facts;
+}
+
+export async function buildMirrorPackageIndex(workspacePath: string): Promise<MirrorPackageIndex> {
+  const index: MirrorPackageIndex = { pypi: new Map(), npm: new Map(), go: new Map() };
+  const loaded = await loadMirrorArtifacts(workspacePath);
+  if (!loaded) return index;
+
+  const artifactsDir = path.join(workspacePath, '.rapidkit', 'mirror', 'artifacts');
+  for (let i = 0; i < loaded.artifacts.length; i += 1) {
+    const artifact = loaded.artifacts[i];
+    const target = getTargetRelativePath(artifact, artifact.id || `artifact-${i + 1}`);
+    const filePath = path.join(artifactsDir, target);
+    let facts: FileFacts;
+    try {
+      facts = await fileFacts(filePath);
+    } catch {
+      continue; // not synced yet
+    }
+
+    const filename = path.basename(target);
+    const urlPath = parseUrlPath(artifact.url);
+    const topDir = target.split(/[\\/]/)[0];
+
+    // Go module paths only survive in proxy URLs; mirror targets flatten them.
+    const goMatch = urlPath?.match(/^\/(.+)\/@v\/([^/]+)\.zip$/);
+    if (goMatch) {
+      const modulePath = unescapeGoPath(goMatch[1]);
+      const versions = index.go.get(modulePath) ?? new Map();
+      versions.set(unescapeGoPath(goMatch[2]), { target, filePath });
+      index.go.set(modulePath, versions);
+      continue;
+    }
+
+    if (filename.endsWith('.tgz') && (topDir === 'npm' || urlPath?.includes('/-/'))) {
+      const manifest = facts.manifest;
+      const name = typeof manifest?.name === 'string' ? manifest.name : null;
+      const version = typeof manifest?.version === 'string' ? manifest.version : null;
+      if (!manifest || !name || !version) continue;
+      const versions = index.npm.get(name) ?? new Map();
+      versions.set(version, { target, filePath, manifest });
+      index.npm.set(name, versions);
+      continue;
+    }
+
+    const isPypiHost = artifact.url ? /pythonhosted\.org|pypi\.org/.test(artifact.url) : false;
+    if (filename.endsWith('.whl') || topDir === 'pypi' || isPypiHost) {
+      const project = pypiProjectName(filename);
+      if (!project) continue;
+      const key = normalizePypiName(project);
+      index.pypi.set(key, [...(index.pypi.get(key) ?? []), { target, filePath }]);
+    }
+  }
+  return index;
+}
+
+// ─── HTTP ────────────────────────────────────────────────────────────────────
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function send(res: ServerResponse, status: number, contentType: string, body: string): void {
+  res.writeHead(status, { 'Content-Type': contentType });
+  res.end(body);
+}
+
+function sendFile(res: ServerResponse, filePath: string, contentType: string): void {
+  res.writeHead(200, { 'Content-Type': contentType });
+  createReadStream(filePath)
+    .on('error', () => res.destroy())
+    .pipe(res);
+}
+
+function notFound(res: ServerResponse): void {
+  send(res, 404, 'text/plain; charset=utf-8', 'Not found\n');
+}
+
+function compareVersions(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+async function handlePypi(
+  res: ServerResponse,
+  index: MirrorPackageIndex,
+  route: string
+): Promise<void> {
+  if (route === '' || route === '/') {
+    const links = [...index.pypi.keys()]
+      .sort()
+      .map((name) => `    <a href="/pypi/simple/${name}/">${escapeHtml(name)}</a><br/>`);
+    send(
+      res,
+      200,
+      'text/html; charset=utf-8',
+      `<!DOCTYPE html>\n<html>\n  <body>\n${links.join('\n')}\n  </body>\n</html>\n`
+    );
+    return;
+  }
+
+  const project = normalizePypiName(route.replace(/^\/|\/$/g, ''));
+  const files = index.pypi.get(project);
+  if (!files) {
+    notFound(res);
+    return;
+  }
+  const links: string[] = [];
+  for (const file of files) {
+    const { sha256 } = await fileFacts(file.filePath);
+    const href = `/files/${file.target.split(/[\\/]/).map(encodeURIComponent).join('/')}`;
+    links.push(
+      `    <a href="${href}#sha256=${sha256}">${escapeHtml(path.basename(file.target))}</a><br/>`
+    );
+  }
+  send(
+    res,
+    200,
+    'text/html; charset=utf-8',
+    `<!DOCTYPE html>\n<html>\n  <body>\n${links.join('\n')}\n  </body>\n</html>\n`
+  );
+}
+
+async function handleNpm(
+  res: ServerResponse,
+  index: MirrorPackageIndex,
+  route: string,
+  baseUrl: string,
+  upstreamFallback: boolean
+): Promise<void> {
+  const decoded = decodeURIComponent(route.replace(/^\//, ''));
+  const tarballMatch = decoded.match(/^(.+)\/-\/([^/]+\.tgz)$/);
+  const name = tarballMatch ? tarballMatch[1] : decoded.replace(/\/$/, '');
+  const versions = index.npm.get(name);
+
+  if (!versions) {
+    if (upstreamFallback && name) {
+      res.writeHead(302, { Location: `${NPM_UPSTREAM}${route}` });
+      res.end();
+      return;
+    }
+    notFound(res);
+    return;
+  }
+
+  const basename = name.split('/').pop() as string;
+  if (tarballMatch) {
+    const version = tarballMatch[2].slice(basename.length + 1, -'.tgz'.length);
+    const entry = tarballMatch[2].startsWith(`${basename}-`) ? versions.get(version) : undefined;
+    if (!entry) {
+      notFound(res);
+      return;
+    }
+    sendFile(res, entry.filePath, 'application/octet-stream');
+    return;
+  }
+
+  const packument: Record<string, unknown> & { versions: Record<string, unknown> } = {
+    name,
+    'dist-tags': {},
+    versions: {},
+  };
+  const sorted = [...versions.keys()].sort(compareVersions);
+  for (const version of sorted) {
+    const entry = versions.get(version) as MirrorPackageFile & {
+      manifest: Record<string, unknown>;
+    };
+    const facts = await fileFacts(entry.filePath);
+    packument.versions[version] = {
+      ...entry.manifest,
+      name,
+      version,
+      dist: {
+        tarball: `${baseUrl}/npm/${name}/-/${basename}-${version}.tgz`,
+        shasum: facts.sha1,
+        integrity: facts.integrity,
+      },
+    };
+  }
+  const stable = sorted.filter((version) => !version.includes('-'));
+  packument['dist-tags'] = { latest: (stable.length > 0 ? stable : sorted).at(-1) };
+  send(res, 200, 'application/json', JSON.stringify(packument));
+}
+
+async function handleGo(
+  res: ServerResponse,
+  index: MirrorPackageIndex,
+  route: string
+): Promise<void> {
+  const match = route.match(/^\/(.+)\/@v\/(list|[^/]+\.(info|mod|zip))$/);
+  if (!match) {
+    notFound(res);
+    return;
+  }
+  const modulePath = unescapeGoPath(decodeURIComponent(match[1]));
+  const versions = index.go.get(modulePath);
+  if (!versions) {
+    notFound(res);
+    return;
+  }
+  if (match[2] === 'list') {
+    send(
+      res,
+      200,
+      'text/plain; charset=utf-8',
+      [...versions.keys()]
+        .sort(compareVersions)
+        .map((version) => `${version}\n`)
+        .join('')
+    );
+    return;
+  }
+
+  const version = unescapeGoPath(match[2].slice(0, -(match[3].length + 1)));
+  const entry = versions.get(version);
+  if (!entry) {
+    notFound(res);
+    return;
+  }
+  if (match[3] === 'zip') {
+    sendFile(res, entry.filePath, 'application/zip');
+    return;
+  }
+  if (match[3] === 'info') {
+    const { mtime } = await fileFacts(entry.filePath);
+    send(res, 200, 'application/json', JSON.stringify({ Version: version, Time: mtime }));
+    return;
+  }
+  let goMod: string | null = null;
+  try {
+    goMod = readZipGoMod(await fs.readFile(entry.filePath), modulePath, version);
+  } catch {
+    goMod = null;
+  }
+  send(res, 200, 'text/plain; charset=utf-8', goMod ?? `module ${modulePath}\n`);
+}
+
+async function handleFile(
+  res: ServerResponse,
+  workspacePath: string,
+  route: string
+): Promise<void> {
+  const artifactsDir = path.join(workspacePath, '.rapidkit', 'mirror', 'artifacts');
+  const filePath = path.resolve(artifactsDir, decodeURIComponent(route.replace(/^\//, '')));
+  if (!filePath.startsWith(`${artifactsDir}${path.sep}`)) {
+    notFound(res);
+    return;
+  }
+  const stat = await fs.stat(filePath).catch(() => null);
+  if (!stat?.isFile()) {
+    notFound(res);
+    return;
+  }
+  sendFile(res, filePath, 'application/octet-stream');
+}
+
+/**
+ * Create (but do not start) the package index server for a workspace. The
+ * index is rebuilt when mirror-config.json or mirror.lock change, so a running
+ * server picks up `mirror sync` results without a restart.
+ */
+export function createMirrorPackageServer(
+  workspacePath: string,
+  options: MirrorPackageServerOptions = {}
+): Server {
+  const rapidkitDir = path.join(workspacePath, '.rapidkit');
+  let cached: { key: string; index: MirrorPackageIndex } | null = null;
+
+  async function currentIndex(): Promise<MirrorPackageIndex> {
+    const stamps = await Promise.all(
+      ['mirror-config.json', 'mirror.lock'].map((file) =>
+        fs
+          .stat(path.join(rapidkitDir, file))
+          .then((stat) => String(stat.mtimeMs))
+          .catch(() => '-')
+      )
+    );
+    const key = stamps.join(':');
+    if (!cached || cached.key !== key) {
+      cached = { key, index: await buildMirrorPackageIndex(workspacePath) };
+    }
+    return cached.index;
+  }
+
+  async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (req.method !== 'GET') {
+      send(res, 405, 'text/plain; charset=utf-8', 'Method not allowed\n');
+      return;
+    }
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const route = url.pathname;
+    const baseUrl = `http://${req.headers.host ?? 'localhost'}`;
+
+    if (route.startsWith('/files/')) {
+      await handleFile(res, workspacePath, route.slice('/files'.length));
+      return;
+    }
+
+    const index = await currentIndex();
+    if (route === '/') {
+      send(
+        res,
+        200,
+        'application/json',
+        JSON.stringify({ pypi: index.pypi.size, npm: index.npm.size, go: index.go.size })
+      );
+    } else if (route.startsWith('/pypi/simple')) {
+      await handlePypi(res, index, route.slice('/pypi/simple'.length));
+    } else if (route.startsWith('/npm/')) {
+      await handleNpm(
+        res,
+        index,
+        route.slice('/npm'.length),
+        baseUrl,
+        options.upstreamFallback === true
+      );
+    } else if (route.startsWith('/go/')) {
+      await handleGo(res, index, route.slice('/go'.length));
+    } else {
+      notFound(res);
+    }
+  }
+
+  return http.createServer((req, res) => {
+    handle(req, res).catch((error: Error) => {
+      if (!res.headersSent) {
+        send(res, 500, 'text/plain; charset=utf-8', `${error.message}\n`);
+      } else {
+        res.destroy();
+      }
+    });
+  });
+}
+
+export async function startMirrorPackageServer(
+  workspacePath: string,
+  options: MirrorPackageServerOptions & { host?: string; port?: number } = {}
+): Promise<{ server: Server; url: string }> {
+  const server = createMirrorPackageServer(workspacePath, options);
+  const host = options.host ?? '127.0.0.1';
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+  const { port } = server.address() as AddressInfo;
+  const urlHost = host.includes(':') ? `[${host}]` : host;
+  return { server, url: `http://${urlHost}:${port}` };
+}
+
+/**
+ * Environment pointing pip, npm/pnpm/yarn and go at a running index. Poetry
+ * has no such override: it resolves only from the sources in pyproject.toml.
+ */
+export function getMirrorPackageEnv(
+  baseUrl: string,
+  mode: MirrorServeMode
+): Record<string, string> {
+  const base = baseUrl.replace(/\/+$/, '');
+  const env: Record<string, string> = {
+    RAPIDKIT_MIRROR_URL: base,
+    PIP_INDEX_URL: `${base}/pypi/simple/`,
+    npm_config_registry: `${base}/npm/`,
+    YARN_NPM_REGISTRY_SERVER: `${base}/npm`,
+    YARN_UNSAFE_HTTP_WHITELIST: new URL(base).hostname,
+    GOPROXY: `${base}/go`,
+  };
+  if (mode === 'offline-first') {
+    env.PIP_EXTRA_INDEX_URL = PYPI_UPSTREAM;
+    env.GOPROXY = `${base}/go,${GO_UPSTREAM},direct`;
+  } else {
+    // sum.golang.org is unreachable offline; go.sum still verifies every locked module.
+    env.GOSUMDB = 'off';
+  }
+  return env;
+}
+
+/**
+ * Run `fn` with package managers pointed at the workspace mirror when it is
+ * enabled and its mode is `offline-first` or `offline-only`. Reuses the server named by
+ * `RAPIDKIT_MIRROR_URL` (e.g. a running `mirror serve`); otherwise an
+ * in-process server is started on a random loopback port for the duration.
+ * `fn` receives the server URL, or `null` when no mirror applies.
+ */
+export async function withMirrorPackageIndex<T>(
+  workspacePath: string,
+  fn: (mirrorUrl: string | null) => Promise<T>
+): Promise<T> {
+  const loaded = await loadMirrorArtifacts(workspacePath).catch(() => null);
+  const mode = loaded?.mode;
+  if (!loaded?.enabled || (mode !== 'offline-first' && mode !== 'offline-only')) return fn(null);
+
+  const externalUrl = process.env.RAPIDKIT_MIRROR_URL?.trim();
+  const started = externalUrl
+    ? null
+    : await startMirrorPackageServer(workspacePath, {
+        upstreamFallback: mode === 'offline-first',
+      });
+  const mirrorUrl = externalUrl || (started?.url as string);
+  const env = getMirrorPackageEnv(mirrorUrl, mode);
+
+  const original = new Map(Object.keys(env).map((key) => [key, process.env[key]]));
+  Object.assign(process.env, env);
+  try {
+    return await fn(mirrorUrl);
+  } finally {
+    for (const [key, value] of original) {
+      if (typeof value === 'undefined') delete process.env[key];
+      else process.env[key] = value;
+    }
+    if (started) {
+      await new Promise<void>((resolve) => started.server.close(() => resolve()));
+    }
+  }
+}
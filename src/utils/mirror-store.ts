@@ -0,0 +1,248 @@
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import * as fsExtra from 'fs-extra';
+
+/**
+ * User-level content-addressed store for mirror artifacts.
+ *
+ * Blobs live under `<root>/blobs/sha256/<2-char prefix>/<digest>` and are
+ * hardlinked (or symlinked/copied) into each workspace's
+ * `.rapidkit/mirror/artifacts`, so workspaces on one machine mirroring the
+ * same wheels and tarballs keep a single copy on disk. Workspaces that use
+ * the store are registered in `<root>/workspaces.json`; `mirror gc` keeps
+ * every blob referenced by a registered workspace's `mirror.lock`.
+ */
+
+export type MirrorStoreLinkMode = 'hardlink' | 'symlink' | 'copy';
+
+export interface MirrorStoreConfig {
+  enabled?: boolean;
+  path?: string;
+  link?: MirrorStoreLinkMode;
+}
+
+export interface MirrorStoreGcResult {
+  root: string;
+  dryRun: boolean;
+  workspaces: string[];
+  forgottenWorkspaces: string[];
+  unreadableLocks: string[];
+  scannedBlobs: number;
+  referencedBlobs: number;
+  removedBlobs: string[];
+  freedBytes: number;
+}
+
+const SHA256_PATTERN = /^[a-f0-9]{64}$/;
+
+/** Store root: `RAPIDKIT_MIRROR_STORE`, then `store.path`, then `~/.rapidkit/mirror-store`. */
+export function getMirrorStoreRoot(configuredPath?: string): string {
+  const fromEnv = process.env.RAPIDKIT_MIRROR_STORE?.trim();
+  if (fromEnv) return path.resolve(fromEnv);
+  if (configuredPath) {
+    return path.resolve(configuredPath.replace(/^~(?=$|[\\/])/, os.homedir()));
+  }
+  return path.join(os.homedir(), '.rapidkit', 'mirror-store');
+}
+
+export function getMirrorStoreBlobPath(root: string, sha256: string): string {
+  const digest = sha256.toLowerCase();
+  return path.join(root, 'blobs', 'sha256', digest.slice(0, 2), digest);
+}
+
+export async function hasMirrorStoreBlob(root: string, sha256: string): Promise<boolean> {
+  return fsExtra.pathExists(getMirrorStoreBlobPath(root, sha256));
+}
+
+/**
+ * Add a verified file to the store. The blob is written to a temporary name
+ * and renamed so concurrent workspaces never observe a partial blob.
+ */
+export async function addMirrorStoreBlob(
+  root: string,
+  filePath: string,
+  sha256: string
+): Promise<{ blobPath: string; added: boolean }> {
+  const blobPath = getMirrorStoreBlobPath(root, sha256);
+  if (await fsExtra.pathExists(blobPath)) {
+    return { blobPath, added: false };
+  }
+
+  await fsExtra.ensureDir(path.dirname(blobPath));
+  const tempPath = `${blobPath}.tmp-${process.pid}-${Date.now()}`;
+  await fs.copyFile(filePath, tempPath);
+  await fs.rename(tempPath, blobPath);
+  return { blobPath, added: true };
+}
+
+/**
+ * Replace `targetPath` with a link to the blob. Hardlinks fall back to a copy
+ * when the store sits on another filesystem.
+ */
+export async function linkMirrorStoreBlob(
+  blobPath: string,
+  targetPath: string,
+  mode: MirrorStoreLinkMode = 'hardlink'
+): Promise<MirrorStoreLinkMode> {
+  await fsExtra.ensureDir(path.dirname(targetPath));
+  await fs.rm(targetPath, { force: true });
+
+  if (mode === 'symlink') {
+    await fs.symlink(blobPath, targetPath);
+    return 'symlink';
+  }
+  if (mode === 'hardlink') {
+    try {
+      await fs.link(blobPath, targetPath);
+      return 'hardlink';
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code !== 'EXDEV' && code !== 'EPERM' && code !== 'ENOTSUP') throw error;
+    }
+  }
+  await fs.copyFile(blobPath, targetPath);
+  return 'copy';
+}
+
+function workspacesFilePath(root: string): string {
+  return path.join(root, 'workspaces.json');
+}
+
+export async function readMirrorStoreWorkspaces(root: string): Promise<string[]> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(workspacesFilePath(root), 'utf-8')) as {
+      workspaces?: unknown;
+    };
+    return Array.isArray(parsed.workspaces)
+      ? parsed.workspaces.filter((entry): entry is string => typeof entry === 'string')
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+async function writeMirrorStoreWorkspaces(root: string, workspaces: string[]): Promise<void> {
+  await fsExtra.outputFile(
+    workspacesFilePath(root),
+    `${JSON.stringify({ workspaces: [...new Set(workspaces)].sort() }, null, 2)}\n`,
+    'utf-8'
+  );
+}
+
+export async function registerMirrorStoreWorkspace(
+  root: string,
+  workspacePath: string
+): Promise<void> {
+  const resolved = path.resolve(workspacePath);
+  const workspaces = await readMirrorStoreWorkspaces(root);
+  if (workspaces.includes(resolved)) return;
+  await writeMirrorStoreWorkspaces(root, [...workspaces, resolved]);
+}
+
+async function readLockDigests(workspacePath: string): Promise<Set<string> | null> {
+  const lockPath = path.join(workspacePath, '.rapidkit', 'mirror.lock');
+  let raw: string;
+  try {
+    raw = await fs.readFile(lockPath, 'utf-8');
+  } catch {
+    return new Set();
+  }
+  try {
+    const lock = JSON.parse(raw) as { artifacts?: Array<{ sha256?: unknown }> };
+    const digests = new Set<string>();
+    for (const artifact of lock.artifacts ?? []) {
+      if (typeof artifact.sha256 === 'string') digests.add(artifact.sha256.toLowerCase());
+    }
+    return digests;
+  } catch {
+    return null;
+  }
+}
+
+async function listBlobs(root: string): Promise<string[]> {
+  const blobsDir = path.join(root, 'blobs', 'sha256');
+  const blobs: string[] = [];
+  let prefixes: string[];
+  try {
+    prefixes = await fs.readdir(blobsDir);
+  } catch {
+    return blobs;
+  }
+  for (const prefix of prefixes) {
+    let names: string[];
+    try {
+      names = await fs.readdir(path.join(blobsDir, prefix));
+    } catch {
+      continue;
+    }
+    for (const name of names) {
+      blobs.push(path.join(blobsDir, prefix, name));
+    }
+  }
+  return blobs;
+}
+
+/**
+ * Remove blobs no registered workspace references. Workspaces that no longer
+ * exist are forgotten; if any lock cannot be parsed nothing is removed, since
+ * its references are unknown.
+ */
+export async function collectMirrorStoreGarbage(
+  root: string,
+  options: { dryRun?: boolean } = {}
+): Promise<MirrorStoreGcResult> {
+  const result: MirrorStoreGcResult = {
+    root,
+    dryRun: options.dryRun === true,
+    workspaces: [],
+    forgottenWorkspaces: [],
+    unreadableLocks: [],
+    scannedBlobs: 0,
+    referencedBlobs: 0,
+    removedBlobs: [],
+    freedBytes: 0,
+  };
+
+  const referenced = new Set<string>();
+  for (const workspacePath of await readMirrorStoreWorkspaces(root)) {
+    if (!(await fsExtra.pathExists(workspacePath))) {
+      result.forgottenWorkspaces.push(workspacePath);
+      continue;
+    }
+    result.workspaces.push(workspacePath);
+    const digests = await readLockDigests(workspacePath);
+    if (!digests) {
+      result.unreadableLocks.push(path.join(workspacePath, '.rapidkit', 'mirror.lock'));
+      continue;
+    }
+    digests.forEach((digest) => referenced.add(digest));
+  }
+
+  const blobs = await listBlobs(root);
+  result.scannedBlobs = blobs.length;
+  const canRemove = result.unreadableLocks.length === 0;
+
+  for (const blobPath of blobs) {
+    const name = path.basename(blobPath);
+    if (SHA256_PATTERN.test(name) && referenced.has(name)) {
+      result.referencedBlobs += 1;
+      continue;
+    }
+    if (!canRemove) continue;
+    // Leftover temp files from interrupted writes are garbage too.
+    const stat = await fs.stat(blobPath).catch(() => null);
+    if (!stat) continue;
+    if (!result.dryRun) {
+      await fs.rm(blobPath, { force: true });
+    }
+    result.removedBlobs.push(name);
+    result.freedBytes += stat.size;
+  }
+
+  if (!result.dryRun && result.forgottenWorkspaces.length > 0) {
+    await writeMirrorStoreWorkspaces(root, result.workspaces);
+  }
+
+  return result;
+}
@@ -5,6 +5,16 @@ import { createHash, createHmac, createVerify } from 'crypto';
 import http from 'http';
 import https from 'https';
 import { execa } from 'execa';
+import {
+  addMirrorStoreBlob,
+  getMirrorStoreBlobPath,
+  getMirrorStoreRoot,
+  hasMirrorStoreBlob,
+  linkMirrorStoreBlob,
+  registerMirrorStoreWorkspace,
+  type MirrorStoreConfig,
+  type MirrorStoreLinkMode,
+} from './mirror-store.js';
 
 export type MirrorCheckStatus = 'passed' | 'failed' | 'skipped';
 
@@ -26,15 +36,19 @@ export interface MirrorLifecycleResult {
     transparencyEvidenceRecords: number;
     evidenceExported: boolean;
     evidenceExportTarget: string | null;
+    storedArtifacts: number;
+    storeReusedArtifacts: number;
   };
 }
 
-interface MirrorArtifact {
+export interface MirrorArtifact {
   id?: string;
   source?: string;
   url?: string;
   target?: string;
   sha256?: string;
+  /** Subresource Integrity string (`sha512-<base64>`), as recorded by npm/pnpm/yarn lockfiles. */
+  integrity?: string;
   required?: boolean;
   attestation?: {
     signature: string;
@@ -52,13 +66,16 @@ interface MirrorArtifact {
   };
 }
 
+export type MirrorMode = 'online' | 'offline-first' | 'offline-only';
+
 interface MirrorConfig {
   enabled?: boolean;
-  mode?: 'online' | 'offline-first' | 'offline-only';
+  mode?: MirrorMode;
   artifacts?: MirrorArtifact[];
   retention?: {
     keepLast?: number;
   };
+  store?: MirrorStoreConfig;
   prefetch?: {
     retries?: number;
     backoffMs?: number;
@@ -113,6 +130,10 @@ interface MirrorLockEntry {
   path: string;
   sha256: string;
   size: number;
+  store: {
+    blob: string;
+    link: MirrorStoreLinkMode;
+  } | null;
   provenance: {
     sourceType: 'path' | 'url';
     source: string;
@@ -160,6 +181,22 @@ async function sha256File(filePath: string): Promise<string> {
   return createHash('sha256').update(content).digest('hex');
 }
 
+const SRI_ALGORITHMS = new Set(['sha1', 'sha256', 'sha384', 'sha512']);
+
+/** True when any supported hash in an SRI string matches the file. */
+async function matchesIntegrity(filePath: string, integrity: string): Promise<boolean> {
+  const content = await fs.readFile(filePath);
+  return integrity
+    .split(/\s+/)
+    .filter(Boolean)
+    .some((token) => {
+      const separator = token.indexOf('-');
+      const algorithm = token.slice(0, separator).toLowerCase();
+      if (separator <= 0 || !SRI_ALGORITHMS.has(algorithm)) return false;
+      return createHash(algorithm).update(content).digest('base64') === token.slice(separator + 1);
+    });
+}
+
 async function writeJsonFile(filePath: string, payload: unknown): Promise<void> {
   await fsExtra.outputFile(filePath, `${JSON.stringify(payload, null, 2)}\n`, 'utf-8');
 }
@@ -169,7 +206,18 @@ function resolveWorkspacePath(workspacePath: string, relativeOrAbsolute: string)
   return path.join(workspacePath, relativeOrAbsolute);
 }
 
-function getTargetRelativePath(artifact: MirrorArtifact, fallbackId: string): string {
+/**
+ * Absolute path of an artifact's mirrored copy, or null when its target is an
+ * absolute path or resolves outside `.rapidkit/mirror/artifacts` (`../`).
+ */
+function resolveArtifactTarget(workspacePath: string, target: string): string | null {
+  if (path.isAbsolute(target)) return null;
+  const root = path.resolve(workspacePath, '.rapidkit', 'mirror', 'artifacts');
+  const resolved = path.resolve(root, target);
+  return resolved.startsWith(`${root}${path.sep}`) ? resolved : null;
+}
+
+export function getTargetRelativePath(artifact: MirrorArtifact, fallbackId: string): string {
   if (artifact.target) return artifact.target;
   if (artifact.source) return path.basename(artifact.source);
   if (artifact.url) {
@@ -184,7 +232,7 @@ function getTargetRelativePath(artifact: MirrorArtifact, fallbackId: string): st
   return `${fallbackId}.artifact`;
 }
 
-async function loadTrustedHosts(workspacePath: string): Promise<Set<string>> {
+export async function loadTrustedHosts(workspacePath: string): Promise<Set<string>> {
   const trustFilePath = path.join(workspacePath, '.rapidkit', 'trusted-sources.lock');
   const trustedHosts = new Set<string>(['localhost', '127.0.0.1']);
 
@@ -617,6 +665,8 @@ export async function runMirrorLifecycle(
     transparencyEvidenceRecords: 0,
     evidenceExported: false,
     evidenceExportTarget: null as string | null,
+    storedArtifacts: 0,
+    storeReusedArtifacts: 0,
   };
 
   const rapidkitDir = path.join(workspacePath, '.rapidkit');
@@ -714,6 +764,8 @@ export async function runMirrorLifecycle(
 
   const artifacts = Array.isArray(config.artifacts) ? config.artifacts : [];
   const lockEntries: MirrorLockEntry[] = [];
+  const storeRoot = config.store?.enabled === true ? getMirrorStoreRoot(config.store.path) : null;
+  const storeLinkMode: MirrorStoreLinkMode = config.store?.link ?? 'hardlink';
 
   for (let index = 0; index < artifacts.length; index += 1) {
     const artifact = artifacts[index];
@@ -722,9 +774,18 @@ export async function runMirrorLifecycle(
       ? resolveWorkspacePath(workspacePath, artifact.source)
       : null;
     const targetRelative = getTargetRelativePath(artifact, artifactId);
-    const targetPath = path.join(mirrorArtifactsDir, targetRelative);
+    const targetPath = resolveArtifactTarget(workspacePath, targetRelative);
+    if (!targetPath) {
+      checks.push({
+        id: `mirror.sync.${artifactId}`,
+        status: 'failed',
+        message: `Refusing to mirror ${artifactId} outside .rapidkit/mirror/artifacts: ${targetRelative}`,
+      });
+      continue;
+    }
 
     let mirrored = false;
+    let storeEntry: MirrorLockEntry['store'] = null;
 
     let provenance: MirrorLockEntry['provenance'] = {
       sourceType: 'path',
@@ -735,8 +796,37 @@ export async function runMirrorLifecycle(
       trusted: true,
     };
 
-    if (sourcePath && (await fsExtra.pathExists(sourcePath))) {
+    // A pinned digest already in the shared store needs no copy or download.
+    if (storeRoot && artifact.sha256 && (await hasMirrorStoreBlob(storeRoot, artifact.sha256))) {
+      const blobPath = getMirrorStoreBlobPath(storeRoot, artifact.sha256);
+      try {
+        const link = await linkMirrorStoreBlob(blobPath, targetPath, storeLinkMode);
+        storeEntry = { blob: blobPath, link };
+        mirrored = true;
+        details.storeReusedArtifacts += 1;
+        provenance = {
+          ...provenance,
+          sourceType: artifact.url && !sourcePath ? 'url' : 'path',
+          attempts: 0,
+        };
+        checks.push({
+          id: `mirror.store.${artifactId}`,
+          status: 'passed',
+          message: `Reused artifact ${artifactId} from mirror store (${link}).`,
+        });
+      } catch (error) {
+        checks.push({
+          id: `mirror.store.${artifactId}`,
+          status: 'failed',
+          message: `Mirror store link failed for ${artifactId}: ${(error as Error).message}`,
+        });
+      }
+    }
+
+    if (!mirrored && sourcePath && (await fsExtra.pathExists(sourcePath))) {
       await fsExtra.ensureDir(path.dirname(targetPath));
+      // Never write through a hardlink into the shared store.
+      await fs.rm(targetPath, { force: true });
       await fsExtra.copyFile(sourcePath, targetPath);
       details.syncedArtifacts += 1;
       mirrored = true;
@@ -754,7 +844,7 @@ export async function runMirrorLifecycle(
         status: 'passed',
         message: `Mirrored artifact ${artifactId} from source path.`,
       });
-    } else if (artifact.url) {
+    } else if (!mirrored && artifact.url) {
       let host = '';
       try {
         host = new URL(artifact.url).hostname.toLowerCase();
@@ -811,6 +901,7 @@ export async function runMirrorLifecycle(
         for (let attempt = 1; attempt <= prefetchRetries + 1; attempt += 1) {
           attempts = attempt;
           try {
+            await fs.rm(targetPath, { force: true });
             await downloadFileWithTimeout(artifact.url, targetPath, prefetchTimeoutMs);
             details.syncedArtifacts += 1;
             mirrored = true;
@@ -886,6 +977,14 @@ export async function runMirrorLifecycle(
       });
       continue;
     }
+    if (artifact.integrity && !(await matchesIntegrity(targetPath, artifact.integrity))) {
+      checks.push({
+        id: `mirror.verify.${artifactId}`,
+        status: 'failed',
+        message: `Integrity mismatch for ${artifactId}.`,
+      });
+      continue;
+    }
 
     details.verifiedArtifacts += 1;
     checks.push({
@@ -1009,12 +1108,35 @@ export async function runMirrorLifecycle(
       });
     }
 
+    if (storeRoot && !storeEntry) {
+      try {
+        const { blobPath, added } = await addMirrorStoreBlob(storeRoot, targetPath, digest);
+        const link = await linkMirrorStoreBlob(blobPath, targetPath, storeLinkMode);
+        storeEntry = { blob: blobPath, link };
+        if (added) details.storedArtifacts += 1;
+        checks.push({
+          id: `mirror.store.${artifactId}`,
+          status: 'passed',
+          message: added
+            ? `Stored artifact ${artifactId} in mirror store (${link}).`
+            : `Linked artifact ${artifactId} to existing mirror store blob (${link}).`,
+        });
+      } catch (error) {
+        checks.push({
+          id: `mirror.store.${artifactId}`,
+          status: 'failed',
+          message: `Mirror store write failed for ${artifactId}: ${(error as Error).message}`,
+        });
+      }
+    }
+
     const stat = await fs.stat(targetPath);
     lockEntries.push({
       id: artifactId,
       path: path.relative(workspacePath, targetPath),
       sha256: digest,
       size: stat.size,
+      store: storeEntry,
       provenance,
       attestation: {
         detached: {
@@ -1083,6 +1205,11 @@ export async function runMirrorLifecycle(
   await fs.writeFile(mirrorLockPath, `${JSON.stringify(lockBody, null, 2)}\n`, 'utf-8');
   details.lockWritten = true;
 
+  if (storeRoot) {
+    // Registration is what keeps this workspace's blobs alive during `mirror gc`.
+    await registerMirrorStoreWorkspace(storeRoot, workspacePath);
+  }
+
   checks.push({
     id: 'mirror.lock.write',
     status: 'passed',
@@ -1269,3 +1396,303 @@ export async function runMirrorLifecycle(
 
   return { checks, details };
 }
+
+export type MirrorArtifactLockStatus = 'locked' | 'unlocked' | 'missing' | 'modified' | 'mismatch';
+
+export interface MirrorArtifactListing {
+  id: string;
+  source: string | null;
+  url: string | null;
+  target: string;
+  required: boolean;
+  pinnedSha256: string | null;
+  lockedSha256: string | null;
+  status: MirrorArtifactLockStatus;
+}
+
+export interface MirrorAddOptions {
+  id?: string;
+  target?: string;
+  required?: boolean;
+  pin?: boolean;
+  cwd?: string;
+  timeoutMs?: number;
+}
+
+export type MirrorArtifactEditResult =
+  | { ok: true; artifact: MirrorArtifact; sha256: string; targetPath: string }
+  | { ok: false; error: string };
+
+function mirrorConfigPath(workspacePath: string): string {
+  return path.join(workspacePath, '.rapidkit', 'mirror-config.json');
+}
+
+async function readMirrorConfigForEdit(
+  workspacePath: string
+): Promise<
+  { ok: true; config: MirrorConfig & Record<string, unknown> } | { ok: false; error: string }
+> {
+  const configPath = mirrorConfigPath(workspacePath);
+  if (!(await fsExtra.pathExists(configPath))) {
+    return { ok: true, config: { schema_version: '1.0', enabled: false, artifacts: [] } };
+  }
+  try {
+    const config = JSON.parse(await fs.readFile(configPath, 'utf-8')) as MirrorConfig &
+      Record<string, unknown>;
+    if (!config || typeof config !== 'object' || Array.isArray(config)) {
+      return { ok: false, error: 'mirror-config.json must contain a JSON object.' };
+    }
+    return { ok: true, config };
+  } catch {
+    return { ok: false, error: 'Invalid JSON in .rapidkit/mirror-config.json.' };
+  }
+}
+
+function deriveArtifactId(reference: string): string {
+  let base = reference;
+  try {
+    base = path.basename(new URL(reference).pathname) || reference;
+  } catch {
+    base = path.basename(reference);
+  }
+  const id = base
+    .replace(/(\.tar)?\.[A-Za-z0-9]+$/, '')
+    .replace(/[^A-Za-z0-9._-]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return id || 'artifact';
+}
+
+function isUrlReference(reference: string): boolean {
+  return /^https?:\/\//i.test(reference);
+}
+
+/**
+ * Add an artifact to mirror-config.json. The artifact is fetched (or copied)
+ * once into `.rapidkit/mirror/artifacts`, hashed, and recorded; `pin` also
+ * stores the sha256 so later syncs fail on drift.
+ */
+export async function addMirrorArtifact(
+  workspacePath: string,
+  reference: string,
+  options: MirrorAddOptions = {}
+): Promise<MirrorArtifactEditResult> {
+  const loaded = await readMirrorConfigForEdit(workspacePath);
+  if (!loaded.ok) return loaded;
+  const config = loaded.config;
+  const artifacts = Array.isArray(config.artifacts) ? config.artifacts : [];
+
+  const id = options.id ?? deriveArtifactId(reference);
+  if (/[\\/]/.test(id) || id === '.' || id === '..') {
+    return { ok: false, error: `Invalid mirror artifact id: ${id}` };
+  }
+  if (artifacts.some((artifact, index) => (artifact.id || `artifact-${index + 1}`) === id)) {
+    return {
+      ok: false,
+      error: `Mirror artifact ${id} already exists; pass --id to choose another.`,
+    };
+  }
+
+  const artifact: MirrorArtifact = { id };
+  if (isUrlReference(reference)) {
+    let host: string;
+    try {
+      host = new URL(reference).hostname.toLowerCase();
+    } catch {
+      return { ok: false, error: `Invalid URL: ${reference}` };
+    }
+    const trustedHosts = await loadTrustedHosts(workspacePath);
+    if (process.env.RAPIDKIT_TRUSTED_SOURCES !== '1' && !trustedHosts.has(host)) {
+      return {
+        ok: false,
+        error: `Untrusted mirror host: ${host}. Add it to .rapidkit/trusted-sources.lock or set RAPIDKIT_TRUSTED_SOURCES=1.`,
+      };
+    }
+    artifact.url = reference;
+  } else {
+    const absolute = path.resolve(options.cwd ?? process.cwd(), reference);
+    if (!(await fsExtra.pathExists(absolute))) {
+      return { ok: false, error: `Artifact source not found: ${absolute}` };
+    }
+    const relative = path.relative(workspacePath, absolute);
+    artifact.source =
+      relative && !relative.startsWith('..') && !path.isAbsolute(relative) ? relative : absolute;
+  }
+
+  if (options.target) artifact.target = options.target;
+  if (options.required) artifact.required = true;
+
+  const target = getTargetRelativePath(artifact, id);
+  const targetPath = resolveArtifactTarget(workspacePath, target);
+  if (!targetPath) {
+    return {
+      ok: false,
+      error: `Mirror artifact target ${target} must be a relative path inside .rapidkit/mirror/artifacts.`,
+    };
+  }
+  try {
+    await fsExtra.ensureDir(path.dirname(targetPath));
+    await fs.rm(targetPath, { force: true });
+    if (artifact.url) {
+      await downloadFileWithTimeout(artifact.url, targetPath, options.timeoutMs ?? 15000);
+    } else {
+      await fsExtra.copyFile(
+        resolveWorkspacePath(workspacePath, artifact.source as string),
+        targetPath
+      );
+    }
+  } catch (error) {
+    await fs.rm(targetPath, { force: true });
+    return { ok: false, error: `Failed to fetch ${reference}: ${(error as Error).message}` };
+  }
+
+  const sha256 = await sha256File(targetPath);
+  if (options.pin) artifact.sha256 = sha256;
+
+  config.artifacts = [...artifacts, artifact];
+  await writeJsonFile(mirrorConfigPath(workspacePath), config);
+  return { ok: true, artifact, sha256, targetPath };
+}
+
+/** Remove an artifact entry by id, together with its mirrored copy. */
+export async function removeMirrorArtifact(
+  workspacePath: string,
+  id: string
+): Promise<MirrorArtifactEditResult> {
+  const loaded = await readMirrorConfigForEdit(workspacePath);
+  if (!loaded.ok) return loaded;
+  const config = loaded.config;
+  const artifacts = Array.isArray(config.artifacts) ? config.artifacts : [];
+
+  const index = artifacts.findIndex((artifact, i) => (artifact.id || `artifact-${i + 1}`) === id);
+  if (index < 0) {
+    return { ok: false, error: `Mirror artifact ${id} not found in mirror-config.json.` };
+  }
+
+  const target = getTargetRelativePath(artifacts[index], id);
+  const targetPath = resolveArtifactTarget(workspacePath, target);
+  if (!targetPath) {
+    return {
+      ok: false,
+      error: `Refusing to delete ${target} outside .rapidkit/mirror/artifacts; edit .rapidkit/mirror-config.json instead.`,
+    };
+  }
+  const [artifact] = artifacts.splice(index, 1);
+  const sha256 = (await fsExtra.pathExists(targetPath)) ? await sha256File(targetPath) : '';
+  await fs.rm(targetPath, { force: true });
+
+  config.artifacts = artifacts;
+  await writeJsonFile(mirrorConfigPath(workspacePath), config);
+  return { ok: true, artifact, sha256, targetPath };
+}
+
+/**
+ * Whether the workspace mirror is switched on: opt-in through `"enabled": true`
+ * in mirror-config.json or `RAPIDKIT_MIRROR_ENABLED=1`.
+ */
+export function isMirrorEnabled(config: { enabled?: boolean }): boolean {
+  return process.env.RAPIDKIT_MIRROR_ENABLED === '1' || config.enabled === true;
+}
+
+/** Mirror mode and artifact entries, or null when mirror-config.json is missing or invalid. */
+export async function loadMirrorArtifacts(workspacePath: string): Promise<{
+  enabled: boolean;
+  mode: MirrorMode | null;
+  artifacts: MirrorArtifact[];
+} | null> {
+  if (!(await fsExtra.pathExists(mirrorConfigPath(workspacePath)))) return null;
+  const loaded = await readMirrorConfigForEdit(workspacePath);
+  if (!loaded.ok) return null;
+  return {
+    enabled: isMirrorEnabled(loaded.config),
+    mode: loaded.config.mode ?? null,
+    artifacts: Array.isArray(loaded.config.artifacts) ? loaded.config.artifacts : [],
+  };
+}
+
+/** List configured artifacts with their state against mirror.lock and the mirrored file. */
+export async function listMirrorArtifacts(
+  workspacePath: string
+): Promise<{ ok: true; artifacts: MirrorArtifactListing[] } | { ok: false; error: string }> {
+  const loaded = await readMirrorConfigForEdit(workspacePath);
+  if (!loaded.ok) return loaded;
+  const artifacts = Array.isArray(loaded.config.artifacts) ? loaded.config.artifacts : [];
+
+  const lockById = new Map<string, { sha256: string; path: string }>();
+  try {
+    const lock = JSON.parse(
+      await fs.readFile(path.join(workspacePath, '.rapidkit', 'mirror.lock'), 'utf-8')
+    ) as { artifacts?: Array<{ id: string; sha256: string; path: string }> };
+    for (const entry of lock.artifacts ?? []) lockById.set(entry.id, entry);
+  } catch {
+    // No lock yet: every artifact is unlocked.
+  }
+
+  const listing: MirrorArtifactListing[] = [];
+  for (let index = 0; index < artifacts.length; index += 1) {
+    const artifact = artifacts[index];
+    const id = artifact.id || `artifact-${index + 1}`;
+    const target = getTargetRelativePath(artifact, id);
+    const locked = lockById.get(id);
+    const pinned = artifact.sha256?.toLowerCase() ?? null;
+
+    let status: MirrorArtifactLockStatus = 'unlocked';
+    if (locked) {
+      const filePath = path.join(workspacePath, locked.path);
+      if (!(await fsExtra.pathExists(filePath))) {
+        status = 'missing';
+      } else if (pinned && pinned !== locked.sha256.toLowerCase()) {
+        status = 'mismatch';
+      } else if ((await sha256File(filePath)) !== locked.sha256.toLowerCase()) {
+        status = 'modified';
+      } else {
+        status = 'locked';
+      }
+    }
+
+    listing.push({
+      id,
+      source: artifact.source ?? null,
+      url: artifact.url ?? null,
+      target,
+      required: artifact.required === true,
+      pinnedSha256: pinned,
+      lockedSha256: locked?.sha256 ?? null,
+      status,
+    });
+  }
+  return { ok: true, artifacts: listing };
+}
+
+/**
+ * Append artifacts to mirror-config.json, skipping ids that already exist so
+ * hand-tuned entries are never overwritten.
+ */
+export async function appendMirrorArtifacts(
+  workspacePath: string,
+  additions: MirrorArtifact[]
+): Promise<{ ok: true; added: string[]; existing: string[] } | { ok: false; error: string }> {
+  const loaded = await readMirrorConfigForEdit(workspacePath);
+  if (!loaded.ok) return loaded;
+  const config = loaded.config;
+  const artifacts = Array.isArray(config.artifacts) ? config.artifacts : [];
+  const ids = new Set(artifacts.map((artifact, index) => artifact.id || `artifact-${index + 1}`));
+
+  const added: string[] = [];
+  const existing: string[] = [];
+  for (const artifact of additions) {
+    const id = artifact.id as string;
+    if (ids.has(id)) {
+      existing.push(id);
+      continue;
+    }
+    ids.add(id);
+    artifacts.push(artifact);
+    added.push(id);
+  }
+
+  if (added.length > 0) {
+    config.artifacts = artifacts;
+    await writeJsonFile(mirrorConfigPath(workspacePath), config);
+  }
+  return { ok: true, added, existing };
+}
@@ -0,0 +1,55 @@
+/**
+ * Where kit and runtime plugins come from.
+ *
+ * Both are listed the same way: in an environment variable (path-delimited),
+ * under a key in `~/.rapidkitrc.json` and in `rapidkit.config.js`. Each entry
+ * is a local directory (`./kits/chi`, `~/kits/chi`, an absolute path) or the
+ * name of an npm package installed next to the project or in the home
+ * directory.
+ */
+
+import os from 'os';
+import path from 'path';
+import { createRequire } from 'module';
+import { loadRapidKitConfig, loadUserConfig } from '../config.js';
+
+export type PluginSourceKey = 'kits' | 'runtimes';
+
+function expandHome(value: string): string {
+  return value.replace(/^~(?=$|[\\/])/, os.homedir());
+}
+
+function isPathReference(value: string): boolean {
+  return /^(\.{1,2}|~)?[\\/]/.test(value) || path.isAbsolute(value) || /^\.{1,2}$/.test(value);
+}
+
+/** Directory of a plugin source: a path relative to `cwd`, or an installed package. */
+export async function resolvePluginDirectory(source: string, cwd: string): Promise<string> {
+  if (isPathReference(source)) return path.resolve(cwd, expandHome(source));
+  for (const base of [cwd, os.homedir()]) {
+    try {
+      const require = createRequire(path.join(base, 'package.json'));
+      return path.dirname(require.resolve(`${source}/package.json`));
+    } catch {
+      // Try the next base.
+    }
+  }
+  throw new Error(`package ${source} is not installed`);
+}
+
+/** Collect sources from `envVar`, then `key` in `~/.rapidkitrc.json` and `rapidkit.config.js`. */
+export async function readPluginSources(
+  key: PluginSourceKey,
+  envVar: string,
+  cwd: string = process.cwd()
+): Promise<string[]> {
+  const [userConfig, rapidkitConfig] = await Promise.all([
+    loadUserConfig(),
+    loadRapidKitConfig(cwd),
+  ]);
+  const fromEnv = (process.env[envVar] ?? '').split(path.delimiter).filter(Boolean);
+  const listed = [...(userConfig[key] ?? []), ...(rapidkitConfig[key] ?? [])].filter(
+    (entry): entry is string => typeof entry === 'string' && entry.trim().length > 0
+  );
+  return [...new Set([...fromEnv, ...listed])];
+}
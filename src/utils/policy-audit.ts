@@ -0,0 +1,186 @@
+import { createHash } from 'crypto';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { execa } from 'execa';
+import {
+  flattenWorkspacePolicy,
+  type LoadedWorkspacePolicy,
+  type WorkspacePolicy,
+} from './workspace-policy.js';
+
+/**
+ * Append-only history of workspace policy changes.
+ *
+ * Every `workspace policy set` appends one JSON line to
+ * `.rapidkit/reports/policy-audit.jsonl` so reviewers can answer "who turned
+ * strict mode off, and when" without relying on git history.
+ *
+ * Entries carry a hash of the resulting policy. `bootstrap` compares it with
+ * the policy on disk and appends a `policy_hash` entry when the file was
+ * edited by hand since; such entries name who ran `bootstrap`, not who made
+ * the edit, and do not say which values changed (use `workspace policy diff`).
+ */
+
+export type PolicyAuditValue = string | boolean | null;
+
+export interface PolicyAuditEntry {
+  timestamp: string;
+  actor: string;
+  command: string;
+  file: string;
+  key: string;
+  old_value: PolicyAuditValue;
+  new_value: PolicyAuditValue;
+  /** Hash of the policy after this entry (see `hashWorkspacePolicy`). */
+  policy_hash?: string;
+}
+
+/** Key of the entries recorded when the policy changed outside `workspace policy set`. */
+export const POLICY_HASH_AUDIT_KEY = 'policy_hash';
+
+export function getPolicyAuditLogPath(workspacePath: string): string {
+  return path.join(workspacePath, '.rapidkit', 'reports', 'policy-audit.jsonl');
+}
+
+async function readGitIdentity(cwd: string): Promise<string | null> {
+  try {
+    const [name, email] = await Promise.all(
+      ['user.name', 'user.email'].map(async (key) => {
+        const { stdout } = await execa('git', ['config', '--get', key], {
+          cwd,
+          timeout: 3000,
+          reject: false,
+        });
+        return stdout.trim();
+      })
+    );
+    if (name && email) return `${name} <${email}>`;
+    return email || name || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Identify who is changing the policy: `RAPIDKIT_ACTOR` (set by CI wrappers),
+ * then the git identity of the workspace, then the OS user.
+ */
+export async function resolvePolicyActor(workspacePath: string): Promise<string> {
+  const explicit = process.env.RAPIDKIT_ACTOR?.trim();
+  if (explicit) return explicit;
+
+  const gitIdentity = await readGitIdentity(workspacePath);
+  if (gitIdentity) return gitIdentity;
+
+  try {
+    return os.userInfo().username;
+  } catch {
+    return process.env.USER || process.env.USERNAME || 'unknown';
+  }
+}
+
+export async function appendPolicyAuditEntry(
+  workspacePath: string,
+  entry: PolicyAuditEntry
+): Promise<void> {
+  const logPath = getPolicyAuditLogPath(workspacePath);
+  await fs.mkdir(path.dirname(logPath), { recursive: true });
+  await fs.appendFile(logPath, `${JSON.stringify(entry)}\n`, 'utf-8');
+}
+
+/**
+ * Hash of the parsed policy values, so comments, formatting and key order
+ * in policies.yml do not count as changes.
+ */
+export function hashWorkspacePolicy(policy: WorkspacePolicy): string {
+  return createHash('sha256')
+    .update(JSON.stringify(flattenWorkspacePolicy(policy)))
+    .digest('hex');
+}
+
+/**
+ * Append a `policy_hash` entry when the workspace policy no longer matches
+ * the hash of the last entry that recorded one. The first policy file seen
+ * is recorded with `old_value: null`. Returns the appended entry, if any.
+ */
+export async function recordPolicyHashChange(
+  workspacePath: string,
+  loaded: LoadedWorkspacePolicy,
+  command: string
+): Promise<PolicyAuditEntry | null> {
+  const hashed = (await readPolicyAuditLog(workspacePath)).filter((entry) => entry.policy_hash);
+  const previous = hashed.length > 0 ? (hashed[hashed.length - 1].policy_hash as string) : null;
+  const current = hashWorkspacePolicy(loaded.policy);
+  if (current === previous || (previous === null && !loaded.exists)) return null;
+
+  const entry: PolicyAuditEntry = {
+    timestamp: new Date().toISOString(),
+    actor: await resolvePolicyActor(workspacePath),
+    command,
+    file: path.relative(workspacePath, loaded.filePath),
+    key: POLICY_HASH_AUDIT_KEY,
+    old_value: previous,
+    new_value: current,
+    policy_hash: current,
+  };
+  await appendPolicyAuditEntry(workspacePath, entry);
+  return entry;
+}
+
+/** Read the audit log oldest-first, skipping lines that are not valid entries. */
+export async function readPolicyAuditLog(workspacePath: string): Promise<PolicyAuditEntry[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(getPolicyAuditLogPath(workspacePath), 'utf-8');
+  } catch {
+    return [];
+  }
+
+  const entries: PolicyAuditEntry[] = [];
+  for (const line of raw.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const parsed = JSON.parse(line) as PolicyAuditEntry;
+      if (parsed && typeof parsed.key === 'string' && typeof parsed.timestamp === 'string') {
+        entries.push(parsed);
+      }
+    } catch {
+      // Ignore truncated or hand-edited lines.
+    }
+  }
+  return entries;
+}
+
+/**
+ * Read `.rapidkit/policies.yml` as it was at a git ref. `content` is null when
+ * the file did not exist at that ref.
+ */
+export async function readWorkspacePolicyAtRef(
+  workspacePath: string,
+  ref: string
+): Promise<{ ok: true; content: string | null } | { ok: false; error: string }> {
+  try {
+    const verify = await execa('git', ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`], {
+      cwd: workspacePath,
+      timeout: 10000,
+      reject: false,
+    });
+    if (verify.exitCode !== 0) {
+      return { ok: false, error: `Unknown git ref: ${ref}` };
+    }
+
+    const show = await execa('git', ['show', `${ref}:./.rapidkit/policies.yml`], {
+      cwd: workspacePath,
+      timeout: 10000,
+      reject: false,
+      stripFinalNewline: false,
+    });
+    if (show.exitCode !== 0) {
+      return { ok: true, content: null };
+    }
+    return { ok: true, content: show.stdout };
+  } catch (error) {
+    return { ok: false, error: `git is not available: ${(error as Error).message}` };
+  }
+}
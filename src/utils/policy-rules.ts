@@ -0,0 +1,322 @@
+import path from 'path';
+import { promises as fs } from 'fs';
+import { readRapidkitProjectJson } from './runtime-detection.js';
+import type { CustomPolicyRule, ToolchainRuntime } from './workspace-policy.js';
+
+export type PolicyRuleCheckStatus = 'passed' | 'failed' | 'skipped';
+
+export interface PolicyRuleCheck {
+  id: string;
+  status: PolicyRuleCheckStatus;
+  message: string;
+}
+
+interface SecretPattern {
+  name: string;
+  regex: RegExp;
+}
+
+const DEFAULT_SECRET_PATTERNS: SecretPattern[] = [
+  { name: 'aws-access-key', regex: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/ },
+  { name: 'private-key', regex: /-----BEGIN (?:[A-Z]+ )*PRIVATE KEY-----/ },
+  { name: 'github-token', regex: /\bgh[pousr]_[A-Za-z0-9]{36,}\b/ },
+  { name: 'slack-token', regex: /\bxox[abprs]-[A-Za-z0-9-]{10,}\b/ },
+  { name: 'stripe-live-key', regex: /\b[sr]k_live_[A-Za-z0-9]{16,}\b/ },
+];
+
+const SENSITIVE_ENV_KEY = /(SECRET|TOKEN|PASSWORD|PASSWD|API_KEY|PRIVATE_KEY|ACCESS_KEY)/i;
+const PLACEHOLDER_VALUE =
+  /(change|example|your|placeholder|dummy|sample|replace|todo|xxx|\*\*\*|<|\$\{|\$\()/i;
+
+function ruleCheckId(rule: CustomPolicyRule): string {
+  return `policy.custom.${rule.id}`;
+}
+
+function ruleLabel(rule: CustomPolicyRule): string {
+  return rule.description ? `${rule.id} (${rule.description})` : rule.id;
+}
+
+function relativeProject(workspacePath: string, projectPath: string): string {
+  return path.relative(workspacePath, projectPath) || '.';
+}
+
+async function pathExists(target: string): Promise<boolean> {
+  try {
+    await fs.access(target);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Compare dotted versions numerically (`v20.11.0`, `3.11`, `go1.22.1`).
+ * Missing components count as zero. Returns null when either side has no digits.
+ */
+export function compareToolchainVersions(left: string, right: string): number | null {
+  const parse = (value: string): number[] | null => {
+    const match = value.match(/\d+(?:\.\d+)*/);
+    return match ? match[0].split('.').map((part) => Number(part)) : null;
+  };
+  const a = parse(left);
+  const b = parse(right);
+  if (!a || !b) return null;
+  for (let i = 0; i < Math.max(a.length, b.length); i += 1) {
+    const diff = (a[i] ?? 0) - (b[i] ?? 0);
+    if (diff !== 0) return diff < 0 ? -1 : 1;
+  }
+  return 0;
+}
+
+function kitMatches(kitName: string, pattern: string): boolean {
+  const normalizedKit = kitName.toLowerCase();
+  const normalizedPattern = pattern.toLowerCase();
+  if (normalizedPattern.endsWith('*')) {
+    return normalizedKit.startsWith(normalizedPattern.slice(0, -1));
+  }
+  return normalizedKit === normalizedPattern;
+}
+
+/**
+ * Find secret-looking values in a file. Returns `line:pattern` findings and
+ * never echoes the matched value itself.
+ */
+export function findSecrets(content: string, extraPatterns: string[] = []): string[] {
+  const patterns: SecretPattern[] = [
+    ...DEFAULT_SECRET_PATTERNS,
+    ...extraPatterns.map((source, index) => ({
+      name: `pattern-${index + 1}`,
+      regex: new RegExp(source),
+    })),
+  ];
+  const findings: string[] = [];
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    const lineNumber = index + 1;
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) return;
+
+    for (const pattern of patterns) {
+      if (pattern.regex.test(line)) {
+        findings.push(`${lineNumber}:${pattern.name}`);
+        return;
+      }
+    }
+
+    const assignment = trimmed.match(/^(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*)$/);
+    if (!assignment || !SENSITIVE_ENV_KEY.test(assignment[1])) return;
+    const value = assignment[2]
+      .replace(/\s+#.*$/, '')
+      .trim()
+      .replace(/^(['"])(.*)\1$/, '$2');
+    const looksRandom = /[A-Za-z]/.test(value) && /\d/.test(value) && !/\s/.test(value);
+    if (value.length >= 16 && looksRandom && !PLACEHOLDER_VALUE.test(value)) {
+      findings.push(`${lineNumber}:${assignment[1]}`);
+    }
+  });
+
+  return findings;
+}
+
+async function readToolchainVersion(
+  workspacePath: string,
+  runtime: ToolchainRuntime
+): Promise<string | null | undefined> {
+  const lockPath = path.join(workspacePath, '.rapidkit', 'toolchain.lock');
+  let raw: string;
+  try {
+    raw = await fs.readFile(lockPath, 'utf-8');
+  } catch {
+    return undefined;
+  }
+  try {
+    const lock = JSON.parse(raw) as { runtime?: Record<string, { version?: string | null }> };
+    const version = lock.runtime?.[runtime]?.version;
+    return typeof version === 'string' && version.trim() ? version.trim() : null;
+  } catch {
+    return undefined;
+  }
+}
+
+async function evaluateFileExists(
+  workspacePath: string,
+  rule: CustomPolicyRule,
+  projectPaths: string[]
+): Promise<PolicyRuleCheck> {
+  const relPath = rule.path as string;
+  if (rule.scope === 'workspace') {
+    const exists = await pathExists(path.join(workspacePath, relPath));
+    return {
+      id: ruleCheckId(rule),
+      status: exists ? 'passed' : 'failed',
+      message: exists
+        ? `Custom rule ${ruleLabel(rule)} satisfied.`
+        : `Custom rule ${ruleLabel(rule)} failed: ${relPath} is missing from the workspace.`,
+    };
+  }
+
+  const missing: string[] = [];
+  for (const projectPath of projectPaths) {
+    if (!(await pathExists(path.join(projectPath, relPath)))) {
+      missing.push(relativeProject(workspacePath, projectPath));
+    }
+  }
+  return {
+    id: ruleCheckId(rule),
+    status: missing.length === 0 ? 'passed' : 'failed',
+    message:
+      missing.length === 0
+        ? `Custom rule ${ruleLabel(rule)} satisfied.`
+        : `Custom rule ${ruleLabel(rule)} failed: ${relPath} is missing in [${missing.join(', ')}].`,
+  };
+}
+
+function evaluateForbidKit(
+  workspacePath: string,
+  rule: CustomPolicyRule,
+  projectPaths: string[]
+): PolicyRuleCheck {
+  const offenders: string[] = [];
+  for (const projectPath of projectPaths) {
+    const projectJson = readRapidkitProjectJson(projectPath);
+    const kitName = (projectJson?.kit_name ?? projectJson?.kit) as string | undefined;
+    if (!kitName) continue;
+    if ((rule.kits ?? []).some((pattern) => kitMatches(kitName, pattern))) {
+      offenders.push(`${relativeProject(workspacePath, projectPath)} (${kitName})`);
+    }
+  }
+  return {
+    id: ruleCheckId(rule),
+    status: offenders.length === 0 ? 'passed' : 'failed',
+    message:
+      offenders.length === 0
+        ? `Custom rule ${ruleLabel(rule)} satisfied.`
+        : `Custom rule ${ruleLabel(rule)} failed: forbidden kit used by [${offenders.join(', ')}].`,
+  };
+}
+
+async function evaluateToolchainVersion(
+  workspacePath: string,
+  rule: CustomPolicyRule
+): Promise<PolicyRuleCheck> {
+  const runtime = rule.runtime as ToolchainRuntime;
+  const version = await readToolchainVersion(workspacePath, runtime);
+  const fail = (reason: string): PolicyRuleCheck => ({
+    id: ruleCheckId(rule),
+    status: 'failed',
+    message: `Custom rule ${ruleLabel(rule)} failed: ${reason}`,
+  });
+
+  if (version === undefined) {
+    return fail('.rapidkit/toolchain.lock is missing or unreadable.');
+  }
+  if (version === null) {
+    return fail(`${runtime} version is not recorded in .rapidkit/toolchain.lock.`);
+  }
+  if (rule.min) {
+    const cmp = compareToolchainVersions(version, rule.min);
+    if (cmp === null || cmp < 0) return fail(`${runtime} ${version} is older than ${rule.min}.`);
+  }
+  if (rule.max) {
+    const cmp = compareToolchainVersions(version, rule.max);
+    if (cmp === null || cmp > 0) return fail(`${runtime} ${version} is newer than ${rule.max}.`);
+  }
+  return {
+    id: ruleCheckId(rule),
+    status: 'passed',
+    message: `Custom rule ${ruleLabel(rule)} satisfied (${runtime} ${version}).`,
+  };
+}
+
+async function evaluateNoSecrets(
+  workspacePath: string,
+  rule: CustomPolicyRule,
+  projectPaths: string[]
+): Promise<PolicyRuleCheck> {
+  const relPath = rule.path as string;
+  const roots = rule.scope === 'workspace' ? [workspacePath] : projectPaths;
+  const findings: string[] = [];
+
+  for (const root of roots) {
+    let content: string;
+    try {
+      content = await fs.readFile(path.join(root, relPath), 'utf-8');
+    } catch {
+      continue;
+    }
+    const fileLabel = path.join(relativeProject(workspacePath, root), relPath);
+    for (const finding of findSecrets(content, rule.patterns)) {
+      findings.push(`${fileLabel}:${finding}`);
+    }
+  }
+
+  return {
+    id: ruleCheckId(rule),
+    status: findings.length === 0 ? 'passed' : 'failed',
+    message:
+      findings.length === 0
+        ? `Custom rule ${ruleLabel(rule)} satisfied.`
+        : `Custom rule ${ruleLabel(rule)} failed: possible secrets at [${findings.join(', ')}].`,
+  };
+}
+
+/**
+ * Evaluate workspace-defined `custom_rules` from policies.yml.
+ *
+ * Each rule yields exactly one `policy.custom.<id>` check; enforcement
+ * (warn vs strict) is left to the caller so custom rules behave like the
+ * built-in ones.
+ */
+export async function evaluateCustomPolicyRules(
+  workspacePath: string,
+  rules: CustomPolicyRule[],
+  projectPaths: string[]
+): Promise<PolicyRuleCheck[]> {
+  const checks: PolicyRuleCheck[] = [];
+
+  for (const rule of rules) {
+    if (rule.enabled === false) {
+      checks.push({
+        id: ruleCheckId(rule),
+        status: 'skipped',
+        message: `Custom rule ${ruleLabel(rule)} is disabled.`,
+      });
+      continue;
+    }
+
+    const projectScoped = rule.type !== 'toolchain_version' && rule.scope !== 'workspace';
+    if (projectScoped && projectPaths.length === 0) {
+      checks.push({
+        id: ruleCheckId(rule),
+        status: 'skipped',
+        message: `Custom rule ${ruleLabel(rule)} skipped: no projects discovered in workspace.`,
+      });
+      continue;
+    }
+
+    try {
+      switch (rule.type) {
+        case 'file_exists':
+          checks.push(await evaluateFileExists(workspacePath, rule, projectPaths));
+          break;
+        case 'forbid_kit':
+          checks.push(evaluateForbidKit(workspacePath, rule, projectPaths));
+          break;
+        case 'toolchain_version':
+          checks.push(await evaluateToolchainVersion(workspacePath, rule));
+          break;
+        case 'no_secrets':
+          checks.push(await evaluateNoSecrets(workspacePath, rule, projectPaths));
+          break;
+      }
+    } catch (error) {
+      checks.push({
+        id: ruleCheckId(rule),
+        status: 'failed',
+        message: `Custom rule ${ruleLabel(rule)} could not be evaluated: ${(error as Error).message}`,
+      });
+    }
+  }
+
+  return checks;
+}
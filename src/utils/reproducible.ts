@@ -0,0 +1,100 @@
+import crypto from 'crypto';
+import { SourceDateEpochError } from '../errors.js';
+
+/**
+ * Reproducible scaffolds.
+ *
+ * Kit generators stamp `created_at` into `.rapidkit/project.json` and some
+ * templates generate secrets, so two runs normally differ. Timestamps always
+ * honor `SOURCE_DATE_EPOCH` (https://reproducible-builds.org/specs/source-date-epoch/).
+ * `create project --reproducible` additionally pins `SOURCE_DATE_EPOCH` to 0
+ * when it is unset and derives secrets from a seed instead of the system
+ * RNG, which makes the rendered tree byte-for-byte deterministic for a given
+ * RapidKit version, kit and variables.
+ *
+ * The mode lives in environment variables so every generator, and any hook
+ * it spawns, sees the same settings.
+ */
+
+export const REPRODUCIBLE_ENV = 'RAPIDKIT_REPRODUCIBLE';
+export const REPRODUCIBLE_SEED_ENV = 'RAPIDKIT_SEED';
+export const DEFAULT_REPRODUCIBLE_SEED = 'rapidkit';
+
+const SECRET_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+export function isReproducible(env: NodeJS.ProcessEnv = process.env): boolean {
+  return env[REPRODUCIBLE_ENV] === '1';
+}
+
+/** Switch on reproducible mode for this process and its children. */
+export function enableReproducibleMode(
+  options: { seed?: string } = {},
+  env: NodeJS.ProcessEnv = process.env
+): void {
+  env[REPRODUCIBLE_ENV] = '1';
+  if (options.seed !== undefined) env[REPRODUCIBLE_SEED_ENV] = options.seed;
+  if (env.SOURCE_DATE_EPOCH === undefined || env.SOURCE_DATE_EPOCH === '') {
+    env.SOURCE_DATE_EPOCH = '0';
+  }
+  generationTime(env); // fail early on a malformed SOURCE_DATE_EPOCH
+}
+
+/** `SOURCE_DATE_EPOCH` when set, otherwise the current time. */
+export function generationTime(env: NodeJS.ProcessEnv = process.env): Date {
+  const raw = env.SOURCE_DATE_EPOCH;
+  if (raw === undefined || raw === '') return new Date();
+  if (!/^\d+$/.test(raw.trim())) throw new SourceDateEpochError(raw);
+  return new Date(Number(raw.trim()) * 1000);
+}
+
+/** ISO-8601 form of `generationTime()`, as stored in `created_at`. */
+export function generationTimestamp(env: NodeJS.ProcessEnv = process.env): string {
+  return generationTime(env).toISOString();
+}
+
+/** The reproducible-mode seed, or `null` when secrets come from the system RNG. */
+function reproducibleSeed(env: NodeJS.ProcessEnv): string | null {
+  return isReproducible(env) ? (env[REPRODUCIBLE_SEED_ENV] ?? DEFAULT_REPRODUCIBLE_SEED) : null;
+}
+
+/**
+ * Seed for a new project's secrets: the reproducible seed, else a random one.
+ * Kit baselines record it so `upgrade-kit` re-renders the same secrets.
+ */
+export function createSecretSeed(env: NodeJS.ProcessEnv = process.env): string {
+  return reproducibleSeed(env) ?? crypto.randomBytes(32).toString('hex');
+}
+
+/**
+ * Secret generator for one render. Normally backed by `crypto.randomBytes`;
+ * given a seed (explicitly, or from reproducible mode) each call takes the
+ * next block of an HMAC-SHA256 stream keyed by it, so the same render yields
+ * the same secrets. `scope` (e.g. the kit name) keeps different kits from
+ * sharing secrets.
+ */
+export function createSecretGenerator(
+  scope: string,
+  env: NodeJS.ProcessEnv = process.env,
+  seed: string | null = reproducibleSeed(env)
+): (length: number) => string {
+  let calls = 0;
+
+  const bytesFor = (length: number): Buffer => {
+    if (seed === null) return crypto.randomBytes(length);
+    const call = calls++;
+    const blocks: Buffer[] = [];
+    for (let block = 0; blocks.length * 32 < length; block++) {
+      blocks.push(crypto.createHmac('sha256', seed).update(`${scope}\0${call}\0${block}`).digest());
+    }
+    return Buffer.concat(blocks).subarray(0, length);
+  };
+
+  return (length) => {
+    const bytes = bytesFor(length);
+    let result = '';
+    for (let i = 0; i < length; i++) {
+      result += SECRET_ALPHABET[bytes[i] % SECRET_ALPHABET.length];
+    }
+    return result;
+  };
+}
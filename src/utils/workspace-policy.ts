@@ -0,0 +1,807 @@
+// src/utils/workspace-policy.ts
+import fs from 'fs';
+import path from 'path';
+import Ajv, { type ErrorObject } from 'ajv';
+import { LineCounter, isMap, isScalar, isSeq, parseDocument, type Document, type Node } from 'yaml';
+import { WorkspacePolicyError } from '../errors.js';
+
+/**
+ * Shared reader/validator for `.rapidkit/policies.yml`.
+ *
+ * The file is parsed as real YAML (nested maps, quoting, anchors and merge
+ * keys) and validated against WORKSPACE_POLICY_SCHEMA, which is published as
+ * `docs/contracts/rapidkit-workspace-policy.schema.json`. Every consumer
+ * (bootstrap, init, lifecycle preflight, `workspace policy`, runtime adapters)
+ * goes through this module so hand-edited files are never interpreted
+ * differently in different places.
+ */
+
+export const DEPENDENCY_SHARING_MODES = [
+  'isolated',
+  'shared-runtime-caches',
+  'shared-node-deps',
+] as const;
+
+export const POLICY_MODES = ['warn', 'strict'] as const;
+
+export type DependencySharingMode = (typeof DEPENDENCY_SHARING_MODES)[number];
+export type PolicyMode = (typeof POLICY_MODES)[number];
+export type WorkspacePolicyRuleKey =
+  | 'enforce_workspace_marker'
+  | 'enforce_toolchain_lock'
+  | 'disallow_untrusted_tool_sources'
+  | 'enforce_compatibility_matrix'
+  | 'require_mirror_lock_for_offline';
+
+export const WORKSPACE_POLICY_RULE_DEFAULTS: Record<WorkspacePolicyRuleKey, boolean> = {
+  enforce_workspace_marker: true,
+  enforce_toolchain_lock: false,
+  disallow_untrusted_tool_sources: false,
+  enforce_compatibility_matrix: false,
+  require_mirror_lock_for_offline: true,
+};
+
+export const WORKSPACE_POLICY_RULE_KEYS = Object.keys(
+  WORKSPACE_POLICY_RULE_DEFAULTS
+) as WorkspacePolicyRuleKey[];
+
+export const CUSTOM_POLICY_RULE_TYPES = [
+  'file_exists',
+  'forbid_kit',
+  'toolchain_version',
+  'no_secrets',
+] as const;
+export const TOOLCHAIN_RUNTIMES = ['python', 'node', 'go'] as const;
+
+export type CustomPolicyRuleType = (typeof CUSTOM_POLICY_RULE_TYPES)[number];
+export type ToolchainRuntime = (typeof TOOLCHAIN_RUNTIMES)[number];
+
+/**
+ * A workspace-defined rule evaluated by `bootstrap` next to the built-in
+ * rules. Which fields apply depends on `type`:
+ *
+ * - `file_exists`: every project (or the workspace, with `scope: workspace`) has `path`.
+ * - `forbid_kit`: no project was generated from one of `kits` (`*` suffix matches a prefix).
+ * - `toolchain_version`: `runtime` in toolchain.lock satisfies `min` / `max`.
+ * - `no_secrets`: `path` in each project contains no secret-looking values.
+ */
+export interface CustomPolicyRule {
+  id: string;
+  type: CustomPolicyRuleType;
+  description?: string;
+  enabled?: boolean;
+  scope?: 'project' | 'workspace';
+  path?: string;
+  kits?: string[];
+  runtime?: ToolchainRuntime;
+  min?: string;
+  max?: string;
+  patterns?: string[];
+}
+
+/** Keys a workspace may list in `overrides.allow_loosen`; `*` allows every key. */
+export const POLICY_OVERRIDE_KEYS = [
+  '*',
+  'mode',
+  'dependency_sharing_mode',
+  'custom_rules',
+  ...WORKSPACE_POLICY_RULE_KEYS.map((key) => `rules.${key}`),
+];
+
+const requireFieldsFor = (type: CustomPolicyRuleType, required: string[]) => ({
+  if: { properties: { type: { const: type } }, required: ['type'] },
+  then: { required },
+});
+
+export const WORKSPACE_POLICY_SCHEMA = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: 'https://getrapidkit.com/schemas/rapidkit-workspace-policy.schema.json',
+  title: 'RapidKit Workspace Policy (.rapidkit/policies.yml)',
+  type: 'object',
+  properties: {
+    version: {
+      type: ['string', 'number'],
+      description: 'Policy file format version.',
+    },
+    mode: {
+      enum: [...POLICY_MODES],
+      description: 'Enforcement mode. "strict" blocks on failed checks, "warn" reports them.',
+    },
+    enforcement_mode: {
+      enum: [...POLICY_MODES],
+      description: 'Legacy alias for "mode". Ignored when "mode" is set.',
+    },
+    dependency_sharing_mode: {
+      enum: [...DEPENDENCY_SHARING_MODES],
+      description: 'How runtime dependency caches are shared across workspace projects.',
+    },
+    rules: {
+      type: 'object',
+      properties: Object.fromEntries(
+        WORKSPACE_POLICY_RULE_KEYS.map((key) => [key, { type: 'boolean' }])
+      ),
+      additionalProperties: false,
+    },
+    overrides: {
+      type: 'object',
+      description:
+        'Workspace-only. Keys that project policies may loosen (by default they can only tighten).',
+      properties: {
+        allow_loosen: {
+          type: 'array',
+          items: { enum: [...POLICY_OVERRIDE_KEYS] },
+        },
+      },
+      additionalProperties: false,
+    },
+    custom_rules: {
+      type: 'array',
+      description: 'Workspace-defined compliance rules evaluated by bootstrap.',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', pattern: '^[a-z0-9][a-z0-9_.-]*$' },
+          type: { enum: [...CUSTOM_POLICY_RULE_TYPES] },
+          description: { type: 'string' },
+          enabled: { type: 'boolean' },
+          scope: { enum: ['project', 'workspace'] },
+          path: { type: 'string', minLength: 1 },
+          kits: { type: 'array', items: { type: 'string' }, minItems: 1 },
+          runtime: { enum: [...TOOLCHAIN_RUNTIMES] },
+          // Strings only: unquoted YAML `3.10` would silently become 3.1.
+          min: { type: 'string' },
+          max: { type: 'string' },
+          patterns: { type: 'array', items: { type: 'string' } },
+        },
+        required: ['id', 'type'],
+        additionalProperties: false,
+        allOf: [
+          requireFieldsFor('file_exists', ['path']),
+          requireFieldsFor('forbid_kit', ['kits']),
+          requireFieldsFor('toolchain_version', ['runtime']),
+          requireFieldsFor('no_secrets', ['path']),
+        ],
+      },
+    },
+  },
+  additionalProperties: false,
+} as const;
+
+export interface WorkspacePolicy {
+  mode: PolicyMode;
+  dependency_sharing_mode: DependencySharingMode;
+  rules: Record<WorkspacePolicyRuleKey, boolean>;
+  custom_rules: CustomPolicyRule[];
+  /** Keys project policies may loosen. Only read from the workspace policy. */
+  allow_loosen: string[];
+}
+
+export interface PolicyIssue {
+  /** Dotted path of the offending value (`rules.enforce_toolchain_lock`), or `$` for the file. */
+  path: string;
+  message: string;
+  line: number;
+  column: number;
+}
+
+export interface ParsedWorkspacePolicy {
+  policy: WorkspacePolicy;
+  issues: PolicyIssue[];
+  /** Plain JS view of the document (aliases and merge keys resolved). */
+  data: Record<string, unknown>;
+  /** 1-based positions of policy values, keyed by dotted path. */
+  locations: Record<string, { line: number; column: number }>;
+}
+
+export interface LoadedWorkspacePolicy extends ParsedWorkspacePolicy {
+  filePath: string;
+  exists: boolean;
+}
+
+export function defaultWorkspacePolicy(): WorkspacePolicy {
+  return {
+    mode: 'warn',
+    dependency_sharing_mode: 'isolated',
+    rules: { ...WORKSPACE_POLICY_RULE_DEFAULTS },
+    custom_rules: [],
+    allow_loosen: [],
+  };
+}
+
+export function defaultWorkspacePolicyYaml(): string {
+  return [
+    'version: "1.0"',
+    'mode: warn # "warn" or "strict"',
+    'dependency_sharing_mode: isolated # "isolated" or "shared-runtime-caches" or "shared-node-deps"',
+    '# change profile (recommended): npx rapidkit bootstrap --profile polyglot',
+    '# change mode/dependency manually: edit this file and rerun npx rapidkit init',
+    'rules:',
+    '  enforce_workspace_marker: true',
+    '  enforce_toolchain_lock: false',
+    '  disallow_untrusted_tool_sources: false',
+    '  enforce_compatibility_matrix: false',
+    '  require_mirror_lock_for_offline: true',
+    '',
+  ].join('\n');
+}
+
+export function getWorkspacePolicyPath(workspacePath: string): string {
+  return path.join(workspacePath, '.rapidkit', 'policies.yml');
+}
+
+let compiledValidator: ReturnType<Ajv['compile']> | null = null;
+
+function getSchemaValidator(): ReturnType<Ajv['compile']> {
+  if (!compiledValidator) {
+    const ajv = new Ajv({ allErrors: true, strict: false, verbose: true });
+    compiledValidator = ajv.compile(WORKSPACE_POLICY_SCHEMA);
+  }
+  return compiledValidator;
+}
+
+function parseYamlDocument(content: string): { doc: Document; lineCounter: LineCounter } {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(content, { lineCounter, merge: true, prettyErrors: false });
+  return { doc, lineCounter };
+}
+
+function pointerToSegments(pointer: string): string[] {
+  if (!pointer) return [];
+  return pointer
+    .split('/')
+    .slice(1)
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function toYamlPath(segments: string[]): Array<string | number> {
+  return segments.map((segment) => (/^\d+$/.test(segment) ? Number(segment) : segment));
+}
+
+function locateNode(doc: Document, segments: string[], keyOnly = false): Node | null {
+  if (segments.length === 0) return (doc.contents as Node | null) ?? null;
+  const parent =
+    segments.length === 1 ? doc.contents : doc.getIn(toYamlPath(segments.slice(0, -1)), true);
+  const last = segments[segments.length - 1];
+  if (isSeq(parent)) {
+    return (parent.items[Number(last)] as Node | undefined) ?? null;
+  }
+  if (!isMap(parent)) return null;
+  const pair = parent.items.find((item) => isScalar(item.key) && String(item.key.value) === last);
+  if (!pair) return null;
+  if (keyOnly || !pair.value) return pair.key as Node;
+  return pair.value as Node;
+}
+
+function describeSchemaError(error: ErrorObject, dottedPath: string): string {
+  const label = dottedPath === '$' ? 'policy' : dottedPath;
+  if (error.keyword === 'enum') {
+    const allowed = (error.params as { allowedValues: unknown[] }).allowedValues;
+    return `Invalid ${label}: ${String(error.data)}. Use one of: ${allowed.join(', ')}.`;
+  }
+  if (error.keyword === 'type') {
+    return `${label} must be ${(error.params as { type: string | string[] }).type}`;
+  }
+  if (error.keyword === 'additionalProperties') {
+    return `Unknown policy key: ${dottedPath}`;
+  }
+  if (error.keyword === 'required') {
+    const missing = (error.params as { missingProperty: string }).missingProperty;
+    return `${label} is missing required key: ${missing}`;
+  }
+  return `${label} ${error.message ?? 'is invalid'}`;
+}
+
+const CASE_INSENSITIVE_KEYS = ['mode', 'enforcement_mode', 'dependency_sharing_mode'];
+
+/**
+ * Parse and validate policy YAML content.
+ *
+ * Invalid or missing values fall back to their defaults in `policy`, while
+ * every syntax and schema problem is reported in `issues` with a 1-based
+ * line/column so callers can surface actionable errors.
+ */
+export function parseWorkspacePolicy(content: string | null | undefined): ParsedWorkspacePolicy {
+  const policy = defaultWorkspacePolicy();
+  if (!content || !content.trim()) {
+    return { policy, issues: [], data: {}, locations: {} };
+  }
+
+  const { doc, lineCounter } = parseYamlDocument(content);
+  const issues: PolicyIssue[] = [];
+
+  for (const error of doc.errors) {
+    const pos = lineCounter.linePos(error.pos[0]);
+    issues.push({
+      path: '$',
+      message: `YAML syntax error: ${error.message.split('\n')[0]}`,
+      line: pos.line,
+      column: pos.col,
+    });
+  }
+  if (issues.length > 0) {
+    return { policy, issues, data: {}, locations: {} };
+  }
+
+  const data = doc.toJS({ maxAliasCount: 100 }) as unknown;
+  if (data && typeof data === 'object' && !Array.isArray(data)) {
+    // Mode values have always been case-insensitive (`mode: Strict`).
+    const record = data as Record<string, unknown>;
+    for (const key of CASE_INSENSITIVE_KEYS) {
+      const value = record[key];
+      if (typeof value === 'string') record[key] = value.trim().toLowerCase();
+    }
+  }
+  const validate = getSchemaValidator();
+  if (!validate(data ?? {})) {
+    for (const error of validate.errors ?? []) {
+      // `if`/`then` failures are always accompanied by the concrete `required` error.
+      if (error.keyword === 'if') continue;
+      const segments = pointerToSegments(error.instancePath);
+      let keyOnly = false;
+      if (error.keyword === 'additionalProperties') {
+        segments.push((error.params as { additionalProperty: string }).additionalProperty);
+        keyOnly = true;
+      }
+      const node = locateNode(doc, segments, keyOnly);
+      const pos = node?.range ? lineCounter.linePos(node.range[0]) : { line: 1, col: 1 };
+      const dottedPath = segments.length > 0 ? segments.join('.') : '$';
+      issues.push({
+        path: dottedPath,
+        message: describeSchemaError(error, dottedPath),
+        line: pos.line,
+        column: pos.col,
+      });
+    }
+  }
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { policy, issues, data: {}, locations: {} };
+  }
+
+  const record = data as Record<string, unknown>;
+  const invalidPaths = new Set(issues.map((issue) => issue.path));
+  const pick = <T extends string>(key: string, allowed: readonly T[]): T | undefined => {
+    const value = record[key];
+    if (invalidPaths.has(key) || typeof value !== 'string') return undefined;
+    return (allowed as readonly string[]).includes(value) ? (value as T) : undefined;
+  };
+
+  policy.mode = pick('mode', POLICY_MODES) ?? pick('enforcement_mode', POLICY_MODES) ?? 'warn';
+  policy.dependency_sharing_mode =
+    pick('dependency_sharing_mode', DEPENDENCY_SHARING_MODES) ?? 'isolated';
+
+  const rules = record.rules;
+  if (rules && typeof rules === 'object' && !Array.isArray(rules)) {
+    for (const key of WORKSPACE_POLICY_RULE_KEYS) {
+      const value = (rules as Record<string, unknown>)[key];
+      if (typeof value === 'boolean') policy.rules[key] = value;
+    }
+  }
+
+  const customRules = record.custom_rules;
+  if (Array.isArray(customRules)) {
+    customRules.forEach((rule, index) => {
+      const prefix = `custom_rules.${index}`;
+      const invalid = [...invalidPaths].some(
+        (issuePath) => issuePath === prefix || issuePath.startsWith(`${prefix}.`)
+      );
+      if (!invalid) policy.custom_rules.push(rule as CustomPolicyRule);
+    });
+  }
+
+  const overrides = record.overrides as { allow_loosen?: unknown } | undefined;
+  if (!invalidPaths.has('overrides') && Array.isArray(overrides?.allow_loosen)) {
+    policy.allow_loosen = overrides.allow_loosen.filter(
+      (key): key is string => typeof key === 'string' && POLICY_OVERRIDE_KEYS.includes(key)
+    );
+  }
+
+  return { policy, issues, data: record, locations: collectLocations(doc, lineCounter, record) };
+}
+
+function collectLocations(
+  doc: Document,
+  lineCounter: LineCounter,
+  record: Record<string, unknown>
+): Record<string, { line: number; column: number }> {
+  const candidates = ['mode', 'enforcement_mode', 'dependency_sharing_mode', 'overrides'];
+  for (const key of WORKSPACE_POLICY_RULE_KEYS) candidates.push(`rules.${key}`);
+  if (Array.isArray(record.custom_rules)) {
+    record.custom_rules.forEach((_rule, index) => candidates.push(`custom_rules.${index}`));
+  }
+
+  const locations: Record<string, { line: number; column: number }> = {};
+  for (const candidate of candidates) {
+    const node = locateNode(doc, candidate.split('.'));
+    if (!node?.range) continue;
+    const pos = lineCounter.linePos(node.range[0]);
+    locations[candidate] = { line: pos.line, column: pos.col };
+  }
+  return locations;
+}
+
+/**
+ * Split issues into those that invalidate one of `usedPaths` (or the whole
+ * file) and those a command can report as warnings, such as an unknown key
+ * or a malformed custom rule it never evaluates. An issue blocks when it sits
+ * on a used path, above one or inside one (`custom_rules` covers every rule).
+ */
+export function partitionPolicyIssues(
+  issues: PolicyIssue[],
+  usedPaths: string[]
+): { blocking: PolicyIssue[]; warnings: PolicyIssue[] } {
+  const blocking: PolicyIssue[] = [];
+  const warnings: PolicyIssue[] = [];
+  for (const issue of issues) {
+    const blocks =
+      issue.path === '$' ||
+      usedPaths.some(
+        (used) =>
+          used === issue.path ||
+          used.startsWith(`${issue.path}.`) ||
+          issue.path.startsWith(`${used}.`)
+      );
+    (blocks ? blocking : warnings).push(issue);
+  }
+  return { blocking, warnings };
+}
+
+export function formatPolicyIssue(issue: PolicyIssue, filePath?: string): string {
+  const location = `${filePath ?? 'policies.yml'}:${issue.line}:${issue.column}`;
+  return `${location} ${issue.message}`;
+}
+
+export async function loadWorkspacePolicy(workspacePath: string): Promise<LoadedWorkspacePolicy> {
+  const filePath = getWorkspacePolicyPath(workspacePath);
+  let content: string;
+  try {
+    content = await fs.promises.readFile(filePath, 'utf-8');
+  } catch {
+    return { ...parseWorkspacePolicy(null), filePath, exists: false };
+  }
+  return { ...parseWorkspacePolicy(content), filePath, exists: true };
+}
+
+export function loadWorkspacePolicySync(workspacePath: string): LoadedWorkspacePolicy {
+  const filePath = getWorkspacePolicyPath(workspacePath);
+  let content: string;
+  try {
+    if (!fs.existsSync(filePath)) {
+      return { ...parseWorkspacePolicy(null), filePath, exists: false };
+    }
+    content = fs.readFileSync(filePath, 'utf-8');
+  } catch {
+    return { ...parseWorkspacePolicy(null), filePath, exists: false };
+  }
+  return { ...parseWorkspacePolicy(content), filePath, exists: true };
+}
+
+export function findPolicyWorkspaceRoot(startPath: string): string | null {
+  let current = startPath;
+  while (true) {
+    if (fs.existsSync(path.join(current, '.rapidkit-workspace'))) return current;
+    const parent = path.dirname(current);
+    if (parent === current) break;
+    current = parent;
+  }
+  return null;
+}
+
+export function isDependencySharingMode(value: unknown): value is DependencySharingMode {
+  return (
+    typeof value === 'string' && (DEPENDENCY_SHARING_MODES as readonly string[]).includes(value)
+  );
+}
+
+export type PolicyValueOrigin = 'default' | 'workspace' | 'project';
+
+export interface EffectiveWorkspacePolicy {
+  policy: WorkspacePolicy;
+  /** Where each effective value came from, keyed by dotted path (`rules.<key>`, `custom_rules.<id>`). */
+  origins: Record<string, PolicyValueOrigin>;
+  workspace: LoadedWorkspacePolicy;
+  project: LoadedWorkspacePolicy | null;
+  projectPath: string | null;
+  /** Project overrides that were ignored because they would loosen the workspace policy. */
+  rejected: PolicyIssue[];
+}
+
+const MODE_STRICTNESS: Record<PolicyMode, number> = { warn: 0, strict: 1 };
+const DEPENDENCY_MODE_STRICTNESS: Record<DependencySharingMode, number> = {
+  'shared-runtime-caches': 0,
+  'shared-node-deps': 1,
+  isolated: 2,
+};
+
+function hasValidValue(parsed: ParsedWorkspacePolicy, dottedPath: string): boolean {
+  const segments = dottedPath.split('.');
+  let cursor: unknown = parsed.data;
+  for (const segment of segments) {
+    if (!cursor || typeof cursor !== 'object') return false;
+    cursor = (cursor as Record<string, unknown>)[segment];
+  }
+  if (cursor === undefined) return false;
+  return !parsed.issues.some(
+    (issue) => issue.path === dottedPath || dottedPath.startsWith(`${issue.path}.`)
+  );
+}
+
+function hasExplicitMode(parsed: ParsedWorkspacePolicy): boolean {
+  return hasValidValue(parsed, 'mode') || hasValidValue(parsed, 'enforcement_mode');
+}
+
+/**
+ * Find the project directory (one holding `.rapidkit/project.json` or
+ * `.rapidkit/context.json`) that contains `startPath`, stopping at the
+ * workspace root.
+ */
+export function findPolicyProjectRoot(startPath: string, workspacePath: string): string | null {
+  let current = path.resolve(startPath);
+  const root = path.resolve(workspacePath);
+  while (current !== root && current.startsWith(`${root}${path.sep}`)) {
+    const rapidkitDir = path.join(current, '.rapidkit');
+    if (
+      fs.existsSync(path.join(rapidkitDir, 'project.json')) ||
+      fs.existsSync(path.join(rapidkitDir, 'context.json'))
+    ) {
+      return current;
+    }
+    current = path.dirname(current);
+  }
+  return null;
+}
+
+/**
+ * Layer a project policy over the workspace policy.
+ *
+ * Projects may only tighten: `strict` over `warn`, a more isolated
+ * dependency mode, `true` for rules, and additional custom rules. Anything
+ * that would loosen the workspace value is ignored and reported in
+ * `rejected`, unless the workspace lists the key in `overrides.allow_loosen`.
+ */
+export function mergeProjectPolicy(
+  workspace: LoadedWorkspacePolicy,
+  project: LoadedWorkspacePolicy | null,
+  projectPath: string | null = null
+): EffectiveWorkspacePolicy {
+  const base = workspace.policy;
+  const policy: WorkspacePolicy = {
+    mode: base.mode,
+    dependency_sharing_mode: base.dependency_sharing_mode,
+    rules: { ...base.rules },
+    custom_rules: [...base.custom_rules],
+    allow_loosen: [...base.allow_loosen],
+  };
+  const origins: Record<string, PolicyValueOrigin> = {
+    mode: hasExplicitMode(workspace) ? 'workspace' : 'default',
+    dependency_sharing_mode: hasValidValue(workspace, 'dependency_sharing_mode')
+      ? 'workspace'
+      : 'default',
+  };
+  for (const key of WORKSPACE_POLICY_RULE_KEYS) {
+    origins[`rules.${key}`] = hasValidValue(workspace, `rules.${key}`) ? 'workspace' : 'default';
+  }
+  for (const rule of base.custom_rules) {
+    origins[`custom_rules.${rule.id}`] = 'workspace';
+  }
+
+  const effective: EffectiveWorkspacePolicy = {
+    policy,
+    origins,
+    workspace,
+    project,
+    projectPath,
+    rejected: [],
+  };
+  if (!project?.exists) return effective;
+
+  const mayLoosen = (key: string) =>
+    base.allow_loosen.includes('*') || base.allow_loosen.includes(key);
+  const reject = (key: string, message: string) => {
+    const location = project.locations[key] ?? { line: 1, column: 1 };
+    effective.rejected.push({ path: key, message, ...location });
+  };
+  const looseningMessage = (key: string, from: string, to: string) =>
+    `Project policy cannot loosen ${key} (workspace: ${from}, project: ${to}); ` +
+    `add "${key}" to overrides.allow_loosen in the workspace policy to permit this.`;
+
+  const overrides = project.policy;
+
+  if (hasExplicitMode(project) && overrides.mode !== base.mode) {
+    const modeKey = hasValidValue(project, 'mode') ? 'mode' : 'enforcement_mode';
+    if (MODE_STRICTNESS[overrides.mode] > MODE_STRICTNESS[base.mode] || mayLoosen('mode')) {
+      policy.mode = overrides.mode;
+      origins.mode = 'project';
+    } else {
+      reject(modeKey, looseningMessage('mode', base.mode, overrides.mode));
+    }
+  }
+
+  if (
+    hasValidValue(project, 'dependency_sharing_mode') &&
+    overrides.dependency_sharing_mode !== base.dependency_sharing_mode
+  ) {
+    const tighter =
+      DEPENDENCY_MODE_STRICTNESS[overrides.dependency_sharing_mode] >
+      DEPENDENCY_MODE_STRICTNESS[base.dependency_sharing_mode];
+    if (tighter || mayLoosen('dependency_sharing_mode')) {
+      policy.dependency_sharing_mode = overrides.dependency_sharing_mode;
+      origins.dependency_sharing_mode = 'project';
+    } else {
+      reject(
+        'dependency_sharing_mode',
+        looseningMessage(
+          'dependency_sharing_mode',
+          base.dependency_sharing_mode,
+          overrides.dependency_sharing_mode
+        )
+      );
+    }
+  }
+
+  for (const key of WORKSPACE_POLICY_RULE_KEYS) {
+    const rulePath = `rules.${key}`;
+    if (!hasValidValue(project, rulePath) || overrides.rules[key] === base.rules[key]) continue;
+    if (overrides.rules[key] || mayLoosen(rulePath)) {
+      policy.rules[key] = overrides.rules[key];
+      origins[rulePath] = 'project';
+    } else {
+      reject(rulePath, looseningMessage(rulePath, 'true', 'false'));
+    }
+  }
+
+  const projectRuleNodes = Array.isArray(project.data.custom_rules)
+    ? (project.data.custom_rules as unknown[])
+    : [];
+  for (const rule of overrides.custom_rules) {
+    const existingIndex = policy.custom_rules.findIndex((existing) => existing.id === rule.id);
+    if (existingIndex === -1 || mayLoosen('custom_rules')) {
+      if (existingIndex === -1) policy.custom_rules.push(rule);
+      else policy.custom_rules[existingIndex] = rule;
+      origins[`custom_rules.${rule.id}`] = 'project';
+      continue;
+    }
+    reject(
+      `custom_rules.${projectRuleNodes.indexOf(rule)}`,
+      `Project policy cannot replace workspace custom rule "${rule.id}"; ` +
+        'add "custom_rules" to overrides.allow_loosen in the workspace policy to permit this.'
+    );
+  }
+
+  if (hasValidValue(project, 'overrides')) {
+    reject('overrides', 'overrides is only honored in the workspace policy.');
+  }
+
+  return effective;
+}
+
+/**
+ * Load the workspace policy and, when `startPath` is inside a project, layer
+ * the project's own `.rapidkit/policies.yml` on top of it.
+ */
+export async function loadEffectiveWorkspacePolicy(
+  workspacePath: string,
+  startPath?: string
+): Promise<EffectiveWorkspacePolicy> {
+  const workspace = await loadWorkspacePolicy(workspacePath);
+  const projectPath = startPath ? findPolicyProjectRoot(startPath, workspacePath) : null;
+  const project = projectPath ? await loadWorkspacePolicy(projectPath) : null;
+  return mergeProjectPolicy(workspace, project, projectPath);
+}
+
+export function loadEffectiveWorkspacePolicySync(
+  workspacePath: string,
+  startPath?: string
+): EffectiveWorkspacePolicy {
+  const workspace = loadWorkspacePolicySync(workspacePath);
+  const projectPath = startPath ? findPolicyProjectRoot(startPath, workspacePath) : null;
+  const project = projectPath ? loadWorkspacePolicySync(projectPath) : null;
+  return mergeProjectPolicy(workspace, project, projectPath);
+}
+
+/**
+ * Resolve the dependency sharing mode for a project path.
+ *
+ * `RAPIDKIT_DEP_SHARING_MODE` (exported by the lifecycle policy context) wins;
+ * otherwise the effective workspace + project policy is read. Unreadable or
+ * invalid policies resolve to `isolated`.
+ */
+export function resolveDependencySharingMode(projectPath: string): DependencySharingMode {
+  const fromEnv = process.env.RAPIDKIT_DEP_SHARING_MODE?.toLowerCase();
+  if (isDependencySharingMode(fromEnv)) return fromEnv;
+
+  const workspace = findPolicyWorkspaceRoot(projectPath);
+  if (!workspace) return 'isolated';
+
+  return loadEffectiveWorkspacePolicySync(workspace, projectPath).policy.dependency_sharing_mode;
+}
+
+export type PolicyScalarValue = string | boolean;
+
+export interface PolicyDiffEntry {
+  key: string;
+  change: 'added' | 'removed' | 'changed';
+  from: PolicyScalarValue | null;
+  to: PolicyScalarValue | null;
+}
+
+/**
+ * Flatten a policy into dotted keys for diffing and auditing. Custom rules are
+ * keyed by id and compared by their serialized definition.
+ */
+export function flattenWorkspacePolicy(policy: WorkspacePolicy): Record<string, PolicyScalarValue> {
+  const flat: Record<string, PolicyScalarValue> = {
+    mode: policy.mode,
+    dependency_sharing_mode: policy.dependency_sharing_mode,
+  };
+  for (const key of WORKSPACE_POLICY_RULE_KEYS) {
+    flat[`rules.${key}`] = policy.rules[key];
+  }
+  for (const rule of policy.custom_rules) {
+    const { id, ...definition } = rule;
+    flat[`custom_rules.${id}`] = JSON.stringify(definition);
+  }
+  if (policy.allow_loosen.length > 0) {
+    flat['overrides.allow_loosen'] = [...policy.allow_loosen].sort().join(', ');
+  }
+  return flat;
+}
+
+export function diffWorkspacePolicies(
+  base: WorkspacePolicy,
+  current: WorkspacePolicy
+): PolicyDiffEntry[] {
+  const before = flattenWorkspacePolicy(base);
+  const after = flattenWorkspacePolicy(current);
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+
+  const entries: PolicyDiffEntry[] = [];
+  for (const key of keys) {
+    const from = key in before ? before[key] : null;
+    const to = key in after ? after[key] : null;
+    if (from === to) continue;
+    entries.push({
+      key,
+      change: from === null ? 'added' : to === null ? 'removed' : 'changed',
+      from,
+      to,
+    });
+  }
+  return entries;
+}
+
+/**
+ * Set a value in policy YAML while preserving comments, quoting and layout.
+ *
+ * `key` is a dotted path (`mode`, `rules.enforce_toolchain_lock`). Existing
+ * scalars are updated in place so trailing comments survive; missing keys are
+ * appended to their parent map.
+ */
+export function setWorkspacePolicyValue(
+  content: string,
+  key: string,
+  value: string | boolean
+): string {
+  const { doc } = parseYamlDocument(content);
+  if (doc.errors.length > 0) {
+    const { issues } = parseWorkspacePolicy(content);
+    throw new WorkspacePolicyError(
+      'policies.yml contains YAML syntax errors',
+      issues.map((issue) => formatPolicyIssue(issue))
+    );
+  }
+
+  const segments = key.split('.').filter(Boolean);
+  const existing = doc.getIn(segments, true);
+  if (isScalar(existing)) {
+    existing.value = value;
+  } else {
+    if (doc.contents && !isMap(doc.contents)) {
+      throw new WorkspacePolicyError('policies.yml must contain a YAML mapping at the top level');
+    }
+    doc.setIn(segments, value);
+  }
+
+  const next = doc.toString();
+  return next.endsWith('\n') ? next : `${next}\n`;
+}
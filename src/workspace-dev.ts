@@ -0,0 +1,502 @@
+/**
+ * Workspace dev orchestration.
+ *
+ * `rapidkit dev --all` starts the dev server of several projects at once:
+ * each gets its own port, runs as a `rapidkit dev` process inside its project
+ * directory (one process per project, for the same reason as `rapidkit run`),
+ * is polled on the health endpoint its kit generates, and is restarted with
+ * backoff when it crashes. Services are optional configuration in the
+ * `services` section of `.rapidkit/workspace.json`.
+ */
+
+import { spawn, type ChildProcess } from 'child_process';
+import net from 'net';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { WorkspaceDevError } from './errors.js';
+import { readKitBaseline } from './generators/kit-baseline.js';
+import { readRapidkitProjectJson } from './utils/runtime-detection.js';
+import { isWindowsPlatform } from './utils/platform-capabilities.js';
+import {
+  lineSplitter,
+  type WorkspaceOutputStream,
+  type WorkspaceProject,
+} from './workspace-run.js';
+
+export interface DevServiceConfig {
+  /** Fixed port; otherwise one is picked from the project's own settings. */
+  port?: number;
+  /** Health path polled for readiness, or `false` to only watch the process. */
+  health?: string | false;
+  /** Restart the service when it crashes (default `true`). */
+  restart?: boolean;
+}
+
+/** `services` in workspace.json, keyed by project name, in start order. */
+export type DevServicesConfig = Record<string, DevServiceConfig>;
+
+export interface DevService extends WorkspaceProject {
+  port: number;
+  /** `null` when nothing can be polled; the service counts as ready once started. */
+  healthPath: string | null;
+  restart: boolean;
+}
+
+export type DevServiceStatus =
+  | 'starting'
+  | 'running'
+  | 'ready'
+  | 'unhealthy'
+  | 'restarting'
+  | 'failed'
+  | 'exited'
+  | 'stopped';
+
+export interface DevServiceState {
+  service: DevService;
+  status: DevServiceStatus;
+  pid: number | null;
+  restarts: number;
+  exit_code: number | null;
+}
+
+export interface DevSupervisorOptions {
+  /** CLI entry started as `node <entry> dev` in each project. */
+  entry?: string;
+  readyTimeoutMs?: number;
+  /** Consecutive crashes before a service is given up on. */
+  maxRestarts?: number;
+  /** First restart delay; doubled on every consecutive crash. */
+  backoffMs?: number;
+  color?: boolean;
+  onLine?: (service: DevService, stream: WorkspaceOutputStream, line: string) => void;
+  onStatus?: (state: DevServiceState) => void;
+}
+
+export interface DevSupervisor {
+  states: DevServiceState[];
+  /** Resolves once every service was ready, or to `false` when one was not in time. */
+  ready: Promise<boolean>;
+  /** Resolves when no service is running or waiting to restart. */
+  done: Promise<void>;
+  stop(): Promise<void>;
+}
+
+/** Health endpoints the kits generate, by kit name prefix. */
+const KIT_HEALTH_PATHS: Array<[string, string]> = [
+  ['gofiber.', '/api/v1/health/ready'],
+  ['gogin.', '/api/v1/health/ready'],
+  ['nestjs.', '/health'],
+  ['fastapi.', '/api/health/'],
+];
+
+const RUNTIME_HEALTH_PATHS: Record<string, string> = {
+  go: '/api/v1/health/ready',
+  node: '/health',
+  python: '/api/health/',
+};
+
+const MAX_BACKOFF_MS = 30_000;
+/** A run this long resets the crash count. */
+const STABLE_RUN_MS = 60_000;
+const STOP_GRACE_MS = 5_000;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function parseServiceConfig(name: string, raw: unknown): DevServiceConfig {
+  if (!isPlainObject(raw)) {
+    throw new WorkspaceDevError(`Service "${name}" in workspace.json must be an object`);
+  }
+  const config: DevServiceConfig = {};
+  if (raw.port !== undefined) {
+    const port = raw.port;
+    if (typeof port !== 'number' || !Number.isInteger(port) || port < 1 || port > 65535) {
+      throw new WorkspaceDevError(`Service "${name}": port must be an integer from 1 to 65535`);
+    }
+    config.port = port;
+  }
+  if (raw.health !== undefined) {
+    if (raw.health !== false && (typeof raw.health !== 'string' || !raw.health.startsWith('/'))) {
+      throw new WorkspaceDevError(
+        `Service "${name}": health must be a path starting with "/" or false`
+      );
+    }
+    config.health = raw.health;
+  }
+  if (raw.restart !== undefined) {
+    if (typeof raw.restart !== 'boolean') {
+      throw new WorkspaceDevError(`Service "${name}": restart must be true or false`);
+    }
+    config.restart = raw.restart;
+  }
+  return config;
+}
+
+/** The `services` section of `.rapidkit/workspace.json`; `null` when there is none. */
+export async function loadDevServiceConfig(
+  workspacePath: string
+): Promise<DevServicesConfig | null> {
+  const file = path.join(workspacePath, '.rapidkit', 'workspace.json');
+  let workspaceJson: unknown;
+  try {
+    workspaceJson = JSON.parse(await fs.readFile(file, 'utf-8'));
+  } catch {
+    return null;
+  }
+  if (!isPlainObject(workspaceJson) || workspaceJson.services === undefined) return null;
+  if (!isPlainObject(workspaceJson.services)) {
+    throw new WorkspaceDevError('"services" in workspace.json must map project names to settings');
+  }
+  const services: DevServicesConfig = {};
+  for (const [name, raw] of Object.entries(workspaceJson.services)) {
+    services[name] = parseServiceConfig(name, raw);
+  }
+  return services;
+}
+
+/**
+ * Projects to start: the configured services in their declared order, or every
+ * project with a known runtime when there is no `services` section.
+ */
+export function selectDevProjects(
+  projects: WorkspaceProject[],
+  config: DevServicesConfig | null
+): WorkspaceProject[] {
+  if (!config) return projects.filter((project) => project.runtime !== 'unknown');
+  return Object.keys(config).map((name) => {
+    const project = projects.find((candidate) => candidate.name === name);
+    if (!project) {
+      throw new WorkspaceDevError(
+        `Service "${name}" in workspace.json is not a project of this workspace`
+      );
+    }
+    if (project.runtime === 'unknown') {
+      throw new WorkspaceDevError(`Service "${name}" has no runtime RapidKit can start`);
+    }
+    return project;
+  });
+}
+
+async function readKitName(project: WorkspaceProject): Promise<string | undefined> {
+  const baseline = await readKitBaseline(project.path);
+  if (baseline) return baseline.kit_name;
+  const kitName = readRapidkitProjectJson(project.path)?.kit_name;
+  return typeof kitName === 'string' ? kitName : undefined;
+}
+
+export async function defaultHealthPath(project: WorkspaceProject): Promise<string | null> {
+  const kitName = await readKitName(project);
+  const byKit = kitName && KIT_HEALTH_PATHS.find(([prefix]) => kitName.startsWith(prefix));
+  if (byKit) return byKit[1];
+  return RUNTIME_HEALTH_PATHS[project.runtime] ?? null;
+}
+
+function toPort(value: unknown): number | undefined {
+  const port = typeof value === 'string' ? Number(value.trim()) : value;
+  return typeof port === 'number' && Number.isInteger(port) && port > 0 && port <= 65535
+    ? port
+    : undefined;
+}
+
+/** Port the project uses on its own: its `port` kit variable, `PORT` in .env, or the runtime default. */
+export async function preferredPort(project: WorkspaceProject): Promise<number> {
+  const fromKit = toPort((await readKitBaseline(project.path))?.variables.port);
+  if (fromKit) return fromKit;
+  for (const file of ['.env', '.env.example']) {
+    let content: string;
+    try {
+      content = await fs.readFile(path.join(project.path, file), 'utf-8');
+    } catch {
+      continue;
+    }
+    const fromEnv = toPort(/^\s*PORT\s*=\s*["']?(\d+)/m.exec(content)?.[1]);
+    if (fromEnv) return fromEnv;
+  }
+  return project.runtime === 'python' ? 8000 : 3000;
+}
+
+export function isPortFree(port: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const server = net.createServer();
+    server.once('error', () => resolve(false));
+    server.once('listening', () => server.close(() => resolve(true)));
+    server.listen(port);
+  });
+}
+
+/**
+ * Give every service a port. Configured ports are kept as they are; the rest
+ * start from the project's preferred port and move up past ports already
+ * handed out or in use on this machine.
+ */
+export async function planDevServices(
+  projects: WorkspaceProject[],
+  config: DevServicesConfig | null,
+  options: { isPortFree?: (port: number) => Promise<boolean> } = {}
+): Promise<DevService[]> {
+  const portFree = options.isPortFree ?? isPortFree;
+  const taken = new Map<number, string>();
+  for (const project of projects) {
+    const port = config?.[project.name]?.port;
+    if (port === undefined) continue;
+    const owner = taken.get(port);
+    if (owner) {
+      throw new WorkspaceDevError(
+        `Services "${owner}" and "${project.name}" both use port ${port}`
+      );
+    }
+    taken.set(port, project.name);
+  }
+
+  const services: DevService[] = [];
+  for (const project of projects) {
+    const settings = config?.[project.name] ?? {};
+    let port = settings.port;
+    if (port === undefined) {
+      port = await preferredPort(project);
+      while (taken.has(port) || !(await portFree(port))) port++;
+      taken.set(port, project.name);
+    }
+    services.push({
+      ...project,
+      port,
+      healthPath:
+        settings.health === false ? null : (settings.health ?? (await defaultHealthPath(project))),
+      restart: settings.restart ?? true,
+    });
+  }
+  return services;
+}
+
+export function healthUrl(service: DevService): string | null {
+  return service.healthPath ? `http://127.0.0.1:${service.port}${service.healthPath}` : null;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Poll `url` until it answers with a 2xx status; `false` on timeout or cancellation. */
+export async function waitForHealthy(
+  url: string,
+  options: { timeoutMs: number; intervalMs?: number; isCancelled?: () => boolean }
+): Promise<boolean> {
+  const deadline = Date.now() + options.timeoutMs;
+  while (!options.isCancelled?.()) {
+    try {
+      const response = await fetch(url, { signal: AbortSignal.timeout(2_000) });
+      if (response.ok) return true;
+    } catch {
+      // Not listening yet.
+    }
+    if (Date.now() >= deadline) return false;
+    await sleep(options.intervalMs ?? 500);
+  }
+  return false;
+}
+
+/** Signal the service and everything it started (`go run`, `nest start`, uvicorn, ...). */
+function killTree(child: ChildProcess, signal: NodeJS.Signals): void {
+  if (!child.pid) return;
+  try {
+    if (isWindowsPlatform()) {
+      spawn('taskkill', ['/pid', String(child.pid), '/T', '/F'], { stdio: 'ignore' });
+    } else {
+      process.kill(-child.pid, signal);
+    }
+  } catch {
+    // Already gone.
+  }
+}
+
+/**
+ * Start every service and keep it running until `stop()`. A service that
+ * exits with a non-zero code is restarted after an exponential backoff, up to
+ * `maxRestarts` consecutive crashes; one that exits cleanly stays down.
+ */
+export function superviseDevServices(
+  services: DevService[],
+  options: DevSupervisorOptions = {}
+): DevSupervisor {
+  const entry = options.entry ?? process.argv[1];
+  const readyTimeoutMs = options.readyTimeoutMs ?? 120_000;
+  const maxRestarts = options.maxRestarts ?? 5;
+  const backoffMs = options.backoffMs ?? 1_000;
+  const startedAt = Date.now();
+  let stopping = false;
+
+  const states: DevServiceState[] = services.map((service) => ({
+    service,
+    status: 'starting',
+    pid: null,
+    restarts: 0,
+    exit_code: null,
+  }));
+  const children = new Map<DevServiceState, ChildProcess>();
+  const exits = new Map<DevServiceState, Promise<void>>();
+  const timers = new Map<DevServiceState, NodeJS.Timeout>();
+  const readiness = states.map(() => {
+    let resolve!: (ready: boolean) => void;
+    const promise = new Promise<boolean>((settle) => (resolve = settle));
+    const entry = {
+      settled: false,
+      promise,
+      settle(ready: boolean) {
+        entry.settled = true;
+        resolve(ready);
+      },
+    };
+    return entry;
+  });
+  let finish!: () => void;
+  const done = new Promise<void>((resolve) => (finish = resolve));
+
+  const setStatus = (state: DevServiceState, status: DevServiceStatus) => {
+    state.status = status;
+    options.onStatus?.(state);
+  };
+  const settleIfIdle = () => {
+    if (children.size === 0 && timers.size === 0) finish();
+  };
+
+  const launch = (state: DevServiceState, index: number, crashes: number) => {
+    const { service } = state;
+    // The Python core takes the port as an argument rather than from PORT.
+    const portArgs = service.runtime === 'python' ? ['--port', String(service.port)] : [];
+    const child = spawn(process.execPath, [entry, 'dev', ...portArgs], {
+      cwd: service.path,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      // Its own process group, so the whole tree can be signalled and a
+      // terminal Ctrl-C reaches the supervisor first.
+      detached: !isWindowsPlatform(),
+      env: {
+        ...process.env,
+        PORT: String(service.port),
+        ...(options.color ? { FORCE_COLOR: '1' } : {}),
+      },
+    });
+    const launchedAt = Date.now();
+    children.set(state, child);
+    state.pid = child.pid ?? null;
+    setStatus(state, 'starting');
+
+    const stdout = lineSplitter((line) => options.onLine?.(service, 'stdout', line));
+    const stderr = lineSplitter((line) => options.onLine?.(service, 'stderr', line));
+    child.stdout?.on('data', (chunk) => stdout.push(chunk));
+    child.stderr?.on('data', (chunk) => stderr.push(chunk));
+
+    let exited = false;
+    exits.set(
+      state,
+      new Promise<void>((resolve) => {
+        const onExit = (code: number | null) => {
+          if (exited) return;
+          exited = true;
+          stdout.flush();
+          stderr.flush();
+          // The wrapper is gone; take down anything it left holding the port.
+          killTree(child, 'SIGTERM');
+          children.delete(state);
+          state.pid = null;
+          state.exit_code = code ?? 1;
+          handleExit(state, index, state.exit_code, Date.now() - launchedAt, crashes);
+          resolve();
+        };
+        child.on('error', (error) => {
+          options.onLine?.(service, 'stderr', error.message);
+          onExit(1);
+        });
+        child.on('close', onExit);
+      })
+    );
+
+    const url = healthUrl(service);
+    if (!url) {
+      setStatus(state, 'running');
+      readiness[index].settle(true);
+      return;
+    }
+    // Until the first ready, the deadline counts from the start of the session.
+    const remaining = readyTimeoutMs - (Date.now() - startedAt);
+    void waitForHealthy(url, {
+      timeoutMs: readiness[index].settled ? readyTimeoutMs : Math.max(remaining, 0),
+      isCancelled: () => exited || stopping,
+    }).then((healthy) => {
+      if (exited || stopping) return;
+      setStatus(state, healthy ? 'ready' : 'unhealthy');
+      readiness[index].settle(healthy);
+    });
+  };
+
+  const handleExit = (
+    state: DevServiceState,
+    index: number,
+    code: number,
+    ranForMs: number,
+    crashes: number
+  ) => {
+    if (stopping) {
+      setStatus(state, 'stopped');
+    } else if (code === 0) {
+      setStatus(state, 'exited');
+      readiness[index].settle(false);
+    } else {
+      const consecutive = ranForMs >= STABLE_RUN_MS ? 1 : crashes + 1;
+      if (!state.service.restart || consecutive > maxRestarts) {
+        setStatus(state, 'failed');
+        readiness[index].settle(false);
+      } else {
+        state.restarts++;
+        setStatus(state, 'restarting');
+        const delay = Math.min(backoffMs * 2 ** (consecutive - 1), MAX_BACKOFF_MS);
+        timers.set(
+          state,
+          setTimeout(() => {
+            timers.delete(state);
+            launch(state, index, consecutive);
+          }, delay)
+        );
+      }
+    }
+    settleIfIdle();
+  };
+
+  states.forEach((state, index) => launch(state, index, 0));
+  if (states.length === 0) finish();
+
+  const stop = async () => {
+    if (stopping) return done;
+    stopping = true;
+    for (const [state, timer] of timers) {
+      clearTimeout(timer);
+      timers.delete(state);
+      setStatus(state, 'stopped');
+    }
+    readiness.forEach(({ settle }) => settle(false));
+    await Promise.all(
+      [...children].map(async ([state, child]) => {
+        killTree(child, 'SIGTERM');
+        const exit = exits.get(state);
+        let grace: NodeJS.Timeout | undefined;
+        const timedOut = await Promise.race([
+          exit?.then(() => false),
+          new Promise<boolean>(
+            (resolve) => (grace = setTimeout(() => resolve(true), STOP_GRACE_MS))
+          ),
+        ]);
+        clearTimeout(grace);
+        if (timedOut) killTree(child, 'SIGKILL');
+        await exit;
+      })
+    );
+    settleIfIdle();
+    return done;
+  };
+
+  return {
+    states,
+    ready: Promise.all(readiness.map(({ promise }) => promise)).then((all) => all.every(Boolean)),
+    done,
+    stop,
+  };
+}
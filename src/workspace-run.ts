@@ -0,0 +1,302 @@
+/**
+ * Workspace-wide task runner.
+ *
+ * `rapidkit run <test|build|lint> --all` runs a lifecycle command in every
+ * project of a workspace, a few at a time. Each project runs as its own
+ * `rapidkit <action>` process inside the project directory, so it takes the
+ * same path as running the command there by hand: the runtime adapter for its
+ * kit, the effective dependency policy and the strict-policy pre-flight. The
+ * adapters point cache variables (GOMODCACHE, npm_config_cache, ...) at the
+ * project while they run, which would leak between projects sharing one
+ * process.
+ */
+
+import { spawn } from 'child_process';
+import os from 'os';
+import path from 'path';
+import { execa } from 'execa';
+import { globToRegExp } from './template-kits.js';
+import type { RuntimeName } from './runtime-adapters/types.js';
+import { detectRuntimePlugin } from './runtime-adapters/plugins.js';
+import {
+  isGoProject,
+  isNodeProject,
+  isPythonProject,
+  readRapidkitProjectJson,
+} from './utils/runtime-detection.js';
+
+export const WORKSPACE_RUN_ACTIONS = ['test', 'build', 'lint'] as const;
+
+export type WorkspaceRunAction = (typeof WORKSPACE_RUN_ACTIONS)[number];
+
+export interface WorkspaceProject {
+  /** Path relative to the workspace root, with `/` separators. */
+  name: string;
+  path: string;
+  runtime: RuntimeName | 'unknown';
+}
+
+export interface WorkspaceProjectSelection {
+  /** Comma-separated globs matched against project names. */
+  filter?: string;
+  /** Git ref; only projects with changes since it are selected. */
+  changedSince?: string;
+}
+
+export interface WorkspaceProjectSelectionResult {
+  projects: WorkspaceProject[];
+  /** Projects `changedSince` could not be checked for; they are selected anyway. */
+  unchecked: string[];
+}
+
+export type WorkspaceOutputStream = 'stdout' | 'stderr';
+
+/** Runs `action` in one project, reporting output line by line; resolves to the exit code. */
+export type WorkspaceTaskRunner = (
+  project: WorkspaceProject,
+  action: WorkspaceRunAction,
+  onLine: (stream: WorkspaceOutputStream, line: string) => void
+) => Promise<number>;
+
+export interface WorkspaceTaskResult {
+  project: string;
+  path: string;
+  runtime: WorkspaceProject['runtime'];
+  /** `skipped` when a project it depends on did not pass. */
+  status: 'passed' | 'failed' | 'skipped';
+  exit_code: number | null;
+  duration_ms: number;
+}
+
+export interface WorkspaceRunOptions {
+  concurrency?: number;
+  runner?: WorkspaceTaskRunner;
+  onLine?: (project: WorkspaceProject, stream: WorkspaceOutputStream, line: string) => void;
+  /** Project name → names it depends on; selected dependencies run first. */
+  dependencies?: Record<string, string[]>;
+}
+
+export function isWorkspaceRunAction(value: string | undefined): value is WorkspaceRunAction {
+  return !!value && (WORKSPACE_RUN_ACTIONS as readonly string[]).includes(value);
+}
+
+export function defaultWorkspaceConcurrency(): number {
+  return Math.max(1, Math.min(4, os.availableParallelism()));
+}
+
+export function describeWorkspaceProject(
+  workspacePath: string,
+  projectPath: string
+): WorkspaceProject {
+  const projectJson = readRapidkitProjectJson(projectPath);
+  // Same precedence as the lifecycle commands.
+  const plugin = detectRuntimePlugin(projectJson, projectPath);
+  const runtime = plugin
+    ? plugin.runtime
+    : isGoProject(projectJson, projectPath)
+      ? 'go'
+      : isNodeProject(projectJson, projectPath)
+        ? 'node'
+        : isPythonProject(projectJson, projectPath)
+          ? 'python'
+          : 'unknown';
+  return {
+    name: path.relative(workspacePath, projectPath).split(path.sep).join('/'),
+    path: projectPath,
+    runtime,
+  };
+}
+
+export function matchesProjectFilter(name: string, filter: string): boolean {
+  return filter
+    .split(',')
+    .map((glob) => glob.trim())
+    .filter(Boolean)
+    .some((glob) => globToRegExp(glob).test(name));
+}
+
+/** RapidKit's own state in a project, which is not a change to it. */
+const CHANGE_PATHSPEC = ['.', ':(exclude).rapidkit/cache', ':(exclude).rapidkit/reports'];
+
+/**
+ * Whether anything under `projectPath` differs from `ref`: tracked changes,
+ * committed or not, and untracked files. `null` when git cannot tell (not a
+ * repository, unknown ref). Works both for one repository holding the whole
+ * workspace and for projects that are repositories of their own.
+ */
+export async function projectChangedSince(
+  projectPath: string,
+  ref: string
+): Promise<boolean | null> {
+  const git = (args: string[]) =>
+    execa('git', [...args, '--', ...CHANGE_PATHSPEC], { cwd: projectPath, reject: false });
+
+  const diff = await git(['diff', '--quiet', ref]);
+  if (diff.exitCode === 1) return true;
+  if (diff.exitCode !== 0) return null;
+
+  const untracked = await git(['ls-files', '--others', '--exclude-standard']);
+  if (untracked.exitCode !== 0) return null;
+  return untracked.stdout.trim() !== '';
+}
+
+export async function selectWorkspaceProjects(
+  workspacePath: string,
+  projectPaths: string[],
+  selection: WorkspaceProjectSelection = {}
+): Promise<WorkspaceProjectSelectionResult> {
+  let projects = projectPaths
+    .map((projectPath) => describeWorkspaceProject(workspacePath, projectPath))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const { filter, changedSince } = selection;
+  if (filter) {
+    projects = projects.filter((project) => matchesProjectFilter(project.name, filter));
+  }
+
+  const unchecked: string[] = [];
+  if (changedSince) {
+    const changed: WorkspaceProject[] = [];
+    for (const project of projects) {
+      const state = await projectChangedSince(project.path, changedSince);
+      if (state === null) unchecked.push(project.name);
+      if (state !== false) changed.push(project);
+    }
+    projects = changed;
+  }
+
+  return { projects, unchecked };
+}
+
+/** Split a stream into lines, holding back a trailing partial line until `flush`. */
+export function lineSplitter(onLine: (line: string) => void) {
+  let pending = '';
+  return {
+    push(chunk: Buffer | string) {
+      const lines = (pending + chunk.toString()).split(/\r?\n/);
+      pending = lines.pop() ?? '';
+      for (const line of lines) onLine(line);
+    },
+    flush() {
+      if (pending) onLine(pending);
+      pending = '';
+    },
+  };
+}
+
+/**
+ * Runner that starts `node <entry> <action>` in the project directory, where
+ * `entry` is this CLI. Colors are kept when `color` is set even though the
+ * child writes to a pipe.
+ */
+export function cliTaskRunner(
+  entry: string = process.argv[1],
+  options: { color?: boolean } = {}
+): WorkspaceTaskRunner {
+  return (project, action, onLine) =>
+    new Promise<number>((resolve) => {
+      const child = spawn(process.execPath, [entry, action], {
+        cwd: project.path,
+        stdio: ['ignore', 'pipe', 'pipe'],
+        env: { ...process.env, ...(options.color ? { FORCE_COLOR: '1' } : {}) },
+      });
+      const stdout = lineSplitter((line) => onLine('stdout', line));
+      const stderr = lineSplitter((line) => onLine('stderr', line));
+      child.stdout.on('data', (chunk) => stdout.push(chunk));
+      child.stderr.on('data', (chunk) => stderr.push(chunk));
+      child.on('error', (error) => {
+        onLine('stderr', error.message);
+        resolve(1);
+      });
+      child.on('close', (code) => {
+        stdout.flush();
+        stderr.flush();
+        resolve(code ?? 1);
+      });
+    });
+}
+
+/**
+ * Run `action` in every project, at most `concurrency` at once. Results keep
+ * the order of `projects`; one failing project does not stop the others, but
+ * projects depending on it (through `dependencies`) are skipped. The graph
+ * must be acyclic.
+ */
+export async function runWorkspaceTask(
+  projects: WorkspaceProject[],
+  action: WorkspaceRunAction,
+  options: WorkspaceRunOptions = {}
+): Promise<WorkspaceTaskResult[]> {
+  const runner = options.runner ?? cliTaskRunner();
+  const concurrency = Math.max(1, options.concurrency ?? defaultWorkspaceConcurrency());
+  const results: WorkspaceTaskResult[] = new Array(projects.length);
+  const selected = new Map(projects.map((project, index) => [project.name, index]));
+  const waitingOn = projects.map((project) =>
+    (options.dependencies?.[project.name] ?? [])
+      .map((name) => selected.get(name))
+      .filter((index): index is number => index !== undefined)
+  );
+  const taken = new Set<number>();
+  const waiting: Array<() => void> = [];
+  const wake = () => waiting.splice(0).forEach((resume) => resume());
+
+  /** Next project whose dependencies are done; `null` when all started, `undefined` to wait. */
+  const take = (): number | null | undefined => {
+    if (taken.size === projects.length) return null;
+    for (let index = 0; index < projects.length; index++) {
+      if (taken.has(index)) continue;
+      if (waitingOn[index].every((dependency) => results[dependency])) return index;
+    }
+    return undefined;
+  };
+
+  const worker = async () => {
+    while (true) {
+      const index = take();
+      if (index === null) return;
+      if (index === undefined) {
+        await new Promise<void>((resolve) => waiting.push(resolve));
+        continue;
+      }
+      taken.add(index);
+      const project = projects[index];
+      const blockedBy = waitingOn[index].find(
+        (dependency) => results[dependency].status !== 'passed'
+      );
+      if (blockedBy !== undefined) {
+        results[index] = {
+          project: project.name,
+          path: project.path,
+          runtime: project.runtime,
+          status: 'skipped',
+          exit_code: null,
+          duration_ms: 0,
+        };
+        options.onLine?.(project, 'stderr', `Skipped: ${projects[blockedBy].name} did not pass`);
+        wake();
+        continue;
+      }
+      const started = Date.now();
+      let exitCode: number;
+      try {
+        exitCode = await runner(project, action, (stream, line) =>
+          options.onLine?.(project, stream, line)
+        );
+      } catch (error) {
+        options.onLine?.(project, 'stderr', (error as Error).message);
+        exitCode = 1;
+      }
+      results[index] = {
+        project: project.name,
+        path: project.path,
+        runtime: project.runtime,
+        status: exitCode === 0 ? 'passed' : 'failed',
+        exit_code: exitCode,
+        duration_ms: Date.now() - started,
+      };
+      wake();
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, projects.length) }, worker));
+  return results;
+}
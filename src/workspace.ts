@@ -86,7 +86,7 @@ function normalizeRegistry(registry: WorkspaceRegistry): WorkspaceRegistry {
  * Register workspace in shared registry (~/.rapidkit/workspaces.json)
  * This enables VS Code Extension to discover workspaces created via npm
  */
-export async function registerWorkspace(workspacePath: string, name: string): Promise<void> {
+export async function registerWorkspace(workspacePath: string, name: string): Promise<boolean> {
   try {
     const normalizedWorkspacePath = normalizeRegistryPath(workspacePath);
     const registryDir = getWorkspaceRegistryDirectory();
@@ -119,17 +119,62 @@ export async function registerWorkspace(workspacePath: string, name: string): Pr
       });
 
       await fs.writeFile(registryFile, JSON.stringify(registry, null, 2));
+      return true;
     }
   } catch (_error) {
     // Silent fail - registry is optional
     console.warn(chalk.gray('Note: Could not register workspace in shared registry'));
   }
+  return false;
 }
 
 /**
- * Register a project in its workspace's registry entry
- * Updates the projects array in the workspace registry
+ * Rewrite the shared registry through `update`, which returns whether it
+ * changed anything. Used to undo registrations when creation fails.
  */
+async function updateWorkspaceRegistry(
+  update: (registry: WorkspaceRegistry) => boolean
+): Promise<void> {
+  const registryFile = path.join(getWorkspaceRegistryDirectory(), 'workspaces.json');
+  let registry: WorkspaceRegistry;
+  try {
+    const parsed = JSON.parse(await fs.readFile(registryFile, 'utf8')) as WorkspaceRegistry;
+    if (!parsed || !Array.isArray(parsed.workspaces)) return;
+    registry = normalizeRegistry(parsed);
+  } catch {
+    return;
+  }
+  if (update(registry)) {
+    await fs.writeFile(registryFile, JSON.stringify(registry, null, 2));
+  }
+}
+
+/** Remove a workspace entry added by `registerWorkspace`. */
+export async function unregisterWorkspace(workspacePath: string): Promise<void> {
+  const normalizedWorkspacePath = normalizeRegistryPath(workspacePath);
+  await updateWorkspaceRegistry((registry) => {
+    const before = registry.workspaces.length;
+    registry.workspaces = registry.workspaces.filter((w) => w.path !== normalizedWorkspacePath);
+    return registry.workspaces.length !== before;
+  });
+}
+
+/** Remove a project entry added by `registerProjectInWorkspace`. */
+export async function unregisterProjectFromWorkspace(
+  workspacePath: string,
+  projectPath: string
+): Promise<void> {
+  const normalizedWorkspacePath = normalizeRegistryPath(workspacePath);
+  const normalizedProjectPath = normalizeRegistryPath(projectPath);
+  await updateWorkspaceRegistry((registry) => {
+    const workspace = registry.workspaces.find((w) => w.path === normalizedWorkspacePath);
+    if (!workspace) return false;
+    const before = workspace.projects.length;
+    workspace.projects = workspace.projects.filter((p) => p.path !== normalizedProjectPath);
+    return workspace.projects.length !== before;
+  });
+}
+
 /**
  * Scan workspace directory and register all projects that have .rapidkit/context.json
  */
@@ -224,11 +269,15 @@ export async function syncWorkspaceProjects(workspacePath: string, silent = fals
   }
 }
 
+/**
+ * Register a project in its workspace's registry entry.
+ * Returns whether an entry was added (false if already listed or no registry).
+ */
 export async function registerProjectInWorkspace(
   workspacePath: string,
   projectName: string,
   projectPath: string
-): Promise<void> {
+): Promise<boolean> {
   try {
     const normalizedWorkspacePath = normalizeRegistryPath(workspacePath);
     const normalizedProjectPath = normalizeRegistryPath(projectPath);
@@ -246,14 +295,14 @@ export async function registerProjectInWorkspace(
       }
     } catch (_error) {
       // Registry doesn't exist - silently return
-      return;
+      return false;
     }
 
     // Find workspace
     const workspace = registry.workspaces.find((w) => w.path === normalizedWorkspacePath);
     if (!workspace) {
       // Workspace not registered - silently return
-      return;
+      return false;
     }
 
     // Initialize projects array if needed
@@ -274,10 +323,12 @@ export async function registerProjectInWorkspace(
 
       // Write back to registry
       await fs.writeFile(registryFile, JSON.stringify(registry, null, 2));
+      return true;
     }
   } catch (_error) {
     // Silent fail - registry tracking is optional
   }
+  return false;
 }
 
 export async function createWorkspace(
@@ -1110,6 +1161,9 @@ async function copyAndRenderTemplate(
   const entries = await fs.readdir(src, { withFileTypes: true });
 
   for (const entry of entries) {
+    // The kit manifest describes the template; it is not part of the project.
+    if (entry.name === 'kit.yaml') continue;
+
     const srcPath = path.join(src, entry.name);
     const destName = entry.name.replace(/\.j2$/, '');
     const destPath = path.join(dest, destName);
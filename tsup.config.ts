@@ -40,6 +40,8 @@ export default defineConfig({
     'ora',
     'cli-progress',
     'validate-npm-package-name',
+    'yaml',
+    'ajv',
   ],
 
   // TypeScript declaration files